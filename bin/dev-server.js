@@ -18,6 +18,9 @@ const { watch } = require('fs');
 const PORT = process.env.PORT || 8081;
 const HOST = process.env.HOST || '0.0.0.0';
 
+// Bridge protocol version (BRIDGE_PROTOCOL_VERSION in the npm package)
+const PROTOCOL_VERSION = 1;
+
 // Connected clients
 const clients = new Set();
 
@@ -55,7 +58,15 @@ const server = http.createServer((req, res) => {
       handleHotUpdate(req, res);
       break;
 
+    case '/replay':
+      handleReplay(req, res, url);
+      break;
+
     default:
+      if (url.pathname.startsWith('/recordings/') && req.method === 'POST') {
+        handleRecording(req, res, url);
+        break;
+      }
       res.writeHead(404);
       res.end('Not found');
   }
@@ -117,7 +128,27 @@ function handleClientMessage(client, message) {
 
     switch (data.type) {
       case 'connected':
-        client.send({ type: 'welcome', payload: { version: '1.0.0' } });
+        client.send({ type: 'welcome', payload: { version: '1.0.0', protocolVersion: PROTOCOL_VERSION } });
+        break;
+
+      case 'handshake':
+        if (data.payload.protocolVersion !== PROTOCOL_VERSION) {
+          console.warn(
+            `[DevServer] App speaks bridge protocol v${data.payload.protocolVersion}, ` +
+            `dev server speaks v${PROTOCOL_VERSION}`
+          );
+        }
+        // The dev server renders nothing, so it reports no capabilities
+        client.send({
+          id: data.id,
+          success: true,
+          data: { protocolVersion: PROTOCOL_VERSION, capabilities: [], runtime: 'dev-server' },
+        });
+        break;
+
+      case 'negotiateEncoding':
+        // Only JSON text frames are parsed here, so decline compact encoding
+        client.send({ id: data.id, success: true, data: { encoding: 'json' } });
         break;
 
       case 'log':
@@ -170,6 +201,84 @@ function handleHotUpdate(req, res) {
   });
 }
 
+// Append NDJSON lines posted by a BridgeRecorder to recordings/<name>.ndjson
+function handleRecording(req, res, url) {
+  const name = decodeURIComponent(url.pathname.slice('/recordings/'.length));
+
+  if (!/^[\w.-]+$/.test(name) || name.startsWith('.')) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: false, error: 'Invalid recording name' }));
+    return;
+  }
+
+  let body = '';
+
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+
+  req.on('end', () => {
+    const dir = path.join(process.cwd(), 'recordings');
+    const file = path.join(dir, `${name}.ndjson`);
+
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.appendFileSync(file, body.endsWith('\n') || body === '' ? body : `${body}\n`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true, file: path.relative(process.cwd(), file) }));
+    } catch (error) {
+      console.error('[DevServer] Failed to write recording:', error.message);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: false, error: error.message }));
+    }
+  });
+}
+
+// Replay the inbound events of a posted NDJSON recording to all clients
+function handleReplay(req, res, url) {
+  if (req.method !== 'POST') {
+    res.writeHead(405);
+    res.end('Method not allowed');
+    return;
+  }
+
+  const speed = Number(url.searchParams.get('speed') ?? '1');
+  let body = '';
+
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+
+  req.on('end', () => {
+    let events;
+    try {
+      events = body
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line))
+        .filter((entry) => entry.direction === 'inbound' && entry.message && entry.message.type);
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: false, error: `Invalid recording: ${error.message}` }));
+      return;
+    }
+
+    console.log(`[DevServer] Replaying ${events.length} events to ${clients.size} client(s)`);
+
+    const start = events.length > 0 ? events[0].time : 0;
+    for (const entry of events) {
+      const delay = speed > 0 ? (entry.time - start) / speed : 0;
+      setTimeout(() => {
+        const { type, payload } = entry.message;
+        broadcast({ type, payload });
+      }, delay);
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true, events: events.length, clients: clients.size }));
+  });
+}
+
 // Broadcast message to all connected clients
 function broadcast(data) {
   for (const client of clients) {
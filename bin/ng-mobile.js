@@ -329,6 +329,69 @@ program
     console.log(chalk.green('\n✓ Linking completed!'));
   });
 
+/**
+ * Replay a recorded bridge session
+ */
+program
+  .command('replay <file>')
+  .description('Replay a bridge recording (NDJSON) to reproduce its viewEvents')
+  .option('-t, --target <target>', 'Replay into the mock native runtime (native) or a running app via the dev server (app)', 'native')
+  .option('-s, --speed <speed>', 'Playback speed multiplier (0 = no delays)', '1')
+  .option('--port <port>', 'Dev server port (app target)', '8081')
+  .option('--tree', 'Print the resulting view tree (native target)')
+  .action(async (file, options) => {
+    console.log(banner);
+
+    const filePath = path.resolve(process.cwd(), file);
+    const speed = Number(options.speed);
+
+    try {
+      if (!(await fs.pathExists(filePath))) {
+        throw new Error(`Recording not found: ${file}`);
+      }
+      if (!Number.isFinite(speed) || speed < 0) {
+        throw new Error(`Invalid speed: ${options.speed}`);
+      }
+
+      const ndjson = await fs.readFile(filePath, 'utf8');
+
+      if (options.target === 'app') {
+        await replayToApp(ndjson, speed, options.port);
+      } else if (options.target === 'native') {
+        await replayToNative(ndjson, speed, options.tree);
+      } else {
+        throw new Error(`Unknown target: ${options.target} (expected native or app)`);
+      }
+    } catch (error) {
+      console.error(chalk.red('Replay failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Compile component stylesheets
+ */
+program
+  .command('compile-styles [dir]')
+  .description('Compile component .css/.scss files into native style modules')
+  .option('--check', 'Report diagnostics without writing style modules')
+  .action(async (dir, options) => {
+    console.log(banner);
+
+    try {
+      const { files, errors, warnings } = await compileStyles(path.resolve(process.cwd(), dir || 'src'), !options.check);
+      console.log(chalk.gray(`\n  ${files} stylesheets, ${errors} errors, ${warnings} warnings`));
+
+      if (errors > 0) {
+        process.exit(1);
+      }
+      console.log(chalk.green('\n✓ Styles compiled!'));
+    } catch (error) {
+      console.error(chalk.red('Style compilation failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
 // Helper functions
 
 async function createMinimalProject(projectPath, projectName, platforms, options) {
@@ -446,6 +509,15 @@ export class AppComponent {
 async function buildProject(platform, release, aab) {
   console.log(chalk.gray(`Building ${release ? 'release' : 'debug'} for ${platform}...`));
 
+  // Compile component stylesheets into native style modules
+  const srcDir = path.join(process.cwd(), 'src');
+  if (await fs.pathExists(srcDir)) {
+    const { errors } = await compileStyles(srcDir, true);
+    if (errors > 0) {
+      throw new Error(`Style compilation failed with ${errors} errors`);
+    }
+  }
+
   // Build TypeScript
   execSync('npx tsc', { stdio: 'inherit' });
 
@@ -464,6 +536,62 @@ async function buildProject(platform, release, aab) {
   }
 }
 
+async function findStylesheets(dir) {
+  const files = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+        files.push(...(await findStylesheets(entryPath)));
+      }
+    } else if (/\.s?css$/.test(entry.name)) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Compile every .css/.scss file under a directory with the library's
+ * compileCss, printing diagnostics and (optionally) writing a
+ * `<name>.styles.ts` module next to each stylesheet (a `<name>.css.ts`
+ * module would shadow the stylesheet in `import './<name>.css'`)
+ */
+async function compileStyles(dir, write) {
+  const distPath = path.join(__dirname, '..', 'dist', 'index.js');
+  if (!(await fs.pathExists(distPath))) {
+    throw new Error('Library not built. Run "npm run build" first.');
+  }
+
+  const { compileCss, formatCssDiagnostic } = require(distPath);
+  const files = await findStylesheets(dir);
+  let errors = 0;
+  let warnings = 0;
+
+  for (const file of files) {
+    const relative = path.relative(process.cwd(), file);
+    const { styles, diagnostics } = compileCss(await fs.readFile(file, 'utf8'), { file: relative });
+
+    for (const diagnostic of diagnostics) {
+      const color = diagnostic.severity === 'error' ? chalk.red : chalk.yellow;
+      console.log(color(`  ${formatCssDiagnostic(diagnostic)}`));
+      diagnostic.severity === 'error' ? errors++ : warnings++;
+    }
+
+    if (write) {
+      const module = `// Generated by "ng-mobile compile-styles" from ${path.basename(file)}. Do not edit.
+import type { NativeStyle, ResponsiveStyle } from 'angular-platform-mobile';
+
+export const styles: Record<string, ResponsiveStyle<NativeStyle>> = ${JSON.stringify(styles, null, 2)};
+`;
+      await fs.writeFile(file.replace(/\.s?css$/, '.styles.ts'), module);
+      console.log(chalk.gray(`  Compiled: ${relative}`));
+    }
+  }
+
+  return { files: files.length, errors, warnings };
+}
+
 async function runAndroid(options) {
   const device = options.device ? '-d' : (options.emulator ? `-s ${options.emulator}` : '');
   const apkPath = options.release
@@ -485,4 +613,54 @@ async function runIOS(options) {
   }
 }
 
+async function replayToNative(ndjson, speed, printTree) {
+  const distPath = path.join(__dirname, '..', 'dist', 'index.js');
+  if (!(await fs.pathExists(distPath))) {
+    throw new Error('Library not built. Run "npm run build" first.');
+  }
+
+  const { MockNativeRuntime, parseBridgeRecording, replayBridgeRecording } = require(distPath);
+  const entries = parseBridgeRecording(ndjson);
+  const runtime = new MockNativeRuntime({ synchronous: true });
+
+  console.log(chalk.blue(`Replaying ${entries.length} recorded messages into the mock native runtime...\n`));
+
+  const result = await replayBridgeRecording(entries, runtime, {
+    target: 'native',
+    speed,
+    onEntry: (entry) => {
+      const { message } = entry;
+      if (entry.direction === 'inbound' && message.type === 'viewEvent') {
+        const { viewId, eventType } = message.payload;
+        console.log(chalk.yellow(`  [${entry.time}ms] viewEvent ${eventType} → ${viewId}`));
+      }
+    },
+  });
+
+  console.log(chalk.green(`\n✓ Replayed ${result.replayed} messages (${result.viewEvents.length} viewEvents)`));
+  console.log(chalk.gray(`  Views: ${runtime.getViewCount()}`));
+
+  if (printTree) {
+    console.log(JSON.stringify(runtime.toJSON(), null, 2));
+  }
+}
+
+async function replayToApp(ndjson, speed, port) {
+  const url = `http://localhost:${port}/replay?speed=${speed}`;
+  console.log(chalk.blue(`Sending recording to the dev server at ${url}...`));
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-ndjson' },
+    body: ndjson,
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  console.log(chalk.green(`✓ Replaying ${result.events} events to ${result.clients} connected client(s)`));
+}
+
 program.parse();
@@ -0,0 +1,60 @@
+package dev.quinnjr.angularmobile
+
+import android.content.Context
+import android.database.ContentObserver
+import android.os.Handler
+import android.os.Looper
+import android.provider.Settings
+import org.json.JSONObject
+
+/**
+ * Accessibility Settings
+ *
+ * Reports the accessibility settings JavaScript adapts to. Android has no
+ * dedicated reduce motion switch; "Remove animations" in the accessibility
+ * settings sets the animator duration scale to 0, which is what this reads.
+ */
+class AccessibilitySettings(
+    private val context: Context,
+    private val onChange: (info: JSONObject) -> Unit
+) {
+    private var observer: ContentObserver? = null
+
+    /**
+     * Current settings, shaped like `AccessibilityInfo` in the npm package
+     */
+    fun getInfo(): JSONObject {
+        return JSONObject().apply {
+            put("reduceMotionEnabled", isReduceMotionEnabled())
+        }
+    }
+
+    /**
+     * Report every change of the animator duration scale
+     */
+    fun startObserving() {
+        if (observer != null) return
+
+        observer = object : ContentObserver(Handler(Looper.getMainLooper())) {
+            override fun onChange(selfChange: Boolean) {
+                onChange(getInfo())
+            }
+        }.also {
+            context.contentResolver.registerContentObserver(
+                Settings.Global.getUriFor(Settings.Global.ANIMATOR_DURATION_SCALE),
+                false,
+                it
+            )
+        }
+    }
+
+    fun stopObserving() {
+        observer?.let { context.contentResolver.unregisterContentObserver(it) }
+        observer = null
+    }
+
+    private fun isReduceMotionEnabled(): Boolean {
+        val scale = Settings.Global.getFloat(context.contentResolver, Settings.Global.ANIMATOR_DURATION_SCALE, 1f)
+        return scale == 0f
+    }
+}
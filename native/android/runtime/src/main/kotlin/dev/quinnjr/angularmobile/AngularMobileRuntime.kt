@@ -22,12 +22,38 @@ class AngularMobileRuntime(
     companion object {
         private const val TAG = "AngularMobile"
         private const val BRIDGE_NAME = "__ANDROID_BRIDGE__"
+
+        /** Bridge protocol version; must match BRIDGE_PROTOCOL_VERSION in the npm package */
+        const val PROTOCOL_VERSION = 1
+        const val RUNTIME_VERSION = "0.1.0"
+
+        /** Optional features this runtime implements */
+        val CAPABILITIES = listOf("views", "batch", "measure", "focus", "events", "nativeAnimations", "layoutAnimations", "gestures", "accessibilityInfo")
     }
 
     private lateinit var webView: WebView
     private val viewRegistry = ViewRegistry()
     private val viewFactory = ViewFactory(context, viewRegistry)
     private val eventDispatcher = EventDispatcher()
+    private val layoutAnimations = LayoutAnimationManager(viewRegistry)
+    private val animatedNodes = NativeAnimatedNodesManager(context, viewRegistry, viewFactory) { animationId, finished, value ->
+        sendEvent("animationFinished", JSONObject().apply {
+            put("animationId", animationId)
+            put("finished", finished)
+            put("value", value)
+        })
+    }
+    private val gestureHandlers = GestureHandlerManager(context, viewRegistry) { handlerTag, state, data ->
+        sendEvent("gestureHandlerEvent", JSONObject().apply {
+            put("handlerTag", handlerTag)
+            put("state", state)
+            put("data", data)
+        })
+    }
+
+    private val accessibilitySettings = AccessibilitySettings(context) { info ->
+        sendEvent("accessibilityInfoChange", info)
+    }
 
     private var jsCallback: ((String) -> Unit)? = null
     private var isReady = false
@@ -38,6 +64,7 @@ class AngularMobileRuntime(
     fun initialize(rootContainer: android.view.ViewGroup) {
         viewRegistry.setRootContainer(rootContainer)
         setupWebView()
+        accessibilitySettings.startObserving()
 
         if (config.debug) {
             Log.d(TAG, "Angular Mobile Runtime initialized")
@@ -147,6 +174,9 @@ class AngularMobileRuntime(
 
         try {
             when (type) {
+                // Protocol
+                "handshake" -> handleHandshake(id, payload)
+
                 // View Operations
                 "createView" -> handleCreateView(id, payload)
                 "updateView" -> handleUpdateView(id, payload)
@@ -170,6 +200,52 @@ class AngularMobileRuntime(
                 "addEventListener" -> handleAddEventListener(id, payload)
                 "removeEventListener" -> handleRemoveEventListener(id, payload)
 
+                // Native-driven animations
+                "createAnimatedNode" -> handleAnimatedNodes(id) {
+                    animatedNodes.createNode(payload.getInt("tag"), payload.getJSONObject("config"))
+                }
+                "dropAnimatedNode" -> handleAnimatedNodes(id) { animatedNodes.dropNode(payload.getInt("tag")) }
+                "connectAnimatedNodeToView" -> handleAnimatedNodes(id) {
+                    animatedNodes.connectToView(payload.getInt("tag"), payload.getString("viewId"))
+                }
+                "disconnectAnimatedNodeFromView" -> handleAnimatedNodes(id) {
+                    animatedNodes.disconnectFromView(payload.getInt("tag"), payload.getString("viewId"))
+                }
+                "setAnimatedNodeValue" -> handleAnimatedNodes(id) {
+                    animatedNodes.setValue(
+                        payload.getInt("tag"),
+                        payload.getDouble("value"),
+                        payload.optDouble("offset", 0.0)
+                    )
+                }
+                "startAnimatingNode" -> handleAnimatedNodes(id) {
+                    animatedNodes.startAnimation(
+                        payload.getInt("animationId"),
+                        payload.getInt("tag"),
+                        payload.getJSONObject("config")
+                    )
+                }
+                "stopAnimation" -> handleAnimatedNodes(id) { animatedNodes.stopAnimation(payload.getInt("animationId")) }
+
+                // Gesture recognizers
+                "createGestureHandler" -> handleGestureHandlers(id) {
+                    gestureHandlers.createHandler(
+                        payload.getInt("handlerTag"),
+                        payload.getString("handlerType"),
+                        payload.getJSONObject("config")
+                    )
+                }
+                "attachGestureHandler" -> handleGestureHandlers(id) {
+                    gestureHandlers.attachHandler(payload.getInt("handlerTag"), payload.getString("viewId"))
+                }
+                "updateGestureHandler" -> handleGestureHandlers(id) {
+                    gestureHandlers.updateHandler(payload.getInt("handlerTag"), payload.getJSONObject("config"))
+                }
+                "dropGestureHandler" -> handleGestureHandlers(id) { gestureHandlers.dropHandler(payload.getInt("handlerTag")) }
+
+                // Accessibility
+                "getAccessibilityInfo" -> sendSuccess(id, accessibilitySettings.getInfo())
+
                 else -> {
                     Log.w(TAG, "Unknown message type: $type")
                     sendError(id, "Unknown message type: $type")
@@ -181,6 +257,23 @@ class AngularMobileRuntime(
         }
     }
 
+    // ==================== Protocol ====================
+
+    private fun handleHandshake(messageId: String, payload: JSONObject) {
+        val jsVersion = payload.optInt("protocolVersion", 0)
+        if (jsVersion != PROTOCOL_VERSION) {
+            Log.w(TAG, "Bridge protocol mismatch: JavaScript v$jsVersion, native v$PROTOCOL_VERSION")
+        }
+
+        val result = JSONObject().apply {
+            put("protocolVersion", PROTOCOL_VERSION)
+            put("capabilities", JSONArray(CAPABILITIES))
+            put("runtime", "android")
+            put("runtimeVersion", RUNTIME_VERSION)
+        }
+        sendSuccess(messageId, result)
+    }
+
     // ==================== View Operations ====================
 
     private fun handleCreateView(messageId: String, payload: JSONObject) {
@@ -284,6 +377,8 @@ class AngularMobileRuntime(
             ?: payload.optJSONArray("messages")
             ?: JSONArray()
 
+        payload.optJSONObject("layoutAnimation")?.let { layoutAnimations.beginBatch(it, operations) }
+
         for (i in 0 until operations.length()) {
             val op = operations.getJSONObject(i)
             handleMessage(op)
@@ -346,6 +441,20 @@ class AngularMobileRuntime(
         sendSuccess(messageId)
     }
 
+    // ==================== Native-driven Animations ====================
+
+    private fun handleAnimatedNodes(messageId: String, operation: () -> Unit) {
+        operation()
+        sendSuccess(messageId)
+    }
+
+    // ==================== Gesture Recognizers ====================
+
+    private fun handleGestureHandlers(messageId: String, operation: () -> Unit) {
+        operation()
+        sendSuccess(messageId)
+    }
+
     // ==================== Response Helpers ====================
 
     private fun sendSuccess(messageId: String?, data: JSONObject? = null) {
@@ -383,10 +492,21 @@ class AngularMobileRuntime(
         sendToJS(event.toString())
     }
 
+    private fun sendEvent(type: String, payload: JSONObject) {
+        val event = JSONObject().apply {
+            put("type", type)
+            put("payload", payload)
+        }
+        sendToJS(event.toString())
+    }
+
     /**
      * Clean up resources
      */
     fun destroy() {
+        animatedNodes.clear()
+        gestureHandlers.clear()
+        accessibilitySettings.stopObserving()
         webView.destroy()
         viewRegistry.clear()
         eventDispatcher.clear()
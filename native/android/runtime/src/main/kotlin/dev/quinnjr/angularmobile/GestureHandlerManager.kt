@@ -0,0 +1,531 @@
+package dev.quinnjr.angularmobile
+
+import android.content.Context
+import android.os.Handler
+import android.os.Looper
+import android.os.SystemClock
+import android.view.MotionEvent
+import android.view.VelocityTracker
+import android.view.View
+import android.view.ViewConfiguration
+import org.json.JSONArray
+import org.json.JSONObject
+import kotlin.math.PI
+import kotlin.math.abs
+import kotlin.math.atan2
+import kotlin.math.hypot
+
+/**
+ * Gesture Handler Manager
+ *
+ * Backs the JavaScript gesture handlers with recognizers driven by the
+ * touch stream of the view they are attached to (tap, long press, pan,
+ * pinch and rotation) and reports their state changes and active updates
+ * back.
+ *
+ * Recognizers are exclusive: once one activates, every other tracking
+ * recognizer fails or is cancelled unless the two are listed as
+ * simultaneous. A recognizer with `waitFor` holds its activation until
+ * those recognizers fail, and fails itself if one of them activates.
+ *
+ * Distances in the configs and events are in dp.
+ */
+class GestureHandlerManager(
+    context: Context,
+    private val viewRegistry: ViewRegistry,
+    private val onEvent: (handlerTag: Int, state: Int, data: JSONObject) -> Unit
+) {
+    /** `GestureState` in the npm package */
+    private companion object {
+        const val UNDETERMINED = 0
+        const val FAILED = 1
+        const val BEGAN = 2
+        const val CANCELLED = 3
+        const val ACTIVE = 4
+        const val END = 5
+
+        /** Rotation, in radians, before a rotation recognizer activates */
+        const val ROTATION_SLOP = PI / 36
+    }
+
+    private abstract inner class GestureHandler(val tag: Int, var config: JSONObject) {
+        var viewId: String? = null
+        var state = UNDETERMINED
+
+        /** Activation held back until the handlers in `waitFor` fail */
+        var pendingActivation = false
+
+        /** The gesture finished while its activation was held back */
+        var pendingEnd = false
+
+        // Last touch, in dp
+        var x = 0.0
+        var y = 0.0
+        var absoluteX = 0.0
+        var absoluteY = 0.0
+        var pointers = 0
+
+        val isTracking get() = state == BEGAN || state == ACTIVE
+        val enabled get() = config.optBoolean("enabled", true)
+        val simultaneousHandlers get() = tags("simultaneousHandlers")
+        val waitFor get() = tags("waitFor")
+        open val cancelsWhenOutside get() = config.optBoolean("shouldCancelWhenOutside", false)
+
+        abstract fun onTouch(view: View, event: MotionEvent)
+
+        abstract fun data(): JSONObject
+
+        open fun onReset() {}
+
+        fun begin() {
+            if (state == UNDETERMINED) {
+                moveTo(this, BEGAN)
+            }
+        }
+
+        fun activate() = this@GestureHandlerManager.activate(this)
+
+        /** End an active gesture; one that never activated fails */
+        fun finish() {
+            when {
+                state == ACTIVE -> moveTo(this, END)
+                pendingActivation -> pendingEnd = true
+                else -> fail()
+            }
+        }
+
+        fun fail() {
+            if (isTracking) {
+                moveTo(this, FAILED)
+            }
+        }
+
+        fun cancel() {
+            if (isTracking) {
+                moveTo(this, if (state == ACTIVE) CANCELLED else FAILED)
+            }
+        }
+
+        fun pointData() = JSONObject().apply {
+            put("x", x)
+            put("y", y)
+            put("absoluteX", absoluteX)
+            put("absoluteY", absoluteY)
+        }
+
+        private fun tags(key: String): List<Int> {
+            val tags = config.optJSONArray(key) ?: JSONArray()
+            return List(tags.length()) { tags.getInt(it) }
+        }
+    }
+
+    private inner class TapHandler(tag: Int, config: JSONObject) : GestureHandler(tag, config) {
+        private var taps = 0
+        private var downX = 0.0
+        private var downY = 0.0
+        private val failAfterTimeout = Runnable { fail() }
+
+        override val cancelsWhenOutside get() = config.optBoolean("shouldCancelWhenOutside", true)
+
+        override fun onTouch(view: View, event: MotionEvent) {
+            when (event.actionMasked) {
+                MotionEvent.ACTION_DOWN -> {
+                    mainHandler.removeCallbacks(failAfterTimeout)
+                    begin()
+                    downX = absoluteX
+                    downY = absoluteY
+                    mainHandler.postDelayed(failAfterTimeout, config.optLong("maxDurationMs", 500))
+                }
+                MotionEvent.ACTION_MOVE -> {
+                    if (hypot(absoluteX - downX, absoluteY - downY) > config.optDouble("maxDist", 10.0)) {
+                        fail()
+                    }
+                }
+                MotionEvent.ACTION_UP -> {
+                    mainHandler.removeCallbacks(failAfterTimeout)
+                    if (!isTracking) return
+                    taps++
+                    if (taps >= config.optInt("numberOfTaps", 1)) {
+                        activate()
+                        finish()
+                    } else {
+                        mainHandler.postDelayed(failAfterTimeout, config.optLong("maxDelayMs", 500))
+                    }
+                }
+                MotionEvent.ACTION_CANCEL -> fail()
+            }
+        }
+
+        override fun data() = pointData().put("numberOfPointers", pointers)
+
+        override fun onReset() {
+            taps = 0
+            mainHandler.removeCallbacks(failAfterTimeout)
+        }
+    }
+
+    private inner class LongPressHandler(tag: Int, config: JSONObject) : GestureHandler(tag, config) {
+        private var downX = 0.0
+        private var downY = 0.0
+        private var downTime = 0L
+        private val activateAfterDelay = Runnable { activate() }
+
+        override val cancelsWhenOutside get() = config.optBoolean("shouldCancelWhenOutside", true)
+
+        override fun onTouch(view: View, event: MotionEvent) {
+            when (event.actionMasked) {
+                MotionEvent.ACTION_DOWN -> {
+                    begin()
+                    downX = absoluteX
+                    downY = absoluteY
+                    downTime = SystemClock.uptimeMillis()
+                    mainHandler.postDelayed(activateAfterDelay, config.optLong("minDurationMs", 500))
+                }
+                MotionEvent.ACTION_MOVE -> {
+                    val moved = hypot(absoluteX - downX, absoluteY - downY) > config.optDouble("maxDist", 10.0)
+                    if (moved && state == BEGAN) {
+                        fail()
+                    }
+                }
+                MotionEvent.ACTION_UP -> finish()
+                MotionEvent.ACTION_CANCEL -> cancel()
+            }
+        }
+
+        override fun data() = pointData().put("duration", SystemClock.uptimeMillis() - downTime)
+
+        override fun onReset() {
+            mainHandler.removeCallbacks(activateAfterDelay)
+        }
+    }
+
+    private inner class PanHandler(tag: Int, config: JSONObject) : GestureHandler(tag, config) {
+        private var startX = 0.0
+        private var startY = 0.0
+        private var velocityTracker: VelocityTracker? = null
+
+        override fun onTouch(view: View, event: MotionEvent) {
+            val tracker = velocityTracker ?: VelocityTracker.obtain().also { velocityTracker = it }
+            tracker.addMovement(event)
+
+            when (event.actionMasked) {
+                MotionEvent.ACTION_DOWN -> {
+                    begin()
+                    startX = absoluteX
+                    startY = absoluteY
+                }
+                MotionEvent.ACTION_MOVE -> {
+                    val pointersInRange = pointers >= config.optInt("minPointers", 1) &&
+                        pointers <= config.optInt("maxPointers", 10)
+                    val distance = hypot(absoluteX - startX, absoluteY - startY)
+                    if (state == ACTIVE || (pointersInRange && distance >= config.optDouble("minDistance", 10.0))) {
+                        activate()
+                    }
+                }
+                MotionEvent.ACTION_UP -> finish()
+                MotionEvent.ACTION_CANCEL -> cancel()
+            }
+        }
+
+        override fun data(): JSONObject {
+            val tracker = velocityTracker
+            tracker?.computeCurrentVelocity(1000)
+            return pointData().apply {
+                put("translationX", absoluteX - startX)
+                put("translationY", absoluteY - startY)
+                put("velocityX", (tracker?.xVelocity ?: 0f) / density.toDouble())
+                put("velocityY", (tracker?.yVelocity ?: 0f) / density.toDouble())
+            }
+        }
+
+        override fun onReset() {
+            velocityTracker?.recycle()
+            velocityTracker = null
+        }
+    }
+
+    /**
+     * Pinch and rotation: both follow the first two pointers
+     */
+    private abstract inner class TwoPointerHandler(tag: Int, config: JSONObject) : GestureHandler(tag, config) {
+        private var lastValue = 0.0
+        private var lastTime = 0L
+        var value = 0.0
+        var velocity = 0.0
+        var focalX = 0.0
+        var focalY = 0.0
+
+        abstract val initialValue: Double
+
+        abstract fun measure(event: MotionEvent): Double
+
+        /** Whether the gesture has moved far enough to activate */
+        abstract fun exceedsSlop(): Boolean
+
+        override fun onTouch(view: View, event: MotionEvent) {
+            when (event.actionMasked) {
+                MotionEvent.ACTION_POINTER_DOWN -> {
+                    if (event.pointerCount == 2) {
+                        begin()
+                        start(event)
+                    }
+                }
+                MotionEvent.ACTION_MOVE -> {
+                    if (event.pointerCount < 2 || !isTracking) return
+                    update(event)
+                    if (state == ACTIVE || exceedsSlop()) {
+                        activate()
+                    }
+                }
+                MotionEvent.ACTION_POINTER_UP -> {
+                    if (event.pointerCount == 2) finish()
+                }
+                MotionEvent.ACTION_UP -> finish()
+                MotionEvent.ACTION_CANCEL -> cancel()
+            }
+        }
+
+        private fun start(event: MotionEvent) {
+            reset(event)
+            value = initialValue
+            lastValue = value
+            velocity = 0.0
+        }
+
+        private fun update(event: MotionEvent) {
+            val now = event.eventTime
+            value = measure(event)
+            if (now > lastTime) {
+                velocity = (value - lastValue) * 1000 / (now - lastTime)
+            }
+            lastValue = value
+            lastTime = now
+            focalX = (event.getX(0) + event.getX(1)) / 2.0 / density
+            focalY = (event.getY(0) + event.getY(1)) / 2.0 / density
+        }
+
+        open fun reset(event: MotionEvent) {
+            lastTime = event.eventTime
+        }
+    }
+
+    private inner class PinchHandler(tag: Int, config: JSONObject) : TwoPointerHandler(tag, config) {
+        private var startSpan = 0.0
+
+        override val initialValue = 1.0
+
+        override fun reset(event: MotionEvent) {
+            super.reset(event)
+            startSpan = span(event)
+        }
+
+        override fun measure(event: MotionEvent): Double {
+            return if (startSpan > 0) span(event) / startSpan else 1.0
+        }
+
+        override fun exceedsSlop() = abs((value - 1) * startSpan) > touchSlop
+
+        private fun span(event: MotionEvent): Double {
+            return hypot((event.getX(1) - event.getX(0)).toDouble(), (event.getY(1) - event.getY(0)).toDouble())
+        }
+
+        override fun data() = JSONObject().apply {
+            put("scale", value)
+            put("focalX", focalX)
+            put("focalY", focalY)
+            put("velocity", velocity)
+        }
+    }
+
+    private inner class RotationHandler(tag: Int, config: JSONObject) : TwoPointerHandler(tag, config) {
+        private var startAngle = 0.0
+
+        override val initialValue = 0.0
+
+        override fun reset(event: MotionEvent) {
+            super.reset(event)
+            startAngle = angle(event)
+        }
+
+        override fun measure(event: MotionEvent): Double {
+            // Keep the rotation continuous across the atan2 wrap
+            var delta = angle(event) - startAngle - value
+            while (delta > PI) delta -= 2 * PI
+            while (delta < -PI) delta += 2 * PI
+            return value + delta
+        }
+
+        override fun exceedsSlop() = abs(value) > ROTATION_SLOP
+
+        private fun angle(event: MotionEvent): Double {
+            return atan2((event.getY(1) - event.getY(0)).toDouble(), (event.getX(1) - event.getX(0)).toDouble())
+        }
+
+        override fun data() = JSONObject().apply {
+            put("rotation", value)
+            put("anchorX", focalX)
+            put("anchorY", focalY)
+            put("velocity", velocity)
+        }
+    }
+
+    private val mainHandler = Handler(Looper.getMainLooper())
+    private val density = context.resources.displayMetrics.density
+    private val touchSlop = ViewConfiguration.get(context).scaledTouchSlop.toDouble()
+    private val handlers = mutableMapOf<Int, GestureHandler>()
+
+    // ==================== Handlers ====================
+
+    fun createHandler(tag: Int, type: String, config: JSONObject) {
+        val handler = when (type) {
+            "tap" -> TapHandler(tag, config)
+            "longPress" -> LongPressHandler(tag, config)
+            "pan" -> PanHandler(tag, config)
+            "pinch" -> PinchHandler(tag, config)
+            "rotation" -> RotationHandler(tag, config)
+            else -> throw IllegalArgumentException("Unknown gesture handler type: $type")
+        }
+        onMain { handlers[tag] = handler }
+    }
+
+    fun attachHandler(tag: Int, viewId: String) {
+        val view = viewRegistry.get(viewId) ?: throw IllegalArgumentException("View not found: $viewId")
+
+        onMain {
+            val handler = handlers[tag] ?: return@onMain
+            val previousViewId = handler.viewId
+            handler.viewId = viewId
+            previousViewId?.let { detachIfUnused(it) }
+            view.setOnTouchListener { touched, event -> dispatch(viewId, touched, event) }
+        }
+    }
+
+    fun updateHandler(tag: Int, config: JSONObject) = onMain {
+        val handler = handlers[tag] ?: return@onMain
+        handler.config = config
+        if (!handler.enabled) {
+            handler.cancel()
+        }
+    }
+
+    fun dropHandler(tag: Int) = onMain {
+        val handler = handlers.remove(tag) ?: return@onMain
+        handler.cancel()
+        handler.onReset()
+        handler.viewId?.let { detachIfUnused(it) }
+    }
+
+    fun clear() = onMain {
+        for (handler in handlers.values) {
+            handler.onReset()
+            handler.viewId?.let { viewRegistry.get(it)?.setOnTouchListener(null) }
+        }
+        handlers.clear()
+    }
+
+    private fun detachIfUnused(viewId: String) {
+        if (handlers.values.none { it.viewId == viewId }) {
+            viewRegistry.get(viewId)?.setOnTouchListener(null)
+        }
+    }
+
+    // ==================== Touch Handling ====================
+
+    private fun dispatch(viewId: String, view: View, event: MotionEvent): Boolean {
+        val attached = handlers.values.filter { it.viewId == viewId && it.enabled }
+        if (attached.isEmpty()) {
+            return false
+        }
+
+        val location = IntArray(2)
+        view.getLocationOnScreen(location)
+        val outside = event.x < 0 || event.y < 0 || event.x > view.width || event.y > view.height
+
+        for (handler in attached) {
+            handler.x = event.x / density.toDouble()
+            handler.y = event.y / density.toDouble()
+            handler.absoluteX = (location[0] + event.x) / density.toDouble()
+            handler.absoluteY = (location[1] + event.y) / density.toDouble()
+            handler.pointers = event.pointerCount
+
+            if (event.actionMasked == MotionEvent.ACTION_MOVE && outside && handler.cancelsWhenOutside) {
+                handler.cancel()
+                continue
+            }
+            handler.onTouch(view, event)
+        }
+        return true
+    }
+
+    // ==================== State Machine ====================
+
+    private fun activate(handler: GestureHandler) {
+        when (handler.state) {
+            ACTIVE -> {
+                onEvent(handler.tag, ACTIVE, handler.data())
+                return
+            }
+            BEGAN -> Unit
+            else -> return
+        }
+
+        if (handler.waitFor.any { handlers[it]?.isTracking == true }) {
+            handler.pendingActivation = true
+            return
+        }
+        handler.pendingActivation = false
+
+        val others = handlers.values.filter { it !== handler && it.isTracking && !isSimultaneous(handler, it) }
+        if (others.any { it.state == ACTIVE }) {
+            handler.fail()
+            return
+        }
+
+        moveTo(handler, ACTIVE)
+        others.forEach { it.fail() }
+    }
+
+    private fun isSimultaneous(handler: GestureHandler, other: GestureHandler): Boolean {
+        return other.tag in handler.simultaneousHandlers || handler.tag in other.simultaneousHandlers
+    }
+
+    private fun moveTo(handler: GestureHandler, state: Int) {
+        handler.state = state
+        onEvent(handler.tag, state, handler.data())
+
+        if (state == FAILED || state == CANCELLED || state == END) {
+            handler.state = UNDETERMINED
+            handler.pendingActivation = false
+            handler.pendingEnd = false
+            handler.onReset()
+        }
+        if (state == FAILED) {
+            releaseWaiting(handler)
+        }
+    }
+
+    /**
+     * Activate the handlers held back by one that failed, once nothing
+     * else they wait for is still tracking
+     */
+    private fun releaseWaiting(failed: GestureHandler) {
+        val waiting = handlers.values.filter { it.pendingActivation && failed.tag in it.waitFor }
+        for (handler in waiting) {
+            if (handler.waitFor.any { handlers[it]?.isTracking == true }) continue
+
+            val end = handler.pendingEnd
+            activate(handler)
+            if (end) {
+                handler.finish()
+            }
+        }
+    }
+
+    private fun onMain(block: () -> Unit) {
+        if (Looper.myLooper() == Looper.getMainLooper()) {
+            block()
+        } else {
+            mainHandler.post(block)
+        }
+    }
+}
@@ -0,0 +1,148 @@
+package dev.quinnjr.angularmobile
+
+import android.animation.Animator
+import android.animation.ObjectAnimator
+import android.animation.PropertyValuesHolder
+import android.animation.TimeInterpolator
+import android.transition.ChangeBounds
+import android.transition.Fade
+import android.transition.Transition
+import android.transition.TransitionManager
+import android.transition.TransitionSet
+import android.transition.TransitionValues
+import android.transition.Visibility
+import android.view.View
+import android.view.ViewGroup
+import android.view.animation.AccelerateDecelerateInterpolator
+import android.view.animation.AccelerateInterpolator
+import android.view.animation.DecelerateInterpolator
+import android.view.animation.LinearInterpolator
+import org.json.JSONArray
+import org.json.JSONObject
+import kotlin.math.PI
+import kotlin.math.pow
+import kotlin.math.sin
+
+/**
+ * Layout Animation Manager
+ *
+ * Animates the view operations of a batch that carries a `layoutAnimation`
+ * config (`LayoutAnimation.configureNext` in JavaScript). A delayed
+ * transition is started on the parents the batch touches before its
+ * operations run, so moved or resized views animate to their new bounds,
+ * inserted views fade or scale in and removed views fade or scale out.
+ */
+class LayoutAnimationManager(private val viewRegistry: ViewRegistry) {
+
+    /**
+     * Begin the transition for a batch; call before its operations are applied
+     */
+    fun beginBatch(config: JSONObject, operations: JSONArray) {
+        val parents = affectedParents(operations)
+        if (parents.isEmpty()) {
+            return
+        }
+
+        val transition = createTransition(config)
+        for (parent in parents) {
+            TransitionManager.beginDelayedTransition(parent, transition)
+        }
+    }
+
+    /**
+     * Parents whose children are inserted, removed, updated or moved,
+     * without the ones nested in another affected parent
+     */
+    private fun affectedParents(operations: JSONArray): List<ViewGroup> {
+        val parents = linkedSetOf<ViewGroup>()
+
+        for (i in 0 until operations.length()) {
+            val operation = operations.getJSONObject(i)
+            val payload = operation.optJSONObject("payload") ?: continue
+
+            val parent = when (operation.optString("type")) {
+                "appendChild", "insertChild", "removeChild" -> viewRegistry.get(payload.optString("parentId"))
+                "updateView", "removeView" -> viewRegistry.get(payload.optString("viewId"))?.parent
+                else -> null
+            }
+            (parent as? ViewGroup)?.let { parents.add(it) }
+        }
+
+        return parents.filter { parent ->
+            generateSequence(parent.parent) { it.parent }.none { it in parents }
+        }
+    }
+
+    private fun createTransition(config: JSONObject): Transition {
+        val duration = config.optLong("duration", 300)
+        val set = TransitionSet().setOrdering(TransitionSet.ORDERING_TOGETHER)
+
+        config.optJSONObject("create")?.let { anim ->
+            set.addTransition(configure(appear(anim, Visibility.MODE_IN), anim, duration))
+        }
+        config.optJSONObject("update")?.let { anim ->
+            set.addTransition(configure(ChangeBounds(), anim, duration))
+        }
+        config.optJSONObject("delete")?.let { anim ->
+            set.addTransition(configure(appear(anim, Visibility.MODE_OUT), anim, duration))
+        }
+
+        return set
+    }
+
+    private fun appear(anim: JSONObject, mode: Int): Visibility =
+        when (val property = anim.optString("property", "opacity")) {
+            "opacity" -> Fade(if (mode == Visibility.MODE_IN) Fade.IN else Fade.OUT)
+            else -> Scale(property).apply { this.mode = mode }
+        }
+
+    private fun configure(transition: Transition, anim: JSONObject, duration: Long): Transition =
+        transition.apply {
+            this.duration = anim.optLong("duration", duration)
+            startDelay = anim.optLong("delay", 0)
+            interpolator = interpolatorFor(anim)
+        }
+
+    private fun interpolatorFor(anim: JSONObject): TimeInterpolator =
+        when (anim.optString("type")) {
+            "easeIn" -> AccelerateInterpolator()
+            "easeOut" -> DecelerateInterpolator()
+            "easeInEaseOut" -> AccelerateDecelerateInterpolator()
+            "spring" -> SpringInterpolator(anim.optDouble("springDamping", 0.7).toFloat())
+            else -> LinearInterpolator()
+        }
+
+    /**
+     * Damped oscillation settling at 1
+     */
+    private class SpringInterpolator(private val damping: Float) : TimeInterpolator {
+        override fun getInterpolation(input: Float): Float =
+            (1 + 2.0.pow(-10.0 * input) * sin((input - damping / 4) * PI * 2 / damping)).toFloat()
+    }
+
+    /**
+     * Scales appearing views up from (and disappearing views down to) nothing
+     */
+    private class Scale(private val property: String) : Visibility() {
+        override fun onAppear(
+            sceneRoot: ViewGroup,
+            view: View,
+            startValues: TransitionValues?,
+            endValues: TransitionValues?
+        ): Animator = scale(view, 0.01f, 1f)
+
+        override fun onDisappear(
+            sceneRoot: ViewGroup,
+            view: View,
+            startValues: TransitionValues?,
+            endValues: TransitionValues?
+        ): Animator = scale(view, 1f, 0.01f)
+
+        private fun scale(view: View, from: Float, to: Float): Animator {
+            val holders = mutableListOf<PropertyValuesHolder>()
+            if (property != "scaleY") holders.add(PropertyValuesHolder.ofFloat(View.SCALE_X, from, to))
+            if (property != "scaleX") holders.add(PropertyValuesHolder.ofFloat(View.SCALE_Y, from, to))
+            return ObjectAnimator.ofPropertyValuesHolder(view, *holders.toTypedArray())
+        }
+    }
+}
@@ -0,0 +1,463 @@
+package dev.quinnjr.angularmobile
+
+import android.graphics.Color
+import android.os.Handler
+import android.os.Looper
+import android.view.Choreographer
+import android.view.View
+import org.json.JSONArray
+import org.json.JSONObject
+import kotlin.math.abs
+import kotlin.math.cos
+import kotlin.math.exp
+import kotlin.math.sin
+import kotlin.math.sqrt
+
+/**
+ * Native Animated Nodes Manager
+ *
+ * Runs `useNativeDriver: true` timing, spring and decay animations.
+ * JavaScript sends the animation graph (value, arithmetic, interpolation
+ * and props nodes) once; animations are then stepped on the Choreographer
+ * and written straight to the views, and JavaScript only hears back when
+ * they finish.
+ *
+ * Bridge messages arrive on the JavaScript thread, so every graph change
+ * is posted to the main thread.
+ */
+class NativeAnimatedNodesManager(
+    private val context: android.content.Context,
+    private val viewRegistry: ViewRegistry,
+    private val viewFactory: ViewFactory,
+    private val onAnimationFinished: (animationId: Int, finished: Boolean, value: Double) -> Unit
+) : Choreographer.FrameCallback {
+
+    private sealed class Node
+
+    private class ValueNode(var value: Double, var offset: Double) : Node()
+
+    private class InterpolationNode(
+        val input: Int,
+        val inputRange: DoubleArray,
+        val outputRange: JSONArray,
+        val extrapolateLeft: String,
+        val extrapolateRight: String
+    ) : Node()
+
+    private class ArithmeticNode(val operator: String, val inputs: IntArray) : Node()
+
+    private class ModulusNode(val input: Int, val modulus: Double) : Node()
+
+    private class DiffClampNode(val input: Int, val min: Double, val max: Double) : Node() {
+        var lastInput = Double.NaN
+        var value = 0.0
+    }
+
+    private class PropsNode(val props: Map<String, Int>) : Node() {
+        val views = mutableSetOf<String>()
+    }
+
+    private abstract class Animation(val animationId: Int, val tag: Int, val delayNanos: Long) {
+        var startNanos = -1L
+
+        /** Advance the node; returns true once the animation has finished */
+        abstract fun step(node: ValueNode, elapsedNanos: Long): Boolean
+    }
+
+    /** Timing animation driven by the easing curve sampled per 60fps frame */
+    private class TimingAnimation(
+        animationId: Int,
+        tag: Int,
+        delayNanos: Long,
+        private val frames: DoubleArray,
+        private val toValue: Double
+    ) : Animation(animationId, tag, delayNanos) {
+        private var fromValue = Double.NaN
+
+        override fun step(node: ValueNode, elapsedNanos: Long): Boolean {
+            if (fromValue.isNaN()) {
+                fromValue = node.value
+            }
+
+            val frame = (elapsedNanos / FRAME_NANOS).toInt()
+            if (frame >= frames.size - 1) {
+                node.value = toValue
+                return true
+            }
+
+            node.value = fromValue + (toValue - fromValue) * frames[frame]
+            return false
+        }
+    }
+
+    /** Spring animation following the same closed-form solution as the JS driver (`solveSpring`) */
+    private class SpringAnimation(
+        animationId: Int,
+        tag: Int,
+        delayNanos: Long,
+        private val config: JSONObject
+    ) : Animation(animationId, tag, delayNanos) {
+        private var initialDisplacement = Double.NaN
+
+        override fun step(node: ValueNode, elapsedNanos: Long): Boolean {
+            val toValue = config.getDouble("toValue")
+            if (initialDisplacement.isNaN()) {
+                initialDisplacement = node.value - toValue
+            }
+
+            val stiffness = config.optDouble("stiffness", 100.0)
+            val damping = config.optDouble("damping", 10.0)
+            val mass = config.optDouble("mass", 1.0)
+            val x0 = initialDisplacement
+            val v0 = config.optDouble("initialVelocity", 0.0)
+            val t = elapsedNanos / 1_000_000_000.0
+
+            val omega0 = sqrt(stiffness / mass)
+            val zeta = damping / (2 * sqrt(stiffness * mass))
+            val displacement: Double
+            val velocity: Double
+
+            if (zeta < 1) {
+                // Under-damped: oscillates around the target
+                val omega1 = omega0 * sqrt(1 - zeta * zeta)
+                val envelope = exp(-zeta * omega0 * t)
+                val b = (v0 + zeta * omega0 * x0) / omega1
+                displacement = envelope * (x0 * cos(omega1 * t) + b * sin(omega1 * t))
+                velocity = envelope * ((omega1 * b - zeta * omega0 * x0) * cos(omega1 * t) -
+                    (omega1 * x0 + zeta * omega0 * b) * sin(omega1 * t))
+            } else if (zeta == 1.0) {
+                // Critically damped
+                val envelope = exp(-omega0 * t)
+                val b = v0 + omega0 * x0
+                displacement = envelope * (x0 + b * t)
+                velocity = envelope * (v0 - omega0 * b * t)
+            } else {
+                // Over-damped
+                val root = omega0 * sqrt(zeta * zeta - 1)
+                val r1 = -zeta * omega0 + root
+                val r2 = -zeta * omega0 - root
+                val c2 = (v0 - r1 * x0) / (r2 - r1)
+                val c1 = x0 - c2
+                displacement = c1 * exp(r1 * t) + c2 * exp(r2 * t)
+                velocity = c1 * r1 * exp(r1 * t) + c2 * r2 * exp(r2 * t)
+            }
+
+            val overshooting = config.optBoolean("overshootClamping") &&
+                (if (x0 < 0) displacement > 0 else displacement < 0)
+            val atRest = abs(velocity) <= config.optDouble("restSpeedThreshold", 0.001) &&
+                abs(displacement) <= config.optDouble("restDisplacementThreshold", 0.001)
+
+            node.value = if (overshooting || atRest) toValue else toValue + displacement
+            return overshooting || atRest
+        }
+    }
+
+    /** Exponential deceleration from an initial velocity, optionally bounded */
+    private class DecayAnimation(
+        animationId: Int,
+        tag: Int,
+        delayNanos: Long,
+        private val config: JSONObject
+    ) : Animation(animationId, tag, delayNanos) {
+        private var fromValue = Double.NaN
+        private var lastValue = Double.NaN
+
+        override fun step(node: ValueNode, elapsedNanos: Long): Boolean {
+            if (fromValue.isNaN()) {
+                fromValue = node.value
+                lastValue = node.value
+            }
+
+            val velocity = config.getDouble("velocity")
+            val decay = 1 - config.optDouble("deceleration", 0.998)
+            val elapsedMs = elapsedNanos / 1_000_000.0
+            node.value = fromValue + velocity / decay * (1 - Math.exp(-decay * elapsedMs))
+
+            if (!config.isNull("min") && node.value <= config.getDouble("min")) {
+                node.value = config.getDouble("min")
+                return true
+            }
+            if (!config.isNull("max") && node.value >= config.getDouble("max")) {
+                node.value = config.getDouble("max")
+                return true
+            }
+
+            // At rest once it moves less than 0.1 per frame
+            val done = elapsedNanos > 0 && abs(node.value - lastValue) < 0.1
+            lastValue = node.value
+            return done
+        }
+    }
+
+    companion object {
+        private const val FRAME_NANOS = 1_000_000_000L / 60
+    }
+
+    private val mainHandler = Handler(Looper.getMainLooper())
+    private val nodes = mutableMapOf<Int, Node>()
+    private val animations = linkedMapOf<Int, Animation>()
+    private var frameScheduled = false
+
+    fun createNode(tag: Int, config: JSONObject) = onMain {
+        nodes[tag] = when (val type = config.getString("type")) {
+            "value" -> ValueNode(config.optDouble("value", 0.0), config.optDouble("offset", 0.0))
+            "interpolation" -> {
+                val inputRange = config.getJSONArray("inputRange")
+                InterpolationNode(
+                    config.getInt("input"),
+                    DoubleArray(inputRange.length()) { inputRange.getDouble(it) },
+                    config.getJSONArray("outputRange"),
+                    config.optString("extrapolateLeft", "extend"),
+                    config.optString("extrapolateRight", "extend")
+                )
+            }
+            "addition", "subtraction", "multiplication", "division" -> {
+                val inputs = config.getJSONArray("input")
+                ArithmeticNode(type, IntArray(inputs.length()) { inputs.getInt(it) })
+            }
+            "modulus" -> ModulusNode(config.getInt("input"), config.getDouble("modulus"))
+            "diffclamp" -> DiffClampNode(config.getInt("input"), config.getDouble("min"), config.getDouble("max"))
+            "props" -> {
+                val props = config.getJSONObject("props")
+                PropsNode(props.keys().asSequence().associateWith { props.getInt(it) })
+            }
+            else -> throw IllegalArgumentException("Unknown animated node type: $type")
+        }
+    }
+
+    fun dropNode(tag: Int) = onMain {
+        nodes.remove(tag)
+    }
+
+    fun connectToView(tag: Int, viewId: String) = onMain {
+        val node = nodes[tag] as? PropsNode ?: return@onMain
+        node.views.add(viewId)
+        applyProps(node)
+    }
+
+    fun disconnectFromView(tag: Int, viewId: String) = onMain {
+        (nodes[tag] as? PropsNode)?.views?.remove(viewId)
+    }
+
+    fun setValue(tag: Int, value: Double, offset: Double) = onMain {
+        val node = nodes[tag] as? ValueNode ?: return@onMain
+        node.value = value
+        node.offset = offset
+        applyAllProps()
+    }
+
+    fun startAnimation(animationId: Int, tag: Int, config: JSONObject) = onMain {
+        // A new animation interrupts the one running on the same value
+        animations.values.filter { it.tag == tag }.forEach { finish(it, false) }
+
+        val delayNanos = config.optLong("delay", 0) * 1_000_000
+        animations[animationId] = when (val type = config.getString("type")) {
+            "timing" -> {
+                val frames = config.getJSONArray("frames")
+                TimingAnimation(
+                    animationId, tag, delayNanos,
+                    DoubleArray(frames.length()) { frames.getDouble(it) },
+                    config.getDouble("toValue")
+                )
+            }
+            "spring" -> SpringAnimation(animationId, tag, delayNanos, config)
+            "decay" -> DecayAnimation(animationId, tag, delayNanos, config)
+            else -> throw IllegalArgumentException("Unknown animation type: $type")
+        }
+        scheduleFrame()
+    }
+
+    fun stopAnimation(animationId: Int) = onMain {
+        animations[animationId]?.let { finish(it, false) }
+    }
+
+    override fun doFrame(frameTimeNanos: Long) {
+        frameScheduled = false
+
+        for (animation in animations.values.toList()) {
+            val node = nodes[animation.tag] as? ValueNode
+            if (node == null) {
+                finish(animation, false)
+                continue
+            }
+
+            if (animation.startNanos < 0) {
+                animation.startNanos = frameTimeNanos
+            }
+            val elapsed = frameTimeNanos - animation.startNanos - animation.delayNanos
+            if (elapsed >= 0 && animation.step(node, elapsed)) {
+                finish(animation, true)
+            }
+        }
+
+        applyAllProps()
+        if (animations.isNotEmpty()) {
+            scheduleFrame()
+        }
+    }
+
+    /**
+     * Stop every animation and drop the graph
+     */
+    fun clear() = onMain {
+        animations.clear()
+        nodes.clear()
+        Choreographer.getInstance().removeFrameCallback(this)
+        frameScheduled = false
+    }
+
+    private fun finish(animation: Animation, finished: Boolean) {
+        animations.remove(animation.animationId)
+        val value = (nodes[animation.tag] as? ValueNode)?.value ?: 0.0
+        onAnimationFinished(animation.animationId, finished, value)
+    }
+
+    private fun scheduleFrame() {
+        if (!frameScheduled) {
+            frameScheduled = true
+            Choreographer.getInstance().postFrameCallback(this)
+        }
+    }
+
+    private fun applyAllProps() {
+        nodes.values.filterIsInstance<PropsNode>().forEach { applyProps(it) }
+    }
+
+    private fun applyProps(node: PropsNode) {
+        for (viewId in node.views) {
+            val view = viewRegistry.get(viewId) ?: continue
+            val fallback = JSONObject()
+
+            for ((name, tag) in node.props) {
+                val value = evaluate(tag)
+                if (!applyFastProp(view, name, value)) {
+                    fallback.put(name, value)
+                }
+            }
+
+            if (fallback.length() > 0) {
+                viewFactory.updateView(view, JSONObject().put("style", fallback))
+            }
+        }
+    }
+
+    /**
+     * Write the props that map directly onto View properties without a
+     * full prop update
+     */
+    private fun applyFastProp(view: View, name: String, value: Any): Boolean {
+        val number = (value as? Number)?.toFloat()
+        val density = context.resources.displayMetrics.density
+
+        when {
+            name == "opacity" && number != null -> view.alpha = number
+            name == "translateX" && number != null -> view.translationX = number * density
+            name == "translateY" && number != null -> view.translationY = number * density
+            name == "scale" && number != null -> {
+                view.scaleX = number
+                view.scaleY = number
+            }
+            name == "scaleX" && number != null -> view.scaleX = number
+            name == "scaleY" && number != null -> view.scaleY = number
+            name == "rotate" && number != null -> view.rotation = number
+            name == "backgroundColor" && value is String -> view.setBackgroundColor(parseColor(value))
+            else -> return false
+        }
+        return true
+    }
+
+    private fun evaluate(tag: Int): Any {
+        return when (val node = nodes[tag]) {
+            is ValueNode -> node.value + node.offset
+            is InterpolationNode -> interpolate(node, evaluateNumber(node.input))
+            is ArithmeticNode -> {
+                val a = evaluateNumber(node.inputs[0])
+                val b = evaluateNumber(node.inputs[1])
+                when (node.operator) {
+                    "addition" -> a + b
+                    "subtraction" -> a - b
+                    "multiplication" -> a * b
+                    else -> if (b == 0.0) 0.0 else a / b
+                }
+            }
+            is ModulusNode -> ((evaluateNumber(node.input) % node.modulus) + node.modulus) % node.modulus
+            is DiffClampNode -> {
+                val input = evaluateNumber(node.input)
+                node.value = if (node.lastInput.isNaN()) {
+                    input.coerceIn(node.min, node.max)
+                } else {
+                    (node.value + input - node.lastInput).coerceIn(node.min, node.max)
+                }
+                node.lastInput = input
+                node.value
+            }
+            else -> 0.0
+        }
+    }
+
+    private fun evaluateNumber(tag: Int): Double = (evaluate(tag) as? Number)?.toDouble() ?: 0.0
+
+    private fun interpolate(node: InterpolationNode, input: Double): Any {
+        val inputRange = node.inputRange
+        val outputRange = node.outputRange
+        val last = inputRange.size - 1
+
+        var i = 0
+        while (i < last - 1 && input >= inputRange[i + 1]) {
+            i++
+        }
+
+        if (input < inputRange[0]) {
+            when (node.extrapolateLeft) {
+                "clamp" -> return outputRange.get(0)
+                "identity" -> return input
+            }
+        } else if (input > inputRange[last]) {
+            when (node.extrapolateRight) {
+                "clamp" -> return outputRange.get(last)
+                "identity" -> return input
+            }
+        }
+
+        val t = (input - inputRange[i]) / (inputRange[i + 1] - inputRange[i])
+        val from = outputRange.get(i)
+        val to = outputRange.get(i + 1)
+
+        return when {
+            from is Number && to is Number -> from.toDouble() + t * (to.toDouble() - from.toDouble())
+            from is String && to is String -> interpolateColor(parseColor(from), parseColor(to), t)
+            else -> from
+        }
+    }
+
+    private fun interpolateColor(from: Int, to: Int, t: Double): String {
+        fun channel(shift: Int): Int {
+            val a = (from shr shift) and 0xFF
+            val b = (to shr shift) and 0xFF
+            return (a + t * (b - a)).toInt().coerceIn(0, 255)
+        }
+        return String.format("#%02x%02x%02x%02x", channel(16), channel(8), channel(0), channel(24))
+    }
+
+    /** Parse `#rrggbb` / `#rrggbbaa` (CSS order) into an Android ARGB int */
+    private fun parseColor(color: String): Int {
+        val hex = color.removePrefix("#")
+        return try {
+            if (hex.length == 8) {
+                Color.parseColor("#" + hex.substring(6) + hex.substring(0, 6))
+            } else {
+                Color.parseColor("#$hex")
+            }
+        } catch (e: IllegalArgumentException) {
+            Color.TRANSPARENT
+        }
+    }
+
+    private fun onMain(block: () -> Unit) {
+        if (Looper.myLooper() == Looper.getMainLooper()) {
+            block()
+        } else {
+            mainHandler.post(block)
+        }
+    }
+}
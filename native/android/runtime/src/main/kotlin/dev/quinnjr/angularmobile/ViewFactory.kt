@@ -11,6 +11,7 @@ import android.view.View
 import android.view.ViewGroup
 import android.widget.*
 import androidx.appcompat.widget.SwitchCompat
+import androidx.core.content.ContextCompat
 import androidx.core.widget.NestedScrollView
 import androidx.recyclerview.widget.LinearLayoutManager
 import androidx.recyclerview.widget.RecyclerView
@@ -265,25 +266,17 @@ class ViewFactory(
         )
 
         // Background
-        style.optString("backgroundColor")?.let { color ->
-            if (color.isNotEmpty()) {
-                try {
-                    val bgDrawable = GradientDrawable().apply {
-                        setColor(Color.parseColor(color))
-                        cornerRadius = dpToPx(style.optDouble("borderRadius", 0.0)).toFloat()
-
-                        val borderWidth = dpToPx(style.optDouble("borderWidth", 0.0))
-                        if (borderWidth > 0) {
-                            setStroke(borderWidth, Color.parseColor(
-                                style.optString("borderColor", "#000000")
-                            ))
-                        }
-                    }
-                    view.background = bgDrawable
-                } catch (e: Exception) {
-                    // Invalid color
+        parseColor(style.opt("backgroundColor"))?.let { color ->
+            val bgDrawable = GradientDrawable().apply {
+                setColor(color)
+                cornerRadius = dpToPx(style.optDouble("borderRadius", 0.0)).toFloat()
+
+                val borderWidth = dpToPx(style.optDouble("borderWidth", 0.0))
+                if (borderWidth > 0) {
+                    setStroke(borderWidth, parseColor(style.opt("borderColor")) ?: Color.BLACK)
                 }
             }
+            view.background = bgDrawable
         }
 
         // Opacity
@@ -313,13 +306,7 @@ class ViewFactory(
         }
 
         // Font color
-        style.optString("color")?.let { color ->
-            if (color.isNotEmpty()) {
-                try {
-                    view.setTextColor(Color.parseColor(color))
-                } catch (e: Exception) { }
-            }
-        }
+        parseColor(style.opt("color"))?.let { view.setTextColor(it) }
 
         // Font weight
         val fontWeight = style.optString("fontWeight", "normal")
@@ -366,6 +353,54 @@ class ViewFactory(
         ).toInt()
     }
 
+    /**
+     * Resolve a style color: a packed ARGB number, a color string or a
+     * `{ platformColor: [...] }` reference (first name that resolves wins)
+     */
+    private fun parseColor(value: Any?): Int? {
+        return when (value) {
+            is Number -> value.toLong().toInt()
+            is String -> try {
+                val hex = value.removePrefix("#")
+                if (value.startsWith("#") && hex.length == 8) {
+                    // CSS #rrggbbaa to Android #aarrggbb
+                    Color.parseColor("#" + hex.substring(6) + hex.substring(0, 6))
+                } else {
+                    Color.parseColor(value)
+                }
+            } catch (e: IllegalArgumentException) {
+                null
+            }
+            is JSONObject -> value.optJSONArray("platformColor")?.let { names ->
+                (0 until names.length()).firstNotNullOfOrNull { resolvePlatformColor(names.optString(it)) }
+            }
+            else -> null
+        }
+    }
+
+    /**
+     * Resolve `?[package:]attr/name` theme attributes and
+     * `@[package:]color/name` color resources
+     */
+    private fun resolvePlatformColor(name: String): Int? {
+        val match = Regex("^([?@])(?:([\\w.]+):)?(?:attr/|color/)?(\\w+)$").find(name) ?: return null
+        val (prefix, pkg, entry) = match.destructured
+        val isAttribute = prefix == "?"
+        val id = context.resources.getIdentifier(
+            entry,
+            if (isAttribute) "attr" else "color",
+            pkg.ifEmpty { context.packageName }
+        )
+        if (id == 0) return null
+
+        if (!isAttribute) {
+            return ContextCompat.getColor(context, id)
+        }
+        val typedValue = TypedValue()
+        if (!context.theme.resolveAttribute(id, typedValue, true)) return null
+        return if (typedValue.resourceId != 0) ContextCompat.getColor(context, typedValue.resourceId) else typedValue.data
+    }
+
     private fun parseDimension(value: Any?): Int? {
         return when (value) {
             is Number -> dpToPx(value.toDouble())
@@ -8,12 +8,24 @@ import UIKit
 /// Hosts the JavaScript bundle and provides the bridge to native views.
 public class AngularMobileRuntime: NSObject {
 
+    // MARK: - Protocol
+
+    /// Bridge protocol version; must match BRIDGE_PROTOCOL_VERSION in the npm package
+    public static let protocolVersion = 1
+    public static let runtimeVersion = "0.1.0"
+
+    /// Optional features this runtime implements
+    public static let capabilities = ["views", "batch", "measure", "focus", "nativeAnimations", "layoutAnimations", "gestures", "accessibilityInfo"]
+
     // MARK: - Properties
 
     private var webView: WKWebView!
     private let viewRegistry = ViewRegistry()
     private let viewFactory: ViewFactory
     private let eventDispatcher = EventDispatcher()
+    private var animatedNodes: NativeAnimatedNodesManager!
+    private var gestureHandlers: GestureHandlerManager!
+    private let layoutAnimations: LayoutAnimationManager
     private let config: RuntimeConfig
 
     private weak var rootContainer: UIView?
@@ -25,8 +37,33 @@ public class AngularMobileRuntime: NSObject {
     public init(config: RuntimeConfig = RuntimeConfig()) {
         self.config = config
         self.viewFactory = ViewFactory(viewRegistry: viewRegistry)
+        self.layoutAnimations = LayoutAnimationManager(viewRegistry: viewRegistry)
         super.init()
+        self.animatedNodes = NativeAnimatedNodesManager(
+            viewRegistry: viewRegistry,
+            viewFactory: viewFactory
+        ) { [weak self] animationId, finished, value in
+            self?.sendEvent(type: "animationFinished", payload: [
+                "animationId": animationId,
+                "finished": finished,
+                "value": value
+            ])
+        }
+        self.gestureHandlers = GestureHandlerManager(viewRegistry: viewRegistry) { [weak self] handlerTag, state, data in
+            self?.sendEvent(type: "gestureHandlerEvent", payload: [
+                "handlerTag": handlerTag,
+                "state": state,
+                "data": data
+            ])
+        }
         setupWebView()
+
+        NotificationCenter.default.addObserver(
+            self,
+            selector: #selector(reduceMotionStatusDidChange),
+            name: UIAccessibility.reduceMotionStatusDidChangeNotification,
+            object: nil
+        )
     }
 
     private func setupWebView() {
@@ -117,8 +154,33 @@ public class AngularMobileRuntime: NSObject {
         }
     }
 
+    private func sendEvent(type: String, payload: [String: Any]) {
+        let event: [String: Any] = ["type": type, "payload": payload]
+
+        if let jsonData = try? JSONSerialization.data(withJSONObject: event),
+           let jsonString = String(data: jsonData, encoding: .utf8) {
+            sendToJS(jsonString)
+        }
+    }
+
+    /// Accessibility settings, shaped like `AccessibilityInfo` in the npm package
+    private func accessibilityInfo() -> [String: Any] {
+        return ["reduceMotionEnabled": UIAccessibility.isReduceMotionEnabled]
+    }
+
+    @objc private func reduceMotionStatusDidChange() {
+        sendEvent(type: "accessibilityInfoChange", payload: accessibilityInfo())
+    }
+
     /// Clean up resources
     public func destroy() {
+        NotificationCenter.default.removeObserver(
+            self,
+            name: UIAccessibility.reduceMotionStatusDidChangeNotification,
+            object: nil
+        )
+        animatedNodes.clear()
+        gestureHandlers.clear()
         webView.configuration.userContentController.removeScriptMessageHandler(forName: "nativeBridge")
         viewRegistry.clear()
         eventDispatcher.clear()
@@ -138,6 +200,10 @@ public class AngularMobileRuntime: NSObject {
 
         do {
             switch type {
+            // Protocol
+            case "handshake":
+                handleHandshake(id: id, payload: payload)
+
             // View Operations
             case "createView":
                 try handleCreateView(id: id, payload: payload)
@@ -168,6 +234,19 @@ public class AngularMobileRuntime: NSObject {
             case "blur":
                 try handleBlur(id: id, payload: payload)
 
+            // Native-driven Animations
+            case "createAnimatedNode", "dropAnimatedNode", "connectAnimatedNodeToView",
+                 "disconnectAnimatedNodeFromView", "setAnimatedNodeValue", "startAnimatingNode", "stopAnimation":
+                try handleAnimatedNodes(type: type, id: id, payload: payload)
+
+            // Gesture Recognizers
+            case "createGestureHandler", "attachGestureHandler", "updateGestureHandler", "dropGestureHandler":
+                try handleGestureHandlers(type: type, id: id, payload: payload)
+
+            // Accessibility
+            case "getAccessibilityInfo":
+                sendSuccess(id: id, data: accessibilityInfo())
+
             default:
                 print("[AngularMobile] Unknown message type: \(type)")
                 sendError(id: id, error: "Unknown message type: \(type)")
@@ -178,6 +257,22 @@ public class AngularMobileRuntime: NSObject {
         }
     }
 
+    // MARK: - Protocol
+
+    private func handleHandshake(id: String?, payload: [String: Any]) {
+        let jsVersion = payload["protocolVersion"] as? Int ?? 0
+        if jsVersion != Self.protocolVersion {
+            print("[AngularMobile] Bridge protocol mismatch: JavaScript v\(jsVersion), native v\(Self.protocolVersion)")
+        }
+
+        sendSuccess(id: id, data: [
+            "protocolVersion": Self.protocolVersion,
+            "capabilities": Self.capabilities,
+            "runtime": "ios",
+            "runtimeVersion": Self.runtimeVersion
+        ])
+    }
+
     // MARK: - View Operations
 
     private func handleCreateView(id: String?, payload: [String: Any]) throws {
@@ -289,9 +384,16 @@ public class AngularMobileRuntime: NSObject {
 
     private func handleBatch(id: String?, payload: [String: Any]) throws {
         let operations = payload["operations"] as? [[String: Any]] ?? payload["messages"] as? [[String: Any]] ?? []
+        let apply = {
+            for op in operations {
+                self.handleMessage(op)
+            }
+        }
 
-        for op in operations {
-            handleMessage(op)
+        if let layoutAnimation = payload["layoutAnimation"] as? [String: Any] {
+            layoutAnimations.perform(config: layoutAnimation, operations: operations, apply: apply)
+        } else {
+            apply()
         }
 
         sendSuccess(id: id)
@@ -339,6 +441,72 @@ public class AngularMobileRuntime: NSObject {
         sendSuccess(id: id)
     }
 
+    // MARK: - Native-driven Animations
+
+    private func handleAnimatedNodes(type: String, id: String?, payload: [String: Any]) throws {
+        let tag = payload["tag"] as? Int ?? 0
+
+        switch type {
+        case "createAnimatedNode":
+            guard let config = payload["config"] as? [String: Any] else {
+                throw RuntimeError.invalidPayload
+            }
+            try animatedNodes.createNode(tag: tag, config: config)
+        case "dropAnimatedNode":
+            animatedNodes.dropNode(tag: tag)
+        case "connectAnimatedNodeToView", "disconnectAnimatedNodeFromView":
+            guard let viewId = payload["viewId"] as? String else {
+                throw RuntimeError.invalidPayload
+            }
+            if type == "connectAnimatedNodeToView" {
+                animatedNodes.connectToView(tag: tag, viewId: viewId)
+            } else {
+                animatedNodes.disconnectFromView(tag: tag, viewId: viewId)
+            }
+        case "setAnimatedNodeValue":
+            let value = (payload["value"] as? NSNumber)?.doubleValue ?? 0
+            let offset = (payload["offset"] as? NSNumber)?.doubleValue ?? 0
+            animatedNodes.setValue(tag: tag, value: value, offset: offset)
+        case "startAnimatingNode":
+            guard let animationId = payload["animationId"] as? Int,
+                  let config = payload["config"] as? [String: Any] else {
+                throw RuntimeError.invalidPayload
+            }
+            try animatedNodes.startAnimation(animationId: animationId, tag: tag, config: config)
+        default:
+            guard let animationId = payload["animationId"] as? Int else {
+                throw RuntimeError.invalidPayload
+            }
+            animatedNodes.stopAnimation(animationId: animationId)
+        }
+        sendSuccess(id: id)
+    }
+
+    private func handleGestureHandlers(type: String, id: String?, payload: [String: Any]) throws {
+        guard let handlerTag = payload["handlerTag"] as? Int else {
+            throw RuntimeError.invalidPayload
+        }
+        let config = payload["config"] as? [String: Any] ?? [:]
+
+        switch type {
+        case "createGestureHandler":
+            guard let handlerType = payload["handlerType"] as? String else {
+                throw RuntimeError.invalidPayload
+            }
+            try gestureHandlers.createHandler(tag: handlerTag, type: handlerType, config: config)
+        case "attachGestureHandler":
+            guard let viewId = payload["viewId"] as? String else {
+                throw RuntimeError.invalidPayload
+            }
+            try gestureHandlers.attachHandler(tag: handlerTag, viewId: viewId)
+        case "updateGestureHandler":
+            try gestureHandlers.updateHandler(tag: handlerTag, config: config)
+        default:
+            gestureHandlers.dropHandler(tag: handlerTag)
+        }
+        sendSuccess(id: id)
+    }
+
     // MARK: - Response Helpers
 
     private func sendSuccess(id: String?, data: [String: Any]? = nil) {
@@ -0,0 +1,273 @@
+import Foundation
+import UIKit
+import UIKit.UIGestureRecognizerSubclass
+
+/// Gesture Handler Manager
+///
+/// Backs the JavaScript gesture handlers with UIKit recognizers (tap, long
+/// press, pan, pinch and rotation) and reports their state changes and
+/// active updates back. Recognizers are exclusive unless JavaScript lists
+/// them as simultaneous; `waitFor` maps to `require(toFail:)`.
+///
+/// Tap timing (`maxDurationMs`, `maxDelayMs`, `maxDist`) follows the system
+/// tap recognizer.
+final class GestureHandlerManager: NSObject, UIGestureRecognizerDelegate {
+
+    /// `GestureState` in the npm package
+    private enum State: Int {
+        case undetermined = 0
+        case failed = 1
+        case began = 2
+        case cancelled = 3
+        case active = 4
+        case end = 5
+    }
+
+    private final class Handler {
+        let tag: Int
+        let type: String
+        var config: [String: Any]
+        var recognizer: UIGestureRecognizer
+        var viewId: String?
+        var activatedAt: CFTimeInterval = 0
+
+        init(tag: Int, type: String, config: [String: Any], recognizer: UIGestureRecognizer) {
+            self.tag = tag
+            self.type = type
+            self.config = config
+            self.recognizer = recognizer
+        }
+
+        var simultaneousHandlers: [Int] { config["simultaneousHandlers"] as? [Int] ?? [] }
+        var waitFor: [Int] { config["waitFor"] as? [Int] ?? [] }
+    }
+
+    /// Pan recognizer that stays possible until the touch has moved `minDistance`
+    private final class PanRecognizer: UIPanGestureRecognizer {
+        var minDistance: CGFloat = 10
+        private var origin: CGPoint?
+
+        override func touchesBegan(_ touches: Set<UITouch>, with event: UIEvent) {
+            if origin == nil {
+                origin = touches.first?.location(in: nil)
+            }
+            super.touchesBegan(touches, with: event)
+        }
+
+        override func touchesMoved(_ touches: Set<UITouch>, with event: UIEvent) {
+            if state == .possible, let origin = origin, let point = touches.first?.location(in: nil),
+               hypot(point.x - origin.x, point.y - origin.y) < minDistance {
+                return
+            }
+            super.touchesMoved(touches, with: event)
+        }
+
+        override func reset() {
+            super.reset()
+            origin = nil
+        }
+    }
+
+    private let viewRegistry: ViewRegistry
+    private let onEvent: (_ handlerTag: Int, _ state: Int, _ data: [String: Any]) -> Void
+
+    private var handlers: [Int: Handler] = [:]
+
+    init(
+        viewRegistry: ViewRegistry,
+        onEvent: @escaping (_ handlerTag: Int, _ state: Int, _ data: [String: Any]) -> Void
+    ) {
+        self.viewRegistry = viewRegistry
+        self.onEvent = onEvent
+    }
+
+    // MARK: - Handlers
+
+    func createHandler(tag: Int, type: String, config: [String: Any]) throws {
+        let handler = Handler(tag: tag, type: type, config: config, recognizer: try makeRecognizer(type: type))
+        handlers[tag] = handler
+        configure(handler)
+        applyRelations()
+    }
+
+    func attachHandler(tag: Int, viewId: String) throws {
+        guard let handler = handlers[tag] else { return }
+        guard let view = viewRegistry.get(viewId: viewId) else {
+            throw RuntimeError.viewNotFound(viewId)
+        }
+
+        handler.recognizer.view?.removeGestureRecognizer(handler.recognizer)
+        handler.viewId = viewId
+        view.isUserInteractionEnabled = true
+        view.addGestureRecognizer(handler.recognizer)
+    }
+
+    /// Recognizers are rebuilt on update because UIKit cannot drop a `require(toFail:)`
+    func updateHandler(tag: Int, config: [String: Any]) throws {
+        guard let handler = handlers[tag] else { return }
+
+        let view = handler.recognizer.view
+        view?.removeGestureRecognizer(handler.recognizer)
+        handler.config = config
+        handler.recognizer = try makeRecognizer(type: handler.type)
+        configure(handler)
+        view?.addGestureRecognizer(handler.recognizer)
+        applyRelations()
+    }
+
+    func dropHandler(tag: Int) {
+        guard let handler = handlers.removeValue(forKey: tag) else { return }
+        handler.recognizer.view?.removeGestureRecognizer(handler.recognizer)
+    }
+
+    func clear() {
+        for handler in handlers.values {
+            handler.recognizer.view?.removeGestureRecognizer(handler.recognizer)
+        }
+        handlers.removeAll()
+    }
+
+    // MARK: - Recognizers
+
+    private func makeRecognizer(type: String) throws -> UIGestureRecognizer {
+        let action = #selector(handleGesture(_:))
+        switch type {
+        case "tap": return UITapGestureRecognizer(target: self, action: action)
+        case "longPress": return UILongPressGestureRecognizer(target: self, action: action)
+        case "pan": return PanRecognizer(target: self, action: action)
+        case "pinch": return UIPinchGestureRecognizer(target: self, action: action)
+        case "rotation": return UIRotationGestureRecognizer(target: self, action: action)
+        default: throw RuntimeError.invalidPayload
+        }
+    }
+
+    private func configure(_ handler: Handler) {
+        let config = handler.config
+        let recognizer = handler.recognizer
+        recognizer.delegate = self
+        recognizer.isEnabled = config["enabled"] as? Bool ?? true
+
+        switch recognizer {
+        case let tap as UITapGestureRecognizer:
+            tap.numberOfTapsRequired = config["numberOfTaps"] as? Int ?? 1
+        case let longPress as UILongPressGestureRecognizer:
+            longPress.minimumPressDuration = (config["minDurationMs"] as? Double ?? 500) / 1000
+            longPress.allowableMovement = CGFloat(config["maxDist"] as? Double ?? 10)
+        case let pan as PanRecognizer:
+            pan.minDistance = CGFloat(config["minDistance"] as? Double ?? 10)
+            pan.minimumNumberOfTouches = config["minPointers"] as? Int ?? 1
+            pan.maximumNumberOfTouches = config["maxPointers"] as? Int ?? 10
+        default:
+            break
+        }
+    }
+
+    private func applyRelations() {
+        for handler in handlers.values {
+            for tag in handler.waitFor {
+                if let other = handlers[tag] {
+                    handler.recognizer.require(toFail: other.recognizer)
+                }
+            }
+        }
+    }
+
+    private func findHandler(for recognizer: UIGestureRecognizer) -> Handler? {
+        handlers.values.first { $0.recognizer === recognizer }
+    }
+
+    // MARK: - Events
+
+    @objc private func handleGesture(_ recognizer: UIGestureRecognizer) {
+        guard let handler = findHandler(for: recognizer) else { return }
+
+        if handler.config["shouldCancelWhenOutside"] as? Bool ?? (handler.type == "tap" || handler.type == "longPress"),
+           recognizer.state == .changed, let view = recognizer.view,
+           !view.bounds.contains(recognizer.location(in: view)) {
+            // Toggling isEnabled cancels the recognizer
+            recognizer.isEnabled = false
+            recognizer.isEnabled = true
+            return
+        }
+
+        switch recognizer.state {
+        case .began:
+            handler.activatedAt = CACurrentMediaTime()
+            send(handler, .began)
+            send(handler, .active)
+        case .changed:
+            send(handler, .active)
+        case .ended:
+            if recognizer is UITapGestureRecognizer {
+                // Taps are discrete: recognition is the whole gesture
+                send(handler, .began)
+                send(handler, .active)
+            }
+            send(handler, .end)
+        case .cancelled:
+            send(handler, .cancelled)
+        case .failed:
+            send(handler, .failed)
+        default:
+            break
+        }
+    }
+
+    private func send(_ handler: Handler, _ state: State) {
+        onEvent(handler.tag, state.rawValue, data(for: handler))
+    }
+
+    private func data(for handler: Handler) -> [String: Any] {
+        let recognizer = handler.recognizer
+        guard let view = recognizer.view else { return [:] }
+
+        let location = recognizer.location(in: view)
+        let absolute = recognizer.location(in: nil)
+
+        switch recognizer {
+        case let pan as UIPanGestureRecognizer:
+            let translation = pan.translation(in: view)
+            let velocity = pan.velocity(in: view)
+            return [
+                "x": location.x, "y": location.y,
+                "absoluteX": absolute.x, "absoluteY": absolute.y,
+                "translationX": translation.x, "translationY": translation.y,
+                "velocityX": velocity.x, "velocityY": velocity.y
+            ]
+        case let pinch as UIPinchGestureRecognizer:
+            return ["scale": pinch.scale, "focalX": location.x, "focalY": location.y, "velocity": pinch.velocity]
+        case let rotation as UIRotationGestureRecognizer:
+            return [
+                "rotation": rotation.rotation,
+                "anchorX": location.x, "anchorY": location.y,
+                "velocity": rotation.velocity
+            ]
+        case let longPress as UILongPressGestureRecognizer:
+            let held = CACurrentMediaTime() - handler.activatedAt + longPress.minimumPressDuration
+            return [
+                "x": location.x, "y": location.y,
+                "absoluteX": absolute.x, "absoluteY": absolute.y,
+                "duration": held * 1000
+            ]
+        default:
+            return [
+                "x": location.x, "y": location.y,
+                "absoluteX": absolute.x, "absoluteY": absolute.y,
+                "numberOfPointers": recognizer.numberOfTouches
+            ]
+        }
+    }
+
+    // MARK: - UIGestureRecognizerDelegate
+
+    func gestureRecognizer(
+        _ gestureRecognizer: UIGestureRecognizer,
+        shouldRecognizeSimultaneouslyWith otherGestureRecognizer: UIGestureRecognizer
+    ) -> Bool {
+        guard let handler = findHandler(for: gestureRecognizer),
+              let other = findHandler(for: otherGestureRecognizer) else {
+            return false
+        }
+        return handler.simultaneousHandlers.contains(other.tag) || other.simultaneousHandlers.contains(handler.tag)
+    }
+}
@@ -0,0 +1,166 @@
+import Foundation
+import UIKit
+
+/// Layout Animation Manager
+///
+/// Animates the view operations of a batch that carries a `layoutAnimation`
+/// config (`LayoutAnimation.configureNext` in JavaScript). Views that move
+/// or resize animate from their old frame, inserted views fade or scale
+/// in and removed views are replaced by a snapshot that fades or scales out.
+final class LayoutAnimationManager {
+
+    private struct Anim {
+        let duration: TimeInterval
+        let delay: TimeInterval
+        let type: String
+        let property: String
+        let springDamping: CGFloat
+
+        init?(_ config: Any?, duration: Double) {
+            guard let config = config as? [String: Any] else { return nil }
+            self.duration = (config["duration"] as? Double ?? duration) / 1000
+            self.delay = (config["delay"] as? Double ?? 0) / 1000
+            self.type = config["type"] as? String ?? "linear"
+            self.property = config["property"] as? String ?? "opacity"
+            self.springDamping = CGFloat(config["springDamping"] as? Double ?? 0.7)
+        }
+    }
+
+    private let viewRegistry: ViewRegistry
+
+    init(viewRegistry: ViewRegistry) {
+        self.viewRegistry = viewRegistry
+    }
+
+    /// Run `apply` (which performs the batch operations) under the layout animation
+    func perform(config: [String: Any], operations: [[String: Any]], apply: () -> Void) {
+        let duration = config["duration"] as? Double ?? 300
+        let create = Anim(config["create"], duration: duration)
+        let update = Anim(config["update"], duration: duration)
+        let delete = Anim(config["delete"], duration: duration)
+
+        var parents: [UIView] = []
+        var inserted = Set<ObjectIdentifier>()
+        var removed: [UIView] = []
+
+        for operation in operations {
+            let payload = operation["payload"] as? [String: Any] ?? [:]
+            switch operation["type"] as? String {
+            case "appendChild", "insertChild":
+                if let parent = view(payload["parentId"]) { parents.append(parent) }
+                if let child = view(payload["childId"]) { inserted.insert(ObjectIdentifier(child)) }
+            case "removeChild":
+                if let child = view(payload["childId"]), let parent = child.superview {
+                    parents.append(parent)
+                    removed.append(child)
+                }
+            case "updateView", "removeView":
+                if let parent = view(payload["viewId"])?.superview { parents.append(parent) }
+            default:
+                break
+            }
+        }
+
+        // Remember where every existing child was before the batch
+        var oldFrames: [ObjectIdentifier: CGRect] = [:]
+        for parent in parents {
+            for child in parent.subviews {
+                oldFrames[ObjectIdentifier(child)] = child.frame
+            }
+        }
+
+        let snapshots: [UIView] = delete == nil ? [] : removed.compactMap { child in
+            guard let parent = child.superview, let snapshot = child.snapshotView(afterScreenUpdates: false) else {
+                return nil
+            }
+            snapshot.frame = child.frame
+            parent.addSubview(snapshot)
+            return snapshot
+        }
+
+        apply()
+
+        UIView.performWithoutAnimation {
+            parents.forEach { $0.layoutIfNeeded() }
+        }
+
+        for parent in parents {
+            for child in parent.subviews where !snapshots.contains(child) {
+                let id = ObjectIdentifier(child)
+                if inserted.contains(id), let create = create {
+                    let final = (alpha: child.alpha, transform: child.transform)
+                    hide(child, property: create.property)
+                    animate(create, animations: {
+                        child.alpha = final.alpha
+                        child.transform = final.transform
+                    })
+                } else if let old = oldFrames[id], old != child.frame, let update = update {
+                    let final = child.frame
+                    child.frame = old
+                    animate(update, animations: { child.frame = final })
+                }
+            }
+        }
+
+        if let delete = delete {
+            for snapshot in snapshots {
+                animate(delete, animations: { self.hide(snapshot, property: delete.property) }) {
+                    snapshot.removeFromSuperview()
+                }
+            }
+        }
+    }
+
+    // MARK: - Helpers
+
+    private func view(_ id: Any?) -> UIView? {
+        guard let viewId = id as? String else { return nil }
+        return viewRegistry.get(viewId: viewId)
+    }
+
+    private func hide(_ view: UIView, property: String) {
+        switch property {
+        case "scaleXY":
+            view.transform = CGAffineTransform(scaleX: 0.01, y: 0.01)
+        case "scaleX":
+            view.transform = CGAffineTransform(scaleX: 0.01, y: 1)
+        case "scaleY":
+            view.transform = CGAffineTransform(scaleX: 1, y: 0.01)
+        default:
+            view.alpha = 0
+        }
+    }
+
+    private func animate(_ anim: Anim, animations: @escaping () -> Void, completion: (() -> Void)? = nil) {
+        let done: (Bool) -> Void = { _ in completion?() }
+
+        if anim.type == "spring" {
+            UIView.animate(
+                withDuration: anim.duration,
+                delay: anim.delay,
+                usingSpringWithDamping: anim.springDamping,
+                initialSpringVelocity: 0,
+                options: [.allowUserInteraction],
+                animations: animations,
+                completion: done
+            )
+            return
+        }
+
+        let curve: UIView.AnimationOptions
+        switch anim.type {
+        case "easeIn": curve = .curveEaseIn
+        case "easeOut": curve = .curveEaseOut
+        case "easeInEaseOut": curve = .curveEaseInOut
+        default: curve = .curveLinear
+        }
+
+        UIView.animate(
+            withDuration: anim.duration,
+            delay: anim.delay,
+            options: [curve, .allowUserInteraction],
+            animations: animations,
+            completion: done
+        )
+    }
+}
@@ -0,0 +1,437 @@
+import Foundation
+import UIKit
+
+/// Native Animated Nodes Manager
+///
+/// Runs `useNativeDriver: true` timing, spring and decay animations.
+/// JavaScript sends the animation graph (value, arithmetic, interpolation
+/// and props nodes) once; animations are then stepped on a CADisplayLink
+/// and written straight to the views, and JavaScript only hears back when
+/// they finish.
+final class NativeAnimatedNodesManager {
+
+    private enum Node {
+        case value(value: Double, offset: Double)
+        case interpolation(input: Int, inputRange: [Double], outputRange: [Any], extrapolateLeft: String, extrapolateRight: String)
+        case arithmetic(operator: String, inputs: [Int])
+        case modulus(input: Int, modulus: Double)
+        case diffClamp(input: Int, min: Double, max: Double, lastInput: Double?, value: Double)
+        case props(props: [String: Int], views: Set<String>)
+    }
+
+    private enum Driver {
+        /// Easing curve sampled once per 60fps frame
+        case timing(frames: [Double], toValue: Double, fromValue: Double?)
+        /// Closed-form spring solution, the same as `solveSpring` in the JS driver
+        case spring(config: [String: Any], displacement: Double?)
+        /// Exponential deceleration from an initial velocity, optionally bounded
+        case decay(config: [String: Any], fromValue: Double?, lastValue: Double)
+    }
+
+    private struct Animation {
+        let tag: Int
+        let delay: CFTimeInterval
+        var driver: Driver
+        var startTime: CFTimeInterval?
+    }
+
+    private static let frameDuration: CFTimeInterval = 1.0 / 60.0
+
+    private let viewRegistry: ViewRegistry
+    private let viewFactory: ViewFactory
+    private let onAnimationFinished: (_ animationId: Int, _ finished: Bool, _ value: Double) -> Void
+
+    private var nodes: [Int: Node] = [:]
+    private var animations: [Int: Animation] = [:]
+    private var displayLink: CADisplayLink?
+
+    init(
+        viewRegistry: ViewRegistry,
+        viewFactory: ViewFactory,
+        onAnimationFinished: @escaping (_ animationId: Int, _ finished: Bool, _ value: Double) -> Void
+    ) {
+        self.viewRegistry = viewRegistry
+        self.viewFactory = viewFactory
+        self.onAnimationFinished = onAnimationFinished
+    }
+
+    // MARK: - Graph
+
+    func createNode(tag: Int, config: [String: Any]) throws {
+        switch config["type"] as? String {
+        case "value":
+            nodes[tag] = .value(value: number(config["value"]), offset: number(config["offset"]))
+        case "interpolation":
+            guard let input = config["input"] as? Int,
+                  let inputRange = config["inputRange"] as? [Double],
+                  let outputRange = config["outputRange"] as? [Any] else {
+                throw RuntimeError.invalidPayload
+            }
+            nodes[tag] = .interpolation(
+                input: input,
+                inputRange: inputRange,
+                outputRange: outputRange,
+                extrapolateLeft: config["extrapolateLeft"] as? String ?? "extend",
+                extrapolateRight: config["extrapolateRight"] as? String ?? "extend"
+            )
+        case "addition", "subtraction", "multiplication", "division":
+            guard let type = config["type"] as? String, let inputs = config["input"] as? [Int], inputs.count == 2 else {
+                throw RuntimeError.invalidPayload
+            }
+            nodes[tag] = .arithmetic(operator: type, inputs: inputs)
+        case "modulus":
+            guard let input = config["input"] as? Int else {
+                throw RuntimeError.invalidPayload
+            }
+            nodes[tag] = .modulus(input: input, modulus: number(config["modulus"], default: 1))
+        case "diffclamp":
+            guard let input = config["input"] as? Int else {
+                throw RuntimeError.invalidPayload
+            }
+            nodes[tag] = .diffClamp(
+                input: input,
+                min: number(config["min"]),
+                max: number(config["max"]),
+                lastInput: nil,
+                value: 0
+            )
+        case "props":
+            guard let props = config["props"] as? [String: Int] else {
+                throw RuntimeError.invalidPayload
+            }
+            nodes[tag] = .props(props: props, views: [])
+        default:
+            throw RuntimeError.invalidPayload
+        }
+    }
+
+    func dropNode(tag: Int) {
+        nodes.removeValue(forKey: tag)
+    }
+
+    func connectToView(tag: Int, viewId: String) {
+        guard case .props(let props, var views)? = nodes[tag] else { return }
+        views.insert(viewId)
+        nodes[tag] = .props(props: props, views: views)
+        applyProps(props: props, views: [viewId])
+    }
+
+    func disconnectFromView(tag: Int, viewId: String) {
+        guard case .props(let props, var views)? = nodes[tag] else { return }
+        views.remove(viewId)
+        nodes[tag] = .props(props: props, views: views)
+    }
+
+    func setValue(tag: Int, value: Double, offset: Double) {
+        guard case .value? = nodes[tag] else { return }
+        nodes[tag] = .value(value: value, offset: offset)
+        applyAllProps()
+    }
+
+    // MARK: - Animations
+
+    func startAnimation(animationId: Int, tag: Int, config: [String: Any]) throws {
+        // A new animation interrupts the one running on the same value
+        for (runningId, running) in animations where running.tag == tag {
+            finish(animationId: runningId, finished: false)
+        }
+
+        let driver: Driver
+        switch config["type"] as? String {
+        case "timing":
+            guard let frames = config["frames"] as? [Double] else {
+                throw RuntimeError.invalidPayload
+            }
+            driver = .timing(frames: frames, toValue: number(config["toValue"]), fromValue: nil)
+        case "spring":
+            driver = .spring(config: config, displacement: nil)
+        case "decay":
+            driver = .decay(config: config, fromValue: nil, lastValue: 0)
+        default:
+            throw RuntimeError.invalidPayload
+        }
+
+        animations[animationId] = Animation(
+            tag: tag,
+            delay: number(config["delay"]) / 1000,
+            driver: driver
+        )
+        startDisplayLink()
+    }
+
+    func stopAnimation(animationId: Int) {
+        finish(animationId: animationId, finished: false)
+    }
+
+    /// Stop every animation and drop the graph
+    func clear() {
+        animations.removeAll()
+        nodes.removeAll()
+        displayLink?.invalidate()
+        displayLink = nil
+    }
+
+    // MARK: - Frame Loop
+
+    private func startDisplayLink() {
+        guard displayLink == nil else { return }
+        let link = CADisplayLink(target: self, selector: #selector(onFrame(_:)))
+        link.add(to: .main, forMode: .common)
+        displayLink = link
+    }
+
+    @objc private func onFrame(_ link: CADisplayLink) {
+        for (animationId, var animation) in animations {
+            guard case .value(var value, let offset)? = nodes[animation.tag] else {
+                finish(animationId: animationId, finished: false)
+                continue
+            }
+
+            let startTime = animation.startTime ?? link.timestamp
+            animation.startTime = startTime
+            let elapsed = link.timestamp - startTime - animation.delay
+            guard elapsed >= 0 else {
+                animations[animationId] = animation
+                continue
+            }
+
+            let done = step(&animation, value: &value, elapsed: elapsed)
+            nodes[animation.tag] = .value(value: value, offset: offset)
+            animations[animationId] = animation
+
+            if done {
+                finish(animationId: animationId, finished: true)
+            }
+        }
+
+        applyAllProps()
+        if animations.isEmpty {
+            displayLink?.invalidate()
+            displayLink = nil
+        }
+    }
+
+    /// Advance an animation; returns true once it has finished
+    private func step(_ animation: inout Animation, value: inout Double, elapsed: CFTimeInterval) -> Bool {
+        switch animation.driver {
+        case .timing(let frames, let toValue, let from):
+            let fromValue = from ?? value
+            animation.driver = .timing(frames: frames, toValue: toValue, fromValue: fromValue)
+
+            let frame = Int(elapsed / Self.frameDuration)
+            if frame >= frames.count - 1 {
+                value = toValue
+                return true
+            }
+            value = fromValue + (toValue - fromValue) * frames[frame]
+            return false
+
+        case .spring(let config, let initialDisplacement):
+            let toValue = number(config["toValue"])
+            let x0 = initialDisplacement ?? value - toValue
+            animation.driver = .spring(config: config, displacement: x0)
+
+            let stiffness = number(config["stiffness"], default: 100)
+            let damping = number(config["damping"], default: 10)
+            let mass = number(config["mass"], default: 1)
+            let v0 = number(config["initialVelocity"])
+            let t = elapsed
+
+            let omega0 = (stiffness / mass).squareRoot()
+            let zeta = damping / (2 * (stiffness * mass).squareRoot())
+            let displacement: Double
+            let velocity: Double
+
+            if zeta < 1 {
+                // Under-damped: oscillates around the target
+                let omega1 = omega0 * (1 - zeta * zeta).squareRoot()
+                let envelope = exp(-zeta * omega0 * t)
+                let b = (v0 + zeta * omega0 * x0) / omega1
+                displacement = envelope * (x0 * cos(omega1 * t) + b * sin(omega1 * t))
+                velocity = envelope * ((omega1 * b - zeta * omega0 * x0) * cos(omega1 * t) -
+                    (omega1 * x0 + zeta * omega0 * b) * sin(omega1 * t))
+            } else if zeta == 1 {
+                // Critically damped
+                let envelope = exp(-omega0 * t)
+                let b = v0 + omega0 * x0
+                displacement = envelope * (x0 + b * t)
+                velocity = envelope * (v0 - omega0 * b * t)
+            } else {
+                // Over-damped
+                let root = omega0 * (zeta * zeta - 1).squareRoot()
+                let r1 = -zeta * omega0 + root
+                let r2 = -zeta * omega0 - root
+                let c2 = (v0 - r1 * x0) / (r2 - r1)
+                let c1 = x0 - c2
+                displacement = c1 * exp(r1 * t) + c2 * exp(r2 * t)
+                velocity = c1 * r1 * exp(r1 * t) + c2 * r2 * exp(r2 * t)
+            }
+
+            let overshooting = config["overshootClamping"] as? Bool == true &&
+                (x0 < 0 ? displacement > 0 : displacement < 0)
+            let atRest = abs(velocity) <= number(config["restSpeedThreshold"], default: 0.001) &&
+                abs(displacement) <= number(config["restDisplacementThreshold"], default: 0.001)
+
+            value = overshooting || atRest ? toValue : toValue + displacement
+            return overshooting || atRest
+
+        case .decay(let config, let from, let lastValue):
+            let fromValue = from ?? value
+            let decay = 1 - number(config["deceleration"], default: 0.998)
+            let elapsedMs = elapsed * 1000
+            value = fromValue + number(config["velocity"]) / decay * (1 - exp(-decay * elapsedMs))
+            animation.driver = .decay(config: config, fromValue: fromValue, lastValue: value)
+
+            if let min = config["min"] as? NSNumber, value <= min.doubleValue {
+                value = min.doubleValue
+                return true
+            }
+            if let max = config["max"] as? NSNumber, value >= max.doubleValue {
+                value = max.doubleValue
+                return true
+            }
+
+            // At rest once it moves less than 0.1 per frame
+            return from != nil && abs(value - lastValue) < 0.1
+        }
+    }
+
+    private func finish(animationId: Int, finished: Bool) {
+        guard let animation = animations.removeValue(forKey: animationId) else { return }
+        var value = 0.0
+        if case .value(let current, _)? = nodes[animation.tag] {
+            value = current
+        }
+        onAnimationFinished(animationId, finished, value)
+    }
+
+    // MARK: - Props
+
+    private func applyAllProps() {
+        for case .props(let props, let views) in nodes.values {
+            applyProps(props: props, views: views)
+        }
+    }
+
+    private func applyProps(props: [String: Int], views: Set<String>) {
+        for viewId in views {
+            guard let view = viewRegistry.get(viewId: viewId) else { continue }
+            var fallback: [String: Any] = [:]
+
+            for (name, tag) in props {
+                let value = evaluate(tag: tag)
+                if !applyFastProp(view, name: name, value: value) {
+                    fallback[name] = value
+                }
+            }
+
+            if !fallback.isEmpty {
+                viewFactory.updateView(view, props: ["style": fallback])
+            }
+        }
+    }
+
+    /// Write the props that map directly onto view properties without a
+    /// full prop update
+    private func applyFastProp(_ view: UIView, name: String, value: Any) -> Bool {
+        let number = value as? Double
+
+        switch (name, number) {
+        case ("opacity", let opacity?):
+            view.alpha = CGFloat(opacity)
+        case ("translateX", let x?):
+            view.transform.tx = CGFloat(x)
+        case ("translateY", let y?):
+            view.transform.ty = CGFloat(y)
+        case ("scale", let scale?):
+            view.transform = CGAffineTransform(scaleX: CGFloat(scale), y: CGFloat(scale))
+                .translatedBy(x: view.transform.tx, y: view.transform.ty)
+        case ("rotate", let degrees?):
+            view.transform = CGAffineTransform(rotationAngle: CGFloat(degrees * .pi / 180))
+                .translatedBy(x: view.transform.tx, y: view.transform.ty)
+        case ("backgroundColor", _):
+            guard let color = value as? String else { return false }
+            view.backgroundColor = UIColor(hex: color)
+        default:
+            return false
+        }
+        return true
+    }
+
+    private func evaluate(tag: Int) -> Any {
+        switch nodes[tag] {
+        case .value(let value, let offset)?:
+            return value + offset
+        case .interpolation(let input, let inputRange, let outputRange, let left, let right)?:
+            let inputValue = evaluateNumber(tag: input)
+            return interpolate(inputValue, inputRange: inputRange, outputRange: outputRange, left: left, right: right)
+        case .arithmetic(let op, let inputs)?:
+            let a = evaluateNumber(tag: inputs[0])
+            let b = evaluateNumber(tag: inputs[1])
+            switch op {
+            case "addition": return a + b
+            case "subtraction": return a - b
+            case "multiplication": return a * b
+            default: return b == 0 ? 0.0 : a / b
+            }
+        case .modulus(let input, let modulus)?:
+            let value = evaluateNumber(tag: input)
+            return (value.truncatingRemainder(dividingBy: modulus) + modulus).truncatingRemainder(dividingBy: modulus)
+        case .diffClamp(let input, let min, let max, let lastInput, let current)?:
+            let inputValue = evaluateNumber(tag: input)
+            let unclamped = lastInput.map { current + inputValue - $0 } ?? inputValue
+            let value = Swift.min(Swift.max(unclamped, min), max)
+            nodes[tag] = .diffClamp(input: input, min: min, max: max, lastInput: inputValue, value: value)
+            return value
+        default:
+            return 0.0
+        }
+    }
+
+    private func evaluateNumber(tag: Int) -> Double {
+        return evaluate(tag: tag) as? Double ?? 0
+    }
+
+    private func interpolate(_ input: Double, inputRange: [Double], outputRange: [Any], left: String, right: String) -> Any {
+        let last = inputRange.count - 1
+        var i = 0
+        while i < last - 1 && input >= inputRange[i + 1] {
+            i += 1
+        }
+
+        if input < inputRange[0] {
+            if left == "clamp" { return outputRange[0] }
+            if left == "identity" { return input }
+        } else if input > inputRange[last] {
+            if right == "clamp" { return outputRange[last] }
+            if right == "identity" { return input }
+        }
+
+        let t = (input - inputRange[i]) / (inputRange[i + 1] - inputRange[i])
+
+        if let from = outputRange[i] as? Double, let to = outputRange[i + 1] as? Double {
+            return from + t * (to - from)
+        }
+        if let from = outputRange[i] as? String, let to = outputRange[i + 1] as? String {
+            return interpolateColor(from, to, t)
+        }
+        return outputRange[i]
+    }
+
+    private func interpolateColor(_ from: String, _ to: String, _ t: Double) -> String {
+        let start = rgba(from)
+        let end = rgba(to)
+        let channels = zip(start, end).map { Int(((($0 + CGFloat(t) * ($1 - $0))) * 255).rounded()) }
+        return String(format: "#%02x%02x%02x%02x", channels[0], channels[1], channels[2], channels[3])
+    }
+
+    private func rgba(_ hex: String) -> [CGFloat] {
+        var r: CGFloat = 0, g: CGFloat = 0, b: CGFloat = 0, a: CGFloat = 0
+        UIColor(hex: hex)?.getRed(&r, green: &g, blue: &b, alpha: &a)
+        return [r, g, b, a]
+    }
+
+    private func number(_ value: Any?, default fallback: Double = 0) -> Double {
+        return (value as? NSNumber)?.doubleValue ?? fallback
+    }
+}
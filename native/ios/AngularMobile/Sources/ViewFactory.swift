@@ -292,8 +292,8 @@ public class ViewFactory {
         guard let style = props["style"] as? [String: Any] else { return }
 
         // Background color
-        if let bgColor = style["backgroundColor"] as? String {
-            view.backgroundColor = UIColor(hex: bgColor)
+        if let bgColor = UIColor.fromStyle(style["backgroundColor"]) {
+            view.backgroundColor = bgColor
         }
 
         // Opacity
@@ -305,8 +305,8 @@ public class ViewFactory {
         if let borderWidth = style["borderWidth"] as? Double {
             view.layer.borderWidth = CGFloat(borderWidth)
         }
-        if let borderColor = style["borderColor"] as? String {
-            view.layer.borderColor = UIColor(hex: borderColor)?.cgColor
+        if let borderColor = UIColor.fromStyle(style["borderColor"]) {
+            view.layer.borderColor = borderColor.cgColor
         }
         if let borderRadius = style["borderRadius"] as? Double {
             view.layer.cornerRadius = CGFloat(borderRadius)
@@ -314,8 +314,8 @@ public class ViewFactory {
         }
 
         // Shadow
-        if let shadowColor = style["shadowColor"] as? String {
-            view.layer.shadowColor = UIColor(hex: shadowColor)?.cgColor
+        if let shadowColor = UIColor.fromStyle(style["shadowColor"]) {
+            view.layer.shadowColor = shadowColor.cgColor
         }
         if let shadowOpacity = style["shadowOpacity"] as? Double {
             view.layer.shadowOpacity = Float(shadowOpacity)
@@ -347,8 +347,8 @@ public class ViewFactory {
         }
 
         // Font color
-        if let color = style["color"] as? String {
-            label.textColor = UIColor(hex: color)
+        if let color = UIColor.fromStyle(style["color"]) {
+            label.textColor = color
         }
 
         // Font weight
@@ -427,4 +427,39 @@ extension UIColor {
 
         self.init(red: r, green: g, blue: b, alpha: a)
     }
+
+    /// Style color: packed ARGB number (0xAARRGGBB), hex string or
+    /// `{ platformColor: [...] }` (first name that resolves wins)
+    static func fromStyle(_ value: Any?) -> UIColor? {
+        if let string = value as? String {
+            return UIColor(hex: string)
+        }
+        if let number = value as? NSNumber {
+            let argb = number.uint32Value
+            return UIColor(
+                red: CGFloat((argb >> 16) & 0xFF) / 255.0,
+                green: CGFloat((argb >> 8) & 0xFF) / 255.0,
+                blue: CGFloat(argb & 0xFF) / 255.0,
+                alpha: CGFloat((argb >> 24) & 0xFF) / 255.0
+            )
+        }
+        if let names = (value as? [String: Any])?["platformColor"] as? [String] {
+            return names.lazy.compactMap(platformColor(named:)).first
+        }
+        return nil
+    }
+
+    /// Asset catalog color, or a system color such as `systemBlue` or `labelColor`
+    private static func platformColor(named name: String) -> UIColor? {
+        if let color = UIColor(named: name) {
+            return color
+        }
+        for selectorName in [name, name.hasSuffix("Color") ? name : "\(name)Color"] {
+            let selector = NSSelectorFromString(selectorName)
+            if UIColor.responds(to: selector) {
+                return UIColor.perform(selector)?.takeUnretainedValue() as? UIColor
+            }
+        }
+        return nil
+    }
 }
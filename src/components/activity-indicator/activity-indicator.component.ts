@@ -7,21 +7,31 @@ import {
   SimpleChanges,
   ChangeDetectionStrategy,
 } from '@angular/core';
+import { Subscription, skip } from 'rxjs';
 import { ViewStyle } from '../../types/style.types';
 import { NativeComponent } from '../../decorators/native-component';
 import { BridgeService, ViewProps } from '../../core/bridge/bridge.service';
+import { isReduceMotionEnabled, reduceMotionChanges } from '../../core/animation/reduced-motion';
 
 /**
  * Activity indicator size
  */
 export type ActivityIndicatorSize = 'small' | 'large' | number;
 
+/**
+ * Inputs that decide whether the indicator spins
+ */
+const MOTION_INPUTS = ['animating', 'hidesWhenStopped', 'respectReduceMotion'];
+
 /**
  * ActivityIndicator Component
  *
  * Displays a circular loading indicator.
  * Maps to Android's ProgressBar.
  *
+ * While the OS asks for reduced motion the indicator stops spinning but
+ * stays visible; set `respectReduceMotion` to false to keep it spinning.
+ *
  * @example
  * ```html
  * <android-activity-indicator
@@ -44,9 +54,11 @@ export type ActivityIndicatorSize = 'small' | 'large' | number;
 })
 export class ActivityIndicatorComponent implements OnInit, OnDestroy, OnChanges {
   private viewId: string | null = null;
+  private reduceMotionSubscription: Subscription | null = null;
 
   // Animation
   @Input() animating?: boolean;
+  @Input() respectReduceMotion?: boolean;
 
   // Appearance
   @Input() color?: string;
@@ -69,6 +81,14 @@ export class ActivityIndicatorComponent implements OnInit, OnDestroy, OnChanges
 
   async ngOnInit(): Promise<void> {
     this.viewId = await this.bridgeService.createView('ActivityIndicator', this.getProps());
+
+    this.reduceMotionSubscription = reduceMotionChanges()
+      .pipe(skip(1))
+      .subscribe(() => {
+        if (this.viewId) {
+          void this.bridgeService.updateView(this.viewId, this.getMotionProps());
+        }
+      });
   }
 
   ngOnChanges(changes: SimpleChanges): void {
@@ -78,7 +98,11 @@ export class ActivityIndicatorComponent implements OnInit, OnDestroy, OnChanges
 
     for (const [key, change] of Object.entries(changes)) {
       if (!change.firstChange) {
-        props[key] = change.currentValue as unknown;
+        if (MOTION_INPUTS.includes(key)) {
+          Object.assign(props, this.getMotionProps());
+        } else {
+          props[key] = change.currentValue as unknown;
+        }
       }
     }
 
@@ -88,6 +112,7 @@ export class ActivityIndicatorComponent implements OnInit, OnDestroy, OnChanges
   }
 
   ngOnDestroy(): void {
+    this.reduceMotionSubscription?.unsubscribe();
     if (this.viewId) {
       void this.bridgeService.removeView(this.viewId);
     }
@@ -97,7 +122,7 @@ export class ActivityIndicatorComponent implements OnInit, OnDestroy, OnChanges
     const sizeValue = this.getSizeValue();
 
     return {
-      animating: this.animating ?? true,
+      ...this.getMotionProps(),
       color: this.color ?? '#999999',
       size: sizeValue,
       style: {
@@ -105,13 +130,25 @@ export class ActivityIndicatorComponent implements OnInit, OnDestroy, OnChanges
         width: sizeValue,
         height: sizeValue,
       },
-      hidesWhenStopped: this.hidesWhenStopped ?? true,
       accessible: this.accessible ?? true,
       accessibilityLabel: this.accessibilityLabel ?? 'Loading',
       testID: this.testID,
     };
   }
 
+  /**
+   * Spinning state, stopped but still shown under reduced motion
+   */
+  private getMotionProps(): ViewProps {
+    const animating = this.animating ?? true;
+    const reduced = animating && this.respectReduceMotion !== false && isReduceMotionEnabled();
+
+    return {
+      animating: animating && !reduced,
+      hidesWhenStopped: reduced ? false : (this.hidesWhenStopped ?? true),
+    };
+  }
+
   private getSizeValue(): number {
     if (typeof this.size === 'number') {
       return this.size;
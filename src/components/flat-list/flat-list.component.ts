@@ -17,6 +17,7 @@ import { ScrollEvent, LayoutEvent } from '../../types/event.types';
 import { NativeComponent } from '../../decorators/native-component';
 import { BridgeService, ViewProps } from '../../core/bridge/bridge.service';
 import { JsonValue } from '../../core/bridge/native-bridge';
+import { AnimatedEventHandler } from '../../core/animation/animated';
 
 /**
  * Item layout information for optimization
@@ -76,6 +77,10 @@ interface SerializedItem<T> {
  *   </ng-template>
  * </mobile-flat-list>
  * ```
+ *
+ * Bind `[animatedScroll]` to an `Animated.event` handler to drive
+ * animated values from the scroll offset without a `(scroll)` handler
+ * running on every frame.
  */
 @NativeComponent({
   nativeViewClass: 'androidx.recyclerview.widget.RecyclerView',
@@ -169,6 +174,9 @@ export class FlatListComponent<T = unknown> implements OnInit, OnDestroy, OnChan
   // Test
   @Input() testID?: string;
 
+  // Animation
+  @Input() animatedScroll?: AnimatedEventHandler<ScrollEvent>;
+
   // Events
   @Output() scroll = new EventEmitter<ScrollEvent>();
   @Output() scrollBeginDrag = new EventEmitter<ScrollEvent>();
@@ -209,7 +217,7 @@ export class FlatListComponent<T = unknown> implements OnInit, OnDestroy, OnChan
     const props: ViewProps = {};
 
     for (const [key, change] of Object.entries(changes)) {
-      if (!change.firstChange && key !== 'data') {
+      if (!change.firstChange && key !== 'data' && key !== 'animatedScroll') {
         props[key] = change.currentValue as JsonValue;
       }
     }
@@ -269,6 +277,7 @@ export class FlatListComponent<T = unknown> implements OnInit, OnDestroy, OnChan
 
     this.bridgeService.on<ScrollEvent>('scroll').subscribe((event) => {
       if (event.target === this.viewId) {
+        this.animatedScroll?.(event);
         this.scroll.emit(event);
       }
     });
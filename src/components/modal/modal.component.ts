@@ -9,10 +9,12 @@ import {
   SimpleChanges,
   ChangeDetectionStrategy,
 } from '@angular/core';
+import { Subscription, skip } from 'rxjs';
 import { ViewStyle } from '../../types/style.types';
 import { ModalRequestCloseEvent, LayoutEvent } from '../../types/event.types';
 import { NativeComponent } from '../../decorators/native-component';
 import { BridgeService, ViewProps } from '../../core/bridge/bridge.service';
+import { isReduceMotionEnabled, reduceMotionChanges } from '../../core/animation/reduced-motion';
 
 /**
  * Animation type for modal
@@ -34,6 +36,9 @@ export type ModalPresentationStyle =
  * A basic modal dialog. Maps to Android's Dialog.
  * Content is rendered above the enclosing view.
  *
+ * While the OS asks for reduced motion a `slide` modal fades instead;
+ * set `respectReduceMotion` to false to keep it sliding.
+ *
  * @example
  * ```html
  * <android-modal
@@ -65,12 +70,14 @@ export type ModalPresentationStyle =
 })
 export class ModalComponent implements OnInit, OnDestroy, OnChanges {
   private viewId: string | null = null;
+  private reduceMotionSubscription: Subscription | null = null;
 
   // Visibility
   @Input() visible: boolean = false;
 
   // Animation
   @Input() animationType?: ModalAnimationType;
+  @Input() respectReduceMotion?: boolean;
 
   // Appearance
   @Input() transparent?: boolean;
@@ -108,6 +115,14 @@ export class ModalComponent implements OnInit, OnDestroy, OnChanges {
   constructor(private readonly bridgeService: BridgeService) {}
 
   async ngOnInit(): Promise<void> {
+    this.reduceMotionSubscription = reduceMotionChanges()
+      .pipe(skip(1))
+      .subscribe(() => {
+        if (this.viewId) {
+          void this.bridgeService.updateView(this.viewId, { animationType: this.getAnimationType() });
+        }
+      });
+
     if (this.visible) {
       await this.showModal();
     }
@@ -124,7 +139,11 @@ export class ModalComponent implements OnInit, OnDestroy, OnChanges {
       const props: ViewProps = {};
 
       for (const [key, change] of Object.entries(changes)) {
-        if (!change.firstChange && key !== 'visible') {
+        if (change.firstChange || key === 'visible') continue;
+
+        if (key === 'animationType' || key === 'respectReduceMotion') {
+          props['animationType'] = this.getAnimationType();
+        } else {
           props[key] = change.currentValue;
         }
       }
@@ -136,6 +155,7 @@ export class ModalComponent implements OnInit, OnDestroy, OnChanges {
   }
 
   ngOnDestroy(): void {
+    this.reduceMotionSubscription?.unsubscribe();
     if (this.viewId) {
       void this.hideModal();
     }
@@ -163,7 +183,7 @@ export class ModalComponent implements OnInit, OnDestroy, OnChanges {
   private getProps(): ViewProps {
     return {
       visible: this.visible,
-      animationType: this.animationType ?? 'none',
+      animationType: this.getAnimationType(),
       transparent: this.transparent ?? false,
       presentationStyle: this.presentationStyle ?? 'fullScreen',
       statusBarTranslucent: this.statusBarTranslucent ?? false,
@@ -177,6 +197,17 @@ export class ModalComponent implements OnInit, OnDestroy, OnChanges {
     };
   }
 
+  /**
+   * Animation type, with slides turned into fades under reduced motion
+   */
+  private getAnimationType(): ModalAnimationType {
+    const animationType = this.animationType ?? 'none';
+    if (animationType === 'slide' && this.respectReduceMotion !== false && isReduceMotionEnabled()) {
+      return 'fade';
+    }
+    return animationType;
+  }
+
   private registerEventListeners(): void {
     if (!this.viewId) return;
 
@@ -121,7 +121,7 @@ export class SafeAreaViewComponent implements OnInit, OnDestroy, OnChanges {
 
   private async fetchSafeAreaInsets(): Promise<void> {
     try {
-      this.currentInsets = await this.bridgeService.request<EdgeInsets>('getSafeAreaInsets', {});
+      this.currentInsets = await this.bridgeService.request('getSafeAreaInsets', {});
     } catch (error) {
       console.warn('[SafeAreaView] Failed to get safe area insets, using defaults');
       this.currentInsets = { top: 24, right: 0, bottom: 0, left: 0 }; // Default for status bar
@@ -13,6 +13,7 @@ import { ViewStyle } from '../../types/style.types';
 import { ScrollEvent, LayoutEvent } from '../../types/event.types';
 import { NativeComponent } from '../../decorators/native-component';
 import { BridgeService, ViewProps } from '../../core/bridge/bridge.service';
+import { AnimatedEventHandler } from '../../core/animation/animated';
 
 /**
  * Content inset type
@@ -46,6 +47,18 @@ export interface ContentOffset {
  *   </android-view>
  * </android-scroll-view>
  * ```
+ *
+ * Scroll offsets can drive animated values directly, e.g. for collapsing
+ * headers, without a `(scroll)` handler running on every frame:
+ *
+ * ```typescript
+ * scrollY = new Animated.Value(0);
+ * onScroll = Animated.event<ScrollEvent>([{ nativeEvent: { contentOffset: { y: this.scrollY } } }]);
+ * ```
+ *
+ * ```html
+ * <android-scroll-view [animatedScroll]="onScroll">...</android-scroll-view>
+ * ```
  */
 @NativeComponent({
   nativeViewClass: 'android.widget.ScrollView',
@@ -115,6 +128,9 @@ export class ScrollViewComponent implements OnInit, OnDestroy, OnChanges {
   @Input() accessibilityLabel?: string;
   @Input() testID?: string;
 
+  // Animation
+  @Input() animatedScroll?: AnimatedEventHandler<ScrollEvent>;
+
   // Events
   @Output() scroll = new EventEmitter<ScrollEvent>();
   @Output() scrollBeginDrag = new EventEmitter<ScrollEvent>();
@@ -139,7 +155,7 @@ export class ScrollViewComponent implements OnInit, OnDestroy, OnChanges {
     const props: ViewProps = {};
 
     for (const [key, change] of Object.entries(changes)) {
-      if (!change.firstChange) {
+      if (!change.firstChange && key !== 'animatedScroll') {
         props[key] = change.currentValue;
       }
     }
@@ -185,6 +201,7 @@ export class ScrollViewComponent implements OnInit, OnDestroy, OnChanges {
 
     this.bridgeService.on<ScrollEvent>('scroll').subscribe((event) => {
       if (event.target === this.viewId) {
+        this.animatedScroll?.(event);
         this.scroll.emit(event);
       }
     });
@@ -212,7 +212,7 @@ export class StatusBarComponent implements OnInit, OnDestroy, OnChanges {
    */
   static async getHeight(bridgeService: BridgeService): Promise<number> {
     try {
-      const result = await bridgeService.request<{ height: number }>('getStatusBarHeight', {});
+      const result = await bridgeService.request('getStatusBarHeight', {});
       return result.height;
     } catch {
       return 24; // Default Android status bar height in dp
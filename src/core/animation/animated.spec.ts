@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   AnimatedValue,
   AnimatedInterpolation,
@@ -6,7 +6,13 @@ import {
   Easing,
   TimingAnimation,
   SpringAnimation,
+  SpringAnimationConfig,
+  DecayAnimation,
+  resolveSpringPhysics,
+  solveSpring,
 } from './animated';
+import { GestureState, PanGestureEvent, ScrollEvent } from '../../types/event.types';
+import { FastEasing } from './easing-lut';
 
 describe('AnimatedValue', () => {
   let animatedValue: AnimatedValue;
@@ -312,6 +318,178 @@ describe('Animated API', () => {
     });
   });
 
+  describe('decay', () => {
+    it('should create decay animation', () => {
+      const value = new AnimatedValue(0);
+      const animation = Animated.decay(value, {
+        velocity: 1,
+        deceleration: 0.99,
+      });
+
+      expect(animation).toHaveProperty('start');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should combine values and constants', () => {
+      const a = new AnimatedValue(6);
+      const b = new AnimatedValue(3);
+
+      expect(Animated.add(a, b).value).toBe(9);
+      expect(Animated.subtract(a, b).value).toBe(3);
+      expect(Animated.multiply(a, 2).value).toBe(12);
+      expect(Animated.divide(a, b).value).toBe(2);
+      expect(Animated.divide(a, 0).value).toBe(0);
+    });
+
+    it('should wrap with a non-negative modulo', () => {
+      const angle = new AnimatedValue(370);
+      const wrapped = Animated.modulo(angle, 360);
+
+      expect(wrapped.value).toBe(10);
+      angle.setValue(-30);
+      expect(wrapped.value).toBe(330);
+    });
+
+    it('should propagate updates through nested nodes to listeners', () => {
+      const gesture = new AnimatedValue(0);
+      const offset = new AnimatedValue(100);
+      const translate = Animated.multiply(Animated.add(gesture, offset), 0.5);
+      const listener = vi.fn();
+      translate.addListener(listener);
+
+      gesture.setValue(20);
+      offset.setValue(40);
+
+      expect(listener.mock.calls.map(([state]) => state.value)).toEqual([60, 30]);
+    });
+
+    it('should stop notifying removed listeners', () => {
+      const value = new AnimatedValue(0);
+      const doubled = Animated.multiply(value, 2);
+      const listener = vi.fn();
+      const id = doubled.addListener(listener);
+
+      doubled.removeListener(id);
+      value.setValue(1);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should interpolate derived nodes', () => {
+      const value = new AnimatedValue(25);
+      const opacity = Animated.add(value, 25).interpolate({ inputRange: [0, 100], outputRange: [0, 1] });
+
+      expect(opacity.value).toBe(0.5);
+    });
+
+    it('should clamp each change with diffClamp', () => {
+      const scrollY = new AnimatedValue(0);
+      const toolbar = Animated.diffClamp(scrollY, 0, 50);
+
+      scrollY.setValue(30);
+      expect(toolbar.value).toBe(30);
+      scrollY.setValue(100);
+      scrollY.setValue(90);
+      // Hidden at 50 after scrolling down, then back 10 on the way up
+      expect(toolbar.value).toBe(40);
+      scrollY.setValue(0);
+      expect(toolbar.value).toBe(0);
+    });
+
+    it('should stop following the input of a disposed diffClamp', () => {
+      const scrollY = new AnimatedValue(0);
+      const toolbar = Animated.diffClamp(scrollY, 0, 50);
+      const listener = vi.fn();
+      toolbar.addListener(listener);
+
+      toolbar.dispose();
+      scrollY.setValue(30);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(toolbar.value).toBe(0);
+      expect(scrollY['_valueChange$'].observed).toBe(false);
+    });
+  });
+
+  describe('event', () => {
+    function scrollEvent(y: number): ScrollEvent {
+      return {
+        nativeEvent: {
+          contentOffset: { x: 0, y },
+          contentSize: { width: 100, height: 1000 },
+          layoutMeasurement: { width: 100, height: 500 },
+          contentInset: { top: 0, left: 0, bottom: 0, right: 0 },
+          zoomScale: 1,
+        },
+      } as ScrollEvent;
+    }
+
+    it('should write mapped event properties to animated values', () => {
+      const scrollY = new AnimatedValue(0);
+      const onScroll = Animated.event<ScrollEvent>([{ nativeEvent: { contentOffset: { y: scrollY } } }]);
+
+      onScroll(scrollEvent(120));
+
+      expect(scrollY.value).toBe(120);
+      expect(onScroll.bindings).toEqual([{ path: [0, 'nativeEvent', 'contentOffset', 'y'], value: scrollY }]);
+    });
+
+    it('should drive interpolations and listeners', () => {
+      const scrollY = new AnimatedValue(0);
+      const headerHeight = scrollY.interpolate({
+        inputRange: [0, 100],
+        outputRange: [200, 60],
+        extrapolate: 'clamp',
+      });
+      const listener = vi.fn();
+      const onScroll = Animated.event<ScrollEvent>([{ nativeEvent: { contentOffset: { y: scrollY } } }], {
+        listener,
+      });
+
+      onScroll(scrollEvent(50));
+      expect(headerHeight.value).toBe(130);
+
+      onScroll(scrollEvent(400));
+      expect(headerHeight.value).toBe(60);
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should map several values from gesture events', () => {
+      const x = new AnimatedValue(0);
+      const y = new AnimatedValue(0);
+      const onPan = Animated.event<PanGestureEvent>([
+        { nativeEvent: { translationX: x, translationY: y } },
+      ]);
+
+      onPan({
+        nativeEvent: {
+          x: 0,
+          y: 0,
+          absoluteX: 0,
+          absoluteY: 0,
+          translationX: 12,
+          translationY: -8,
+          velocityX: 0,
+          velocityY: 0,
+          state: GestureState.Active,
+        },
+      } as PanGestureEvent);
+
+      expect([x.value, y.value]).toEqual([12, -8]);
+    });
+
+    it('should ignore missing and non-numeric properties', () => {
+      const value = new AnimatedValue(5);
+      const onEvent = Animated.event([null, { detail: { offset: value } }]);
+
+      onEvent({}, { detail: { offset: 'far' } });
+      onEvent({}, {});
+
+      expect(value.value).toBe(5);
+    });
+  });
+
   describe('sequence', () => {
     it('should run animations in sequence', () => {
       return new Promise<void>((done) => {
@@ -595,4 +773,244 @@ describe('SpringAnimation', () => {
       });
     });
   }, 10000);
+
+  describe('under a fake clock', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    function run(config: SpringAnimationConfig, from = 0): { values: number[]; settleMs: number } {
+      const value = new AnimatedValue(from);
+      const values: number[] = [];
+      value.addListener(({ value: v }) => values.push(v));
+
+      let settleMs = -1;
+      const startedAt = performance.now();
+      new SpringAnimation(value, config).start(() => {
+        settleMs = performance.now() - startedAt;
+      });
+      vi.advanceTimersByTime(10_000);
+
+      return { values, settleMs };
+    }
+
+    it('should come to rest at the target when under-, critically and over-damped', () => {
+      for (const damping of [5, 20, 60]) {
+        const { values, settleMs } = run({ toValue: 100, stiffness: 100, damping });
+
+        expect(settleMs).toBeGreaterThan(0);
+        expect(values[values.length - 1]).toBe(100);
+      }
+
+      const underDamped = run({ toValue: 100, stiffness: 100, damping: 5 }).values;
+      const overDamped = run({ toValue: 100, stiffness: 100, damping: 60 }).values;
+      expect(Math.max(...underDamped)).toBeGreaterThan(100);
+      expect(Math.max(...overDamped)).toBeLessThanOrEqual(100);
+    });
+
+    it('should settle when the analytic solution reaches the rest thresholds', () => {
+      // x(t) = -(1 + 10t)·e^(-10t) and v(t) = 100t·e^(-10t) fall below 0.001 after ~1167ms
+      const { settleMs } = run({ toValue: 1, stiffness: 100, damping: 20 });
+      expect(settleMs).toBeGreaterThanOrEqual(1167);
+      expect(settleMs).toBeLessThan(1167 + 32);
+
+      const loose = run({
+        toValue: 1,
+        stiffness: 100,
+        damping: 20,
+        restDisplacementThreshold: 0.1,
+        restSpeedThreshold: 1,
+      });
+      expect(loose.settleMs).toBeLessThan(settleMs / 2);
+    });
+
+    it('should produce the same frames on every run', () => {
+      const config: SpringAnimationConfig = { toValue: 50, bounciness: 12, speed: 8, velocity: 40 };
+      const first = run(config);
+      const second = run(config);
+
+      expect(first.values.length).toBeGreaterThan(10);
+      expect(second).toEqual(first);
+      const physics = resolveSpringPhysics(config);
+      first.values.slice(0, 5).forEach((v, frame) => {
+        const { displacement } = solveSpring(physics, { displacement: -50, velocity: 40 }, (frame * 16) / 1000);
+        expect(v).toBeCloseTo(50 + displacement, 9);
+      });
+    });
+
+    it('should stop at the target instead of overshooting when clamped', () => {
+      const { values, settleMs } = run({ toValue: 100, stiffness: 100, damping: 5, overshootClamping: true });
+
+      expect(Math.max(...values)).toBe(100);
+      expect(settleMs).toBeLessThan(500);
+    });
+
+    it('should start with the initial velocity', () => {
+      const { values } = run({ toValue: 0, velocity: 100 });
+
+      expect(values[1]).toBeGreaterThan(0);
+      expect(values[values.length - 1]).toBe(0);
+    });
+  });
+
+  it('should convert tension/friction and bounciness/speed like Origami', () => {
+    expect(resolveSpringPhysics({ toValue: 1 })).toEqual({ stiffness: 100, damping: 10, mass: 1 });
+    expect(resolveSpringPhysics({ toValue: 1, tension: 40, friction: 7 })).toEqual({
+      stiffness: 230.2,
+      damping: 22,
+      mass: 1,
+    });
+
+    const bouncy = resolveSpringPhysics({ toValue: 1, bounciness: 8 });
+    expect(bouncy.stiffness).toBeCloseTo(342.1006, 4);
+    expect(bouncy.damping).toBeCloseTo(24.684, 3);
+  });
+
+  it('should reject mixed or invalid parameterizations', () => {
+    expect(() => new SpringAnimation(new AnimatedValue(0), { toValue: 1, tension: 40, stiffness: 100 })).toThrow(
+      'only use one of'
+    );
+    expect(() => new SpringAnimation(new AnimatedValue(0), { toValue: 1, mass: 0 })).toThrow('positive stiffness');
+  });
+});
+
+describe('DecayAnimation', () => {
+  it('should decelerate to rest', () => {
+    return new Promise<void>((done) => {
+      const value = new AnimatedValue(0);
+      const animation = new DecayAnimation(value, {
+        velocity: 2,
+        deceleration: 0.99,
+      });
+
+      animation.start((result) => {
+        expect(result.finished).toBe(true);
+        // Rest position approaches velocity / (1 - deceleration)
+        expect(value.value).toBeGreaterThan(150);
+        expect(value.value).toBeLessThan(200);
+        done();
+      });
+    });
+  });
+
+  it('should move in the direction of the velocity', () => {
+    return new Promise<void>((done) => {
+      const value = new AnimatedValue(100);
+      const values: number[] = [];
+      value.addListener(({ value: v }) => values.push(v));
+
+      new DecayAnimation(value, { velocity: -1, deceleration: 0.98 }).start(() => {
+        expect(values.every((v, i) => i === 0 || v < values[i - 1])).toBe(true);
+        expect(value.value).toBeLessThan(100);
+        done();
+      });
+    });
+  });
+
+  it('should stop at the clamping bounds', () => {
+    return new Promise<void>((done) => {
+      const value = new AnimatedValue(0);
+      const animation = new DecayAnimation(value, {
+        velocity: 5,
+        deceleration: 0.998,
+        max: 40,
+      });
+
+      animation.start((result) => {
+        expect(result.finished).toBe(true);
+        expect(value.value).toBe(40);
+        done();
+      });
+    });
+  });
+
+  it('should stop through stopAnimation', () => {
+    return new Promise<void>((done) => {
+      const value = new AnimatedValue(0);
+      const callback = vi.fn();
+      new DecayAnimation(value, { velocity: 1, deceleration: 0.999 }).start(callback);
+
+      setTimeout(() => {
+        value.stopAnimation((stoppedAt) => {
+          expect(stoppedAt).toBeGreaterThan(0);
+
+          setTimeout(() => {
+            expect(value.value).toBe(stoppedAt);
+            expect(callback).not.toHaveBeenCalled();
+            done();
+          }, 50);
+        });
+      }, 50);
+    });
+  });
+});
+
+describe('KeyframeAnimation', () => {
+  it('should give every property its own timeline', () => {
+    const animation = Animated.keyframes({
+      0: { opacity: 0, translateY: 20 },
+      0.5: { opacity: 1 },
+      1: { translateY: 0 },
+    });
+
+    animation.progress.setValue(0.25);
+    expect(animation.props.opacity.value).toBeCloseTo(0.5);
+    expect(animation.props.translateY.value).toBeCloseTo(15);
+
+    animation.progress.setValue(0.75);
+    expect(animation.props.opacity.value).toBe(1);
+    expect(animation.props.translateY.value).toBeCloseTo(5);
+  });
+
+  it('should place transform entries under transform and interpolate angles in degrees', () => {
+    const animation = Animated.keyframes({
+      from: { rotate: '0deg', scale: 0.5, backgroundColor: '#000000' },
+      to: { rotate: `${Math.PI}rad`, scale: 1, backgroundColor: '#ffffff' },
+    });
+
+    expect(Object.keys(animation.style)).toEqual(['transform', 'backgroundColor']);
+    expect(animation.style.transform?.map((entry) => Object.keys(entry)[0])).toEqual(['rotate', 'scale']);
+
+    animation.progress.setValue(0.5);
+    expect(animation.props.rotate.value).toBeCloseTo(90);
+    expect(animation.props.backgroundColor.value).toBe('rgba(128, 128, 128, 1)');
+  });
+
+  it('should ease segments with FastEasing lookup tables', () => {
+    const animation = Animated.keyframes({
+      0: { opacity: 0, easing: 'easeIn' },
+      0.5: { opacity: 1 },
+      1: { opacity: 0 },
+    });
+
+    animation.progress.setValue(0.25);
+    expect(animation.props.opacity.value).toBeCloseTo(FastEasing.easeIn(0.5), 5);
+
+    animation.progress.setValue(0.75);
+    expect(animation.props.opacity.value).toBeCloseTo(0.5);
+  });
+
+  it('should run the timeline to the last keyframe', () => {
+    return new Promise<void>((done) => {
+      const animation = Animated.keyframes(
+        { 0: { opacity: 0 }, 0.5: { opacity: 0.8 }, 1: { opacity: 1 } },
+        { duration: 50, easing: 'linear' }
+      );
+
+      animation.start((result) => {
+        expect(result.finished).toBe(true);
+        expect(animation.progress.value).toBe(1);
+        expect(animation.props.opacity.value).toBe(1);
+        done();
+      });
+    });
+  });
+
+  it('should reject offsets outside the timeline', () => {
+    expect(() => Animated.keyframes({ 1.5: { opacity: 1 } })).toThrow('between 0 and 1');
+  });
 });
@@ -1,4 +1,9 @@
-import { Subject, Observable } from 'rxjs';
+import { Subject, Observable, Subscription, merge, map } from 'rxjs';
+import { ColorValue, TRANSFORM_PROPERTIES, TransformStyle } from '../../types/style.types';
+import { FastEasing } from './easing-lut';
+import { ReducedMotionBehavior, resolveReducedMotion } from './reduced-motion';
+import { isDynamicColor, resolveColor } from '../theme/dynamic-color';
+import { isPlatformColor } from '../theme/color';
 
 // Type declaration for requestAnimationFrame in Node.js environment
 declare const requestAnimationFrame: (callback: (time: number) => void) => number;
@@ -13,33 +18,126 @@ export interface TimingAnimationConfig {
   delay?: number;
   easing?: EasingFunction;
   useNativeDriver?: boolean;
+  /** Reaction to the reduce motion preference (default: the global behavior) */
+  reduceMotion?: ReducedMotionBehavior;
 }
 
 /**
  * Spring animation configuration
+ *
+ * The spring is given by one of three parameterizations, which can't be
+ * mixed: `stiffness`/`damping`/`mass` (default: 100/10/1), the Origami
+ * `tension`/`friction` or `bounciness`/`speed`.
  */
 export interface SpringAnimationConfig {
   toValue: number;
+  stiffness?: number;
   damping?: number;
   mass?: number;
-  stiffness?: number;
+  /** Origami tension (converted to `stiffness`) */
+  tension?: number;
+  /** Origami friction (converted to `damping`) */
+  friction?: number;
+  /** How much the spring overshoots (default: 8 when `speed` is set) */
+  bounciness?: number;
+  /** How fast the spring settles (default: 12 when `bounciness` is set) */
+  speed?: number;
+  /** Stop at `toValue` instead of overshooting it */
   overshootClamping?: boolean;
+  /** Distance from `toValue` under which the spring can come to rest (default: 0.001) */
   restDisplacementThreshold?: number;
+  /** Speed, in units per second, under which the spring can come to rest (default: 0.001) */
   restSpeedThreshold?: number;
+  /** Initial velocity in units per second */
   velocity?: number;
   delay?: number;
   useNativeDriver?: boolean;
+  /** Reaction to the reduce motion preference (default: the global behavior) */
+  reduceMotion?: ReducedMotionBehavior;
 }
 
 /**
  * Decay animation configuration
  */
 export interface DecayAnimationConfig {
+  /** Initial velocity in units per millisecond */
   velocity: number;
+  /** Rate of decay per millisecond (default: 0.998) */
   deceleration?: number;
+  /** Lower bound; the animation stops when it is reached */
+  min?: number;
+  /** Upper bound; the animation stops when it is reached */
+  max?: number;
   useNativeDriver?: boolean;
+  /** Reaction to the reduce motion preference (default: the global behavior) */
+  reduceMotion?: ReducedMotionBehavior;
+}
+
+/**
+ * Easing given as a function or as the name of a `FastEasing` lookup table
+ */
+export type KeyframeEasing =
+  | EasingFunction
+  | { [K in keyof typeof FastEasing]: (typeof FastEasing)[K] extends EasingFunction ? K : never }[keyof typeof FastEasing];
+
+/**
+ * Style of a single keyframe
+ *
+ * Transform entries are given flat (`translateY: 20`, `rotate: '90deg'`).
+ * Colors interpolate between hex values; dynamic colors resolve against
+ * the color scheme that is active when the keyframes are created.
+ */
+export interface KeyframeStyle extends TransformStyle {
+  opacity?: number;
+  backgroundColor?: ColorValue;
+  borderColor?: ColorValue;
+  color?: ColorValue;
+  borderRadius?: number;
+  borderWidth?: number;
+  width?: number;
+  height?: number;
+  top?: number;
+  left?: number;
+  right?: number;
+  bottom?: number;
+  /** Easing of the segment from this keyframe to the next one (default: linear) */
+  easing?: KeyframeEasing;
+}
+
+/**
+ * Keyframes by offset on the timeline, from 0 to 1
+ */
+export interface Keyframes {
+  [offset: number]: KeyframeStyle;
+  from?: KeyframeStyle;
+  to?: KeyframeStyle;
 }
 
+/**
+ * Keyframe animation configuration
+ */
+export interface KeyframeAnimationConfig {
+  duration?: number;
+  delay?: number;
+  /** Easing of the whole timeline (default: `'easeInOut'`) */
+  easing?: KeyframeEasing;
+  useNativeDriver?: boolean;
+  /**
+   * Reaction to the reduce motion preference (default: the global behavior);
+   * `'crossfade'` jumps transform and layout properties to the last keyframe
+   */
+  reduceMotion?: ReducedMotionBehavior;
+}
+
+/**
+ * Animated style produced by a keyframe animation
+ */
+export type KeyframeAnimatedStyle = {
+  [K in Exclude<keyof KeyframeStyle, keyof TransformStyle | 'easing'>]?: AnimatedInterpolation;
+} & {
+  transform?: Array<{ [K in keyof TransformStyle]?: AnimatedInterpolation }>;
+};
+
 /**
  * Animation callback
  */
@@ -52,6 +150,107 @@ export interface AnimationCallback {
  */
 export type EasingFunction = (t: number) => number;
 
+/**
+ * Serialized animated node, as created on the native side
+ */
+export type NativeAnimatedNodeConfig =
+  | { type: 'value'; value: number; offset: number }
+  | {
+      type: 'interpolation';
+      input: number;
+      inputRange: number[];
+      outputRange: (number | string)[];
+      extrapolateLeft: InterpolationExtrapolate;
+      extrapolateRight: InterpolationExtrapolate;
+    }
+  | { type: 'props'; props: Record<string, number> }
+  | { type: AnimatedArithmeticOperator; input: number[] }
+  | { type: 'modulus'; input: number; modulus: number }
+  | { type: 'diffclamp'; input: number; min: number; max: number };
+
+/**
+ * Serialized animation, run natively against a value node
+ *
+ * Timing animations carry their easing curve sampled once per 60fps
+ * frame, so any JS easing function can be driven natively.
+ */
+export type NativeAnimationConfig =
+  | { type: 'timing'; frames: number[]; toValue: number; delay: number }
+  | {
+      type: 'spring';
+      toValue: number;
+      stiffness: number;
+      damping: number;
+      mass: number;
+      initialVelocity: number;
+      overshootClamping: boolean;
+      restDisplacementThreshold: number;
+      restSpeedThreshold: number;
+      delay: number;
+    }
+  | {
+      type: 'decay';
+      velocity: number;
+      deceleration: number;
+      min: number | null;
+      max: number | null;
+      delay: number;
+    };
+
+/**
+ * A node of the animation graph that can be serialized for the native driver
+ */
+export interface NativeAnimatedNode {
+  /** Internal: describe this node, resolving the tags of its inputs */
+  _toNativeConfig(tagOf: (node: NativeAnimatedNode) => number): NativeAnimatedNodeConfig;
+}
+
+/**
+ * A node with a numeric value that can be combined and interpolated
+ */
+export interface AnimatedNumericNode extends NativeAnimatedNode {
+  readonly value: number;
+  readonly valueChanges: Observable<number>;
+}
+
+/**
+ * Runs animations natively for `useNativeDriver: true`
+ *
+ * Implemented by `NativeAnimatedModule` on top of the bridge.
+ */
+export interface NativeAnimatedDriver {
+  /** Whether the connected native runtime can run animations */
+  readonly isAvailable: boolean;
+  /** Start an animation; `callback` runs when native reports completion */
+  startAnimation(value: AnimatedValue, config: NativeAnimationConfig, callback: AnimationCallback): number;
+  stopAnimation(animationId: number): void;
+  /** Push a value set from JS to its native node, if it has one */
+  syncValue(value: AnimatedValue): void;
+}
+
+let nativeAnimatedDriver: NativeAnimatedDriver | null = null;
+let warnedNativeDriverUnavailable = false;
+
+/**
+ * Install the driver used by `useNativeDriver: true` animations
+ */
+export function setNativeAnimatedDriver(driver: NativeAnimatedDriver | null): void {
+  nativeAnimatedDriver = driver;
+  warnedNativeDriverUnavailable = false;
+}
+
+/**
+ * Get the installed native animated driver
+ */
+export function getNativeAnimatedDriver(): NativeAnimatedDriver | null {
+  return nativeAnimatedDriver;
+}
+
+/**
+ * Native frame duration that timing animations are sampled at
+ */
+const NATIVE_FRAME_MS = 1000 / 60;
+
 /**
  * Built-in easing functions
  */
@@ -168,7 +367,7 @@ export const Easing = {
  * Represents an animated value that can be used for animations.
  * Similar to React Native's Animated.Value.
  */
-export class AnimatedValue {
+export class AnimatedValue implements NativeAnimatedNode {
   private _value: number;
   private _offset: number = 0;
   private readonly _listeners = new Map<string, (value: number) => void>();
@@ -199,6 +398,7 @@ export class AnimatedValue {
    */
   setValue(value: number): void {
     this._value = value;
+    nativeAnimatedDriver?.syncValue(this);
     this.notifyListeners();
   }
 
@@ -207,6 +407,7 @@ export class AnimatedValue {
    */
   setOffset(offset: number): void {
     this._offset = offset;
+    nativeAnimatedDriver?.syncValue(this);
   }
 
   /**
@@ -215,6 +416,7 @@ export class AnimatedValue {
   flattenOffset(): void {
     this._value += this._offset;
     this._offset = 0;
+    nativeAnimatedDriver?.syncValue(this);
   }
 
   /**
@@ -223,6 +425,7 @@ export class AnimatedValue {
   extractOffset(): void {
     this._offset = this._value;
     this._value = 0;
+    nativeAnimatedDriver?.syncValue(this);
   }
 
   /**
@@ -275,12 +478,24 @@ export class AnimatedValue {
 
   /**
    * Internal: update value during animation
+   *
+   * `sync` is false when the update comes from the native side.
    */
-  _updateValue(value: number): void {
+  _updateValue(value: number, sync = true): void {
     this._value = value;
+    if (sync) {
+      nativeAnimatedDriver?.syncValue(this);
+    }
     this.notifyListeners();
   }
 
+  /**
+   * Internal: serialize for the native driver
+   */
+  _toNativeConfig(): NativeAnimatedNodeConfig {
+    return { type: 'value', value: this._value, offset: this._offset };
+  }
+
   /**
    * Notify all listeners
    */
@@ -298,15 +513,20 @@ export class AnimatedValue {
   }
 }
 
+/**
+ * Behaviour outside the input range of an interpolation
+ */
+export type InterpolationExtrapolate = 'extend' | 'clamp' | 'identity';
+
 /**
  * Interpolation configuration
  */
 export interface InterpolationConfig {
   inputRange: number[];
   outputRange: (number | string)[];
-  extrapolate?: 'extend' | 'clamp' | 'identity';
-  extrapolateLeft?: 'extend' | 'clamp' | 'identity';
-  extrapolateRight?: 'extend' | 'clamp' | 'identity';
+  extrapolate?: InterpolationExtrapolate;
+  extrapolateLeft?: InterpolationExtrapolate;
+  extrapolateRight?: InterpolationExtrapolate;
 }
 
 /**
@@ -314,12 +534,27 @@ export interface InterpolationConfig {
  *
  * Maps input ranges to output ranges.
  */
-export class AnimatedInterpolation {
+export class AnimatedInterpolation implements NativeAnimatedNode {
   constructor(
-    private readonly parent: AnimatedValue,
+    private readonly parent: AnimatedNumericNode,
     private readonly config: InterpolationConfig
   ) {}
 
+  /**
+   * Internal: serialize for the native driver
+   */
+  _toNativeConfig(tagOf: (node: NativeAnimatedNode) => number): NativeAnimatedNodeConfig {
+    const { inputRange, outputRange, extrapolate = 'extend' } = this.config;
+    return {
+      type: 'interpolation',
+      input: tagOf(this.parent),
+      inputRange,
+      outputRange,
+      extrapolateLeft: this.config.extrapolateLeft || extrapolate,
+      extrapolateRight: this.config.extrapolateRight || extrapolate,
+    };
+  }
+
   /**
    * Get interpolated value
    */
@@ -421,6 +656,197 @@ export class AnimatedInterpolation {
   }
 }
 
+/**
+ * Base for nodes whose value is derived from other animated nodes
+ *
+ * Derived nodes recompute from their inputs when read and notify their
+ * listeners whenever one of the inputs changes.
+ */
+export abstract class AnimatedOperation implements AnimatedNumericNode {
+  private readonly listeners = new Map<string, Subscription>();
+  private listenerId = 0;
+
+  protected constructor(protected readonly inputs: AnimatedNumericNode[]) {}
+
+  /**
+   * Get current value
+   */
+  abstract get value(): number;
+
+  /**
+   * Internal: serialize for the native driver
+   */
+  abstract _toNativeConfig(tagOf: (node: NativeAnimatedNode) => number): NativeAnimatedNodeConfig;
+
+  /**
+   * Observable for value changes
+   */
+  get valueChanges(): Observable<number> {
+    return merge(...this.inputs.map((input) => input.valueChanges)).pipe(map(() => this.value));
+  }
+
+  /**
+   * Add a value listener
+   */
+  addListener(callback: (state: { value: number }) => void): string {
+    const id = String(++this.listenerId);
+    this.listeners.set(id, this.valueChanges.subscribe((value) => callback({ value })));
+    return id;
+  }
+
+  /**
+   * Remove a specific listener
+   */
+  removeListener(id: string): void {
+    this.listeners.get(id)?.unsubscribe();
+    this.listeners.delete(id);
+  }
+
+  /**
+   * Remove all listeners
+   */
+  removeAllListeners(): void {
+    this.listeners.forEach((subscription) => subscription.unsubscribe());
+    this.listeners.clear();
+  }
+
+  /**
+   * Release the node once it is no longer used
+   */
+  dispose(): void {
+    this.removeAllListeners();
+  }
+
+  /**
+   * Interpolate value to a new range
+   */
+  interpolate(config: InterpolationConfig): AnimatedInterpolation {
+    return new AnimatedInterpolation(this, config);
+  }
+}
+
+/**
+ * Operand of an arithmetic node; plain numbers become constant values
+ */
+export type AnimatedOperand = AnimatedNumericNode | number;
+
+/**
+ * Arithmetic operator of an `AnimatedArithmetic` node
+ */
+export type AnimatedArithmeticOperator = 'addition' | 'subtraction' | 'multiplication' | 'division';
+
+function toAnimatedNode(operand: AnimatedOperand): AnimatedNumericNode {
+  return typeof operand === 'number' ? new AnimatedValue(operand) : operand;
+}
+
+/**
+ * Animated Arithmetic
+ *
+ * Combines two nodes with `+`, `-`, `*` or `/`. Division by zero
+ * yields 0 rather than Infinity so that transforms stay valid.
+ */
+export class AnimatedArithmetic extends AnimatedOperation {
+  constructor(
+    private readonly operator: AnimatedArithmeticOperator,
+    a: AnimatedOperand,
+    b: AnimatedOperand
+  ) {
+    super([toAnimatedNode(a), toAnimatedNode(b)]);
+  }
+
+  get value(): number {
+    const [a, b] = this.inputs.map((input) => input.value);
+
+    switch (this.operator) {
+      case 'addition':
+        return a + b;
+      case 'subtraction':
+        return a - b;
+      case 'multiplication':
+        return a * b;
+      case 'division':
+        return b === 0 ? 0 : a / b;
+    }
+  }
+
+  _toNativeConfig(tagOf: (node: NativeAnimatedNode) => number): NativeAnimatedNodeConfig {
+    return { type: this.operator, input: this.inputs.map(tagOf) };
+  }
+}
+
+/**
+ * Animated Modulo
+ *
+ * Non-negative remainder of a node, e.g. for wrapping rotations.
+ */
+export class AnimatedModulo extends AnimatedOperation {
+  constructor(
+    input: AnimatedNumericNode,
+    private readonly modulus: number
+  ) {
+    super([input]);
+  }
+
+  get value(): number {
+    return ((this.inputs[0].value % this.modulus) + this.modulus) % this.modulus;
+  }
+
+  _toNativeConfig(tagOf: (node: NativeAnimatedNode) => number): NativeAnimatedNodeConfig {
+    return { type: 'modulus', input: tagOf(this.inputs[0]), modulus: this.modulus };
+  }
+}
+
+/**
+ * Animated Diff Clamp
+ *
+ * Follows the changes of its input but stays within `[min, max]`, so it
+ * starts moving back as soon as the input changes direction. Used for
+ * toolbars that hide on scroll down and reappear on scroll up.
+ *
+ * It follows its input until `dispose()` is called.
+ */
+export class AnimatedDiffClamp extends AnimatedOperation {
+  private readonly inputSubscription: Subscription;
+  private lastInput: number;
+  private current: number;
+
+  constructor(
+    input: AnimatedNumericNode,
+    private readonly min: number,
+    private readonly max: number
+  ) {
+    super([input]);
+    this.lastInput = input.value;
+    this.current = this.clamp(input.value);
+
+    // Track every change so each step is clamped, not just the net change
+    this.inputSubscription = input.valueChanges.subscribe(() => this.update());
+  }
+
+  get value(): number {
+    return this.current;
+  }
+
+  dispose(): void {
+    this.inputSubscription.unsubscribe();
+    super.dispose();
+  }
+
+  _toNativeConfig(tagOf: (node: NativeAnimatedNode) => number): NativeAnimatedNodeConfig {
+    return { type: 'diffclamp', input: tagOf(this.inputs[0]), min: this.min, max: this.max };
+  }
+
+  private update(): void {
+    const input = this.inputs[0].value;
+    this.current = this.clamp(this.current + input - this.lastInput);
+    this.lastInput = input;
+  }
+
+  private clamp(value: number): number {
+    return Math.min(Math.max(value, this.min), this.max);
+  }
+}
+
 /**
  * Base Animation class
  */
@@ -428,9 +854,78 @@ export abstract class Animation {
   protected isRunning = false;
   protected startTime = 0;
   protected animationFrame: number | null = null;
+  protected nativeAnimationId: number | null = null;
 
   abstract start(callback?: AnimationCallback): void;
   abstract stop(): void;
+
+  /**
+   * Hand the animation to the native driver
+   *
+   * Returns false (after warning once) when no native driver is
+   * available, in which case the caller runs the animation in JS.
+   */
+  protected startNativeDriven(
+    value: AnimatedValue,
+    config: NativeAnimationConfig,
+    callback?: AnimationCallback
+  ): boolean {
+    const driver = nativeAnimatedDriver;
+    if (!driver?.isAvailable) {
+      if (!warnedNativeDriverUnavailable) {
+        warnedNativeDriverUnavailable = true;
+        console.warn('[Animated] Native animations are unavailable, falling back to the JS driver');
+      }
+      return false;
+    }
+
+    this.nativeAnimationId = driver.startAnimation(value, config, (result) => {
+      this.isRunning = false;
+      this.nativeAnimationId = null;
+      callback?.(result);
+    });
+    return true;
+  }
+
+  /**
+   * Jump to `toValue` after the delay when reduced motion applies
+   *
+   * Returns false when the animation should run as configured.
+   */
+  protected startReduced(
+    value: AnimatedValue,
+    toValue: number,
+    config: { delay?: number; reduceMotion?: ReducedMotionBehavior },
+    callback?: AnimationCallback
+  ): boolean {
+    if (resolveReducedMotion(config.reduceMotion) === 'ignore') {
+      return false;
+    }
+
+    const jump = (): void => {
+      if (!this.isRunning) return;
+      this.isRunning = false;
+      value._updateValue(toValue);
+      callback?.({ finished: true });
+    };
+
+    if (config.delay && config.delay > 0) {
+      setTimeout(jump, config.delay);
+    } else {
+      jump();
+    }
+    return true;
+  }
+
+  /**
+   * Stop a native-driven animation; its callback runs once native confirms
+   */
+  protected stopNativeDriven(): void {
+    if (this.nativeAnimationId !== null) {
+      nativeAnimatedDriver?.stopAnimation(this.nativeAnimationId);
+      this.nativeAnimationId = null;
+    }
+  }
 }
 
 /**
@@ -460,6 +955,13 @@ export class TimingAnimation extends Animation {
     this.isRunning = true;
     this.value._setAnimation(this);
 
+    if (this.startReduced(this.value, this.config.toValue, this.config, callback)) {
+      return;
+    }
+    if (this.config.useNativeDriver && this.startNativeDriven(this.value, this.toNativeConfig(), callback)) {
+      return;
+    }
+
     const startAnimation = (): void => {
       this.startTime = performance.now();
       this.animate(callback);
@@ -472,6 +974,19 @@ export class TimingAnimation extends Animation {
     }
   }
 
+  /**
+   * Serialize for the native driver, sampling the easing curve per frame
+   */
+  private toNativeConfig(): NativeAnimationConfig {
+    const frameCount = Math.max(1, Math.round(this.config.duration! / NATIVE_FRAME_MS));
+    const frames: number[] = [];
+    for (let frame = 1; frame <= frameCount; frame++) {
+      frames.push(this.config.easing!(frame / frameCount));
+    }
+
+    return { type: 'timing', frames, toValue: this.config.toValue, delay: this.config.delay ?? 0 };
+  }
+
   private animate(callback?: AnimationCallback): void {
     if (!this.isRunning) return;
 
@@ -497,6 +1012,7 @@ export class TimingAnimation extends Animation {
 
   stop(): void {
     this.isRunning = false;
+    this.stopNativeDriven();
     if (this.animationFrame !== null) {
       cancelAnimationFrame(this.animationFrame);
       this.animationFrame = null;
@@ -504,22 +1020,158 @@ export class TimingAnimation extends Animation {
   }
 }
 
+/**
+ * Physical parameters of a spring
+ */
+export interface SpringPhysics {
+  stiffness: number;
+  damping: number;
+  mass: number;
+}
+
+/**
+ * State of a spring relative to its target
+ */
+export interface SpringState {
+  /** Distance from `toValue` */
+  displacement: number;
+  /** Velocity in units per second */
+  velocity: number;
+}
+
+/**
+ * Resolve the parameterization of a spring config to its physics
+ *
+ * Tension/friction and bounciness/speed are converted the way Origami
+ * (and React Native) do, so springs tuned there look the same here.
+ */
+export function resolveSpringPhysics(config: SpringAnimationConfig): SpringPhysics {
+  const origami = config.tension !== undefined || config.friction !== undefined;
+  const bouncy = config.bounciness !== undefined || config.speed !== undefined;
+  const physical = config.stiffness !== undefined || config.damping !== undefined || config.mass !== undefined;
+  if (Number(origami) + Number(bouncy) + Number(physical) > 1) {
+    throw new Error(
+      '[Animated] Spring config can only use one of stiffness/damping/mass, tension/friction or bounciness/speed'
+    );
+  }
+
+  let physics: SpringPhysics;
+  if (origami) {
+    physics = {
+      stiffness: stiffnessFromOrigami(config.tension ?? 40),
+      damping: dampingFromOrigami(config.friction ?? 7),
+      mass: 1,
+    };
+  } else if (bouncy) {
+    physics = fromBouncinessAndSpeed(config.bounciness ?? 8, config.speed ?? 12);
+  } else {
+    physics = { stiffness: config.stiffness ?? 100, damping: config.damping ?? 10, mass: config.mass ?? 1 };
+  }
+
+  if (!(physics.stiffness > 0) || !(physics.mass > 0) || !(physics.damping >= 0)) {
+    throw new Error(
+      `[Animated] Spring needs a positive stiffness and mass and a non-negative damping, got ${JSON.stringify(physics)}`
+    );
+  }
+  return physics;
+}
+
+/**
+ * State of a spring `t` seconds after it started
+ *
+ * Closed-form solution of `m·x'' + c·x' + k·x = 0` for the under-damped
+ * (oscillating), critically damped and over-damped cases, so the state
+ * only depends on the elapsed time and not on the frame rate.
+ */
+export function solveSpring(physics: SpringPhysics, initial: SpringState, t: number): SpringState {
+  const { stiffness, damping, mass } = physics;
+  const { displacement: x0, velocity: v0 } = initial;
+  const omega0 = Math.sqrt(stiffness / mass);
+  const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+
+  if (zeta < 1) {
+    const omega1 = omega0 * Math.sqrt(1 - zeta * zeta);
+    const envelope = Math.exp(-zeta * omega0 * t);
+    const a = x0;
+    const b = (v0 + zeta * omega0 * x0) / omega1;
+    const cos = Math.cos(omega1 * t);
+    const sin = Math.sin(omega1 * t);
+    return {
+      displacement: envelope * (a * cos + b * sin),
+      velocity: envelope * ((omega1 * b - zeta * omega0 * a) * cos - (omega1 * a + zeta * omega0 * b) * sin),
+    };
+  }
+
+  if (zeta === 1) {
+    const envelope = Math.exp(-omega0 * t);
+    const b = v0 + omega0 * x0;
+    return {
+      displacement: envelope * (x0 + b * t),
+      velocity: envelope * (v0 - omega0 * b * t),
+    };
+  }
+
+  const root = omega0 * Math.sqrt(zeta * zeta - 1);
+  const r1 = -zeta * omega0 + root;
+  const r2 = -zeta * omega0 - root;
+  const c2 = (v0 - r1 * x0) / (r2 - r1);
+  const c1 = x0 - c2;
+  const e1 = Math.exp(r1 * t);
+  const e2 = Math.exp(r2 * t);
+  return {
+    displacement: c1 * e1 + c2 * e2,
+    velocity: c1 * r1 * e1 + c2 * r2 * e2,
+  };
+}
+
+function stiffnessFromOrigami(tension: number): number {
+  return (tension - 30) * 3.62 + 194;
+}
+
+function dampingFromOrigami(friction: number): number {
+  return (friction - 8) * 3 + 25;
+}
+
+/**
+ * Origami's mapping of bounciness and speed to a tension and friction
+ */
+function fromBouncinessAndSpeed(bounciness: number, speed: number): SpringPhysics {
+  const normalize = (value: number, start: number, end: number): number => (value - start) / (end - start);
+  const project = (n: number, start: number, end: number): number => start + n * (end - start);
+  const quadraticOut = (t: number, start: number, end: number): number => project(2 * t - t * t, start, end);
+
+  // Friction of a tension that doesn't bounce, fitted piecewise by Origami
+  const noBounceFriction = (x: number): number => {
+    if (x <= 18) return 0.0007 * x ** 3 - 0.031 * x ** 2 + 0.64 * x + 1.28;
+    if (x <= 44) return 0.000044 * x ** 3 - 0.006 * x ** 2 + 0.36 * x + 2;
+    return 0.00000045 * x ** 3 - 0.000332 * x ** 2 + 0.1078 * x + 5.84;
+  };
+
+  const b = project(normalize(bounciness / 1.7, 0, 20), 0, 0.8);
+  const tension = project(normalize(speed / 1.7, 0, 20), 0.5, 200);
+  const friction = quadraticOut(b, noBounceFriction(tension), 0.01);
+
+  return { stiffness: stiffnessFromOrigami(tension), damping: dampingFromOrigami(friction), mass: 1 };
+}
+
 /**
  * Spring Animation
+ *
+ * Follows the analytic solution of the spring from the moment it
+ * starts, so a given config settles at the same time on every frame
+ * rate (and in the same way on the native side).
  */
 export class SpringAnimation extends Animation {
   private readonly value: AnimatedValue;
   private readonly config: SpringAnimationConfig;
-  private velocity: number;
-  private position: number;
+  private readonly physics: SpringPhysics;
+  private initial: SpringState = { displacement: 0, velocity: 0 };
 
   constructor(value: AnimatedValue, config: SpringAnimationConfig) {
     super();
     this.value = value;
+    this.physics = resolveSpringPhysics(config);
     this.config = {
-      damping: 10,
-      mass: 1,
-      stiffness: 100,
       overshootClamping: false,
       restDisplacementThreshold: 0.001,
       restSpeedThreshold: 0.001,
@@ -528,8 +1180,6 @@ export class SpringAnimation extends Animation {
       useNativeDriver: false,
       ...config,
     };
-    this.position = value.value;
-    this.velocity = this.config.velocity!;
   }
 
   start(callback?: AnimationCallback): void {
@@ -537,9 +1187,16 @@ export class SpringAnimation extends Animation {
 
     this.isRunning = true;
     this.value._setAnimation(this);
-    this.position = this.value.value;
+
+    if (this.startReduced(this.value, this.config.toValue, this.config, callback)) {
+      return;
+    }
+    if (this.config.useNativeDriver && this.startNativeDriven(this.value, this.toNativeConfig(), callback)) {
+      return;
+    }
 
     const startAnimation = (): void => {
+      this.initial = { displacement: this.value.value - this.config.toValue, velocity: this.config.velocity! };
       this.startTime = performance.now();
       this.animate(callback);
     };
@@ -551,51 +1208,52 @@ export class SpringAnimation extends Animation {
     }
   }
 
+  /**
+   * Serialize for the native driver
+   */
+  private toNativeConfig(): NativeAnimationConfig {
+    const config = this.config;
+    return {
+      type: 'spring',
+      toValue: config.toValue,
+      stiffness: this.physics.stiffness,
+      damping: this.physics.damping,
+      mass: this.physics.mass,
+      initialVelocity: config.velocity!,
+      overshootClamping: config.overshootClamping!,
+      restDisplacementThreshold: config.restDisplacementThreshold!,
+      restSpeedThreshold: config.restSpeedThreshold!,
+      delay: config.delay ?? 0,
+    };
+  }
+
   private animate(callback?: AnimationCallback): void {
     if (!this.isRunning) return;
 
-    const { toValue, damping, mass, stiffness, restDisplacementThreshold, restSpeedThreshold, overshootClamping } =
-      this.config;
-
-    // Spring physics
-    const displacement = this.position - toValue!;
-    const springForce = -stiffness! * displacement;
-    const dampingForce = -damping! * this.velocity;
-    const acceleration = (springForce + dampingForce) / mass!;
-
-    this.velocity += acceleration * (1 / 60); // Assume 60fps
-    this.position += this.velocity * (1 / 60);
-
-    // Check for overshoot clamping
-    if (overshootClamping) {
-      if (this.position > toValue! && displacement < 0) {
-        this.position = toValue!;
-        this.velocity = 0;
-      } else if (this.position < toValue! && displacement > 0) {
-        this.position = toValue!;
-        this.velocity = 0;
-      }
-    }
+    const { toValue, overshootClamping, restDisplacementThreshold, restSpeedThreshold } = this.config;
+    const elapsed = (performance.now() - this.startTime) / 1000;
+    const { displacement, velocity } = solveSpring(this.physics, this.initial, elapsed);
 
-    // Check if at rest
-    const isAtRest =
-      Math.abs(this.velocity) < restSpeedThreshold! &&
-      Math.abs(this.position - toValue!) < restDisplacementThreshold!;
+    // Past the target on the other side from where the spring started
+    const overshooting =
+      overshootClamping! && (this.initial.displacement < 0 ? displacement > 0 : displacement < 0);
+    const atRest = Math.abs(velocity) <= restSpeedThreshold! && Math.abs(displacement) <= restDisplacementThreshold!;
 
-    if (isAtRest) {
-      this.value._updateValue(toValue!);
+    if (overshooting || atRest) {
+      this.value._updateValue(toValue);
       this.isRunning = false;
       callback?.({ finished: true });
       return;
     }
 
-    this.value._updateValue(this.position);
+    this.value._updateValue(toValue + displacement);
 
     this.animationFrame = requestAnimationFrame(() => this.animate(callback));
   }
 
   stop(): void {
     this.isRunning = false;
+    this.stopNativeDriven();
     if (this.animationFrame !== null) {
       cancelAnimationFrame(this.animationFrame);
       this.animationFrame = null;
@@ -603,6 +1261,370 @@ export class SpringAnimation extends Animation {
   }
 }
 
+/**
+ * Decay Animation
+ *
+ * Starts at the given velocity and slows down exponentially, e.g. for
+ * momentum after a fling.
+ */
+export class DecayAnimation extends Animation {
+  private readonly value: AnimatedValue;
+  private readonly config: DecayAnimationConfig;
+  private fromValue = 0;
+  private lastValue = 0;
+
+  constructor(value: AnimatedValue, config: DecayAnimationConfig) {
+    super();
+    this.value = value;
+    this.config = {
+      deceleration: 0.998,
+      useNativeDriver: false,
+      ...config,
+    };
+  }
+
+  start(callback?: AnimationCallback): void {
+    if (this.isRunning) return;
+
+    this.isRunning = true;
+    this.value._setAnimation(this);
+
+    if (this.startReduced(this.value, this.restValue(), this.config, callback)) {
+      return;
+    }
+    if (this.config.useNativeDriver && this.startNativeDriven(this.value, this.toNativeConfig(), callback)) {
+      return;
+    }
+
+    this.fromValue = this.value.value;
+    this.lastValue = this.fromValue;
+    this.startTime = performance.now();
+    this.animationFrame = requestAnimationFrame(() => this.animate(callback));
+  }
+
+  /**
+   * Where the value comes to rest, within the bounds
+   */
+  private restValue(): number {
+    const { velocity, deceleration, min, max } = this.config;
+    const rest = this.value.value + velocity / (1 - deceleration!);
+    return Math.min(Math.max(rest, min ?? -Infinity), max ?? Infinity);
+  }
+
+  /**
+   * Serialize for the native driver
+   */
+  private toNativeConfig(): NativeAnimationConfig {
+    return {
+      type: 'decay',
+      velocity: this.config.velocity,
+      deceleration: this.config.deceleration!,
+      min: this.config.min ?? null,
+      max: this.config.max ?? null,
+      delay: 0,
+    };
+  }
+
+  private animate(callback?: AnimationCallback): void {
+    if (!this.isRunning) return;
+
+    const { velocity, deceleration, min, max } = this.config;
+    const elapsed = performance.now() - this.startTime;
+    const decay = 1 - deceleration!;
+
+    let newValue = this.fromValue + (velocity / decay) * (1 - Math.exp(-decay * elapsed));
+    let clamped = false;
+    if (min !== undefined && newValue <= min) {
+      newValue = min;
+      clamped = true;
+    } else if (max !== undefined && newValue >= max) {
+      newValue = max;
+      clamped = true;
+    }
+
+    this.value._updateValue(newValue);
+
+    // At rest once it moves less than 0.1 per frame
+    if (clamped || Math.abs(newValue - this.lastValue) < 0.1) {
+      this.isRunning = false;
+      callback?.({ finished: true });
+      return;
+    }
+
+    this.lastValue = newValue;
+    this.animationFrame = requestAnimationFrame(() => this.animate(callback));
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    this.stopNativeDriven();
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+}
+
+/**
+ * Layout entries of a keyframe, jumped like transforms by `'crossfade'`
+ */
+const KEYFRAME_LAYOUT_PROPERTIES: ReadonlySet<string> = new Set(['width', 'height', 'top', 'left', 'right', 'bottom']);
+
+/**
+ * Samples taken from an eased keyframe segment
+ */
+const KEYFRAME_EASING_SAMPLES = 16;
+
+/**
+ * Keyframe Animation
+ *
+ * Drives every property of a set of keyframes from one `progress` value.
+ * Each property gets its own timeline from the keyframes that set it,
+ * compiled to an interpolation of `progress`; eased segments are sampled
+ * into the input range so the timeline also runs under the native driver.
+ *
+ * Angles (`'90deg'`, `'1.5rad'`) are interpolated in degrees.
+ *
+ * Transform and layout timelines read `progress` plus an offset that a
+ * `'crossfade'` start sets to 1, which holds them at their last keyframe
+ * while the other properties still animate.
+ */
+export class KeyframeAnimation {
+  /** Position on the timeline, from 0 to 1 */
+  readonly progress = new AnimatedValue(0);
+
+  /** Animated props by name, transform entries included (for `NativeAnimatedModule.attachProps`) */
+  readonly props: Record<string, AnimatedInterpolation> = {};
+
+  /** Animated style, with the transform entries under `transform` */
+  readonly style: KeyframeAnimatedStyle = {};
+
+  private readonly config: KeyframeAnimationConfig;
+  private readonly motionOffset = new AnimatedValue(0);
+
+  constructor(keyframes: Keyframes, config: KeyframeAnimationConfig = {}) {
+    this.config = { duration: 300, delay: 0, easing: 'easeInOut', useNativeDriver: false, ...config };
+
+    const frames = parseKeyframes(keyframes);
+    const properties = new Set(frames.flatMap(({ style }) => Object.keys(style).filter((key) => key !== 'easing')));
+    let motionProgress: AnimatedArithmetic | null = null;
+
+    for (const property of properties) {
+      const moves = TRANSFORM_PROPERTIES.has(property) || KEYFRAME_LAYOUT_PROPERTIES.has(property);
+      const input = moves
+        ? (motionProgress ??= new AnimatedArithmetic('addition', this.progress, this.motionOffset))
+        : this.progress;
+      const node = new AnimatedInterpolation(input, compileKeyframeTimeline(property, frames));
+      this.props[property] = node;
+
+      if (TRANSFORM_PROPERTIES.has(property)) {
+        (this.style.transform ??= []).push({ [property]: node });
+      } else {
+        (this.style as Record<string, AnimatedInterpolation>)[property] = node;
+      }
+    }
+  }
+
+  /**
+   * Run the timeline from the first keyframe
+   */
+  start(callback?: AnimationCallback): void {
+    const reduceMotion = resolveReducedMotion(this.config.reduceMotion);
+    this.progress.stopAnimation();
+    this.progress.setValue(0);
+    this.motionOffset.setValue(reduceMotion === 'crossfade' ? 1 : 0);
+
+    new TimingAnimation(this.progress, {
+      toValue: 1,
+      duration: this.config.duration,
+      delay: this.config.delay,
+      easing: resolveKeyframeEasing(this.config.easing!),
+      useNativeDriver: this.config.useNativeDriver,
+      reduceMotion: reduceMotion === 'collapse' ? 'collapse' : 'ignore',
+    }).start(callback);
+  }
+
+  /**
+   * Stop at the current position
+   */
+  stop(): void {
+    this.progress.stopAnimation();
+  }
+
+  /**
+   * Stop and go back to the first keyframe
+   */
+  reset(): void {
+    this.progress.stopAnimation();
+    this.progress.setValue(0);
+    this.motionOffset.setValue(0);
+  }
+}
+
+interface ParsedKeyframe {
+  offset: number;
+  style: KeyframeStyle;
+}
+
+/**
+ * Keyframes sorted by offset, with `from`/`to` as 0 and 1
+ */
+function parseKeyframes(keyframes: Keyframes): ParsedKeyframe[] {
+  return Object.entries(keyframes)
+    .map(([key, style]: [string, KeyframeStyle]) => {
+      const offset = key === 'from' ? 0 : key === 'to' ? 1 : Number(key);
+      if (!(offset >= 0 && offset <= 1)) {
+        throw new Error(`[Animated] Keyframe offsets must be between 0 and 1, got "${key}"`);
+      }
+      return { offset, style };
+    })
+    .sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Interpolation of `progress` for one property
+ *
+ * The first and last values are held before and after the keyframes
+ * that set the property.
+ */
+function compileKeyframeTimeline(property: string, frames: ParsedKeyframe[]): InterpolationConfig {
+  const points = frames
+    .filter(({ style }) => style[property as keyof KeyframeStyle] !== undefined)
+    .map(({ offset, style }) => ({
+      offset,
+      value: toKeyframeValue(property, style[property as keyof KeyframeStyle] as number | ColorValue),
+      easing: style.easing ? resolveKeyframeEasing(style.easing) : null,
+    }));
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (first.offset > 0) {
+    points.unshift({ offset: 0, value: first.value, easing: null });
+  }
+  if (last.offset < 1 || points.length === 1) {
+    points.push({ offset: 1, value: last.value, easing: null });
+  }
+
+  const inputRange: number[] = [];
+  const outputRange: (number | string)[] = [];
+
+  points.forEach((point, index) => {
+    const next = points[index + 1];
+    inputRange.push(point.offset);
+    outputRange.push(point.value);
+
+    if (next && point.easing && typeof point.value === 'number' && typeof next.value === 'number') {
+      for (let sample = 1; sample < KEYFRAME_EASING_SAMPLES; sample++) {
+        const t = sample / KEYFRAME_EASING_SAMPLES;
+        inputRange.push(point.offset + (next.offset - point.offset) * t);
+        outputRange.push(point.value + (next.value - point.value) * point.easing(t));
+      }
+    }
+  });
+
+  return { inputRange, outputRange, extrapolate: 'clamp' };
+}
+
+/**
+ * Numbers and colors as given, angles in degrees
+ */
+function toKeyframeValue(property: string, value: number | ColorValue): number | string {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (isDynamicColor(value)) {
+    return resolveColor(value);
+  }
+  if (isPlatformColor(value)) {
+    throw new Error(`[Animated] Platform colors cannot be animated: ${property}`);
+  }
+
+  const angle = /^(-?[\d.]+)(deg|rad)$/.exec(value.trim());
+  if (angle) {
+    const amount = parseFloat(angle[1]);
+    return angle[2] === 'rad' ? (amount * 180) / Math.PI : amount;
+  }
+  if (TRANSFORM_PROPERTIES.has(property)) {
+    throw new Error(`[Animated] Invalid keyframe value for ${property}: "${value}"`);
+  }
+  return value;
+}
+
+function resolveKeyframeEasing(easing: KeyframeEasing): EasingFunction {
+  return typeof easing === 'function' ? easing : FastEasing[easing];
+}
+
+/**
+ * Maps the shape of an event onto the animated values that receive its numbers
+ *
+ * @example
+ * ```typescript
+ * const mapping: AnimatedEventMapping<ScrollEvent> = { nativeEvent: { contentOffset: { y: scrollY } } };
+ * ```
+ */
+export type AnimatedEventMapping<T> = unknown extends T
+  ? AnimatedEventObjectMapping
+  : T extends number
+    ? AnimatedValue
+    : T extends object
+      ? { [K in keyof T]?: AnimatedEventMapping<T[K]> }
+      : never;
+
+/**
+ * Untyped event mapping, used when the event type is not given
+ */
+export interface AnimatedEventObjectMapping {
+  [key: string]: AnimatedValue | AnimatedEventObjectMapping;
+}
+
+/**
+ * Animated event configuration
+ */
+export interface AnimatedEventConfig<T> {
+  /** Called with the event arguments after the values are updated */
+  listener?: (...args: T[]) => void;
+}
+
+/**
+ * An animated value bound to a number inside an event
+ */
+export interface AnimatedEventBinding {
+  /** Argument index followed by the property path */
+  path: (number | string)[];
+  value: AnimatedValue;
+}
+
+/**
+ * Event handler created by `Animated.event`
+ *
+ * Accepted by the scroll view and flat list components through
+ * `animatedScroll`, and callable directly from any event handler.
+ */
+export interface AnimatedEventHandler<T = unknown> {
+  (...args: T[]): void;
+  readonly bindings: readonly AnimatedEventBinding[];
+}
+
+/**
+ * Collect the animated values of an event mapping with their paths
+ */
+function collectEventBindings(
+  mapping: AnimatedValue | AnimatedEventObjectMapping,
+  path: (number | string)[],
+  bindings: AnimatedEventBinding[]
+): void {
+  if (mapping instanceof AnimatedValue) {
+    bindings.push({ path, value: mapping });
+    return;
+  }
+
+  for (const [key, child] of Object.entries(mapping)) {
+    if (child) {
+      collectEventBindings(child, [...path, key], bindings);
+    }
+  }
+}
+
 /**
  * Animated API
  *
@@ -679,6 +1701,103 @@ export const Animated = {
     },
   }),
 
+  /**
+   * Create a decay animation
+   */
+  decay: (value: AnimatedValue, config: DecayAnimationConfig) => ({
+    start: (callback?: AnimationCallback) => {
+      new DecayAnimation(value, config).start(callback);
+    },
+  }),
+
+  /**
+   * Create a keyframe animation
+   *
+   * @example
+   * ```typescript
+   * const fadeInUp = Animated.keyframes(
+   *   {
+   *     0: { opacity: 0, translateY: 20 },
+   *     0.6: { opacity: 1, easing: 'easeOut' },
+   *     1: { translateY: 0 },
+   *   },
+   *   { duration: 400 }
+   * );
+   * nativeAnimated.attachProps(viewId, fadeInUp.props);
+   * fadeInUp.start();
+   * ```
+   */
+  keyframes: (keyframes: Keyframes, config?: KeyframeAnimationConfig) => new KeyframeAnimation(keyframes, config),
+
+  /**
+   * Sum of two nodes
+   */
+  add: (a: AnimatedOperand, b: AnimatedOperand) => new AnimatedArithmetic('addition', a, b),
+
+  /**
+   * Difference of two nodes
+   */
+  subtract: (a: AnimatedOperand, b: AnimatedOperand) => new AnimatedArithmetic('subtraction', a, b),
+
+  /**
+   * Product of two nodes
+   */
+  multiply: (a: AnimatedOperand, b: AnimatedOperand) => new AnimatedArithmetic('multiplication', a, b),
+
+  /**
+   * Quotient of two nodes (0 when dividing by zero)
+   */
+  divide: (a: AnimatedOperand, b: AnimatedOperand) => new AnimatedArithmetic('division', a, b),
+
+  /**
+   * Non-negative remainder of a node
+   */
+  modulo: (a: AnimatedNumericNode, modulus: number) => new AnimatedModulo(a, modulus),
+
+  /**
+   * Node that follows the changes of `a` clamped to `[min, max]`
+   */
+  diffClamp: (a: AnimatedNumericNode, min: number, max: number) => new AnimatedDiffClamp(a, min, max),
+
+  /**
+   * Map event properties onto animated values
+   *
+   * Returns a handler that writes the mapped numbers with `setValue`
+   * each time it is called, without going through Angular.
+   *
+   * @example
+   * ```typescript
+   * const scrollY = new Animated.Value(0);
+   * const onScroll = Animated.event<ScrollEvent>([{ nativeEvent: { contentOffset: { y: scrollY } } }]);
+   * ```
+   */
+  event: <T = unknown>(
+    argMapping: ReadonlyArray<AnimatedEventMapping<T> | null>,
+    config: AnimatedEventConfig<T> = {}
+  ): AnimatedEventHandler<T> => {
+    const bindings: AnimatedEventBinding[] = [];
+    argMapping.forEach((mapping, index) => {
+      if (mapping) {
+        collectEventBindings(mapping as AnimatedValue | AnimatedEventObjectMapping, [index], bindings);
+      }
+    });
+
+    const handler = (...args: T[]): void => {
+      for (const { path, value } of bindings) {
+        let current: unknown = args;
+        for (const key of path) {
+          current = current === null || current === undefined ? undefined : (current as Record<string, unknown>)[key];
+        }
+        if (typeof current === 'number') {
+          value.setValue(current);
+        }
+      }
+      config.listener?.(...args);
+    };
+
+    return Object.assign(handler, { bindings });
+  },
+
   /**
    * Run animations in sequence
    */
@@ -764,13 +1883,18 @@ export const Animated = {
 
   /**
    * Loop an animation
+   *
+   * Runs a single iteration when reduced motion applies; give the loop
+   * and its animation `reduceMotion: 'ignore'` to keep it going.
    */
   loop: (
     animation: { start: (callback?: AnimationCallback) => void },
-    config?: { iterations?: number; resetBeforeIteration?: boolean }
+    config?: { iterations?: number; resetBeforeIteration?: boolean; reduceMotion?: ReducedMotionBehavior }
   ) => ({
     start: (callback?: AnimationCallback) => {
-      const iterations = config?.iterations ?? -1; // -1 for infinite
+      // Reduced iterations finish at once, so only one of them runs
+      const reduced = resolveReducedMotion(config?.reduceMotion) !== 'ignore';
+      const iterations = reduced ? 1 : (config?.iterations ?? -1); // -1 for infinite
       let currentIteration = 0;
 
       const runIteration = (): void => {
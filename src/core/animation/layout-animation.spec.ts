@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NativeBridge } from '../bridge/native-bridge';
+import { MockNativeRuntime } from '../testing/mock-native-runtime';
+import { LEGACY_BRIDGE_CAPABILITIES } from '../bridge/bridge-protocol';
+import { OptimizedRenderer } from '../runtime/optimized-renderer';
+import { ViewRegistry } from '../runtime/view-registry';
+import { EventDispatcher } from '../runtime/event-dispatcher';
+import { LayoutAnimation, getLayoutAnimationDuration, takePendingLayoutAnimation } from './layout-animation';
+import { setReduceMotionEnabled, setReducedMotionBehavior } from './reduced-motion';
+
+describe('LayoutAnimation', () => {
+  let runtime: MockNativeRuntime;
+  let renderer: OptimizedRenderer;
+  let listId: string;
+
+  async function connect(capabilities?: string[]): Promise<void> {
+    runtime = new MockNativeRuntime({ capabilities }).install();
+    const bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+    await bridge.connect();
+    renderer = new OptimizedRenderer(bridge, new ViewRegistry(), new EventDispatcher());
+
+    listId = renderer.createView('FlatList');
+    renderer.setRootView(listId);
+    await renderer.flush();
+  }
+
+  function insertItem(): string {
+    const itemId = renderer.createView('View', { style: { height: 40 } });
+    renderer.insertChild(listId, itemId, 0);
+    return itemId;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    takePendingLayoutAnimation();
+    setReduceMotionEnabled(false);
+    setReducedMotionBehavior('ignore');
+    runtime.uninstall();
+    vi.useRealTimers();
+  });
+
+  it('should attach the config to the next flushed batch only', async () => {
+    await connect();
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    const itemId = insertItem();
+    await renderer.flush();
+
+    insertItem();
+    await renderer.flush();
+
+    expect(runtime.getLayoutAnimations()).toEqual([LayoutAnimation.Presets.easeInEaseOut]);
+    expect(runtime.getView(listId)?.children[1]).toBe(itemId);
+  });
+
+  it('should animate every chunk of a batch larger than the queue sends at once', async () => {
+    await connect();
+    const onEnd = vi.fn();
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.linear, onEnd);
+    for (let i = 0; i < 60; i++) {
+      insertItem();
+    }
+    await renderer.flush();
+    expect(runtime.getLayoutAnimations()).toEqual([LayoutAnimation.Presets.linear]);
+
+    LayoutAnimation.easeInEaseOut();
+    await vi.advanceTimersByTimeAsync(8);
+
+    expect(runtime.getLayoutAnimations()).toEqual([LayoutAnimation.Presets.linear, LayoutAnimation.Presets.linear]);
+    expect(runtime.getView(listId)?.children).toHaveLength(60);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(onEnd).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+
+    insertItem();
+    await renderer.flush();
+    expect(runtime.getLayoutAnimations()).toHaveLength(3);
+    expect(runtime.getLayoutAnimations()[2]).toEqual(LayoutAnimation.Presets.easeInEaseOut);
+  });
+
+  it('should send a single operation as an animated batch', async () => {
+    await connect();
+    const itemId = insertItem();
+    await renderer.flush();
+
+    LayoutAnimation.spring();
+    renderer.removeChild(listId, itemId);
+    await renderer.flush();
+
+    expect(runtime.getLayoutAnimations()).toEqual([LayoutAnimation.Presets.spring]);
+    expect(runtime.getView(listId)?.children).toEqual([]);
+  });
+
+  it('should call onAnimationDidEnd once the animation has run', async () => {
+    await connect();
+    const onEnd = vi.fn();
+    const config = LayoutAnimation.create(200, 'linear', 'scaleXY');
+    config.create = { ...config.create!, delay: 100 };
+    LayoutAnimation.configureNext(config, onEnd);
+    insertItem();
+    await renderer.flush();
+
+    await vi.advanceTimersByTimeAsync(299);
+    expect(onEnd).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply changes without animating on runtimes without the capability', async () => {
+    await connect([...LEGACY_BRIDGE_CAPABILITIES]);
+    const onEnd = vi.fn();
+    LayoutAnimation.easeInEaseOut(onEnd);
+    insertItem();
+    await renderer.flush();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(runtime.getLayoutAnimations()).toEqual([]);
+    expect(runtime.getView(listId)?.children).toHaveLength(1);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fade views in and out without moving them under reduced motion', async () => {
+    await connect();
+    setReduceMotionEnabled(true);
+    setReducedMotionBehavior('crossfade');
+    LayoutAnimation.spring();
+    insertItem();
+    await renderer.flush();
+
+    LayoutAnimation.configureNext({ ...LayoutAnimation.Presets.linear, reduceMotion: 'collapse' });
+    insertItem();
+    await renderer.flush();
+
+    expect(runtime.getLayoutAnimations()).toEqual([
+      {
+        duration: 700,
+        create: { type: 'linear', property: 'opacity' },
+        delete: { type: 'linear', property: 'opacity' },
+      },
+      { duration: 0 },
+    ]);
+  });
+
+  it('should measure the duration including phase delays and overrides', () => {
+    expect(getLayoutAnimationDuration({ duration: 300 })).toBe(300);
+    expect(
+      getLayoutAnimationDuration({
+        duration: 300,
+        create: { type: 'linear', delay: 50 },
+        update: { type: 'spring', duration: 500 },
+      })
+    ).toBe(500);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Layout Animation
+ *
+ * Animates the next batch of view hierarchy changes on the native side:
+ * inserted views fade (or scale) in, removed views fade out and views
+ * whose position or size changed move to their new frame.
+ *
+ * @example
+ * ```typescript
+ * LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+ * this.items = [newItem, ...this.items];
+ * ```
+ */
+
+import { ReducedMotionBehavior, resolveReducedMotion } from './reduced-motion';
+
+/**
+ * Capability reported by native runtimes that can animate layout changes
+ */
+export const LAYOUT_ANIMATIONS_CAPABILITY = 'layoutAnimations';
+
+/**
+ * Timing curve of a layout animation phase
+ */
+export type LayoutAnimationType = 'linear' | 'easeInEaseOut' | 'easeIn' | 'easeOut' | 'spring';
+
+/**
+ * Property animated when views are created or deleted
+ */
+export type LayoutAnimationProperty = 'opacity' | 'scaleX' | 'scaleY' | 'scaleXY';
+
+/**
+ * Animation of one phase (create, update or delete)
+ */
+export interface LayoutAnimationAnim {
+  type: LayoutAnimationType;
+  /** Only used by create and delete (default: `opacity`) */
+  property?: LayoutAnimationProperty;
+  /** Defaults to the config duration */
+  duration?: number;
+  delay?: number;
+  /** Damping ratio for `spring` (default: 0.7) */
+  springDamping?: number;
+}
+
+/**
+ * Layout animation configuration
+ */
+export interface LayoutAnimationConfig {
+  /** Duration in milliseconds */
+  duration: number;
+  /** Views inserted into the tree */
+  create?: LayoutAnimationAnim;
+  /** Views that moved or resized */
+  update?: LayoutAnimationAnim;
+  /** Views removed from the tree */
+  delete?: LayoutAnimationAnim;
+  /**
+   * Reaction to the reduce motion preference (default: the global behavior);
+   * `'crossfade'` fades views in and out and moves them without animating
+   */
+  reduceMotion?: ReducedMotionBehavior;
+}
+
+/**
+ * Layout animation waiting for the next batch of view operations
+ */
+export interface PendingLayoutAnimation {
+  config: LayoutAnimationConfig;
+  onAnimationDidEnd?: () => void;
+}
+
+let pendingLayoutAnimation: PendingLayoutAnimation | null = null;
+
+/**
+ * Internal: take the configured layout animation, if any
+ *
+ * Called by the renderer when it queues view operations; the operations
+ * queued until the next flush are animated together.
+ */
+export function takePendingLayoutAnimation(): PendingLayoutAnimation | null {
+  const pending = pendingLayoutAnimation;
+  pendingLayoutAnimation = null;
+  return pending;
+}
+
+/**
+ * Total time a layout animation runs, including delays
+ */
+export function getLayoutAnimationDuration(config: LayoutAnimationConfig): number {
+  const phases = [config.create, config.update, config.delete].filter(
+    (anim): anim is LayoutAnimationAnim => anim !== undefined
+  );
+  return Math.max(config.duration, ...phases.map((anim) => (anim.delay ?? 0) + (anim.duration ?? config.duration)));
+}
+
+/**
+ * Config actually sent for a reduced motion behavior
+ */
+function reduceLayoutAnimation(config: LayoutAnimationConfig, behavior: ReducedMotionBehavior): LayoutAnimationConfig {
+  switch (behavior) {
+    case 'ignore':
+      return config;
+    case 'collapse':
+      return { duration: 0 };
+    case 'crossfade': {
+      const fade = (anim?: LayoutAnimationAnim): LayoutAnimationAnim | undefined =>
+        anim && { ...anim, type: anim.type === 'spring' ? 'easeInEaseOut' : anim.type, property: 'opacity' };
+      return { duration: config.duration, create: fade(config.create), delete: fade(config.delete) };
+    }
+  }
+}
+
+function create(
+  duration: number,
+  type: LayoutAnimationType = 'easeInEaseOut',
+  property: LayoutAnimationProperty = 'opacity'
+): LayoutAnimationConfig {
+  return {
+    duration,
+    create: { type, property },
+    update: { type },
+    delete: { type, property },
+  };
+}
+
+/**
+ * LayoutAnimation API
+ */
+export const LayoutAnimation = {
+  /**
+   * Animate the layout changes flushed in the next batch
+   *
+   * A later call before the batch is flushed replaces the config.
+   * `onAnimationDidEnd` runs once the animation has had time to finish.
+   */
+  configureNext(config: LayoutAnimationConfig, onAnimationDidEnd?: () => void): void {
+    const { reduceMotion, ...rest } = config;
+    pendingLayoutAnimation = {
+      config: reduceLayoutAnimation(rest, resolveReducedMotion(reduceMotion)),
+      onAnimationDidEnd,
+    };
+  },
+
+  /**
+   * Build a config that animates create, update and delete alike
+   */
+  create,
+
+  /**
+   * Common configurations
+   */
+  Presets: {
+    easeInEaseOut: create(300, 'easeInEaseOut', 'opacity'),
+    linear: create(500, 'linear', 'opacity'),
+    spring: {
+      duration: 700,
+      create: { type: 'linear', property: 'scaleXY' },
+      update: { type: 'spring', springDamping: 0.4 },
+      delete: { type: 'linear', property: 'scaleXY' },
+    } as LayoutAnimationConfig,
+  },
+
+  /**
+   * Shorthand for `configureNext(Presets.easeInEaseOut)`
+   */
+  easeInEaseOut(onAnimationDidEnd?: () => void): void {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut, onAnimationDidEnd);
+  },
+
+  /**
+   * Shorthand for `configureNext(Presets.linear)`
+   */
+  linear(onAnimationDidEnd?: () => void): void {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.linear, onAnimationDidEnd);
+  },
+
+  /**
+   * Shorthand for `configureNext(Presets.spring)`
+   */
+  spring(onAnimationDidEnd?: () => void): void {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.spring, onAnimationDidEnd);
+  },
+};
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NativeBridge } from '../bridge/native-bridge';
+import { MockNativeRuntime } from '../testing/mock-native-runtime';
+import { LEGACY_BRIDGE_CAPABILITIES } from '../bridge/bridge-protocol';
+import { Animated, AnimatedValue, SpringAnimation, setNativeAnimatedDriver } from './animated';
+import { NativeAnimatedModule } from './native-animated';
+
+describe('NativeAnimatedModule', () => {
+  let runtime: MockNativeRuntime;
+  let bridge: NativeBridge;
+  let nativeAnimated: NativeAnimatedModule;
+
+  async function connect(capabilities?: string[]): Promise<void> {
+    runtime = new MockNativeRuntime({ capabilities }).install();
+    bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+    await bridge.connect();
+    await bridge.request('createView', { viewId: 'view_1', viewType: 'View', props: {} });
+    nativeAnimated = new NativeAnimatedModule(bridge);
+    setNativeAnimatedDriver(nativeAnimated);
+  }
+
+  async function flush(): Promise<void> {
+    await vi.advanceTimersByTimeAsync(0);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    setNativeAnimatedDriver(null);
+    nativeAnimated.dispose();
+    runtime.uninstall();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should serialize the graph once and report completion back to JS', async () => {
+    await connect();
+    const progress = new AnimatedValue(0);
+    const opacity = progress.interpolate({ inputRange: [0, 1], outputRange: [0.2, 1] });
+    nativeAnimated.attachProps('view_1', { opacity, translateX: progress });
+    await flush();
+
+    const listener = vi.fn();
+    progress.addListener(listener);
+    const callback = vi.fn();
+    Animated.timing(progress, { toValue: 1, duration: 100, useNativeDriver: true }).start(callback);
+    await flush();
+
+    expect(runtime.getReceivedMessages('createAnimatedNode')).toHaveLength(3);
+    expect(runtime.getReceivedMessages('startAnimatingNode')).toHaveLength(1);
+    expect(runtime.getView('view_1')?.props).toMatchObject({ opacity: 0.2, translateX: 0 });
+    expect(listener).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(callback).toHaveBeenCalledWith({ finished: true });
+    expect(progress.value).toBe(1);
+    expect(runtime.getView('view_1')?.props).toMatchObject({ opacity: 1, translateX: 1 });
+    expect(runtime.getReceivedMessages('setAnimatedNodeValue')).toHaveLength(0);
+    expect(runtime.getReceivedMessages('createAnimatedNode')).toHaveLength(3);
+  });
+
+  it('should serialize arithmetic nodes and evaluate them natively', async () => {
+    await connect();
+    const scrollY = new AnimatedValue(0);
+    const translateY = Animated.multiply(Animated.diffClamp(scrollY, 0, 60), -1);
+    nativeAnimated.attachProps('view_1', { translateY });
+    await flush();
+
+    expect(runtime.getReceivedMessages('createAnimatedNode').map((message) => message.payload)).toEqual([
+      { tag: 1, config: { type: 'value', value: 0, offset: 0 } },
+      { tag: 2, config: { type: 'diffclamp', input: 1, min: 0, max: 60 } },
+      { tag: 3, config: { type: 'value', value: -1, offset: 0 } },
+      { tag: 4, config: { type: 'multiplication', input: [2, 3] } },
+      { tag: 5, config: { type: 'props', props: { translateY: 4 } } },
+    ]);
+
+    scrollY.setValue(100);
+    scrollY.setValue(80);
+    await flush();
+
+    expect(runtime.getView('view_1')?.props).toMatchObject({ translateY: -40 });
+  });
+
+  it('should sample the easing curve once per frame', async () => {
+    await connect();
+    const value = new AnimatedValue(0);
+    Animated.timing(value, { toValue: 10, duration: 50, delay: 20, useNativeDriver: true }).start();
+    await flush();
+
+    const [start] = runtime.getReceivedMessages('startAnimatingNode');
+    const config = (start.payload as { config: { type: string; frames: number[]; delay: number } }).config;
+    expect(config.type).toBe('timing');
+    expect(config.delay).toBe(20);
+    expect(config.frames).toHaveLength(3);
+    expect(config.frames[2]).toBe(1);
+  });
+
+  it('should run decays natively up to their bounds', async () => {
+    await connect();
+    const value = new AnimatedValue(0);
+    const callback = vi.fn();
+    Animated.decay(value, { velocity: 3, max: 100, useNativeDriver: true }).start(callback);
+    await flush();
+
+    const [start] = runtime.getReceivedMessages('startAnimatingNode');
+    expect((start.payload as { config: object }).config).toEqual({
+      type: 'decay',
+      velocity: 3,
+      deceleration: 0.998,
+      min: null,
+      max: 100,
+      delay: 0,
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(callback).toHaveBeenCalledWith({ finished: true });
+    expect(value.value).toBe(100);
+  });
+
+  it('should report stopped animations as unfinished', async () => {
+    await connect();
+    const value = new AnimatedValue(0);
+    const callback = vi.fn();
+    const animation = new SpringAnimation(value, { toValue: 1, delay: 500, useNativeDriver: true });
+    animation.start(callback);
+    await flush();
+
+    animation.stop();
+    await flush();
+
+    expect(runtime.getReceivedMessages('stopAnimation')).toHaveLength(1);
+    expect(runtime.getRunningAnimationIds()).toEqual([]);
+    expect(callback).toHaveBeenCalledWith({ finished: false });
+    expect(value.value).toBe(0);
+  });
+
+  it('should push values set from JS to the native node', async () => {
+    await connect();
+    const value = new AnimatedValue(0);
+    nativeAnimated.attachProps('view_1', { opacity: value });
+    await flush();
+
+    value.setValue(0.5);
+    await flush();
+
+    expect(runtime.getReceivedMessages('setAnimatedNodeValue')).toHaveLength(1);
+    expect(runtime.getView('view_1')?.props).toMatchObject({ opacity: 0.5 });
+  });
+
+  it('should fall back to the JS driver without the capability', async () => {
+    await connect([...LEGACY_BRIDGE_CAPABILITIES]);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const value = new AnimatedValue(0);
+    const scale = value.interpolate({ inputRange: [0, 1], outputRange: [0.5, 1] });
+    const backgroundColor = value.interpolate({ inputRange: [0, 1], outputRange: ['#000000', '#ffffff'] });
+    nativeAnimated.attachProps('view_1', { opacity: value, translateX: value, scale, backgroundColor });
+
+    const callback = vi.fn();
+    Animated.timing(value, { toValue: 1, duration: 0, useNativeDriver: true }).start(callback);
+    await flush();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith({ finished: true });
+    expect(runtime.getReceivedMessages('createAnimatedNode')).toHaveLength(0);
+    expect(runtime.getReceivedMessages('updateView').map((message) => message.payload)).toEqual([
+      { viewId: 'view_1', props: { style: { opacity: 1 } } },
+      { viewId: 'view_1', props: { style: { transform: [{ translateX: 1 }, { scale: 1 }] } } },
+      { viewId: 'view_1', props: { style: { transform: [{ translateX: 1 }, { scale: 1 }] } } },
+      { viewId: 'view_1', props: { style: { backgroundColor: 0xffffffff } } },
+    ]);
+  });
+
+  it('should drop native nodes once nothing uses them', async () => {
+    await connect();
+    const progress = new AnimatedValue(0);
+    const opacity = progress.interpolate({ inputRange: [0, 1], outputRange: [0.2, 1] });
+    const detachOpacity = nativeAnimated.attachProps('view_1', { opacity });
+    const detachProgress = nativeAnimated.attachProps('view_1', { translateX: progress });
+    await flush();
+
+    const dropped = (): unknown[] => runtime.getReceivedMessages('dropAnimatedNode').map((message) => message.payload);
+
+    detachOpacity();
+    detachOpacity();
+    await flush();
+    // The props node and the interpolation; progress is still bound
+    expect(dropped()).toEqual([{ tag: 3 }, { tag: 2 }]);
+
+    Animated.timing(progress, { toValue: 1, duration: 100, useNativeDriver: true }).start();
+    detachProgress();
+    await flush();
+    expect(dropped()).toHaveLength(3);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(dropped()).toEqual([{ tag: 3 }, { tag: 2 }, { tag: 4 }, { tag: 1 }]);
+
+    nativeAnimated.attachProps('view_1', { opacity: progress });
+    await flush();
+    expect(runtime.getReceivedMessages('createAnimatedNode').at(-2)?.payload).toEqual({
+      tag: 5,
+      config: { type: 'value', value: 1, offset: 0 },
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Native Animated Module
+ *
+ * Driver for `useNativeDriver: true`. The animation graph (values,
+ * arithmetic nodes, interpolations and the view props they are bound to) is serialized
+ * over the bridge once, animations are started by id and run entirely
+ * on the native side; JavaScript only hears back when they finish.
+ *
+ * @example
+ * ```typescript
+ * const nativeAnimated = new NativeAnimatedModule(bridge);
+ * setNativeAnimatedDriver(nativeAnimated);
+ *
+ * const opacity = new Animated.Value(0);
+ * nativeAnimated.attachProps(viewId, { opacity });
+ * Animated.timing(opacity, { toValue: 1, useNativeDriver: true }).start();
+ * ```
+ */
+
+import { JsonObject, JsonValue, NativeBridge } from '../bridge/native-bridge';
+import { BridgeMessagePayload, BridgeMessageType } from '../bridge/bridge-protocol';
+import { TRANSFORM_PROPERTIES } from '../../types/style.types';
+import { COLOR_STYLE_PROPERTIES, normalizeColor } from '../theme/color';
+import {
+  AnimatedInterpolation,
+  AnimatedNumericNode,
+  AnimatedValue,
+  AnimationCallback,
+  NativeAnimatedDriver,
+  NativeAnimatedNode,
+  NativeAnimationConfig,
+} from './animated';
+
+/**
+ * Capability reported by native runtimes that can run animations
+ */
+export const NATIVE_ANIMATIONS_CAPABILITY = 'nativeAnimations';
+
+/**
+ * Node that can be bound to a view prop
+ */
+export type AnimatedPropValue = AnimatedNumericNode | AnimatedInterpolation;
+
+/**
+ * Payload of the `animationFinished` event
+ */
+export interface AnimationFinishedEvent {
+  animationId: number;
+  finished: boolean;
+  value: number;
+}
+
+/**
+ * Native node created for an animated node
+ */
+interface NativeNodeEntry {
+  tag: number;
+  /** Nodes this node reads from */
+  inputs: NativeAnimatedNode[];
+  /** Bindings, running animations and other nodes using this node */
+  refs: number;
+}
+
+/**
+ * Bridge-backed implementation of `NativeAnimatedDriver`
+ *
+ * Native nodes are reference counted: a node is dropped once no view
+ * binding, running animation or other node uses it anymore.
+ */
+export class NativeAnimatedModule implements NativeAnimatedDriver {
+  private nextTag = 1;
+  private nextAnimationId = 1;
+  private readonly nodes = new Map<NativeAnimatedNode, NativeNodeEntry>();
+  private readonly animations = new Map<number, { value: AnimatedValue; callback: AnimationCallback }>();
+  private readonly unsubscribe: () => void;
+
+  constructor(private readonly bridge: NativeBridge) {
+    this.unsubscribe = bridge.on<AnimationFinishedEvent>('animationFinished', (event) => {
+      this.handleAnimationFinished(event);
+    });
+  }
+
+  /**
+   * Whether the connected native runtime can run animations
+   */
+  get isAvailable(): boolean {
+    return this.bridge.capabilities.has(NATIVE_ANIMATIONS_CAPABILITY);
+  }
+
+  /**
+   * Bind animated nodes to props of a native view
+   *
+   * When the runtime cannot animate natively the props are updated
+   * from JS with `updateView` on every change instead.
+   *
+   * @returns Function that removes the binding
+   */
+  attachProps(viewId: string, props: Record<string, AnimatedPropValue>): () => void {
+    if (!this.isAvailable) {
+      return this.attachPropsInJS(viewId, props);
+    }
+
+    const propTags: Record<string, number> = {};
+    for (const [name, node] of Object.entries(props)) {
+      propTags[name] = this.tagOf(node);
+      this.retain(node);
+    }
+
+    const tag = this.nextTag++;
+    this.post('createAnimatedNode', { tag, config: { type: 'props', props: propTags } });
+    this.post('connectAnimatedNodeToView', { tag, viewId });
+
+    let attached = true;
+    return () => {
+      if (!attached) {
+        return;
+      }
+      attached = false;
+      this.post('disconnectAnimatedNodeFromView', { tag, viewId });
+      this.post('dropAnimatedNode', { tag });
+      Object.values(props).forEach((node) => this.release(node));
+    };
+  }
+
+  startAnimation(value: AnimatedValue, config: NativeAnimationConfig, callback: AnimationCallback): number {
+    const animationId = this.nextAnimationId++;
+    const tag = this.tagOf(value);
+    this.retain(value);
+
+    this.animations.set(animationId, { value, callback });
+    this.post('startAnimatingNode', { animationId, tag, config });
+    return animationId;
+  }
+
+  stopAnimation(animationId: number): void {
+    if (this.animations.has(animationId)) {
+      this.post('stopAnimation', { animationId });
+    }
+  }
+
+  syncValue(value: AnimatedValue): void {
+    const tag = this.nodes.get(value)?.tag;
+    if (tag === undefined) {
+      return;
+    }
+
+    const config = value._toNativeConfig();
+    if (config.type === 'value') {
+      this.post('setAnimatedNodeValue', { tag, value: config.value, offset: config.offset });
+    }
+  }
+
+  /**
+   * Drop every native node and stop listening for completions
+   */
+  dispose(): void {
+    this.unsubscribe();
+    for (const { tag } of this.nodes.values()) {
+      this.post('dropAnimatedNode', { tag });
+    }
+    this.nodes.clear();
+    this.animations.clear();
+  }
+
+  /**
+   * Get the native tag of a node, creating it (and its inputs) on first use
+   */
+  private tagOf(node: NativeAnimatedNode): number {
+    const existing = this.nodes.get(node);
+    if (existing) {
+      return existing.tag;
+    }
+
+    const inputs: NativeAnimatedNode[] = [];
+    const config = node._toNativeConfig((input) => {
+      const inputTag = this.tagOf(input);
+      this.retain(input);
+      inputs.push(input);
+      return inputTag;
+    });
+    const tag = this.nextTag++;
+    this.nodes.set(node, { tag, inputs, refs: 0 });
+    this.post('createAnimatedNode', { tag, config });
+    return tag;
+  }
+
+  private retain(node: NativeAnimatedNode): void {
+    const entry = this.nodes.get(node);
+    if (entry) {
+      entry.refs++;
+    }
+  }
+
+  /**
+   * Drop the native node of a node nothing uses anymore, then release its inputs
+   */
+  private release(node: NativeAnimatedNode): void {
+    const entry = this.nodes.get(node);
+    if (!entry || --entry.refs > 0) {
+      return;
+    }
+
+    this.nodes.delete(node);
+    this.post('dropAnimatedNode', { tag: entry.tag });
+    entry.inputs.forEach((input) => this.release(input));
+  }
+
+  private handleAnimationFinished(event: AnimationFinishedEvent): void {
+    const animation = this.animations.get(event.animationId);
+    if (!animation) {
+      return;
+    }
+
+    this.animations.delete(event.animationId);
+    this.release(animation.value);
+    animation.value._updateValue(event.value, false);
+    animation.callback({ finished: event.finished });
+  }
+
+  /**
+   * Send animated props as view style, like `transformStyle` does: the
+   * transform entries together under `transform`, colors as ARGB integers
+   */
+  private attachPropsInJS(viewId: string, props: Record<string, AnimatedPropValue>): () => void {
+    const transforms = Object.keys(props).filter((name) => TRANSFORM_PROPERTIES.has(name));
+
+    const subscriptions = Object.entries(props).map(([name, node]) =>
+      node.valueChanges.subscribe((value) => {
+        const style: JsonObject = TRANSFORM_PROPERTIES.has(name)
+          ? { transform: transforms.map((transform) => ({ [transform]: props[transform].value })) }
+          : { [name]: (COLOR_STYLE_PROPERTIES.has(name) ? normalizeColor(value) : value) as JsonValue };
+        this.post('updateView', { viewId, props: { style } });
+      })
+    );
+
+    return () => subscriptions.forEach((subscription) => subscription.unsubscribe());
+  }
+
+  private post<K extends BridgeMessageType>(type: K, payload: BridgeMessagePayload<K>): void {
+    this.bridge.send({ type, payload: payload as unknown as JsonValue }).catch((error: unknown) => {
+      console.error(`[NativeAnimated] ${type} failed:`, error);
+    });
+  }
+}
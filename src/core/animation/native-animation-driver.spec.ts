@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NativeBridge } from '../bridge/native-bridge';
+import { MockNativeRuntime } from '../testing/mock-native-runtime';
+import { LEGACY_BRIDGE_CAPABILITIES } from '../bridge/bridge-protocol';
+import { OptimizedRenderer } from '../runtime/optimized-renderer';
+import { ViewRegistry } from '../runtime/view-registry';
+import { EventDispatcher } from '../runtime/event-dispatcher';
+import { MobileElementNode, MobileRenderer, MobileRendererFactory } from '../runtime/mobile-renderer';
+import { setNativeAnimatedDriver } from './animated';
+import { NativeAnimatedModule } from './native-animated';
+import { NATIVE_ANIMATION_ROOT, NativeAnimationDriver } from './native-animation-driver';
+
+describe('NativeAnimationDriver', () => {
+  let runtime: MockNativeRuntime;
+  let nativeAnimated: NativeAnimatedModule;
+  let optimized: OptimizedRenderer;
+  let renderer: MobileRenderer;
+  let driver: NativeAnimationDriver;
+  let root: MobileElementNode;
+
+  async function connect(capabilities?: string[]): Promise<void> {
+    runtime = new MockNativeRuntime({ capabilities }).install();
+    const bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+    await bridge.connect();
+    nativeAnimated = new NativeAnimatedModule(bridge);
+    setNativeAnimatedDriver(nativeAnimated.isAvailable ? nativeAnimated : null);
+
+    const dispatcher = new EventDispatcher();
+    optimized = new OptimizedRenderer(bridge, new ViewRegistry(), dispatcher);
+    const factory = new MobileRendererFactory(optimized, dispatcher);
+    renderer = factory.createRenderer(null, null) as MobileRenderer;
+    driver = new NativeAnimationDriver(factory, nativeAnimated);
+    root = renderer.selectRootElement('app-root');
+  }
+
+  async function flush(): Promise<void> {
+    await vi.advanceTimersByTimeAsync(0);
+    await optimized.flush();
+  }
+
+  function fadeInUp(): Array<Map<string, string | number>> {
+    return [
+      new Map<string, string | number>([['offset', 0], ['opacity', '0'], ['transform', 'translateY(20px)'], ['height', '*']]),
+      new Map<string, string | number>([['offset', 1], ['opacity', '1'], ['transform', 'none'], ['height', '*']]),
+    ];
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    setNativeAnimatedDriver(null);
+    nativeAnimated.dispose();
+    runtime.uninstall();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should run keyframes natively on the view of the element', async () => {
+    await connect();
+    const el = renderer.createElement('mobile-view');
+    renderer.appendChild(root, el);
+    await flush();
+
+    const done = vi.fn();
+    const player = driver.animate(el, fadeInUp(), 100, 0, 'ease-out');
+    player.onDone(done);
+    player.play();
+    await flush();
+
+    expect(runtime.getReceivedMessages('startAnimatingNode')).toHaveLength(1);
+    expect(runtime.getView(el.viewId)?.props).toMatchObject({ opacity: 0, translateY: 20 });
+    expect(runtime.getView(el.viewId)?.props).not.toHaveProperty('height');
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(done).toHaveBeenCalledTimes(1);
+    expect(runtime.getView(el.viewId)?.props).toMatchObject({ opacity: 1, translateY: 0 });
+  });
+
+  it('should update props from JS without native animations', async () => {
+    await connect([...LEGACY_BRIDGE_CAPABILITIES]);
+    const el = renderer.createElement('mobile-view');
+    renderer.appendChild(root, el);
+    await flush();
+
+    const player = driver.animate(el, fadeInUp(), 100, 0, 'linear');
+    player.init();
+    player.setPosition(0.5);
+    await flush();
+
+    const sentStyle = (): unknown => {
+      const updates = runtime.getReceivedMessages('updateView').map((message) => message.payload as { props: { style: object } });
+      return Object.assign({}, ...updates.map((update) => update.props.style));
+    };
+
+    expect(runtime.getReceivedMessages('createAnimatedNode')).toHaveLength(0);
+    expect(sentStyle()).toEqual({ opacity: 0.5, transform: [{ translateY: 10 }] });
+
+    player.finish();
+    await flush();
+
+    expect(sentStyle()).toEqual({ opacity: 1, transform: [{ translateY: 0 }] });
+  });
+
+  it('should report start, done and destroy once', async () => {
+    await connect();
+    const el = renderer.createElement('mobile-view');
+    const keyframes = [
+      new Map<string, string | number>([['offset', 0], ['opacity', '0']]),
+      new Map<string, string | number>([['offset', 1], ['opacity', '1']]),
+    ];
+    const player = driver.animate(el, keyframes, 100, 20, 'cubic-bezier(0.4, 0, 0.2, 1)');
+    const events: string[] = [];
+    player.onStart(() => events.push('start'));
+    player.onDone(() => events.push('done'));
+    player.onDestroy(() => events.push('destroy'));
+
+    expect(player.totalTime).toBe(120);
+    player.play();
+    player.setPosition(0.5);
+    expect(player.getPosition()).toBe(0.5);
+
+    player.finish();
+    player.destroy();
+    player.destroy();
+
+    expect(events).toEqual(['start', 'done', 'destroy']);
+    expect(player.hasStarted()).toBe(true);
+  });
+
+  it('should only contain elements attached to the root view', async () => {
+    await connect();
+    const attached = renderer.createElement('mobile-view');
+    const detached = renderer.createElement('mobile-view');
+    renderer.appendChild(root, attached);
+
+    expect(driver.containsElement(NATIVE_ANIMATION_ROOT, attached)).toBe(true);
+    expect(driver.containsElement(NATIVE_ANIMATION_ROOT, detached)).toBe(false);
+    expect(driver.containsElement(root, attached)).toBe(true);
+    expect(driver.containsElement(attached, root)).toBe(false);
+    expect(driver.getParentElement(attached)).toBe(root);
+  });
+
+  it('should query descendants and compute styles', async () => {
+    await connect();
+    const list = renderer.createElement('mobile-view');
+    const item = renderer.createElement('mobile-text');
+    renderer.appendChild(root, list);
+    renderer.appendChild(list, item);
+    list.classList.add('list');
+    item.classList.add('ng-enter');
+    item.style.transform = 'translate(10px, 5px) rotate(45deg)';
+
+    expect(driver.query(root, '.list .ng-enter', true)).toEqual([item]);
+    expect(driver.query(root, 'mobile-text, .list', true)).toEqual([list, item]);
+    expect(driver.query(root, '*', false)).toEqual([list]);
+    expect(() => driver.query(root, '[data-id]', true)).toThrow(/Unsupported query selector/);
+
+    expect(driver.computeStyle(item, 'transform')).toBe('translateX(10px) translateY(5px) rotate(45deg)');
+    expect(driver.computeStyle(item, 'opacity')).toBe('1');
+    expect(driver.computeStyle(item, 'height', '*')).toBe('*');
+    expect(driver.validateAnimatableStyleProperty('background-color')).toBe(true);
+    expect(driver.validateAnimatableStyleProperty('flex-direction')).toBe(false);
+  });
+});
@@ -0,0 +1,457 @@
+/**
+ * Angular animations for native views
+ *
+ * `AnimationDriver` for `@angular/animations` that runs the keyframes of
+ * `trigger`/`state`/`transition` definitions as `Animated.keyframes`
+ * timelines on the views created by the MobileRenderer, natively when
+ * the runtime supports it.
+ *
+ * Only types are imported from `@angular/animations`; the engine itself
+ * is set up by `provideNativeAnimations()`.
+ */
+
+import type { AnimationPlayer } from '@angular/animations';
+import type { AnimationDriver } from '@angular/animations/browser';
+import { MobileElementNode, MobileRendererFactory } from '../runtime/mobile-renderer';
+import { TransformStyle, formatTransform, parseTransform } from '../../types/style.types';
+import { FastEasing } from './easing-lut';
+import { NativeAnimatedModule } from './native-animated';
+import {
+  Animated,
+  AnimationCallback,
+  KeyframeAnimation,
+  KeyframeEasing,
+  KeyframeStyle,
+  Keyframes,
+  TimingAnimation,
+} from './animated';
+
+/**
+ * Stand-in for `document.body`: the engine only animates elements it
+ * contains, which are the elements attached to the root view
+ */
+export const NATIVE_ANIMATION_ROOT = { nodeType: 1 };
+
+/**
+ * `AUTO_STYLE` and `ɵPRE_STYLE` of `@angular/animations`
+ */
+const UNRESOLVED_STYLES = new Set<string | number>(['*', '!']);
+
+/**
+ * Style properties that native views can animate
+ */
+const ANIMATABLE_PROPERTIES = new Set([
+  'opacity',
+  'transform',
+  'backgroundColor',
+  'borderColor',
+  'color',
+  'borderRadius',
+  'borderWidth',
+  'width',
+  'height',
+  'top',
+  'left',
+  'right',
+  'bottom',
+]);
+
+/**
+ * Values of native views without an explicit style
+ */
+const NATIVE_STYLE_DEFAULTS: Record<string, string> = {
+  opacity: '1',
+  transform: 'none',
+  backgroundColor: '#00000000',
+  borderRadius: '0',
+  borderWidth: '0',
+};
+
+/**
+ * Transform entries at rest
+ */
+const IDENTITY_TRANSFORM: Record<string, number | string> = {
+  translateX: 0,
+  translateY: 0,
+  scale: 1,
+  scaleX: 1,
+  scaleY: 1,
+  rotate: '0deg',
+  rotateX: '0deg',
+  rotateY: '0deg',
+  rotateZ: '0deg',
+  skewX: '0deg',
+  skewY: '0deg',
+};
+
+/**
+ * CSS easing keywords
+ */
+const CSS_EASINGS: Record<string, KeyframeEasing> = {
+  linear: 'linear',
+  ease: 'ease',
+  'ease-in': 'easeIn',
+  'ease-out': 'easeOut',
+  'ease-in-out': 'easeInOut',
+};
+
+/**
+ * `AnimationDriver` for views created by the MobileRenderer
+ */
+export class NativeAnimationDriver implements AnimationDriver {
+  constructor(
+    private readonly rendererFactory: MobileRendererFactory,
+    private readonly nativeAnimated: NativeAnimatedModule
+  ) {}
+
+  /**
+   * Unknown properties are ignored by the native views
+   */
+  validateStyleProperty(_prop: string): boolean {
+    return true;
+  }
+
+  validateAnimatableStyleProperty = (prop: string): boolean => ANIMATABLE_PROPERTIES.has(toStyleKey(prop));
+
+  containsElement(elm1: unknown, elm2: unknown): boolean {
+    if (elm1 === NATIVE_ANIMATION_ROOT) {
+      return this.isAttached(elm2 as MobileElementNode);
+    }
+
+    for (let node = elm2 as MobileElementNode | null; node; node = node.parent) {
+      if (node === elm1) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  getParentElement(element: unknown): unknown {
+    return (element as MobileElementNode).parent ?? null;
+  }
+
+  /**
+   * Descendants matching a selector
+   *
+   * Supports the selectors the engine produces: tag names, classes and
+   * descendant combinators, in comma-separated lists.
+   */
+  query(element: MobileElementNode, selector: string, multi: boolean): MobileElementNode[] {
+    const selectors = selector.split(',').map((part) => part.trim().split(/\s+/));
+    const matches: MobileElementNode[] = [];
+
+    const visit = (parent: MobileElementNode): boolean => {
+      for (const child of parent.children) {
+        if (child.kind !== 'element') continue;
+
+        if (selectors.some((compounds) => matchesSelector(child, compounds))) {
+          matches.push(child);
+          if (!multi) return true;
+        }
+        if (visit(child)) return true;
+      }
+      return false;
+    };
+
+    visit(element);
+    return matches;
+  }
+
+  /**
+   * Current value of a style, or what a native view shows without it
+   */
+  computeStyle(element: MobileElementNode, prop: string, defaultValue?: string): string {
+    const key = toStyleKey(prop);
+    const value = element.style[key];
+
+    if (key === 'transform' && Array.isArray(value)) {
+      return formatTransform(value as TransformStyle[]);
+    }
+    if (value !== undefined) {
+      return String(value);
+    }
+    return NATIVE_STYLE_DEFAULTS[key] ?? defaultValue ?? '';
+  }
+
+  animate(
+    element: MobileElementNode,
+    keyframes: Array<Map<string, string | number>>,
+    duration: number,
+    delay: number,
+    easing?: string | null,
+    _previousPlayers?: AnimationPlayer[],
+    _scrubberAccessRequested?: boolean
+  ): NativeAnimationPlayer {
+    return new NativeAnimationPlayer(element, keyframes, duration, delay, easing, this.nativeAnimated);
+  }
+
+  private isAttached(element: MobileElementNode): boolean {
+    let node = element;
+    while (node.parent) {
+      node = node.parent;
+    }
+    return node.viewId === this.rendererFactory.getRenderer().getRootViewId();
+  }
+}
+
+/**
+ * Player of one element's keyframes
+ *
+ * The timeline is bound to the view's props while the player exists;
+ * styles the animation should leave behind are written by the engine.
+ */
+export class NativeAnimationPlayer implements AnimationPlayer {
+  parentPlayer: AnimationPlayer | null = null;
+  readonly totalTime: number;
+
+  private readonly animation: KeyframeAnimation;
+  private readonly easing: KeyframeEasing;
+  private readonly useNativeDriver: boolean;
+  private detach: (() => void) | null = null;
+  private started = false;
+  private finished = false;
+  private destroyed = false;
+  private onStartFns: Array<() => void> = [];
+  private onDoneFns: Array<() => void> = [];
+  private onDestroyFns: Array<() => void> = [];
+
+  constructor(
+    readonly element: MobileElementNode,
+    keyframes: Array<Map<string, string | number>>,
+    private readonly duration: number,
+    delay: number,
+    easing: string | null | undefined,
+    private readonly nativeAnimated: NativeAnimatedModule
+  ) {
+    this.totalTime = duration + delay;
+    this.easing = toKeyframeEasing(easing);
+    this.useNativeDriver = nativeAnimated.isAvailable;
+    this.animation = Animated.keyframes(toKeyframes(keyframes), {
+      duration,
+      delay,
+      easing: this.easing,
+      useNativeDriver: this.useNativeDriver,
+    });
+  }
+
+  onStart(fn: () => void): void {
+    this.onStartFns.push(fn);
+  }
+
+  onDone(fn: () => void): void {
+    this.onDoneFns.push(fn);
+  }
+
+  onDestroy(fn: () => void): void {
+    this.onDestroyFns.push(fn);
+  }
+
+  init(): void {
+    this.detach ??= this.nativeAnimated.attachProps(this.element.viewId, this.animation.props);
+  }
+
+  hasStarted(): boolean {
+    return this.started;
+  }
+
+  play(): void {
+    this.init();
+    if (!this.started) {
+      this.started = true;
+      this.onStartFns.forEach((fn) => fn());
+      this.onStartFns = [];
+    }
+
+    const callback: AnimationCallback = ({ finished }) => {
+      if (finished) this.onFinish();
+    };
+    const position = this.animation.progress.value;
+
+    if (position > 0 && position < 1) {
+      // Resume after pause(): the rest of the timeline in the time left
+      new TimingAnimation(this.animation.progress, {
+        toValue: 1,
+        duration: this.duration * (1 - position),
+        easing: typeof this.easing === 'function' ? this.easing : FastEasing[this.easing],
+        useNativeDriver: this.useNativeDriver,
+        // Reduced motion was applied when the timeline started
+        reduceMotion: 'ignore',
+      }).start(callback);
+    } else {
+      this.animation.start(callback);
+    }
+  }
+
+  pause(): void {
+    this.init();
+    this.animation.stop();
+  }
+
+  restart(): void {
+    this.reset();
+    this.play();
+  }
+
+  finish(): void {
+    this.init();
+    this.animation.stop();
+    this.animation.progress.setValue(1);
+    this.onFinish();
+  }
+
+  reset(): void {
+    this.animation.reset();
+    this.started = false;
+    this.finished = false;
+    this.destroyed = false;
+  }
+
+  destroy(): void {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    this.animation.stop();
+    this.detach?.();
+    this.detach = null;
+    this.onFinish();
+    this.onDestroyFns.forEach((fn) => fn());
+    this.onDestroyFns = [];
+  }
+
+  setPosition(position: number): void {
+    this.init();
+    this.animation.progress.setValue(position);
+  }
+
+  getPosition(): number {
+    return this.animation.progress.value;
+  }
+
+  private onFinish(): void {
+    if (this.finished) return;
+
+    this.finished = true;
+    this.onDoneFns.forEach((fn) => fn());
+    this.onDoneFns = [];
+  }
+}
+
+/**
+ * Convert Angular keyframes to `Animated.keyframes` keyframes
+ *
+ * Values the engine could not resolve (`*`, `!`) are left out so the
+ * neighbouring keyframes are held; transform entries missing from a
+ * keyframe that sets `transform` are at rest.
+ */
+function toKeyframes(keyframes: Array<Map<string, string | number>>): Keyframes {
+  const transformKeys = new Set<string>();
+
+  const frames = keyframes.map((keyframe, index) => {
+    const style: Record<string, unknown> = {};
+    let offset = index / Math.max(keyframes.length - 1, 1);
+    let transforms: TransformStyle[] | null = null;
+
+    keyframe.forEach((value, prop) => {
+      const key = toStyleKey(prop);
+
+      if (key === 'offset') {
+        offset = Number(value);
+      } else if (key === 'easing') {
+        style.easing = toKeyframeEasing(String(value));
+      } else if (UNRESOLVED_STYLES.has(value)) {
+        // Resolved by the engine where possible
+      } else if (key === 'transform') {
+        transforms = parseTransform(String(value));
+      } else {
+        style[key] = toKeyframeValue(value);
+      }
+    });
+
+    for (const transform of transforms ?? []) {
+      Object.assign(style, transform);
+      Object.keys(transform).forEach((transformKey) => transformKeys.add(transformKey));
+    }
+
+    return { offset, style, setsTransform: transforms !== null };
+  });
+
+  const result: Keyframes = {};
+  for (const { offset, style, setsTransform } of frames) {
+    if (setsTransform) {
+      for (const transformKey of transformKeys) {
+        if (!(transformKey in style) && transformKey in IDENTITY_TRANSFORM) {
+          style[transformKey] = IDENTITY_TRANSFORM[transformKey];
+        }
+      }
+    }
+    result[offset] = { ...result[offset], ...(style as KeyframeStyle) };
+  }
+  return result;
+}
+
+/**
+ * Lengths and numbers as numbers, anything else (colors) as given
+ */
+function toKeyframeValue(value: string | number): string | number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const number = /^(-?\d*\.?\d+)(px|dp)?$/.exec(value.trim());
+  return number ? parseFloat(number[1]) : value.trim();
+}
+
+/**
+ * Resolve a CSS easing (keyword or `cubic-bezier()`), linear otherwise
+ */
+function toKeyframeEasing(easing: string | null | undefined): KeyframeEasing {
+  const source = easing?.trim() ?? '';
+  const bezier = /^cubic-bezier\(([^)]+)\)$/.exec(source);
+  if (bezier) {
+    const [x1, y1, x2, y2] = bezier[1].split(',').map(Number);
+    return FastEasing.bezier(x1, y1, x2, y2);
+  }
+  return CSS_EASINGS[source] ?? 'linear';
+}
+
+/**
+ * Whether an element matches a list of compound selectors joined by
+ * descendant combinators
+ */
+function matchesSelector(element: MobileElementNode, compounds: string[]): boolean {
+  if (!matchesCompound(element, compounds[compounds.length - 1])) {
+    return false;
+  }
+
+  let ancestor = element.parent;
+  for (let index = compounds.length - 2; index >= 0; index--) {
+    while (ancestor && !matchesCompound(ancestor, compounds[index])) {
+      ancestor = ancestor.parent;
+    }
+    if (!ancestor) {
+      return false;
+    }
+    ancestor = ancestor.parent;
+  }
+  return true;
+}
+
+function matchesCompound(element: MobileElementNode, compound: string): boolean {
+  const parsed = /^([a-zA-Z][\w-]*|\*)?((?:\.[\w-]+)*)$/.exec(compound);
+  if (!parsed) {
+    throw new Error(`[NativeAnimationDriver] Unsupported query selector "${compound}"`);
+  }
+
+  const [, tagName, classNames] = parsed;
+  if (tagName && tagName !== '*' && tagName.toLowerCase() !== element.tagName.toLowerCase()) {
+    return false;
+  }
+  return classNames
+    .split('.')
+    .filter(Boolean)
+    .every((className) => element.classList.contains(className));
+}
+
+function toStyleKey(name: string): string {
+  return name.replace(/-([a-z])/g, (_match, char: string) => char.toUpperCase());
+}
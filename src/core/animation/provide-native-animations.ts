@@ -0,0 +1,58 @@
+/**
+ * Angular animations providers
+ *
+ * Sets up the `@angular/animations` engine with the
+ * `NativeAnimationDriver`.
+ *
+ * @example
+ * ```typescript
+ * bootstrapAndroidApplication(AppComponent, {
+ *   providers: [provideNativeAnimations()],
+ * });
+ * ```
+ */
+
+import { ANIMATION_MODULE_TYPE, NgZone, Provider, RendererFactory2 } from '@angular/core';
+import {
+  AnimationDriver,
+  ɵAnimationEngine as AnimationEngine,
+  ɵAnimationRendererFactory as AnimationRendererFactory,
+  ɵAnimationStyleNormalizer as AnimationStyleNormalizer,
+  ɵNoopAnimationStyleNormalizer as NoopAnimationStyleNormalizer,
+} from '@angular/animations/browser';
+import { MobileRendererFactory } from '../runtime/mobile-renderer';
+import { NativeAnimatedModule } from './native-animated';
+import { NATIVE_ANIMATION_ROOT, NativeAnimationDriver } from './native-animation-driver';
+
+/**
+ * Providers that run Angular animations on native views
+ *
+ * Wraps the `MobileRendererFactory` with the animation renderer, so
+ * `@trigger` bindings and `:enter`/`:leave` transitions of `@if`,
+ * `*ngIf` and `@for` blocks animate the native views. Keyframe colors
+ * interpolate between hex values.
+ */
+export function provideNativeAnimations(): Provider[] {
+  return [
+    {
+      provide: AnimationDriver,
+      useFactory: (rendererFactory: MobileRendererFactory, nativeAnimated: NativeAnimatedModule) =>
+        new NativeAnimationDriver(rendererFactory, nativeAnimated),
+      deps: [MobileRendererFactory, NativeAnimatedModule],
+    },
+    { provide: AnimationStyleNormalizer, useClass: NoopAnimationStyleNormalizer },
+    {
+      provide: AnimationEngine,
+      useFactory: (driver: AnimationDriver, normalizer: AnimationStyleNormalizer) =>
+        new AnimationEngine({ body: NATIVE_ANIMATION_ROOT } as unknown as Document, driver, normalizer),
+      deps: [AnimationDriver, AnimationStyleNormalizer],
+    },
+    {
+      provide: RendererFactory2,
+      useFactory: (delegate: MobileRendererFactory, engine: AnimationEngine, zone: NgZone) =>
+        new AnimationRendererFactory(delegate, engine, zone),
+      deps: [MobileRendererFactory, AnimationEngine, NgZone],
+    },
+    { provide: ANIMATION_MODULE_TYPE, useValue: 'BrowserAnimations' },
+  ];
+}
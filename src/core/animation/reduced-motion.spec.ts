@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { NativeBridge } from '../bridge/native-bridge';
+import { MockNativeRuntime } from '../testing/mock-native-runtime';
+import { LEGACY_BRIDGE_CAPABILITIES } from '../bridge/bridge-protocol';
+import { Animated } from './animated';
+import {
+  isReduceMotionEnabled,
+  reduceMotionChanges,
+  resolveReducedMotion,
+  setReduceMotionEnabled,
+  setReducedMotionBehavior,
+  watchReduceMotion,
+} from './reduced-motion';
+
+describe('Reduced motion', () => {
+  let runtime: MockNativeRuntime | null = null;
+
+  async function connect(capabilities?: string[]): Promise<NativeBridge> {
+    runtime = new MockNativeRuntime({ capabilities, synchronous: true }).install();
+    const bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+    await bridge.connect();
+    return bridge;
+  }
+
+  afterEach(() => {
+    runtime?.uninstall();
+    runtime = null;
+    setReduceMotionEnabled(false);
+    setReducedMotionBehavior('ignore');
+  });
+
+  it('should follow the preference reported by the native runtime', async () => {
+    const bridge = await connect();
+    const changes: boolean[] = [];
+    const subscription = reduceMotionChanges().subscribe((enabled) => changes.push(enabled));
+
+    runtime!.setReduceMotionEnabled(true);
+    const unwatch = watchReduceMotion(bridge);
+    await vi.waitFor(() => expect(isReduceMotionEnabled()).toBe(true));
+
+    runtime!.setReduceMotionEnabled(false);
+    expect(isReduceMotionEnabled()).toBe(false);
+
+    unwatch();
+    runtime!.setReduceMotionEnabled(true);
+    expect(isReduceMotionEnabled()).toBe(false);
+    expect(changes).toEqual([false, true, false]);
+    subscription.unsubscribe();
+  });
+
+  it('should not ask runtimes without the capability', async () => {
+    const bridge = await connect([...LEGACY_BRIDGE_CAPABILITIES]);
+    watchReduceMotion(bridge)();
+
+    expect(runtime!.getReceivedMessages('getAccessibilityInfo')).toHaveLength(0);
+  });
+
+  it('should resolve the behavior of an animation', () => {
+    setReducedMotionBehavior('crossfade');
+    expect(resolveReducedMotion()).toBe('ignore');
+
+    setReduceMotionEnabled(true);
+    expect(resolveReducedMotion()).toBe('crossfade');
+    expect(resolveReducedMotion('ignore')).toBe('ignore');
+    expect(resolveReducedMotion('collapse')).toBe('collapse');
+  });
+
+  it('should collapse timing, spring and decay animations to their end value', () => {
+    setReduceMotionEnabled(true);
+    setReducedMotionBehavior('collapse');
+    const value = new Animated.Value(0);
+    const done = vi.fn();
+
+    Animated.timing(value, { toValue: 100, duration: 1000 }).start(done);
+    expect(value.value).toBe(100);
+
+    Animated.spring(value, { toValue: 50 }).start(done);
+    expect(value.value).toBe(50);
+
+    Animated.decay(value, { velocity: 1, deceleration: 0.99, max: 120 }).start(done);
+    expect(value.value).toBe(120);
+
+    expect(done).toHaveBeenCalledTimes(3);
+    expect(done).toHaveBeenCalledWith({ finished: true });
+  });
+
+  it('should keep animating animations that opt out and wait for delays', () => {
+    setReduceMotionEnabled(true);
+    setReducedMotionBehavior('collapse');
+    const animated = new Animated.Value(0);
+    const delayed = new Animated.Value(0);
+
+    Animated.timing(animated, { toValue: 1, duration: 1000, reduceMotion: 'ignore' }).start();
+    Animated.timing(delayed, { toValue: 1, duration: 1000, delay: 50 }).start();
+
+    expect(animated.value).toBeLessThan(1);
+    expect(delayed.value).toBe(0);
+    animated.stopAnimation();
+    delayed.stopAnimation();
+  });
+
+  it('should run a single iteration of reduced loops', () => {
+    setReduceMotionEnabled(true);
+    setReducedMotionBehavior('collapse');
+    const value = new Animated.Value(0);
+    const done = vi.fn();
+
+    Animated.loop(Animated.timing(value, { toValue: 360 })).start(done);
+
+    expect(value.value).toBe(360);
+    expect(done).toHaveBeenCalledWith({ finished: true });
+  });
+
+  it('should only jump transform and layout keyframes when cross-fading', () => {
+    setReduceMotionEnabled(true);
+    setReducedMotionBehavior('crossfade');
+    const animation = Animated.keyframes(
+      { from: { opacity: 0, translateY: 20, height: 0 }, to: { opacity: 1, translateY: 0, height: 40 } },
+      { duration: 1000, easing: 'linear' }
+    );
+
+    animation.start();
+    animation.progress.stopAnimation();
+    animation.progress.setValue(0.5);
+
+    expect(animation.props.opacity.value).toBe(0.5);
+    expect(animation.props.translateY.value).toBe(0);
+    expect(animation.props.height.value).toBe(40);
+
+    animation.reset();
+    expect(animation.props.translateY.value).toBe(20);
+  });
+});
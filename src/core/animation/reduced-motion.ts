@@ -0,0 +1,116 @@
+/**
+ * Reduced Motion
+ *
+ * Tracks the OS "reduce motion" accessibility preference and decides
+ * how animations react to it. While the preference is on, animations
+ * follow the global behavior set with `setReducedMotionBehavior`
+ * unless their own `reduceMotion` option says otherwise:
+ *
+ * - `'ignore'` runs the animation as configured
+ * - `'collapse'` jumps to the end value without animating
+ * - `'crossfade'` keeps fades and color changes but jumps transforms
+ *   and layout (values that don't know what they drive collapse)
+ *
+ * @example
+ * ```typescript
+ * setReducedMotionBehavior('crossfade');
+ *
+ * // A spinner that keeps turning regardless of the preference
+ * Animated.loop(Animated.timing(rotation, { toValue: 360, reduceMotion: 'ignore' }), {
+ *   reduceMotion: 'ignore',
+ * }).start();
+ * ```
+ */
+
+import { BehaviorSubject, Observable, distinctUntilChanged } from 'rxjs';
+import { NativeBridge } from '../bridge/native-bridge';
+import { AccessibilityInfo } from '../../types/native.types';
+
+/**
+ * How an animation reacts to the reduce motion preference
+ */
+export type ReducedMotionBehavior = 'ignore' | 'collapse' | 'crossfade';
+
+/**
+ * Capability reported by native runtimes that expose accessibility settings
+ */
+export const ACCESSIBILITY_INFO_CAPABILITY = 'accessibilityInfo';
+
+const reduceMotionEnabled = new BehaviorSubject<boolean>(false);
+let reducedMotionBehavior: ReducedMotionBehavior = 'ignore';
+
+/**
+ * Whether the OS asks for reduced motion
+ */
+export function isReduceMotionEnabled(): boolean {
+  return reduceMotionEnabled.value;
+}
+
+/**
+ * Current preference, then every change
+ */
+export function reduceMotionChanges(): Observable<boolean> {
+  return reduceMotionEnabled.pipe(distinctUntilChanged());
+}
+
+/**
+ * Override the preference (e.g. from an in-app setting or in tests)
+ */
+export function setReduceMotionEnabled(enabled: boolean): void {
+  reduceMotionEnabled.next(enabled);
+}
+
+/**
+ * Set how animations without their own `reduceMotion` option react (default: `'ignore'`)
+ */
+export function setReducedMotionBehavior(behavior: ReducedMotionBehavior): void {
+  reducedMotionBehavior = behavior;
+}
+
+/**
+ * Get how animations without their own `reduceMotion` option react
+ */
+export function getReducedMotionBehavior(): ReducedMotionBehavior {
+  return reducedMotionBehavior;
+}
+
+/**
+ * Behavior that applies to an animation right now
+ *
+ * Always `'ignore'` while the preference is off.
+ */
+export function resolveReducedMotion(override?: ReducedMotionBehavior): ReducedMotionBehavior {
+  return reduceMotionEnabled.value ? (override ?? reducedMotionBehavior) : 'ignore';
+}
+
+/**
+ * Follow the preference reported by the native runtime
+ *
+ * Does nothing when the runtime doesn't report accessibility settings.
+ *
+ * @returns Function that stops following it
+ */
+export function watchReduceMotion(bridge: NativeBridge): () => void {
+  if (!bridge.capabilities.has(ACCESSIBILITY_INFO_CAPABILITY)) {
+    return () => undefined;
+  }
+
+  let watching = true;
+  const unsubscribe = bridge.on<AccessibilityInfo>('accessibilityInfoChange', (info) => {
+    setReduceMotionEnabled(info.reduceMotionEnabled);
+  });
+
+  bridge
+    .request('getAccessibilityInfo', {})
+    .then((info) => {
+      if (watching) {
+        setReduceMotionEnabled(info.reduceMotionEnabled);
+      }
+    })
+    .catch((error) => console.warn('[Animated] Failed to get the reduce motion preference:', error));
+
+  return () => {
+    watching = false;
+    unsubscribe();
+  };
+}
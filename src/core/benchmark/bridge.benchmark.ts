@@ -1,5 +1,6 @@
 import { benchmark, formatResult, BenchmarkResult } from './benchmark';
 import { BridgeMessage, JsonValue } from '../bridge/native-bridge';
+import { CompactDecoder, CompactEncoder } from '../bridge/compact-codec';
 
 /**
  * Bridge performance benchmarks
@@ -125,6 +126,85 @@ function benchmarkMessageParsing(): BenchmarkResult {
   );
 }
 
+/**
+ * Build the batch a 500-row list render sends
+ */
+function createListBatch(): BridgeMessage {
+  const messages: BridgeMessage[] = [];
+
+  for (let i = 0; i < 500; i++) {
+    const rowId = `view_${i * 2 + 2}`;
+    const labelId = `view_${i * 2 + 3}`;
+
+    messages.push(
+      {
+        type: 'createView',
+        payload: {
+          viewId: rowId,
+          viewType: 'View',
+          props: { style: { flexDirection: 'row', padding: 12, borderBottomWidth: 1, borderColor: '#e0e0e0' } },
+        },
+      },
+      { type: 'createView', payload: { viewId: labelId, viewType: 'Text', props: { text: `Item ${i}`, numberOfLines: 1 } } },
+      { type: 'appendChild', payload: { parentId: rowId, childId: labelId } },
+      { type: 'appendChild', payload: { parentId: 'view_1', childId: rowId } }
+    );
+  }
+
+  return {
+    id: 'msg_1_1234567890',
+    type: 'batch',
+    payload: { messages: messages as unknown as JsonValue },
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Compare JSON and compact wire encoding for a large batch
+ *
+ * Compact numbers are for the steady state, where keys and type names
+ * are already interned on the connection.
+ */
+function benchmarkCompactEncoding(): BenchmarkResult[] {
+  const batch = createListBatch();
+  const encoder = new CompactEncoder();
+  const decoder = new CompactDecoder();
+
+  const json = JSON.stringify(batch);
+  const firstFrame = encoder.encode(batch);
+  const frame = encoder.encode(batch);
+  decoder.decode(firstFrame);
+
+  const jsonBytes = new TextEncoder().encode(json).length;
+  console.log(`   Batch size (2000 operations):`);
+  console.log(`     JSON:                    ${jsonBytes.toLocaleString()} bytes`);
+  console.log(`     Compact (first frame):   ${firstFrame.length.toLocaleString()} bytes`);
+  console.log(`     Compact (steady state):  ${frame.length.toLocaleString()} bytes`);
+  console.log(`     Reduction:               ${((1 - frame.length / jsonBytes) * 100).toFixed(1)}%`);
+  console.log();
+
+  const results = [
+    benchmark('JSON Encode (2000-op batch)', () => {
+      JSON.stringify(batch);
+    }, { iterations: 50 }),
+    benchmark('Compact Encode (2000-op batch)', () => {
+      encoder.encode(batch);
+    }, { iterations: 50 }),
+    benchmark('JSON Decode (2000-op batch)', () => {
+      JSON.parse(json);
+    }, { iterations: 50 }),
+    benchmark('Compact Decode (2000-op batch)', () => {
+      decoder.decode(frame);
+    }, { iterations: 50 }),
+  ];
+
+  for (const result of results) {
+    console.log(formatResult(result));
+  }
+
+  return results;
+}
+
 /**
  * Benchmark event handler dispatch
  */
@@ -199,6 +279,9 @@ export async function runBridgeBenchmarks(): Promise<BenchmarkResult[]> {
   console.log(formatResult(results[results.length - 1]));
   console.log();
 
+  results.push(...benchmarkCompactEncoding()); // Logs internally
+  console.log();
+
   results.push(benchmarkEventDispatch());
   console.log(formatResult(results[results.length - 1]));
   console.log();
@@ -0,0 +1,74 @@
+/**
+ * Bridge Errors
+ *
+ * Typed failures raised by `NativeBridge.request`, so callers can tell
+ * a slow native side from a lost connection or a failed native call.
+ */
+
+/**
+ * Raised when a request is not answered within its timeout
+ */
+export class BridgeTimeoutError extends Error {
+  constructor(
+    readonly messageType: string,
+    readonly timeoutMs: number
+  ) {
+    super(`Request timeout: ${messageType} (${timeoutMs}ms)`);
+    this.name = 'BridgeTimeoutError';
+  }
+}
+
+/**
+ * Raised when the transport is unavailable or the bridge disconnects
+ * while a request is pending
+ */
+export class BridgeDisconnectedError extends Error {
+  constructor(
+    message = 'Bridge not connected',
+    readonly messageType?: string
+  ) {
+    super(message);
+    this.name = 'BridgeDisconnectedError';
+  }
+}
+
+/**
+ * Raised when the native side answers a request with `success: false`
+ */
+export class BridgeRemoteError extends Error {
+  constructor(
+    readonly messageType: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'BridgeRemoteError';
+  }
+}
+
+/**
+ * Raised on connect when the native runtime speaks a different bridge
+ * protocol version, typically after upgrading the npm package without
+ * rebuilding the native app
+ */
+export class BridgeProtocolMismatchError extends Error {
+  constructor(
+    readonly expectedVersion: number,
+    readonly nativeVersion: number
+  ) {
+    super(
+      nativeVersion < expectedVersion
+        ? `Native runtime speaks bridge protocol v${nativeVersion} but angular-platform-mobile requires ` +
+            `v${expectedVersion}. Rebuild the native app after upgrading the npm package.`
+        : `Native runtime speaks bridge protocol v${nativeVersion} but angular-platform-mobile only supports ` +
+            `v${expectedVersion}. Upgrade the angular-platform-mobile npm package.`
+    );
+    this.name = 'BridgeProtocolMismatchError';
+  }
+}
+
+/**
+ * Check whether an error may succeed when the request is sent again
+ */
+export function isRetryableBridgeError(error: unknown): boolean {
+  return error instanceof BridgeTimeoutError || error instanceof BridgeDisconnectedError;
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NativeBridge } from './native-bridge';
+import {
+  BridgeValidationError,
+  BRIDGE_PROTOCOL_SCHEMAS,
+  getBridgeMessageSchema,
+  registerBridgeMessageSchema,
+  validateIncomingEvent,
+  validateIncomingResponse,
+  validateOutgoingMessage,
+} from './bridge-protocol';
+import { MockNativeRuntime } from '../testing/mock-native-runtime';
+
+describe('bridge protocol', () => {
+  describe('validateOutgoingMessage', () => {
+    it('should accept well-formed messages', () => {
+      expect(validateOutgoingMessage({ type: 'updateView', payload: { viewId: 'view_1', props: {} } })).toEqual([]);
+      expect(validateOutgoingMessage({ type: 'getDeviceInfo', payload: {} })).toEqual([]);
+      expect(validateOutgoingMessage({ type: 'clearStorage' })).toEqual([]);
+    });
+
+    it('should report missing and mistyped fields', () => {
+      expect(validateOutgoingMessage({ type: 'updateView', payload: { viewId: 1 } })).toEqual([
+        'payload.viewId must be string (got number)',
+        'payload.props is required',
+      ]);
+      expect(validateOutgoingMessage({ type: 'setRootView', payload: 'view_1' })).toEqual([
+        'payload must be object (got string)',
+      ]);
+    });
+
+    it('should reject unknown types and events', () => {
+      expect(validateOutgoingMessage({ type: 'teleport', payload: {} })).toEqual(['unknown message type "teleport"']);
+      expect(validateOutgoingMessage({ type: 'viewEvent', payload: {} })).toEqual(['unknown message type "viewEvent"']);
+      expect(validateOutgoingMessage({ payload: {} })).toEqual(['type must be a non-empty string']);
+    });
+
+    it('should validate messages nested in a batch', () => {
+      const errors = validateOutgoingMessage({
+        type: 'batch',
+        payload: {
+          messages: [
+            { type: 'createView', payload: { viewId: 'view_1', viewType: 'View' } },
+            { type: 'appendChild', payload: { parentId: 'view_1' } },
+          ],
+        },
+      });
+
+      expect(errors).toEqual(['messages[1]: payload.childId is required']);
+    });
+  });
+
+  describe('validateIncomingResponse', () => {
+    it('should check the response envelope', () => {
+      expect(validateIncomingResponse({ id: 'msg_1', success: true })).toEqual([]);
+      expect(validateIncomingResponse({ id: 'msg_1', success: false })).toEqual([
+        'error must be string when success is false',
+      ]);
+    });
+
+    it('should check data against the request response rule', () => {
+      expect(validateIncomingResponse({ id: 'msg_1', success: true, data: true }, 'canOpenURL')).toEqual([]);
+      expect(validateIncomingResponse({ id: 'msg_1', success: true, data: 'yes' }, 'canOpenURL')).toEqual([
+        'data must be boolean (got string)',
+      ]);
+      expect(validateIncomingResponse({ id: 'msg_1', success: true, data: null }, 'getInitialURL')).toEqual([]);
+    });
+  });
+
+  describe('validateIncomingEvent', () => {
+    it('should validate registered events only', () => {
+      expect(validateIncomingEvent({ type: 'viewEvent', payload: { viewId: 'view_1', eventType: 'press' } })).toEqual([]);
+      expect(validateIncomingEvent({ type: 'url', payload: {} })).toEqual(['payload.url is required']);
+      expect(validateIncomingEvent({ type: 'customEvent', payload: 42 })).toEqual([]);
+    });
+  });
+
+  describe('registerBridgeMessageSchema', () => {
+    afterEach(() => {
+      delete BRIDGE_PROTOCOL_SCHEMAS['getBarcode'];
+    });
+
+    it('should register custom messages', () => {
+      expect(getBridgeMessageSchema('getBarcode')).toBeUndefined();
+
+      registerBridgeMessageSchema('getBarcode', { kind: 'message', payload: { format: 'string' }, response: 'object' });
+
+      expect(validateOutgoingMessage({ type: 'getBarcode', payload: { format: 'qr' } })).toEqual([]);
+      expect(getBridgeMessageSchema('toString')).toBeUndefined();
+    });
+  });
+
+  describe('NativeBridge validation', () => {
+    let runtime: MockNativeRuntime;
+    let bridge: NativeBridge;
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      runtime = new MockNativeRuntime().install();
+      bridge = new NativeBridge({ transport: 'native-android', platform: 'android', validate: true });
+      await bridge.connect();
+    });
+
+    afterEach(() => {
+      runtime.uninstall();
+      vi.restoreAllMocks();
+    });
+
+    it('should reject invalid outgoing messages before sending', async () => {
+      const request = bridge.request('updateView', { viewId: 'view_1' } as never);
+
+      await expect(request).rejects.toBeInstanceOf(BridgeValidationError);
+      await expect(request).rejects.toThrow('Invalid outgoing bridge message "updateView"');
+      expect(runtime.getReceivedMessages('updateView')).toHaveLength(0);
+    });
+
+    it('should reject responses that do not match the protocol', async () => {
+      runtime.onRequest('canOpenURL', () => 'yes');
+
+      await expect(bridge.request('canOpenURL', { url: 'https://example.com' })).rejects.toThrow(
+        'data must be boolean (got string)'
+      );
+    });
+
+    it('should drop invalid events', async () => {
+      const handler = vi.fn();
+      bridge.on('url', handler);
+
+      runtime.emit('url', {});
+      runtime.emit('url', { url: 'myapp://home' });
+      await Promise.resolve();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith({ url: 'myapp://home' });
+    });
+
+    it('should skip validation when disabled', async () => {
+      const unchecked = new NativeBridge({ transport: 'native-android', platform: 'android' });
+      await unchecked.connect();
+      runtime.onRequest('canOpenURL', () => 'yes');
+
+      await expect(unchecked.request('canOpenURL', { url: 'https://example.com' })).resolves.toBe('yes');
+    });
+  });
+});
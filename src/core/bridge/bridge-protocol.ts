@@ -0,0 +1,844 @@
+/**
+ * Bridge Protocol
+ *
+ * Central registry of every message exchanged with the native runtime.
+ *
+ * - `BridgeMessageMap` types the payload and response of each message
+ *   JavaScript sends (checked at compile time by `NativeBridge.request`
+ *   and `BridgeService.send`/`request`)
+ * - `BridgeEventMap` types the events the native side pushes
+ * - `BRIDGE_PROTOCOL_SCHEMAS` describes the same messages for runtime
+ *   validation, enabled in debug mode
+ *
+ * Custom native modules extend the protocol with declaration merging
+ * and `registerBridgeMessageSchema`:
+ *
+ * @example
+ * ```typescript
+ * declare module 'angular-platform-mobile' {
+ *   interface BridgeMessageMap {
+ *     getBarcode: { payload: { format: string }; response: { value: string } };
+ *   }
+ * }
+ *
+ * registerBridgeMessageSchema('getBarcode', {
+ *   kind: 'message',
+ *   payload: { format: 'string' },
+ *   response: 'object',
+ * });
+ * ```
+ */
+
+import type { AccessibilityInfo, BiometricType, Dimensions, EdgeInsets, HapticFeedbackType, Permission, StatusBarAnimation, StatusBarStyle } from '../../types/native.types';
+import type { PromptResult } from '../../services/alert.service';
+import type { BiometricOptions, BiometricResult } from '../../services/biometric.service';
+import type { ClipboardContent } from '../../services/clipboard.service';
+import type { DeviceInfo } from '../../services/device.service';
+import type { PermissionResult, PermissionsResult } from '../../services/permissions.service';
+import type { ShareResult } from '../../services/share.service';
+import type { BridgeEncoding } from './compact-codec';
+import type { NativeAnimatedNodeConfig, NativeAnimationConfig } from '../animation/animated';
+import type { GestureHandlerNativeEvent, GestureHandlerType, NativeGestureHandlerConfig } from '../gestures/gesture-handler';
+import type { ColorScheme, PlatformConstants, PlatformDimensions, PlatformOS, SafeAreaInsets } from '../platform/platform';
+
+/**
+ * View ID payload shared by view-targeted messages
+ */
+interface ViewTarget {
+  viewId: string;
+}
+
+/**
+ * Parent/child payload for hierarchy messages
+ */
+interface ViewHierarchyPayload {
+  parentId: string;
+  childId: string;
+}
+
+/**
+ * Share dialog options
+ */
+interface ShareDialogOptions {
+  dialogTitle?: string;
+  excludedActivityTypes?: string[];
+  tintColor?: string;
+  subject?: string;
+}
+
+/**
+ * Android intent description
+ */
+interface IntentPayload {
+  action: string;
+  data?: string;
+  type?: string;
+  extras?: Record<string, unknown>;
+  flags?: number[];
+  packageName?: string;
+  className?: string;
+}
+
+/**
+ * Navigation route payload
+ */
+interface RoutePayload {
+  routeName: string;
+  params?: Record<string, unknown>;
+  key?: string;
+}
+
+/**
+ * Status bar stack entry
+ */
+interface StatusBarStackProps {
+  barStyle?: StatusBarStyle;
+  backgroundColor?: string;
+  hidden?: boolean;
+}
+
+/**
+ * Initial platform information
+ */
+export interface PlatformInfo {
+  os: PlatformOS;
+  constants: PlatformConstants;
+  dimensions: PlatformDimensions;
+  colorScheme: ColorScheme;
+  safeAreaInsets: SafeAreaInsets;
+}
+
+/**
+ * Version of the bridge protocol spoken by this package
+ *
+ * Bumped on breaking changes to message shapes. The native runtimes
+ * report their own version in the `handshake` response.
+ */
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
+/**
+ * Optional features defined by the protocol
+ */
+export const BRIDGE_CAPABILITIES: readonly string[] = [
+  'views',
+  'batch',
+  'measure',
+  'focus',
+  'events',
+  'nativeAnimations',
+  'layoutAnimations',
+  'gestures',
+  'accessibilityInfo',
+];
+
+/**
+ * Capabilities assumed for native runtimes that predate the handshake
+ */
+export const LEGACY_BRIDGE_CAPABILITIES: readonly string[] = ['views', 'batch', 'measure', 'focus'];
+
+/**
+ * Native side of the protocol handshake
+ */
+export interface BridgeHandshake {
+  protocolVersion: number;
+  capabilities: string[];
+  runtime?: string;
+  runtimeVersion?: string;
+}
+
+/**
+ * Messages sent from JavaScript to native
+ *
+ * Every message is answered with a `BridgeResponse`; `response` is the
+ * type of its `data` (`void` for fire-and-forget commands).
+ */
+export interface BridgeMessageMap {
+  // Lifecycle
+  appReady: { payload: { timestamp: number; platform?: string; bundleId?: string; reconnect?: boolean }; response: void };
+  hotReloadReady: { payload: Record<string, never>; response: void };
+  registerModule: { payload: { name: string; methods?: string[] }; response: void };
+  getPlatformInfo: { payload: Record<string, never>; response: PlatformInfo };
+  negotiateEncoding: { payload: { encodings: BridgeEncoding[] }; response: { encoding: BridgeEncoding } };
+  handshake: { payload: { protocolVersion: number; capabilities: string[] }; response: BridgeHandshake };
+  callNativeMethod: { payload: { module: string; method: string; args: unknown[] }; response: unknown };
+
+  // View operations
+  createView: { payload: ViewTarget & { viewType: string; props?: Record<string, unknown> }; response: { viewId: string } };
+  updateView: { payload: ViewTarget & { props: Record<string, unknown> }; response: void };
+  removeView: { payload: ViewTarget; response: void };
+  appendChild: { payload: ViewHierarchyPayload; response: void };
+  insertChild: { payload: ViewHierarchyPayload & { index: number }; response: void };
+  removeChild: { payload: ViewHierarchyPayload; response: void };
+  setRootView: { payload: ViewTarget; response: void };
+  batch: { payload: { messages: unknown[]; layoutAnimation?: unknown }; response: void };
+  batchOperations: { payload: { operations: unknown[] }; response: void };
+  measureView: { payload: ViewTarget; response: { x: number; y: number; width: number; height: number } };
+  focus: { payload: ViewTarget; response: void };
+  blur: { payload: ViewTarget; response: void };
+  isFocused: { payload: ViewTarget; response: boolean };
+  addEventListener: { payload: ViewTarget & { eventType: string }; response: void };
+  removeEventListener: { payload: ViewTarget & { eventType: string }; response: void };
+
+  // Native-driven animations
+  createAnimatedNode: { payload: { tag: number; config: NativeAnimatedNodeConfig }; response: void };
+  dropAnimatedNode: { payload: { tag: number }; response: void };
+  connectAnimatedNodeToView: { payload: ViewTarget & { tag: number }; response: void };
+  disconnectAnimatedNodeFromView: { payload: ViewTarget & { tag: number }; response: void };
+  setAnimatedNodeValue: { payload: { tag: number; value: number; offset: number }; response: void };
+  startAnimatingNode: { payload: { animationId: number; tag: number; config: NativeAnimationConfig }; response: void };
+  stopAnimation: { payload: { animationId: number }; response: void };
+
+  // Gesture recognizers
+  createGestureHandler: {
+    payload: { handlerTag: number; handlerType: GestureHandlerType; config: NativeGestureHandlerConfig };
+    response: void;
+  };
+  attachGestureHandler: { payload: ViewTarget & { handlerTag: number }; response: void };
+  updateGestureHandler: { payload: { handlerTag: number; config: NativeGestureHandlerConfig }; response: void };
+  dropGestureHandler: { payload: { handlerTag: number }; response: void };
+
+  // Scrolling
+  scrollTo: { payload: ViewTarget & { x: number; y: number; animated: boolean }; response: void };
+  scrollToEnd: { payload: ViewTarget & { animated: boolean }; response: void };
+  scrollToIndex: {
+    payload: ViewTarget & { index: number; animated: boolean; viewOffset: number; viewPosition: number };
+    response: void;
+  };
+  scrollToOffset: { payload: ViewTarget & { offset: number; animated: boolean }; response: void };
+  flashScrollIndicators: { payload: ViewTarget; response: void };
+
+  // Modal
+  showModal: { payload: ViewTarget; response: void };
+  hideModal: { payload: ViewTarget; response: void };
+
+  // WebView
+  webViewGoBack: { payload: ViewTarget; response: void };
+  webViewGoForward: { payload: ViewTarget; response: void };
+  webViewReload: { payload: ViewTarget; response: void };
+  webViewStopLoading: { payload: ViewTarget; response: void };
+  webViewInjectJavaScript: { payload: ViewTarget & { script: string }; response: void };
+  webViewClearCache: { payload: ViewTarget; response: void };
+  webViewClearHistory: { payload: ViewTarget; response: void };
+
+  // Status bar
+  setStatusBarStyle: { payload: { style: StatusBarStyle; animated?: boolean }; response: void };
+  setStatusBarHidden: { payload: { hidden: boolean; animation?: StatusBarAnimation }; response: void };
+  setStatusBarBackgroundColor: { payload: { color: string; animated?: boolean }; response: void };
+  setStatusBarTranslucent: { payload: { translucent: boolean }; response: void };
+  pushStatusBarStackEntry: { payload: { id: string; props: StatusBarStackProps }; response: void };
+  popStatusBarStackEntry: { payload: { id: string }; response: void };
+  replaceStatusBarStackEntry: { payload: { id: string; props: StatusBarStackProps }; response: void };
+  getStatusBarHeight: { payload: Record<string, never>; response: { height: number } };
+  getSafeAreaInsets: { payload: Record<string, never>; response: EdgeInsets };
+
+  // Alerts and pickers
+  showAlert: {
+    payload: {
+      title: string;
+      message?: string;
+      buttons: { text: string; style: string; index: number }[];
+      cancelable: boolean;
+    };
+    response: { buttonIndex: number };
+  };
+  showPrompt: {
+    payload: {
+      title: string;
+      message?: string;
+      buttons: { text: string; style: string; index: number }[];
+      inputType: string;
+      defaultValue: string;
+      placeholder: string;
+      keyboardType: string;
+    };
+    response: PromptResult;
+  };
+  showActionSheet: {
+    payload: {
+      title?: string;
+      message?: string;
+      options: string[];
+      cancelButtonIndex: number;
+      destructiveButtonIndex?: number;
+      tintColor?: string;
+    };
+    response: number;
+  };
+  showDatePicker: {
+    payload: { timestamp: number; minimumTimestamp?: number; maximumTimestamp?: number; mode: string };
+    response: { timestamp: number } | null;
+  };
+  showTimePicker: {
+    payload: { hour: number; minute: number; is24Hour: boolean };
+    response: { hour: number; minute: number } | null;
+  };
+  showSingleChoice: { payload: { title: string; items: string[]; selectedIndex: number }; response: number };
+  showMultiChoice: { payload: { title: string; items: string[]; selectedIndices: number[] }; response: number[] };
+
+  // Toasts
+  showToast: { payload: { message: string; duration: number }; response: void };
+  showToastWithConfig: {
+    payload: {
+      message: string;
+      duration: number;
+      gravity: number;
+      xOffset: number;
+      yOffset: number;
+      backgroundColor?: string;
+      textColor?: string;
+    };
+    response: void;
+  };
+  showSnackbar: {
+    payload: {
+      message: string;
+      duration: number;
+      actionText?: string;
+      actionId?: string;
+      actionTextColor?: string;
+      backgroundColor?: string;
+      textColor?: string;
+    };
+    response: void;
+  };
+  dismissSnackbar: { payload: Record<string, never>; response: void };
+
+  // Biometrics
+  biometricIsAvailable: { payload: Record<string, never>; response: boolean };
+  getBiometricType: { payload: Record<string, never>; response: BiometricType };
+  biometricIsEnrolled: { payload: Record<string, never>; response: boolean };
+  biometricAuthenticate: { payload: BiometricOptions; response: BiometricResult };
+
+  // Clipboard
+  getClipboardString: { payload: Record<string, never>; response: { text: string } };
+  setClipboardString: { payload: { text: string }; response: void };
+  getClipboardContent: { payload: Record<string, never>; response: ClipboardContent };
+  setClipboardContent: { payload: ClipboardContent; response: void };
+  hasClipboardContent: { payload: Record<string, never>; response: { hasContent: boolean } };
+  hasClipboardString: { payload: Record<string, never>; response: { hasString: boolean } };
+  hasClipboardURL: { payload: Record<string, never>; response: { hasURL: boolean } };
+  getClipboardURL: { payload: Record<string, never>; response: { url: string | null } };
+  clearClipboard: { payload: Record<string, never>; response: void };
+
+  // Device
+  getDeviceInfo: { payload: Record<string, never>; response: DeviceInfo };
+  getBatteryInfo: { payload: Record<string, never>; response: { level: number; isCharging: boolean } };
+  getDimensions: { payload: Record<string, never>; response: Dimensions };
+  getAccessibilityInfo: { payload: Record<string, never>; response: AccessibilityInfo };
+  vibrate: { payload: { pattern: number[] }; response: void };
+  cancelVibration: { payload: Record<string, never>; response: void };
+  hapticFeedback: { payload: { type: HapticFeedbackType }; response: void };
+  hapticIsAvailable: { payload: Record<string, never>; response: boolean };
+
+  // Linking
+  getInitialURL: { payload: Record<string, never>; response: string | null };
+  openURL: { payload: { url: string }; response: void };
+  canOpenURL: { payload: { url: string }; response: boolean };
+  openSettings: { payload: Record<string, never>; response: void };
+  openActivity: { payload: IntentPayload; response: void };
+  sendIntent: { payload: IntentPayload; response: unknown };
+  getPackageName: { payload: Record<string, never>; response: string };
+
+  // Navigation
+  navigate: { payload: RoutePayload; response: void };
+  replace: { payload: RoutePayload; response: void };
+  reset: { payload: RoutePayload; response: void };
+  goBack: { payload: Record<string, never>; response: void };
+  popTo: { payload: { routeName: string }; response: void };
+  popToTop: { payload: Record<string, never>; response: void };
+  setParams: { payload: { params: Record<string, unknown> }; response: void };
+
+  // Permissions
+  checkPermission: { payload: { permission: Permission }; response: PermissionResult };
+  requestPermission: { payload: { permission: Permission }; response: PermissionResult };
+  checkMultiplePermissions: { payload: { permissions: Permission[] }; response: PermissionsResult };
+  requestMultiplePermissions: { payload: { permissions: Permission[] }; response: PermissionsResult };
+  shouldShowRationale: { payload: { permission: Permission }; response: boolean };
+  openAppSettings: { payload: Record<string, never>; response: void };
+
+  // Share
+  share: {
+    payload: { content: { title?: string; message?: string; url?: string }; options: ShareDialogOptions };
+    response: ShareResult;
+  };
+  shareImage: {
+    payload: { content: { uri: string; title?: string; message?: string }; options: ShareDialogOptions };
+    response: ShareResult;
+  };
+  shareFile: {
+    payload: {
+      content: { uri: string; mimeType: string; title?: string; message?: string };
+      options: ShareDialogOptions;
+    };
+    response: ShareResult;
+  };
+  shareMultiple: {
+    payload: {
+      content: { uris: string[]; mimeType: string; title?: string; message?: string };
+      options: ShareDialogOptions;
+    };
+    response: ShareResult;
+  };
+  isShareAvailable: { payload: Record<string, never>; response: boolean };
+  shareToApp: {
+    payload: { packageName: string; content: { title?: string; message?: string; url?: string } };
+    response: ShareResult;
+  };
+  shareViaEmail: {
+    payload: { to?: string[]; cc?: string[]; bcc?: string[]; subject?: string; body?: string; attachments?: string[] };
+    response: ShareResult;
+  };
+  shareViaSms: { payload: { phoneNumber?: string; message: string }; response: ShareResult };
+
+  // Storage
+  getAllStorageItems: { payload: Record<string, never>; response: Record<string, string> };
+  getStorageItem: { payload: { key: string }; response: string | null };
+  setStorageItem: { payload: { key: string; value: string }; response: void };
+  removeStorageItem: { payload: { key: string }; response: void };
+  clearStorage: { payload: Record<string, never>; response: void };
+  getAllStorageKeys: { payload: Record<string, never>; response: string[] };
+  multiGetStorageItems: { payload: { keys: string[] }; response: Record<string, string | null> };
+  multiSetStorageItems: { payload: { items: Record<string, string> }; response: void };
+  multiRemoveStorageItems: { payload: { keys: string[] }; response: void };
+  getStorageSize: { payload: Record<string, never>; response: number };
+}
+
+/**
+ * Events pushed from native to JavaScript
+ */
+export interface BridgeEventMap {
+  welcome: { version: string; protocolVersion?: number };
+  viewEvent: { viewId: string; eventType: string; payload: unknown };
+  dimensionsChange: Dimensions;
+  appearanceChange: { colorScheme: ColorScheme };
+  colorSchemeChange: { colorScheme: ColorScheme };
+  safeAreaInsetsChange: EdgeInsets;
+  keyboardDidShow: Record<string, unknown>;
+  keyboardDidHide: Record<string, unknown>;
+  networkChange: Record<string, unknown>;
+  clipboardChange: ClipboardContent;
+  hardwareBackPress: Record<string, never> | null;
+  url: { url: string };
+  snackbarAction: { actionId: string };
+  hotReload: { bundleUrl?: string };
+  animationFinished: { animationId: number; finished: boolean; value: number };
+  gestureHandlerEvent: GestureHandlerNativeEvent;
+  accessibilityInfoChange: AccessibilityInfo;
+}
+
+/**
+ * Registered outgoing message type
+ */
+export type BridgeMessageType = keyof BridgeMessageMap & string;
+
+/**
+ * Payload of an outgoing message
+ */
+export type BridgeMessagePayload<K extends BridgeMessageType> = BridgeMessageMap[K]['payload'];
+
+/**
+ * Response data of an outgoing message
+ */
+export type BridgeMessageResponse<K extends BridgeMessageType> = BridgeMessageMap[K]['response'];
+
+/**
+ * Registered native event type
+ */
+export type BridgeEventType = keyof BridgeEventMap & string;
+
+// ============================================================================
+// Runtime schemas
+// ============================================================================
+
+/**
+ * Field rule: one or more of `string`, `number`, `boolean`, `object`,
+ * `array`, `null` or `any` joined with `|`, optionally suffixed with `?`
+ *
+ * @example 'string', 'number?', 'string|null', 'object?'
+ */
+export type BridgeFieldRule = string;
+
+/**
+ * Runtime description of a protocol message
+ */
+export interface BridgeMessageSchema {
+  /** `message` (JS → native) or `event` (native → JS) */
+  kind: 'message' | 'event';
+  /** Required/optional payload fields */
+  payload?: Record<string, BridgeFieldRule>;
+  /** Rule for the response `data` (messages only) */
+  response?: BridgeFieldRule;
+}
+
+/**
+ * Direction of a validated message
+ */
+export type BridgeValidationDirection = 'outgoing' | 'incoming';
+
+/**
+ * Error raised for messages that do not match the protocol
+ */
+export class BridgeValidationError extends Error {
+  constructor(
+    readonly messageType: string,
+    readonly direction: BridgeValidationDirection,
+    readonly errors: string[]
+  ) {
+    super(`Invalid ${direction} bridge message "${messageType}": ${errors.join('; ')}`);
+    this.name = 'BridgeValidationError';
+  }
+}
+
+const EMPTY: Record<string, BridgeFieldRule> = {};
+const VIEW_TARGET: Record<string, BridgeFieldRule> = { viewId: 'string' };
+const VIEW_HIERARCHY: Record<string, BridgeFieldRule> = { parentId: 'string', childId: 'string' };
+const STATUS_BAR_ENTRY: Record<string, BridgeFieldRule> = { id: 'string', props: 'object' };
+const SHARE: Record<string, BridgeFieldRule> = { content: 'object', options: 'object' };
+const PERMISSION: Record<string, BridgeFieldRule> = { permission: 'string' };
+const PERMISSIONS: Record<string, BridgeFieldRule> = { permissions: 'array' };
+const ROUTE: Record<string, BridgeFieldRule> = { routeName: 'string', params: 'object?', key: 'string?' };
+const INTENT: Record<string, BridgeFieldRule> = { action: 'string', data: 'string?', type: 'string?', extras: 'object?' };
+
+const message = (
+  payload: Record<string, BridgeFieldRule> = EMPTY,
+  response?: BridgeFieldRule
+): BridgeMessageSchema => ({ kind: 'message', payload, response });
+
+const event = (payload: Record<string, BridgeFieldRule> = EMPTY): BridgeMessageSchema => ({
+  kind: 'event',
+  payload,
+});
+
+/**
+ * Runtime schemas for every registered message and event
+ */
+export const BRIDGE_PROTOCOL_SCHEMAS: Record<string, BridgeMessageSchema> = {
+  // Lifecycle
+  appReady: message({ timestamp: 'number', platform: 'string?', bundleId: 'string?', reconnect: 'boolean?' }),
+  hotReloadReady: message(),
+  registerModule: message({ name: 'string' }),
+  getPlatformInfo: message(EMPTY, 'object'),
+  negotiateEncoding: message({ encodings: 'array' }, 'object'),
+  handshake: message({ protocolVersion: 'number', capabilities: 'array' }, 'object'),
+  callNativeMethod: message({ module: 'string', method: 'string', args: 'array' }, 'any'),
+
+  // View operations
+  createView: message({ viewId: 'string', viewType: 'string', props: 'object?' }, 'object'),
+  updateView: message({ viewId: 'string', props: 'object' }),
+  removeView: message(VIEW_TARGET),
+  appendChild: message(VIEW_HIERARCHY),
+  insertChild: message({ ...VIEW_HIERARCHY, index: 'number' }),
+  removeChild: message(VIEW_HIERARCHY),
+  setRootView: message(VIEW_TARGET),
+  batch: message({ messages: 'array', layoutAnimation: 'object?' }),
+  batchOperations: message({ operations: 'array' }),
+  measureView: message(VIEW_TARGET, 'object'),
+  focus: message(VIEW_TARGET),
+  blur: message(VIEW_TARGET),
+  isFocused: message(VIEW_TARGET, 'boolean'),
+  addEventListener: message({ viewId: 'string', eventType: 'string' }),
+  removeEventListener: message({ viewId: 'string', eventType: 'string' }),
+
+  // Native-driven animations
+  createAnimatedNode: message({ tag: 'number', config: 'object' }),
+  dropAnimatedNode: message({ tag: 'number' }),
+  connectAnimatedNodeToView: message({ viewId: 'string', tag: 'number' }),
+  disconnectAnimatedNodeFromView: message({ viewId: 'string', tag: 'number' }),
+  setAnimatedNodeValue: message({ tag: 'number', value: 'number', offset: 'number' }),
+  startAnimatingNode: message({ animationId: 'number', tag: 'number', config: 'object' }),
+  stopAnimation: message({ animationId: 'number' }),
+
+  // Gesture recognizers
+  createGestureHandler: message({ handlerTag: 'number', handlerType: 'string', config: 'object' }),
+  attachGestureHandler: message({ viewId: 'string', handlerTag: 'number' }),
+  updateGestureHandler: message({ handlerTag: 'number', config: 'object' }),
+  dropGestureHandler: message({ handlerTag: 'number' }),
+
+  // Scrolling
+  scrollTo: message({ viewId: 'string', x: 'number', y: 'number', animated: 'boolean' }),
+  scrollToEnd: message({ viewId: 'string', animated: 'boolean' }),
+  scrollToIndex: message({ viewId: 'string', index: 'number', animated: 'boolean', viewOffset: 'number', viewPosition: 'number' }),
+  scrollToOffset: message({ viewId: 'string', offset: 'number', animated: 'boolean' }),
+  flashScrollIndicators: message(VIEW_TARGET),
+
+  // Modal
+  showModal: message(VIEW_TARGET),
+  hideModal: message(VIEW_TARGET),
+
+  // WebView
+  webViewGoBack: message(VIEW_TARGET),
+  webViewGoForward: message(VIEW_TARGET),
+  webViewReload: message(VIEW_TARGET),
+  webViewStopLoading: message(VIEW_TARGET),
+  webViewInjectJavaScript: message({ viewId: 'string', script: 'string' }),
+  webViewClearCache: message(VIEW_TARGET),
+  webViewClearHistory: message(VIEW_TARGET),
+
+  // Status bar
+  setStatusBarStyle: message({ style: 'string', animated: 'boolean?' }),
+  setStatusBarHidden: message({ hidden: 'boolean', animation: 'string?' }),
+  setStatusBarBackgroundColor: message({ color: 'string', animated: 'boolean?' }),
+  setStatusBarTranslucent: message({ translucent: 'boolean' }),
+  pushStatusBarStackEntry: message(STATUS_BAR_ENTRY),
+  popStatusBarStackEntry: message({ id: 'string' }),
+  replaceStatusBarStackEntry: message(STATUS_BAR_ENTRY),
+  getStatusBarHeight: message(EMPTY, 'object'),
+  getSafeAreaInsets: message(EMPTY, 'object'),
+
+  // Alerts and pickers
+  showAlert: message({ title: 'string', message: 'string?', buttons: 'array', cancelable: 'boolean' }, 'object'),
+  showPrompt: message({ title: 'string', message: 'string?', buttons: 'array', inputType: 'string' }, 'object'),
+  showActionSheet: message({ options: 'array', cancelButtonIndex: 'number' }, 'number'),
+  showDatePicker: message({ timestamp: 'number', mode: 'string' }, 'object|null'),
+  showTimePicker: message({ hour: 'number', minute: 'number', is24Hour: 'boolean' }, 'object|null'),
+  showSingleChoice: message({ title: 'string', items: 'array', selectedIndex: 'number' }, 'number'),
+  showMultiChoice: message({ title: 'string', items: 'array', selectedIndices: 'array' }, 'array'),
+
+  // Toasts
+  showToast: message({ message: 'string', duration: 'number' }),
+  showToastWithConfig: message({ message: 'string', duration: 'number', gravity: 'number' }),
+  showSnackbar: message({ message: 'string', duration: 'number', actionText: 'string?', actionId: 'string?' }),
+  dismissSnackbar: message(),
+
+  // Biometrics
+  biometricIsAvailable: message(EMPTY, 'boolean'),
+  getBiometricType: message(EMPTY, 'string'),
+  biometricIsEnrolled: message(EMPTY, 'boolean'),
+  biometricAuthenticate: message({ title: 'string?', subtitle: 'string?', description: 'string?' }, 'object'),
+
+  // Clipboard
+  getClipboardString: message(EMPTY, 'object'),
+  setClipboardString: message({ text: 'string' }),
+  getClipboardContent: message(EMPTY, 'object'),
+  setClipboardContent: message({ text: 'string?', html: 'string?', uri: 'string?' }),
+  hasClipboardContent: message(EMPTY, 'object'),
+  hasClipboardString: message(EMPTY, 'object'),
+  hasClipboardURL: message(EMPTY, 'object'),
+  getClipboardURL: message(EMPTY, 'object'),
+  clearClipboard: message(),
+
+  // Device
+  getDeviceInfo: message(EMPTY, 'object'),
+  getBatteryInfo: message(EMPTY, 'object'),
+  getDimensions: message(EMPTY, 'object'),
+  getAccessibilityInfo: message(EMPTY, 'object'),
+  vibrate: message({ pattern: 'array' }),
+  cancelVibration: message(),
+  hapticFeedback: message({ type: 'string' }),
+  hapticIsAvailable: message(EMPTY, 'boolean'),
+
+  // Linking
+  getInitialURL: message(EMPTY, 'string|null'),
+  openURL: message({ url: 'string' }),
+  canOpenURL: message({ url: 'string' }, 'boolean'),
+  openSettings: message(),
+  openActivity: message(INTENT),
+  sendIntent: message(INTENT, 'any'),
+  getPackageName: message(EMPTY, 'string'),
+
+  // Navigation
+  navigate: message(ROUTE),
+  replace: message(ROUTE),
+  reset: message(ROUTE),
+  goBack: message(),
+  popTo: message({ routeName: 'string' }),
+  popToTop: message(),
+  setParams: message({ params: 'object' }),
+
+  // Permissions
+  checkPermission: message(PERMISSION, 'object'),
+  requestPermission: message(PERMISSION, 'object'),
+  checkMultiplePermissions: message(PERMISSIONS, 'object'),
+  requestMultiplePermissions: message(PERMISSIONS, 'object'),
+  shouldShowRationale: message(PERMISSION, 'boolean'),
+  openAppSettings: message(),
+
+  // Share
+  share: message(SHARE, 'object'),
+  shareImage: message(SHARE, 'object'),
+  shareFile: message(SHARE, 'object'),
+  shareMultiple: message(SHARE, 'object'),
+  isShareAvailable: message(EMPTY, 'boolean'),
+  shareToApp: message({ packageName: 'string', content: 'object' }, 'object'),
+  shareViaEmail: message({ to: 'array?', subject: 'string?', body: 'string?' }, 'object'),
+  shareViaSms: message({ phoneNumber: 'string?', message: 'string' }, 'object'),
+
+  // Storage
+  getAllStorageItems: message(EMPTY, 'object'),
+  getStorageItem: message({ key: 'string' }, 'string|null'),
+  setStorageItem: message({ key: 'string', value: 'string' }),
+  removeStorageItem: message({ key: 'string' }),
+  clearStorage: message(),
+  getAllStorageKeys: message(EMPTY, 'array'),
+  multiGetStorageItems: message({ keys: 'array' }, 'object'),
+  multiSetStorageItems: message({ items: 'object' }),
+  multiRemoveStorageItems: message({ keys: 'array' }),
+  getStorageSize: message(EMPTY, 'number'),
+
+  // Events
+  welcome: event({ version: 'string', protocolVersion: 'number?' }),
+  viewEvent: event({ viewId: 'string', eventType: 'string', payload: 'any' }),
+  dimensionsChange: event({ window: 'object', screen: 'object' }),
+  appearanceChange: event({ colorScheme: 'string' }),
+  colorSchemeChange: event({ colorScheme: 'string' }),
+  safeAreaInsetsChange: event({ top: 'number', right: 'number', bottom: 'number', left: 'number' }),
+  keyboardDidShow: event(),
+  keyboardDidHide: event(),
+  networkChange: event(),
+  clipboardChange: event({ text: 'string?', html: 'string?', uri: 'string?' }),
+  hardwareBackPress: event(),
+  url: event({ url: 'string' }),
+  snackbarAction: event({ actionId: 'string' }),
+  hotReload: event({ bundleUrl: 'string?' }),
+  animationFinished: event({ animationId: 'number', finished: 'boolean', value: 'number' }),
+  gestureHandlerEvent: event({ handlerTag: 'number', state: 'number', data: 'object' }),
+  accessibilityInfoChange: event({ reduceMotionEnabled: 'boolean' }),
+};
+
+/**
+ * Register (or replace) the runtime schema of a custom message or event
+ */
+export function registerBridgeMessageSchema(type: string, schema: BridgeMessageSchema): void {
+  BRIDGE_PROTOCOL_SCHEMAS[type] = schema;
+}
+
+/**
+ * Get the runtime schema of a message or event
+ */
+export function getBridgeMessageSchema(type: string): BridgeMessageSchema | undefined {
+  return Object.prototype.hasOwnProperty.call(BRIDGE_PROTOCOL_SCHEMAS, type)
+    ? BRIDGE_PROTOCOL_SCHEMAS[type]
+    : undefined;
+}
+
+/**
+ * Get the JSON type name of a value
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check a value against a field rule, returning an error or null
+ */
+function checkRule(value: unknown, rule: BridgeFieldRule, path: string): string | null {
+  const optional = rule.endsWith('?');
+  const types = (optional ? rule.slice(0, -1) : rule).split('|');
+
+  if (value === undefined) {
+    return optional || types.includes('any') ? null : `${path} is required`;
+  }
+
+  if (types.includes('any') || types.includes(typeOf(value))) {
+    return null;
+  }
+
+  return `${path} must be ${types.join(' or ')} (got ${typeOf(value)})`;
+}
+
+/**
+ * Check a payload against a schema's field rules
+ */
+function checkPayload(payload: unknown, fields: Record<string, BridgeFieldRule> | undefined): string[] {
+  if (!fields) {
+    return [];
+  }
+
+  if (Object.keys(fields).length === 0 && (payload === undefined || payload === null)) {
+    return [];
+  }
+
+  if (typeOf(payload) !== 'object') {
+    return [`payload must be object (got ${typeOf(payload)})`];
+  }
+
+  const record = payload as Record<string, unknown>;
+  return Object.entries(fields)
+    .map(([key, rule]) => checkRule(record[key], rule, `payload.${key}`))
+    .filter((error): error is string => error !== null);
+}
+
+/**
+ * Validate a message before it is sent to native
+ *
+ * Unregistered message types are rejected. Messages nested in a
+ * `batch` are validated individually; legacy `batchOperations`
+ * entries are only checked for shape.
+ */
+export function validateOutgoingMessage(msg: { type?: unknown; payload?: unknown }): string[] {
+  if (typeof msg.type !== 'string' || msg.type.length === 0) {
+    return ['type must be a non-empty string'];
+  }
+
+  const schema = getBridgeMessageSchema(msg.type);
+  if (schema?.kind !== 'message') {
+    return [`unknown message type "${msg.type}"`];
+  }
+
+  const errors = checkPayload(msg.payload, schema.payload);
+
+  if (msg.type === 'batch' && errors.length === 0) {
+    const messages = (msg.payload as { messages: unknown[] }).messages;
+    messages.forEach((nested, index) => {
+      const nestedErrors = typeOf(nested) === 'object'
+        ? validateOutgoingMessage(nested as { type?: unknown; payload?: unknown })
+        : ['must be object'];
+      errors.push(...nestedErrors.map((error) => `messages[${index}]: ${error}`));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a response from native
+ *
+ * `requestType` enables checking `data` against the message's response rule.
+ */
+export function validateIncomingResponse(
+  response: { id?: unknown; success?: unknown; data?: unknown; error?: unknown },
+  requestType?: string
+): string[] {
+  const errors: string[] = [];
+
+  if (typeof response.id !== 'string') {
+    errors.push('id must be string');
+  }
+  if (typeof response.success !== 'boolean') {
+    errors.push('success must be boolean');
+  }
+  if (response.success === false && typeof response.error !== 'string') {
+    errors.push('error must be string when success is false');
+  }
+
+  const rule = requestType ? getBridgeMessageSchema(requestType)?.response : undefined;
+  if (response.success === true && rule) {
+    const error = checkRule(response.data, rule, 'data');
+    if (error) {
+      errors.push(error);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate an event pushed by native
+ *
+ * Events without a registered schema (e.g. component events) only need
+ * a string type.
+ */
+export function validateIncomingEvent(msg: { type?: unknown; payload?: unknown }): string[] {
+  if (typeof msg.type !== 'string' || msg.type.length === 0) {
+    return ['type must be a non-empty string'];
+  }
+
+  const schema = getBridgeMessageSchema(msg.type);
+  if (schema?.kind !== 'event') {
+    return [];
+  }
+
+  return checkPayload(msg.payload, schema.payload);
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NativeBridge } from './native-bridge';
+import { BridgeRecorder, DevServerRecordingSink, parseBridgeRecording } from './bridge-recorder';
+import { MockNativeRuntime } from '../testing/mock-native-runtime';
+
+describe('BridgeRecorder', () => {
+  let runtime: MockNativeRuntime;
+  let bridge: NativeBridge;
+
+  beforeEach(async () => {
+    runtime = new MockNativeRuntime().install();
+    bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+    await bridge.connect();
+  });
+
+  afterEach(() => {
+    runtime.uninstall();
+    vi.restoreAllMocks();
+  });
+
+  it('should record outbound messages, responses and events in order', async () => {
+    const recorder = new BridgeRecorder();
+    recorder.start(bridge);
+
+    await bridge.request('createView', { viewId: 'view_1', viewType: 'View', props: {} });
+    runtime.emitViewEvent('view_1', 'press', { x: 1 });
+    await Promise.resolve();
+    await recorder.stop();
+
+    const entries = recorder.entries;
+    expect(entries.map((entry) => [entry.seq, entry.direction])).toEqual([
+      [0, 'outbound'],
+      [1, 'inbound'],
+      [2, 'inbound'],
+    ]);
+    expect(entries[0].message).toMatchObject({ type: 'createView', payload: { viewId: 'view_1' } });
+    expect(entries[1].message).toMatchObject({ id: entries[0].message.id, success: true });
+    expect(entries[2].message).toEqual({
+      type: 'viewEvent',
+      payload: { viewId: 'view_1', eventType: 'press', payload: { x: 1 } },
+    });
+    expect(entries.every((entry) => entry.time >= 0)).toBe(true);
+  });
+
+  it('should stop recording when stopped', async () => {
+    const recorder = new BridgeRecorder();
+    recorder.start(bridge);
+    await recorder.stop();
+
+    await bridge.send({ type: 'log', payload: { level: 'info', message: 'ignored' } });
+
+    expect(recorder.isRecording).toBe(false);
+    expect(recorder.entries).toHaveLength(0);
+  });
+
+  it('should round-trip through NDJSON', async () => {
+    const recorder = new BridgeRecorder();
+    recorder.start(bridge);
+    await bridge.send({ type: 'log', payload: { level: 'info', message: 'hello' } });
+    runtime.emit('url', { url: 'myapp://home' });
+    await Promise.resolve();
+
+    const ndjson = recorder.toNDJSON();
+
+    // log, the mock runtime's reply to it, then the url event
+    expect(ndjson.trim().split('\n')).toHaveLength(3);
+    expect(parseBridgeRecording(ndjson)).toEqual(recorder.entries);
+  });
+
+  it('should stream entries to a sink', async () => {
+    const write = vi.fn();
+    const flush = vi.fn().mockResolvedValue(undefined);
+    const recorder = new BridgeRecorder({ sink: { write, flush }, retain: false });
+    recorder.start(bridge);
+
+    await bridge.request('createView', { viewId: 'view_1', viewType: 'View', props: {} });
+    await recorder.stop();
+
+    expect(recorder.entries).toHaveLength(0);
+    expect(write.mock.calls.map(([line]) => JSON.parse(line as string) as object)).toEqual([
+      expect.objectContaining({ seq: 0, direction: 'outbound' }),
+      expect.objectContaining({ seq: 1, direction: 'inbound' }),
+    ]);
+    expect(flush).toHaveBeenCalled();
+  });
+});
+
+describe('DevServerRecordingSink', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should batch lines and post them to the dev server', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const sink = new DevServerRecordingSink({ name: 'session 1', port: 9000, flushIntervalMs: 100 });
+    sink.write('{"seq":0}\n');
+    sink.write('{"seq":1}\n');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:9000/recordings/session%201', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-ndjson' },
+      body: '{"seq":0}\n{"seq":1}\n',
+    });
+
+    await sink.flush();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('parseBridgeRecording', () => {
+  it('should skip blank lines and default missing sequence numbers', () => {
+    const entries = parseBridgeRecording(
+      '{"time":0,"direction":"outbound","message":{"type":"appReady","payload":{}}}\n\n' +
+        '{"time":5,"direction":"inbound","message":{"type":"url","payload":{"url":"a"}}}\n'
+    );
+
+    expect(entries.map((entry) => entry.seq)).toEqual([0, 1]);
+  });
+
+  it('should report malformed lines', () => {
+    expect(() => parseBridgeRecording('{"time":0,"direction":"outbound","message":{}}\nnope')).toThrow(
+      'Invalid recording at line 2: not JSON'
+    );
+    expect(() => parseBridgeRecording('{"time":0,"direction":"sideways","message":{}}')).toThrow(
+      'Invalid recording at line 1: expected time, direction and message'
+    );
+  });
+});
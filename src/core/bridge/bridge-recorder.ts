@@ -0,0 +1,222 @@
+/**
+ * Bridge Recorder
+ *
+ * Captures every message crossing a `NativeBridge` with its timing so a
+ * session can be saved as NDJSON (one entry per line) and replayed later
+ * with `replayBridgeRecording` or `ng-mobile replay <file>`.
+ */
+
+import {
+  BridgeMessage,
+  BridgeResponse,
+  BridgeTrafficDirection,
+  NativeBridge,
+} from './native-bridge';
+
+/**
+ * A single recorded message
+ */
+export interface BridgeRecordEntry {
+  /** Position in the recording, starting at 0 */
+  seq: number;
+  /** Milliseconds since the recording started */
+  time: number;
+  direction: BridgeTrafficDirection;
+  message: BridgeMessage | BridgeResponse;
+}
+
+/**
+ * Destination for recorded NDJSON lines
+ */
+export interface BridgeRecordingSink {
+  /** Receive newline-terminated NDJSON lines */
+  write(ndjson: string): void;
+  /** Deliver anything still buffered */
+  flush?(): Promise<void>;
+}
+
+/**
+ * Recorder configuration
+ */
+export interface BridgeRecorderConfig {
+  /** Where to stream entries as they are recorded */
+  sink?: BridgeRecordingSink;
+  /** Keep entries in memory (default: true) */
+  retain?: boolean;
+}
+
+/**
+ * Dev server sink configuration
+ */
+export interface DevServerRecordingSinkConfig {
+  /** Recording name; saved as `recordings/<name>.ndjson` */
+  name: string;
+  host?: string;
+  port?: number;
+  /** How long lines are batched before being posted (default: 500ms) */
+  flushIntervalMs?: number;
+}
+
+/**
+ * Records the traffic of a NativeBridge
+ */
+export class BridgeRecorder {
+  private readonly sink: BridgeRecordingSink | null;
+  private readonly retain: boolean;
+  private readonly recorded: BridgeRecordEntry[] = [];
+  private unsubscribe: (() => void) | null = null;
+  private startedAt = 0;
+  private seq = 0;
+
+  constructor(config: BridgeRecorderConfig = {}) {
+    this.sink = config.sink ?? null;
+    this.retain = config.retain ?? true;
+  }
+
+  /**
+   * Whether the recorder is attached to a bridge
+   */
+  get isRecording(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  /**
+   * Get the entries recorded so far
+   */
+  get entries(): readonly BridgeRecordEntry[] {
+    return this.recorded;
+  }
+
+  /**
+   * Start recording a bridge, discarding any previous recording
+   */
+  start(bridge: NativeBridge): void {
+    this.unsubscribe?.();
+    this.recorded.length = 0;
+    this.seq = 0;
+    this.startedAt = Date.now();
+
+    this.unsubscribe = bridge.onTraffic((direction, message) => {
+      this.record(direction, message);
+    });
+  }
+
+  /**
+   * Stop recording and flush the sink
+   */
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    await this.sink?.flush?.();
+  }
+
+  /**
+   * Serialize the recorded entries as NDJSON
+   */
+  toNDJSON(): string {
+    return this.recorded.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+  }
+
+  private record(direction: BridgeTrafficDirection, message: BridgeMessage | BridgeResponse): void {
+    const entry: BridgeRecordEntry = {
+      seq: this.seq++,
+      time: Date.now() - this.startedAt,
+      direction,
+      // Copied so later mutation by the app does not rewrite history
+      message: JSON.parse(JSON.stringify(message)) as BridgeMessage | BridgeResponse,
+    };
+
+    if (this.retain) {
+      this.recorded.push(entry);
+    }
+    this.sink?.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * Streams recorded entries to the dev server, which appends them to
+ * `recordings/<name>.ndjson` in the project directory
+ */
+export class DevServerRecordingSink implements BridgeRecordingSink {
+  private readonly url: string;
+  private readonly flushIntervalMs: number;
+  private pending = '';
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: DevServerRecordingSinkConfig) {
+    const host = config.host ?? 'localhost';
+    const port = config.port ?? 8081;
+    this.url = `http://${host}:${port}/recordings/${encodeURIComponent(config.name)}`;
+    this.flushIntervalMs = config.flushIntervalMs ?? 500;
+  }
+
+  write(ndjson: string): void {
+    this.pending += ndjson;
+    this.timer ??= setTimeout(() => {
+      void this.flush();
+    }, this.flushIntervalMs);
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.pending) {
+      return;
+    }
+
+    const body = this.pending;
+    this.pending = '';
+
+    try {
+      await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-ndjson' },
+        body,
+      });
+    } catch (error) {
+      console.error('[BridgeRecorder] Failed to upload recording:', error);
+    }
+  }
+}
+
+/**
+ * Parse an NDJSON recording
+ *
+ * Blank lines are ignored; malformed lines throw with their line number.
+ */
+export function parseBridgeRecording(ndjson: string): BridgeRecordEntry[] {
+  const entries: BridgeRecordEntry[] = [];
+
+  ndjson.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let entry: Partial<BridgeRecordEntry>;
+    try {
+      entry = JSON.parse(line) as Partial<BridgeRecordEntry>;
+    } catch {
+      throw new Error(`Invalid recording at line ${index + 1}: not JSON`);
+    }
+
+    if (
+      typeof entry.time !== 'number' ||
+      (entry.direction !== 'outbound' && entry.direction !== 'inbound') ||
+      typeof entry.message !== 'object' ||
+      entry.message === null
+    ) {
+      throw new Error(`Invalid recording at line ${index + 1}: expected time, direction and message`);
+    }
+
+    entries.push({
+      seq: typeof entry.seq === 'number' ? entry.seq : entries.length,
+      time: entry.time,
+      direction: entry.direction,
+      message: entry.message,
+    });
+  });
+
+  return entries;
+}
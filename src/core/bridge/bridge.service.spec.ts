@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SimpleChange } from '@angular/core';
+import { NativeBridge } from './native-bridge';
+import { BridgeService } from './bridge.service';
+import { MockNativeRuntime } from '../testing/mock-native-runtime';
+import { dynamicColor, setActiveColorScheme } from '../theme/dynamic-color';
+import { ViewComponent } from '../../components/view/view.component';
+
+describe('BridgeService', () => {
+  let runtime: MockNativeRuntime;
+  let bridge: NativeBridge;
+  let bridgeService: BridgeService;
+
+  const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const sentStyles = (): unknown[] =>
+    runtime
+      .getReceivedMessages()
+      .filter((message) => message.type === 'createView' || message.type === 'updateView')
+      .map((message) => (message.payload as { props: { style?: unknown } }).props.style);
+
+  beforeEach(async () => {
+    runtime = new MockNativeRuntime().install();
+    bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+    await bridge.connect();
+    bridgeService = new BridgeService(bridge);
+  });
+
+  afterEach(async () => {
+    bridgeService.ngOnDestroy();
+    await bridge.disconnect();
+    runtime.uninstall();
+    setActiveColorScheme('light');
+  });
+
+  it('should send component colors as ARGB integers', async () => {
+    const view = new ViewComponent(bridgeService);
+    view.style = { backgroundColor: '#2196F3', borderColor: 'red', opacity: 0.5 };
+    await view.ngOnInit();
+
+    view.style = { backgroundColor: 'rgba(0, 0, 0, 0.5)' };
+    view.ngOnChanges({ style: new SimpleChange(undefined, view.style, false) });
+    await settle();
+
+    expect(sentStyles()).toEqual([
+      { backgroundColor: 0xff2196f3, borderColor: 0xffff0000, opacity: 0.5 },
+      { backgroundColor: 0x80000000 },
+    ]);
+  });
+
+  it('should send dynamic colors as ARGB integers when the color scheme changes', async () => {
+    const view = new ViewComponent(bridgeService);
+    view.style = { backgroundColor: dynamicColor({ light: '#ffffff', dark: '#000000' }) };
+    await view.ngOnInit();
+
+    setActiveColorScheme('dark');
+    await settle();
+
+    expect(sentStyles()).toEqual([{ backgroundColor: 0xffffffff }, { backgroundColor: 0xff000000 }]);
+  });
+});
@@ -1,7 +1,16 @@
 import { Injectable, OnDestroy } from '@angular/core';
 import { Observable, Subject } from 'rxjs';
 import { filter, map, takeUntil } from 'rxjs/operators';
-import { NativeBridge, BridgeConnectionState, JsonValue, BridgePayload } from './native-bridge';
+import { NativeBridge, BridgeConnectionState, BridgeRequestOptions, JsonValue } from './native-bridge';
+import { BridgeMessageType, BridgeMessagePayload, BridgeMessageResponse } from './bridge-protocol';
+import {
+  adaptiveStyleChanges,
+  adaptiveStyleKey,
+  isAdaptiveStyle,
+  resolveAdaptiveStyle,
+} from '../responsive/adaptive-style';
+import { COLOR_STYLE_PROPERTIES, normalizeColor } from '../theme/color';
+import { isStyleValidationEnabled, warnInvalidStyle } from '../validation/style-validator';
 
 /**
  * View properties type
@@ -32,8 +41,25 @@ export interface ViewMeasurement {
 @Injectable()
 export class BridgeService implements OnDestroy {
   private readonly destroy$ = new Subject<void>();
-
-  constructor(private readonly bridge: NativeBridge) {}
+  private readonly adaptiveStyles = new Map<string, { style: object; key: string }>();
+  /** View types by view id, kept for style validation in development */
+  private readonly viewTypes = new Map<string, string>();
+  private viewIdCounter = 0;
+
+  constructor(private readonly bridge: NativeBridge) {
+    // Views with adaptive styles get them again when they resolve differently
+    adaptiveStyleChanges()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        for (const [viewId, entry] of this.adaptiveStyles) {
+          const key = adaptiveStyleKey(entry.style);
+          if (key !== entry.key) {
+            entry.key = key;
+            void this.send('updateView', { viewId, props: { style: this.resolveStyle(entry.style) } });
+          }
+        }
+      });
+  }
 
   /**
    * Get current connection state
@@ -52,15 +78,19 @@ export class BridgeService implements OnDestroy {
   /**
    * Send a message to native side
    */
-  async send(type: string, payload: BridgePayload = {}): Promise<void> {
-    return this.bridge.send({ type, payload: payload as JsonValue });
+  async send<K extends BridgeMessageType>(type: K, payload: BridgeMessagePayload<K>): Promise<void> {
+    return this.bridge.send({ type, payload: payload as unknown as JsonValue });
   }
 
   /**
    * Request data from native side
    */
-  async request<T = unknown>(type: string, payload: BridgePayload = {}): Promise<T> {
-    return this.bridge.request<T>(type, payload);
+  async request<K extends BridgeMessageType>(
+    type: K,
+    payload: BridgeMessagePayload<K>,
+    options?: BridgeRequestOptions
+  ): Promise<BridgeMessageResponse<K>> {
+    return this.bridge.request(type, payload, options);
   }
 
   /**
@@ -91,31 +121,43 @@ export class BridgeService implements OnDestroy {
     methodName: string,
     args: NativeMethodArgs = []
   ): Promise<T> {
-    return this.request<T>('callNativeMethod', {
+    const result = await this.request('callNativeMethod', {
       module: moduleName,
       method: methodName,
       args,
     });
+    return result as T;
   }
 
   /**
    * Create a native view
    */
   async createView(viewType: string, props: ViewProps): Promise<string> {
-    return this.request<string>('createView', { viewType, props });
+    const viewId = `native_view_${++this.viewIdCounter}`;
+    if (isStyleValidationEnabled()) {
+      this.viewTypes.set(viewId, viewType);
+      this.validateStyle(viewId, props);
+    }
+    const result = await this.request('createView', { viewId, viewType, props: this.resolveProps(props) });
+    this.trackStyle(result.viewId, props);
+    return result.viewId;
   }
 
   /**
    * Update a native view's properties
    */
   async updateView(viewId: string, props: ViewProps): Promise<void> {
-    return this.send('updateView', { viewId, props });
+    this.validateStyle(viewId, props);
+    this.trackStyle(viewId, props);
+    return this.send('updateView', { viewId, props: this.resolveProps(props) });
   }
 
   /**
    * Remove a native view
    */
   async removeView(viewId: string): Promise<void> {
+    this.adaptiveStyles.delete(viewId);
+    this.viewTypes.delete(viewId);
     return this.send('removeView', { viewId });
   }
 
@@ -144,7 +186,7 @@ export class BridgeService implements OnDestroy {
    * Measure a view's layout
    */
   async measureView(viewId: string): Promise<ViewMeasurement> {
-    return this.request<ViewMeasurement>('measureView', { viewId });
+    return this.request('measureView', { viewId });
   }
 
   /**
@@ -154,6 +196,53 @@ export class BridgeService implements OnDestroy {
     return this.send('setRootView', { viewId });
   }
 
+  /**
+   * Resolve the style prop for the current environment
+   */
+  private resolveProps(props: ViewProps): ViewProps {
+    const style = props['style'];
+    return typeof style === 'object' && style !== null ? { ...props, style: this.resolveStyle(style) } : props;
+  }
+
+  /**
+   * Resolve an adaptive style and send its colors as ARGB integers
+   */
+  private resolveStyle(style: object): Record<string, unknown> {
+    const resolved: Record<string, unknown> = { ...(isAdaptiveStyle(style) ? resolveAdaptiveStyle(style) : style) };
+    for (const property of Object.keys(resolved)) {
+      if (COLOR_STYLE_PROPERTIES.has(property)) {
+        resolved[property] = normalizeColor(resolved[property]);
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Report invalid values in a style prop (development only)
+   */
+  private validateStyle(viewId: string, props: ViewProps): void {
+    const style = props['style'];
+    if (typeof style === 'object' && style !== null) {
+      warnInvalidStyle(style, { viewId, viewType: this.viewTypes.get(viewId) });
+    }
+  }
+
+  /**
+   * Remember the style of a view while it is adaptive
+   */
+  private trackStyle(viewId: string, props: ViewProps): void {
+    if (!('style' in props)) {
+      return;
+    }
+
+    const style = props['style'];
+    if (isAdaptiveStyle(style)) {
+      this.adaptiveStyles.set(viewId, { style, key: adaptiveStyleKey(style) });
+    } else {
+      this.adaptiveStyles.delete(viewId);
+    }
+  }
+
   ngOnDestroy(): void {
     this.destroy$.next();
     this.destroy$.complete();
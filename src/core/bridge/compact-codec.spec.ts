@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { CompactDecoder, CompactEncoder } from './compact-codec';
+
+describe('CompactEncoder / CompactDecoder', () => {
+  const roundTrip = (value: unknown): unknown => new CompactDecoder().decode(new CompactEncoder().encode(value));
+
+  it('should round-trip JSON values', () => {
+    const value = {
+      nil: null,
+      flags: [true, false],
+      ints: [0, 127, 128, 255, 256, 65535, 65536, 4294967295, -1, -32, -33, -128, -129, -32768, -32769, -2147483648],
+      floats: [0.5, -1.25, 1e21, Number.MAX_SAFE_INTEGER],
+      strings: ['', 'short', 'é✓', 'x'.repeat(40), 'y'.repeat(300), 'z'.repeat(70000)],
+      nested: { list: Array.from({ length: 20 }, (_, i) => ({ index: i })) },
+    };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('should follow JSON for undefined and non-finite values', () => {
+    expect(roundTrip({ a: undefined, b: NaN, c: [undefined, Infinity] })).toEqual(
+      JSON.parse(JSON.stringify({ a: undefined, b: NaN, c: [undefined, Infinity] }))
+    );
+  });
+
+  it('should pack view ids as integers', () => {
+    const encoder = new CompactEncoder();
+    const frame = encoder.encode('view_42');
+
+    expect(Array.from(frame)).toEqual([0xd4, 3, 42]);
+    expect(roundTrip(['view_0', 'view_123456', 'view_01', 'view_x', 'view_1234567890'])).toEqual([
+      'view_0', 'view_123456', 'view_01', 'view_x', 'view_1234567890',
+    ]);
+  });
+
+  it('should intern keys and type names across frames', () => {
+    const encoder = new CompactEncoder();
+    const decoder = new CompactDecoder();
+    const message = (text: string): unknown => ({
+      type: 'updateView',
+      payload: { viewId: 'view_1', props: { text } },
+    });
+
+    const first = encoder.encode(message('a'));
+    const second = encoder.encode(message('b'));
+
+    expect(second.length).toBeLessThan(first.length);
+    expect(encoder.internedCount).toBe(6);
+    expect(decoder.decode(first)).toEqual(message('a'));
+    expect(decoder.decode(second)).toEqual(message('b'));
+  });
+
+  it('should not intern arbitrary string values', () => {
+    const encoder = new CompactEncoder();
+    encoder.encode({ text: 'Hello', type: 'press' });
+
+    expect(encoder.internedCount).toBe(3);
+  });
+
+  it('should start over after reset', () => {
+    const encoder = new CompactEncoder();
+    const decoder = new CompactDecoder();
+    decoder.decode(encoder.encode({ type: 'batch' }));
+
+    encoder.reset();
+    decoder.reset();
+
+    expect(decoder.decode(encoder.encode({ type: 'batch' }))).toEqual({ type: 'batch' });
+  });
+
+  it('should reject malformed frames', () => {
+    const frame = new CompactEncoder().encode({ type: 'batch' });
+
+    expect(() => new CompactDecoder().decode(frame.subarray(0, frame.length - 1))).toThrow('Unexpected end of frame');
+    expect(() => new CompactDecoder().decode(new Uint8Array([0xd4, 2, 7]))).toThrow('Unknown string reference: 7');
+    expect(() => new CompactDecoder().decode(new Uint8Array([0xc1]))).toThrow('Unsupported type byte 0xc1');
+    expect(() => new CompactDecoder().decode(new Uint8Array([0xc0, 0xc0]))).toThrow('1 trailing bytes');
+  });
+});
@@ -0,0 +1,543 @@
+/**
+ * Compact wire encoding for bridge messages
+ *
+ * A MessagePack-compatible binary format with two additions carried
+ * as extension types, so a generic MessagePack reader can still walk
+ * the frame:
+ *
+ * - Interned strings: object keys and message/view/event type names are
+ *   sent in full once per connection (`EXT_STRING_DEFINE`) and as a
+ *   table index afterwards (`EXT_STRING_REF`)
+ * - Numeric view ids: `view_N` strings are sent as the integer `N`
+ *   (`EXT_VIEW_ID`)
+ *
+ * Both ends keep their string table for the lifetime of a connection,
+ * so frames must be decoded in the order they were encoded. The tables
+ * are reset on every (re)connect.
+ *
+ * @example
+ * ```typescript
+ * const encoder = new CompactEncoder();
+ * const decoder = new CompactDecoder();
+ *
+ * const frame = encoder.encode({ type: 'updateView', payload: { viewId: 'view_1', props: {} } });
+ * decoder.decode(frame); // → the same message
+ * ```
+ */
+
+/**
+ * Encoding name used during negotiation
+ */
+export const COMPACT_ENCODING = 'compact-v1';
+
+/**
+ * Wire encodings the bridge can negotiate
+ */
+export type BridgeEncoding = 'json' | typeof COMPACT_ENCODING;
+
+/**
+ * Extension type: string added to the table (UTF-8 bytes)
+ */
+export const EXT_STRING_DEFINE = 1;
+
+/**
+ * Extension type: reference to a table entry (unsigned index)
+ */
+export const EXT_STRING_REF = 2;
+
+/**
+ * Extension type: `view_N` view id (unsigned N)
+ */
+export const EXT_VIEW_ID = 3;
+
+/**
+ * Maximum number of interned strings per connection
+ */
+const MAX_INTERNED_STRINGS = 0xffff;
+
+/**
+ * Longest string value worth interning
+ */
+const MAX_INTERNED_LENGTH = 64;
+
+/**
+ * Keys whose string values repeat often enough to intern
+ */
+const INTERNED_VALUE_KEYS = new Set(['type', 'viewType', 'eventType']);
+
+/**
+ * View ids generated by ViewRegistry (no leading zeros, fits in uint32)
+ */
+const VIEW_ID_PATTERN = /^view_(0|[1-9]\d{0,8})$/;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Check whether an object member survives JSON serialization
+ */
+function isSerializable(value: unknown): boolean {
+  return value !== undefined && typeof value !== 'function';
+}
+
+/**
+ * Check whether a string is 7-bit ASCII (one byte per character)
+ */
+function isAscii(value: string): boolean {
+  for (let i = 0; i < value.length; i++) {
+    if (value.charCodeAt(i) > 0x7f) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Encodes messages into compact binary frames
+ */
+export class CompactEncoder {
+  private readonly strings = new Map<string, number>();
+  private buffer = new Uint8Array(1024);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  /**
+   * Number of strings interned so far
+   */
+  get internedCount(): number {
+    return this.strings.size;
+  }
+
+  /**
+   * Encode a JSON-compatible value into a frame
+   */
+  encode(value: unknown): Uint8Array<ArrayBuffer> {
+    this.offset = 0;
+    this.writeValue(value, undefined);
+    return this.buffer.slice(0, this.offset);
+  }
+
+  /**
+   * Forget all interned strings (new connection)
+   */
+  reset(): void {
+    this.strings.clear();
+  }
+
+  private writeValue(value: unknown, key: string | undefined): void {
+    switch (typeof value) {
+      case 'string':
+        this.writeStringValue(value, key);
+        return;
+      case 'number':
+        this.writeNumber(value);
+        return;
+      case 'boolean':
+        this.writeByte(value ? 0xc3 : 0xc2);
+        return;
+      case 'object':
+        if (value === null) {
+          this.writeByte(0xc0);
+        } else if (Array.isArray(value)) {
+          this.writeArray(value);
+        } else {
+          this.writeObject(value as Record<string, unknown>);
+        }
+        return;
+      default:
+        // undefined and functions serialize as null, like JSON arrays
+        this.writeByte(0xc0);
+    }
+  }
+
+  private writeArray(items: unknown[]): void {
+    const length = items.length;
+    if (length < 16) {
+      this.writeByte(0x90 | length);
+    } else if (length < 0x10000) {
+      this.writeByte(0xdc);
+      this.writeUint16(length);
+    } else {
+      this.writeByte(0xdd);
+      this.writeUint32(length);
+    }
+
+    for (const item of items) {
+      this.writeValue(item, undefined);
+    }
+  }
+
+  private writeObject(record: Record<string, unknown>): void {
+    const keys = Object.keys(record);
+
+    // Like JSON.stringify, undefined and function members are omitted
+    let length = 0;
+    for (const k of keys) {
+      if (isSerializable(record[k])) {
+        length++;
+      }
+    }
+
+    if (length < 16) {
+      this.writeByte(0x80 | length);
+    } else if (length < 0x10000) {
+      this.writeByte(0xde);
+      this.writeUint16(length);
+    } else {
+      this.writeByte(0xdf);
+      this.writeUint32(length);
+    }
+
+    for (const k of keys) {
+      const value = record[k];
+      if (isSerializable(value)) {
+        this.writeInterned(k);
+        this.writeValue(value, k);
+      }
+    }
+  }
+
+  private writeStringValue(value: string, key: string | undefined): void {
+    // Cheap prefix check before running the pattern
+    const viewId = value.startsWith('view_') ? VIEW_ID_PATTERN.exec(value) : null;
+    if (viewId) {
+      this.writeExtUint(EXT_VIEW_ID, Number(viewId[1]));
+      return;
+    }
+
+    if (key !== undefined && INTERNED_VALUE_KEYS.has(key) && value.length <= MAX_INTERNED_LENGTH) {
+      this.writeInterned(value);
+      return;
+    }
+
+    this.writeString(value);
+  }
+
+  private writeInterned(value: string): void {
+    const index = this.strings.get(value);
+    if (index !== undefined) {
+      this.writeExtUint(EXT_STRING_REF, index);
+      return;
+    }
+
+    if (this.strings.size >= MAX_INTERNED_STRINGS) {
+      this.writeString(value);
+      return;
+    }
+
+    this.strings.set(value, this.strings.size);
+    const bytes = textEncoder.encode(value);
+    this.writeExtHeader(EXT_STRING_DEFINE, bytes.length);
+    this.writeBytes(bytes);
+  }
+
+  private writeString(value: string): void {
+    if (value.length < 32 && isAscii(value)) {
+      // Fast path: fixstr written byte by byte, no intermediate buffer
+      const length = value.length;
+      this.ensure(length + 1);
+      this.buffer[this.offset++] = 0xa0 | length;
+      for (let i = 0; i < length; i++) {
+        this.buffer[this.offset++] = value.charCodeAt(i);
+      }
+      return;
+    }
+
+    const bytes = textEncoder.encode(value);
+    const length = bytes.length;
+    if (length < 32) {
+      this.writeByte(0xa0 | length);
+    } else if (length < 0x100) {
+      this.writeByte(0xd9);
+      this.writeByte(length);
+    } else if (length < 0x10000) {
+      this.writeByte(0xda);
+      this.writeUint16(length);
+    } else {
+      this.writeByte(0xdb);
+      this.writeUint32(length);
+    }
+    this.writeBytes(bytes);
+  }
+
+  private writeNumber(value: number): void {
+    if (!Number.isFinite(value)) {
+      // JSON has no representation for NaN/Infinity either
+      this.writeByte(0xc0);
+      return;
+    }
+
+    if (!Number.isInteger(value) || value > 0xffffffff || value < -0x80000000 || Object.is(value, -0)) {
+      this.ensure(9);
+      this.view.setUint8(this.offset, 0xcb);
+      this.view.setFloat64(this.offset + 1, value);
+      this.offset += 9;
+      return;
+    }
+
+    if (value >= 0) {
+      if (value < 0x80) {
+        this.writeByte(value);
+      } else if (value < 0x100) {
+        this.writeByte(0xcc);
+        this.writeByte(value);
+      } else if (value < 0x10000) {
+        this.writeByte(0xcd);
+        this.writeUint16(value);
+      } else {
+        this.writeByte(0xce);
+        this.writeUint32(value);
+      }
+      return;
+    }
+
+    if (value >= -32) {
+      this.writeByte(value & 0xff);
+    } else if (value >= -0x80) {
+      this.writeByte(0xd0);
+      this.writeByte(value & 0xff);
+    } else if (value >= -0x8000) {
+      this.writeByte(0xd1);
+      this.ensure(2);
+      this.view.setInt16(this.offset, value);
+      this.offset += 2;
+    } else {
+      this.writeByte(0xd2);
+      this.ensure(4);
+      this.view.setInt32(this.offset, value);
+      this.offset += 4;
+    }
+  }
+
+  private writeExtUint(type: number, value: number): void {
+    if (value < 0x100) {
+      this.writeByte(0xd4);
+      this.writeByte(type);
+      this.writeByte(value);
+    } else if (value < 0x10000) {
+      this.writeByte(0xd5);
+      this.writeByte(type);
+      this.writeUint16(value);
+    } else {
+      this.writeByte(0xd6);
+      this.writeByte(type);
+      this.writeUint32(value);
+    }
+  }
+
+  private writeExtHeader(type: number, length: number): void {
+    if (length < 0x100) {
+      this.writeByte(0xc7);
+      this.writeByte(length);
+    } else if (length < 0x10000) {
+      this.writeByte(0xc8);
+      this.writeUint16(length);
+    } else {
+      this.writeByte(0xc9);
+      this.writeUint32(length);
+    }
+    this.writeByte(type);
+  }
+
+  private writeByte(value: number): void {
+    this.ensure(1);
+    this.buffer[this.offset++] = value;
+  }
+
+  private writeUint16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  private writeUint32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value);
+    this.offset += 4;
+  }
+
+  private writeBytes(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.buffer.length) {
+      return;
+    }
+
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.offset + size) {
+      capacity *= 2;
+    }
+
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.offset));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+/**
+ * Decodes compact binary frames back into messages
+ */
+export class CompactDecoder {
+  private readonly strings: string[] = [];
+  private bytes: Uint8Array = new Uint8Array(0);
+  private view = new DataView(this.bytes.buffer);
+  private offset = 0;
+
+  /**
+   * Decode a frame produced by CompactEncoder
+   */
+  decode(frame: Uint8Array | ArrayBuffer): unknown {
+    this.bytes = frame instanceof Uint8Array ? frame : new Uint8Array(frame);
+    this.view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+    this.offset = 0;
+
+    const value = this.readValue();
+    if (this.offset !== this.bytes.length) {
+      throw new Error(`[CompactDecoder] ${this.bytes.length - this.offset} trailing bytes`);
+    }
+    return value;
+  }
+
+  /**
+   * Forget all interned strings (new connection)
+   */
+  reset(): void {
+    this.strings.length = 0;
+  }
+
+  private readValue(): unknown {
+    const byte = this.readUint8();
+
+    if (byte < 0x80) return byte;
+    if (byte >= 0xe0) return byte - 0x100;
+    if (byte >= 0xa0 && byte < 0xc0) return this.readString(byte & 0x1f);
+    if (byte >= 0x90 && byte < 0xa0) return this.readArray(byte & 0x0f);
+    if (byte >= 0x80 && byte < 0x90) return this.readMap(byte & 0x0f);
+
+    switch (byte) {
+      case 0xc0: return null;
+      case 0xc2: return false;
+      case 0xc3: return true;
+      case 0xcb: return this.view.getFloat64(this.take(8));
+      case 0xcc: return this.readUint8();
+      case 0xcd: return this.readUint16();
+      case 0xce: return this.readUint32();
+      case 0xd0: return this.view.getInt8(this.take(1));
+      case 0xd1: return this.view.getInt16(this.take(2));
+      case 0xd2: return this.view.getInt32(this.take(4));
+      case 0xd9: return this.readString(this.readUint8());
+      case 0xda: return this.readString(this.readUint16());
+      case 0xdb: return this.readString(this.readUint32());
+      case 0xdc: return this.readArray(this.readUint16());
+      case 0xdd: return this.readArray(this.readUint32());
+      case 0xde: return this.readMap(this.readUint16());
+      case 0xdf: return this.readMap(this.readUint32());
+      case 0xd4: return this.readExtUint(this.readUint8(), 1);
+      case 0xd5: return this.readExtUint(this.readUint8(), 2);
+      case 0xd6: return this.readExtUint(this.readUint8(), 4);
+      case 0xc7: return this.readExtDefine(this.readUint8());
+      case 0xc8: return this.readExtDefine(this.readUint16());
+      case 0xc9: return this.readExtDefine(this.readUint32());
+      default:
+        throw new Error(`[CompactDecoder] Unsupported type byte 0x${byte.toString(16)}`);
+    }
+  }
+
+  private readArray(length: number): unknown[] {
+    const items = new Array<unknown>(length);
+    for (let i = 0; i < length; i++) {
+      items[i] = this.readValue();
+    }
+    return items;
+  }
+
+  private readMap(length: number): Record<string, unknown> {
+    const record: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+      const key = this.readValue();
+      if (typeof key !== 'string') {
+        throw new Error('[CompactDecoder] Map keys must be strings');
+      }
+      record[key] = this.readValue();
+    }
+    return record;
+  }
+
+  private readString(length: number): string {
+    const start = this.take(length);
+
+    // Fast path for short ASCII strings, which TextDecoder handles slowly
+    if (length < 32) {
+      let result = '';
+      for (let i = start; i < start + length; i++) {
+        const byte = this.bytes[i];
+        if (byte > 0x7f) {
+          return textDecoder.decode(this.bytes.subarray(start, start + length));
+        }
+        result += String.fromCharCode(byte);
+      }
+      return result;
+    }
+
+    return textDecoder.decode(this.bytes.subarray(start, start + length));
+  }
+
+  private readExtUint(type: number, size: 1 | 2 | 4): string {
+    const value = size === 1 ? this.readUint8() : size === 2 ? this.readUint16() : this.readUint32();
+
+    if (type === EXT_VIEW_ID) {
+      return `view_${value}`;
+    }
+
+    if (type === EXT_STRING_REF) {
+      const interned = this.strings[value];
+      if (interned === undefined) {
+        throw new Error(`[CompactDecoder] Unknown string reference: ${value}`);
+      }
+      return interned;
+    }
+
+    throw new Error(`[CompactDecoder] Unsupported extension type: ${type}`);
+  }
+
+  private readExtDefine(length: number): string {
+    const type = this.readUint8();
+    if (type !== EXT_STRING_DEFINE) {
+      throw new Error(`[CompactDecoder] Unsupported extension type: ${type}`);
+    }
+
+    const value = this.readString(length);
+    this.strings.push(value);
+    return value;
+  }
+
+  private readUint8(): number {
+    return this.bytes[this.take(1)];
+  }
+
+  private readUint16(): number {
+    return this.view.getUint16(this.take(2));
+  }
+
+  private readUint32(): number {
+    return this.view.getUint32(this.take(4));
+  }
+
+  /**
+   * Reserve `size` bytes, returning their start offset
+   */
+  private take(size: number): number {
+    const start = this.offset;
+    if (start + size > this.bytes.length) {
+      throw new Error('[CompactDecoder] Unexpected end of frame');
+    }
+
+    this.offset = start + size;
+    return start;
+  }
+}
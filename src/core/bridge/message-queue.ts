@@ -75,7 +75,7 @@ export class MessageQueue {
   private readonly batchSize: number;
   private readonly flushInterval: number;
 
-  private sendCallback: ((messages: BridgeMessage[]) => Promise<void>) | null = null;
+  private sendCallback: ((messages: BridgeMessage[], priority: MessagePriority) => Promise<void>) | null = null;
 
   constructor(options: { batchSize?: number; flushInterval?: number } = {}) {
     this.batchSize = options.batchSize ?? 50;
@@ -84,19 +84,24 @@ export class MessageQueue {
 
   /**
    * Set the callback for sending batched messages
+   *
+   * `priority` is the highest priority of any message in the batch.
    */
-  setSendCallback(callback: (messages: BridgeMessage[]) => Promise<void>): void {
+  setSendCallback(callback: (messages: BridgeMessage[], priority: MessagePriority) => Promise<void>): void {
     this.sendCallback = callback;
   }
 
   /**
    * Enqueue a message for sending
+   *
+   * The returned message is passed to the send callback, and reused once
+   * it has been sent.
    */
   enqueue(
     type: string,
     payload: JsonValue,
     priority: MessagePriority = MessagePriority.Normal
-  ): void {
+  ): BridgeMessage {
     const message = this.pool.acquire();
     message.type = type;
     message.payload = payload;
@@ -109,20 +114,21 @@ export class MessageQueue {
     });
 
     this.scheduleFlush();
+    return message;
   }
 
   /**
    * Enqueue a high-priority message (UI updates)
    */
-  enqueueHigh(type: string, payload: JsonValue): void {
-    this.enqueue(type, payload, MessagePriority.High);
+  enqueueHigh(type: string, payload: JsonValue): BridgeMessage {
+    return this.enqueue(type, payload, MessagePriority.High);
   }
 
   /**
    * Enqueue a low-priority message (background tasks)
    */
-  enqueueLow(type: string, payload: JsonValue): void {
-    this.enqueue(type, payload, MessagePriority.Low);
+  enqueueLow(type: string, payload: JsonValue): BridgeMessage {
+    return this.enqueue(type, payload, MessagePriority.Low);
   }
 
   /**
@@ -152,6 +158,7 @@ export class MessageQueue {
     }
 
     const messagesToSend: BridgeMessage[] = [];
+    let batchPriority = MessagePriority.Low;
 
     // Process queues by priority (high first)
     for (let priority = 0; priority < this.queues.length; priority++) {
@@ -160,6 +167,7 @@ export class MessageQueue {
       while (queue.length > 0 && messagesToSend.length < this.batchSize) {
         const queued = queue.shift()!;
         messagesToSend.push(queued.message);
+        batchPriority = Math.min(batchPriority, queued.priority);
       }
     }
 
@@ -168,7 +176,7 @@ export class MessageQueue {
     }
 
     try {
-      await this.sendCallback(messagesToSend);
+      await this.sendCallback(messagesToSend, batchPriority);
 
       // Return messages to pool
       for (const message of messagesToSend) {
@@ -1,5 +1,80 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { NativeBridge, BridgeConnectionState } from './native-bridge';
+import {
+  BridgeDisconnectedError,
+  BridgeProtocolMismatchError,
+  BridgeRemoteError,
+  BridgeTimeoutError,
+} from './bridge-errors';
+import { MessagePriority } from './message-queue';
+import { COMPACT_ENCODING, CompactDecoder, CompactEncoder } from './compact-codec';
+import { BRIDGE_PROTOCOL_VERSION } from './bridge-protocol';
+import { MockNativeRuntime } from '../testing/mock-native-runtime';
+
+const FAKE_HANDSHAKE = { protocolVersion: BRIDGE_PROTOCOL_VERSION, capabilities: ['views', 'batch'] };
+
+/**
+ * Minimal WebSocket stand-in for the development transport
+ */
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+  static accept = true;
+
+  readyState = FakeWebSocket.CONNECTING;
+  binaryType = 'blob';
+  readonly sent: { id: string; type: string; payload: Record<string, unknown> }[] = [];
+  readonly binary: Uint8Array[] = [];
+  readonly handshakes: { id: string; payload: Record<string, unknown> }[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+    queueMicrotask(() => {
+      if (FakeWebSocket.accept) {
+        this.readyState = FakeWebSocket.OPEN;
+        this.onopen?.();
+      } else {
+        this.readyState = FakeWebSocket.CLOSED;
+        this.onerror?.();
+        this.onclose?.();
+      }
+    });
+  }
+
+  static get latest(): FakeWebSocket {
+    return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  }
+
+  send(data: string | Uint8Array): void {
+    if (typeof data === 'string') {
+      const message = JSON.parse(data);
+      // Answer the protocol handshake like an up-to-date peer
+      if (message.type === 'handshake') {
+        this.handshakes.push(message);
+        queueMicrotask(() => this.receive({ id: message.id, success: true, data: FAKE_HANDSHAKE }));
+        return;
+      }
+      this.sent.push(message);
+    } else {
+      this.binary.push(data);
+    }
+  }
+
+  receive(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  close(): void {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+}
 
 describe('NativeBridge', () => {
   let bridge: NativeBridge;
@@ -70,7 +145,7 @@ describe('NativeBridge', () => {
       // In Node.js environment, WebSocket may not be defined
       // Both errors are acceptable: "Bridge not connected" or "WebSocket is not defined"
       await expect(
-        bridge.send({ type: 'test', payload: {} })
+        bridge.send({ type: 'getDeviceInfo', payload: {} })
       ).rejects.toThrow(/Bridge not connected|WebSocket is not defined/);
     });
   });
@@ -80,8 +155,374 @@ describe('NativeBridge', () => {
       // In Node.js environment, WebSocket may not be defined
       // Both errors are acceptable: "Bridge not connected" or "WebSocket is not defined"
       await expect(
-        bridge.request('testRequest', {})
+        bridge.request('getDeviceInfo', {})
       ).rejects.toThrow(/Bridge not connected|WebSocket is not defined/);
     });
   });
+
+  describe('request options', () => {
+    let runtime: MockNativeRuntime;
+    let nativeBridge: NativeBridge;
+
+    beforeEach(async () => {
+      runtime = new MockNativeRuntime().install();
+      nativeBridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+      await nativeBridge.connect();
+    });
+
+    afterEach(() => {
+      runtime.uninstall();
+    });
+
+    it('should reject with BridgeTimeoutError after timeoutMs', async () => {
+      runtime.onRequest('getDeviceInfo', () => new Promise(() => undefined));
+
+      const request = nativeBridge.request('getDeviceInfo', {}, { timeoutMs: 10 });
+
+      await expect(request).rejects.toBeInstanceOf(BridgeTimeoutError);
+      await expect(request).rejects.toThrow('Request timeout: getDeviceInfo (10ms)');
+    });
+
+    it('should reject native failures with BridgeRemoteError without retrying', async () => {
+      const handler = vi.fn(() => {
+        throw new Error('Storage unavailable');
+      });
+      runtime.onRequest('getStorageSize', handler);
+
+      const request = nativeBridge.request('getStorageSize', {}, { idempotent: true, retries: 3, retryDelayMs: 1 });
+
+      await expect(request).rejects.toBeInstanceOf(BridgeRemoteError);
+      await expect(request).rejects.toThrow('Storage unavailable');
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry idempotent requests with backoff', async () => {
+      let calls = 0;
+      runtime.onRequest('getStorageSize', () => (++calls < 3 ? new Promise(() => undefined) : 42));
+
+      await expect(
+        nativeBridge.request('getStorageSize', {}, { timeoutMs: 10, idempotent: true, retries: 2, retryDelayMs: 1 })
+      ).resolves.toBe(42);
+      expect(calls).toBe(3);
+    });
+
+    it('should not retry requests that are not idempotent', async () => {
+      const handler = vi.fn(() => new Promise(() => undefined));
+      runtime.onRequest('requestPermission', handler);
+
+      await expect(
+        nativeBridge.request('requestPermission', { permission: 'android.permission.CAMERA' }, { timeoutMs: 10, retries: 2 })
+      ).rejects.toBeInstanceOf(BridgeTimeoutError);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject with the abort reason', async () => {
+      runtime.onRequest('getDeviceInfo', () => new Promise(() => undefined));
+      const controller = new AbortController();
+
+      const request = nativeBridge.request('getDeviceInfo', {}, { signal: controller.signal });
+      controller.abort(new Error('Screen closed'));
+
+      await expect(request).rejects.toThrow('Screen closed');
+    });
+
+    it('should not send requests that are already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(nativeBridge.request('getDeviceInfo', {}, { signal: controller.signal })).rejects.toThrow();
+      expect(runtime.getReceivedMessages('getDeviceInfo')).toHaveLength(0);
+    });
+
+    it('should reject pending requests with BridgeDisconnectedError on disconnect', async () => {
+      runtime.onRequest('getDeviceInfo', () => new Promise(() => undefined));
+
+      const request = nativeBridge.request('getDeviceInfo', {});
+      await nativeBridge.disconnect();
+
+      await expect(request).rejects.toBeInstanceOf(BridgeDisconnectedError);
+    });
+
+    it('should reject with BridgeDisconnectedError when the transport is missing', async () => {
+      runtime.uninstall();
+
+      await expect(nativeBridge.request('getDeviceInfo', {})).rejects.toBeInstanceOf(BridgeDisconnectedError);
+    });
+  });
+
+  describe('reconnection', () => {
+    let socketBridge: NativeBridge;
+    let states: BridgeConnectionState[];
+
+    const connect = async (config: ConstructorParameters<typeof NativeBridge>[0] = {}): Promise<void> => {
+      socketBridge = new NativeBridge({ transport: 'websocket', platform: 'android', ...config });
+      states = [];
+      socketBridge.connectionState.subscribe((state) => states.push(state));
+
+      await socketBridge.connect();
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.stubGlobal('WebSocket', FakeWebSocket);
+      FakeWebSocket.instances = [];
+      FakeWebSocket.accept = true;
+    });
+
+    afterEach(async () => {
+      await socketBridge.disconnect();
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    });
+
+    it('should reconnect with exponential backoff', async () => {
+      await connect();
+      FakeWebSocket.accept = false;
+      FakeWebSocket.latest.close();
+
+      expect(states.at(-1)).toBe(BridgeConnectionState.Reconnecting);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(FakeWebSocket.instances).toHaveLength(2);
+
+      FakeWebSocket.accept = true;
+      await vi.advanceTimersByTimeAsync(999);
+      expect(FakeWebSocket.instances).toHaveLength(2);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(FakeWebSocket.instances).toHaveLength(3);
+      expect(states).toEqual([
+        BridgeConnectionState.Disconnected,
+        BridgeConnectionState.Connecting,
+        BridgeConnectionState.Connected,
+        BridgeConnectionState.Reconnecting,
+        BridgeConnectionState.Connected,
+      ]);
+    });
+
+    it('should re-send appReady and replay buffered messages by priority', async () => {
+      await connect();
+      await socketBridge.send({ type: 'appReady', payload: { timestamp: 1, platform: 'android' } });
+      FakeWebSocket.latest.close();
+
+      await socketBridge.send({ type: 'updateView', payload: { viewId: 'view_1', props: {} } }, MessagePriority.Low);
+      await socketBridge.send({ type: 'setRootView', payload: { viewId: 'view_1' } }, MessagePriority.High);
+      await socketBridge.send({ type: 'removeView', payload: { viewId: 'view_2' } });
+      expect(socketBridge.bufferedMessageCount).toBe(3);
+
+      await vi.advanceTimersByTimeAsync(500);
+
+      const replayed = FakeWebSocket.latest.sent;
+      expect(replayed.map((message) => message.type)).toEqual(['appReady', 'setRootView', 'removeView', 'updateView']);
+      expect(replayed[0].payload).toEqual(expect.objectContaining({ platform: 'android', reconnect: true }));
+      expect(socketBridge.bufferedMessageCount).toBe(0);
+      expect(FakeWebSocket.latest.handshakes).toHaveLength(1);
+    });
+
+    it('should drop the oldest lowest-priority message when the buffer is full', async () => {
+      await connect({ reconnect: { bufferSize: 2 } });
+      FakeWebSocket.latest.close();
+
+      await socketBridge.send({ type: 'removeView', payload: { viewId: 'view_1' } }, MessagePriority.Low);
+      await socketBridge.send({ type: 'removeView', payload: { viewId: 'view_2' } }, MessagePriority.Low);
+      await socketBridge.send({ type: 'setRootView', payload: { viewId: 'view_3' } }, MessagePriority.High);
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(FakeWebSocket.latest.sent.map((message) => message.payload['viewId'])).toEqual(['view_3', 'view_2']);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      await connect({ reconnect: { maxAttempts: 2, initialDelayMs: 10 } });
+      FakeWebSocket.accept = false;
+      FakeWebSocket.latest.close();
+
+      await vi.advanceTimersByTimeAsync(10 + 20);
+
+      expect(FakeWebSocket.instances).toHaveLength(3);
+      expect(states.at(-1)).toBe(BridgeConnectionState.Error);
+    });
+
+    it('should not reconnect after disconnect()', async () => {
+      await connect();
+      await socketBridge.disconnect();
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(FakeWebSocket.instances).toHaveLength(1);
+      expect(states.at(-1)).toBe(BridgeConnectionState.Disconnected);
+    });
+
+    it('should not reconnect when disabled', async () => {
+      await connect({ reconnect: { enabled: false } });
+      FakeWebSocket.latest.close();
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(FakeWebSocket.instances).toHaveLength(1);
+      expect(states.at(-1)).toBe(BridgeConnectionState.Disconnected);
+    });
+  });
+
+  describe('protocol handshake', () => {
+    let runtime: MockNativeRuntime | undefined;
+
+    const connect = async (
+      runtimeConfig: ConstructorParameters<typeof MockNativeRuntime>[0],
+      config: ConstructorParameters<typeof NativeBridge>[0] = {}
+    ): Promise<NativeBridge> => {
+      runtime = new MockNativeRuntime(runtimeConfig).install();
+      const nativeBridge = new NativeBridge({ transport: 'native-android', platform: 'android', ...config });
+      await nativeBridge.connect();
+      return nativeBridge;
+    };
+
+    afterEach(() => {
+      runtime?.uninstall();
+      vi.restoreAllMocks();
+    });
+
+    it('should exchange versions and expose the native capabilities', async () => {
+      const nativeBridge = await connect({ capabilities: ['views', 'events'] });
+
+      expect(runtime?.getReceivedMessages('handshake')[0].payload).toEqual({
+        protocolVersion: BRIDGE_PROTOCOL_VERSION,
+        capabilities: ['views', 'batch', 'measure', 'focus', 'events', 'nativeAnimations', 'layoutAnimations', 'gestures', 'accessibilityInfo'],
+      });
+      expect(nativeBridge.protocolVersion).toBe(BRIDGE_PROTOCOL_VERSION);
+      expect([...nativeBridge.capabilities]).toEqual(['views', 'events']);
+      expect(nativeBridge.isDegraded).toBe(false);
+    });
+
+    it('should fail to connect to a native runtime that predates the handshake', async () => {
+      const connecting = connect({ protocolVersion: 0 });
+
+      await expect(connecting).rejects.toBeInstanceOf(BridgeProtocolMismatchError);
+      await expect(connecting).rejects.toThrow(
+        'Native runtime speaks bridge protocol v0 but angular-platform-mobile requires v1. ' +
+          'Rebuild the native app after upgrading the npm package.'
+      );
+    });
+
+    it('should fail to connect to a newer native runtime', async () => {
+      const nativeBridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+      const states: BridgeConnectionState[] = [];
+      nativeBridge.connectionState.subscribe((state) => states.push(state));
+      runtime = new MockNativeRuntime({ protocolVersion: BRIDGE_PROTOCOL_VERSION + 1 }).install();
+
+      await expect(nativeBridge.connect()).rejects.toThrow('Upgrade the angular-platform-mobile npm package.');
+      expect(states.at(-1)).toBe(BridgeConnectionState.Error);
+    });
+
+    it('should continue in degraded mode when configured', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const nativeBridge = await connect({ protocolVersion: 0 }, { protocolMismatch: 'degrade' });
+
+      expect(nativeBridge.isDegraded).toBe(true);
+      expect(nativeBridge.protocolVersion).toBe(0);
+      expect([...nativeBridge.capabilities]).toEqual(['views', 'batch', 'measure', 'focus']);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Continuing in degraded mode.'));
+      await expect(nativeBridge.request('createView', { viewId: 'view_1', viewType: 'View' })).resolves.toEqual({
+        viewId: 'view_1',
+      });
+    });
+  });
+
+  describe('encoding negotiation', () => {
+    let socketBridge: NativeBridge;
+
+    beforeEach(async () => {
+      vi.stubGlobal('WebSocket', FakeWebSocket);
+      FakeWebSocket.instances = [];
+      FakeWebSocket.accept = true;
+      socketBridge = new NativeBridge({ transport: 'websocket', platform: 'android', encoding: 'compact' });
+      await socketBridge.connect();
+    });
+
+    afterEach(async () => {
+      await socketBridge.disconnect();
+      vi.unstubAllGlobals();
+    });
+
+    const answerNegotiation = (encoding: string): void => {
+      const socket = FakeWebSocket.latest;
+      const request = socket.sent.find((message) => message.type === 'negotiateEncoding');
+      expect(request?.payload).toEqual({ encodings: [COMPACT_ENCODING, 'json'] });
+      socket.receive({ id: request?.id, success: true, data: { encoding } });
+    };
+
+    it('should send binary frames once the peer accepts', async () => {
+      answerNegotiation(COMPACT_ENCODING);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(socketBridge.currentEncoding).toBe(COMPACT_ENCODING);
+
+      await socketBridge.send({ type: 'updateView', payload: { viewId: 'view_1', props: { text: 'Hi' } } });
+
+      const decoded = new CompactDecoder().decode(FakeWebSocket.latest.binary[0]);
+      expect(decoded).toEqual(expect.objectContaining({
+        type: 'updateView',
+        payload: { viewId: 'view_1', props: { text: 'Hi' } },
+      }));
+    });
+
+    it('should decode binary frames from the peer', async () => {
+      answerNegotiation(COMPACT_ENCODING);
+      const handler = vi.fn();
+      socketBridge.on('viewEvent', handler);
+
+      const frame = new CompactEncoder().encode({
+        type: 'viewEvent',
+        payload: { viewId: 'view_3', eventType: 'press', payload: {} },
+      });
+      FakeWebSocket.latest.onmessage?.({ data: frame.buffer } as unknown as { data: string });
+
+      expect(handler).toHaveBeenCalledWith({ viewId: 'view_3', eventType: 'press', payload: {} });
+    });
+
+    it('should start a reconnected peer on fresh string tables', async () => {
+      await socketBridge.disconnect();
+      FakeWebSocket.instances = [];
+      socketBridge = new NativeBridge({
+        transport: 'websocket',
+        platform: 'android',
+        encoding: 'compact',
+        reconnect: { initialDelayMs: 1 },
+      });
+      await socketBridge.connect();
+      answerNegotiation(COMPACT_ENCODING);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const message = { type: 'updateView', payload: { viewId: 'view_1', props: { text: 'Hi' } } };
+      await socketBridge.send(message);
+      const firstPeer = new CompactDecoder();
+      expect(firstPeer.decode(FakeWebSocket.latest.binary[0])).toEqual(expect.objectContaining(message));
+
+      FakeWebSocket.latest.close();
+      await socketBridge.send(message);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      // Replayed before negotiation, so in JSON
+      const socket = FakeWebSocket.latest;
+      expect(FakeWebSocket.instances).toHaveLength(2);
+      expect(socketBridge.currentEncoding).toBe('json');
+      expect(socket.binary).toHaveLength(0);
+      expect(socket.sent.find((sent) => sent.type === 'updateView')).toEqual(expect.objectContaining(message));
+
+      answerNegotiation(COMPACT_ENCODING);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await socketBridge.send(message);
+
+      const secondPeer = new CompactDecoder();
+      expect(secondPeer.decode(socket.binary[0])).toEqual(expect.objectContaining(message));
+    });
+
+    it('should keep JSON when the peer declines', async () => {
+      answerNegotiation('json');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      await socketBridge.send({ type: 'removeView', payload: { viewId: 'view_1' } });
+
+      expect(socketBridge.currentEncoding).toBe('json');
+      expect(FakeWebSocket.latest.binary).toHaveLength(0);
+      expect(FakeWebSocket.latest.sent.at(-1)?.type).toBe('removeView');
+    });
+  });
 });
@@ -1,5 +1,28 @@
 import { Subject, Observable, BehaviorSubject } from 'rxjs';
 import { PlatformType, Platform } from '../platform/platform';
+import {
+  BRIDGE_CAPABILITIES,
+  BRIDGE_PROTOCOL_VERSION,
+  BridgeHandshake,
+  BridgeMessageType,
+  BridgeMessagePayload,
+  BridgeMessageResponse,
+  BridgeValidationError,
+  BridgeValidationDirection,
+  LEGACY_BRIDGE_CAPABILITIES,
+  validateIncomingEvent,
+  validateIncomingResponse,
+  validateOutgoingMessage,
+} from './bridge-protocol';
+import {
+  BridgeDisconnectedError,
+  BridgeProtocolMismatchError,
+  BridgeRemoteError,
+  BridgeTimeoutError,
+  isRetryableBridgeError,
+} from './bridge-errors';
+import { MessagePriority } from './message-queue';
+import { BridgeEncoding, COMPACT_ENCODING, CompactDecoder, CompactEncoder } from './compact-codec';
 
 /**
  * Generic JSON-serializable value
@@ -41,6 +64,7 @@ export enum BridgeConnectionState {
   Disconnected = 'disconnected',
   Connecting = 'connecting',
   Connected = 'connected',
+  Reconnecting = 'reconnecting',
   Error = 'error',
 }
 
@@ -57,6 +81,90 @@ export interface BridgeConfig {
   debug?: boolean;
   platform?: PlatformType;
   transport?: BridgeTransport;
+  /** Validate messages against the bridge protocol (defaults to `debug`) */
+  validate?: boolean;
+  /** WebSocket reconnection after the dev server drops the connection */
+  reconnect?: BridgeReconnectConfig;
+  /**
+   * Wire encoding over WebSocket (default `json`); `compact` is
+   * negotiated on connect and falls back to JSON if the peer declines
+   */
+  encoding?: 'json' | 'compact';
+  /**
+   * What to do when the native runtime speaks another protocol version:
+   * fail `connect()` with `BridgeProtocolMismatchError` (default `error`)
+   * or log a warning and continue in degraded mode (`degrade`)
+   */
+  protocolMismatch?: 'error' | 'degrade';
+}
+
+/**
+ * WebSocket reconnection configuration
+ */
+export interface BridgeReconnectConfig {
+  /** Reconnect when an open connection closes (default true) */
+  enabled?: boolean;
+  /** Delay before the first attempt, doubled for each further attempt (default 500) */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay (default 10000) */
+  maxDelayMs?: number;
+  /** Attempts before giving up and moving to `Error` (default unlimited) */
+  maxAttempts?: number;
+  /** Outbound messages buffered while reconnecting (default 1000) */
+  bufferSize?: number;
+}
+
+/**
+ * Per-call options for `NativeBridge.request`
+ */
+export interface BridgeRequestOptions {
+  /** Time to wait for the response, `0` to wait indefinitely (default 30000) */
+  timeoutMs?: number;
+  /** Cancels the request; the promise rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Safe to send again: enables `retries` after timeouts and disconnects */
+  idempotent?: boolean;
+  /** Extra attempts for idempotent requests (default 0) */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further retry (default 250) */
+  retryDelayMs?: number;
+}
+
+/**
+ * Default request timeout
+ */
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Default delay before the first retry
+ */
+const DEFAULT_RETRY_DELAY_MS = 250;
+
+/**
+ * Time to wait for the peer to answer the handshake or encoding negotiation
+ */
+const NEGOTIATION_TIMEOUT_MS = 2000;
+
+/**
+ * Default reconnection settings
+ */
+const DEFAULT_RECONNECT_CONFIG: Required<BridgeReconnectConfig> = {
+  enabled: true,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  maxAttempts: Infinity,
+  bufferSize: 1000,
+};
+
+/**
+ * Serialized message held while reconnecting
+ */
+interface BufferedMessage {
+  id: string;
+  type: string;
+  data: string;
+  priority: MessagePriority;
+  isRequest: boolean;
 }
 
 /**
@@ -109,11 +217,32 @@ function getNativeGlobal(): NativeGlobal {
   return globalThis as unknown as NativeGlobal;
 }
 
+/**
+ * Get the rejection reason of an aborted signal
+ */
+function abortReason(signal?: AbortSignal): Error {
+  const reason: unknown = signal?.reason;
+  return reason instanceof Error ? reason : new Error('Request aborted');
+}
+
 /**
  * Event handler function type
  */
 export type EventHandler<T = unknown> = (data: T) => void;
 
+/**
+ * Direction of a message crossing the bridge
+ */
+export type BridgeTrafficDirection = 'outbound' | 'inbound';
+
+/**
+ * Observer of every message sent or received by the bridge
+ */
+export type BridgeTrafficListener = (
+  direction: BridgeTrafficDirection,
+  message: BridgeMessage | BridgeResponse
+) => void;
+
 /**
  * Native Bridge for communication between Angular and native runtime
  *
@@ -127,8 +256,23 @@ export class NativeBridge {
   private messageId = 0;
   private readonly port: number;
   private readonly debug: boolean;
+  private readonly validate: boolean;
   private readonly platform: PlatformType;
+  private readonly reconnectConfig: Required<BridgeReconnectConfig>;
+  private readonly preferredEncoding: 'json' | 'compact';
+  private readonly protocolMismatch: 'error' | 'degrade';
   private transport: BridgeTransport = 'websocket';
+  private wireEncoding: BridgeEncoding = 'json';
+  private readonly encoder = new CompactEncoder();
+  private readonly decoder = new CompactDecoder();
+  private peerProtocolVersion: number | null = null;
+  private peerCapabilities: ReadonlySet<string> = new Set();
+  private degraded = false;
+
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly outboundBuffer: BufferedMessage[] = [];
+  private lastAppReady: BridgeMessage | null = null;
 
   private readonly messages$ = new Subject<BridgeMessage>();
   private readonly responses$ = new Subject<BridgeResponse>();
@@ -137,16 +281,21 @@ export class NativeBridge {
   );
 
   private readonly eventHandlers = new Map<string, Set<EventHandler<unknown>>>();
+  private readonly trafficListeners = new Set<BridgeTrafficListener>();
   private readonly pendingRequests = new Map<
     string,
-    { resolve: (value: unknown) => void; reject: (error: Error) => void }
+    { type: string; resolve: (value: unknown) => void; reject: (error: Error) => void }
   >();
 
   constructor(config: BridgeConfig = {}) {
     this.port = config.port ?? 8081;
     this.debug = config.debug ?? false;
+    this.validate = config.validate ?? this.debug;
     this.platform = config.platform ?? Platform.detect();
     this.transport = config.transport ?? this.detectTransport();
+    this.reconnectConfig = { ...DEFAULT_RECONNECT_CONFIG, ...config.reconnect };
+    this.preferredEncoding = config.encoding ?? 'json';
+    this.protocolMismatch = config.protocolMismatch ?? 'error';
   }
 
   /**
@@ -191,6 +340,43 @@ export class NativeBridge {
     return this.connectionState$.asObservable();
   }
 
+  /**
+   * Get the negotiated wire encoding
+   */
+  get currentEncoding(): BridgeEncoding {
+    return this.wireEncoding;
+  }
+
+  /**
+   * Get the bridge protocol version reported by the native runtime
+   * (`0` for runtimes that predate the handshake, `null` before connecting)
+   */
+  get protocolVersion(): number | null {
+    return this.peerProtocolVersion;
+  }
+
+  /**
+   * Get the features the connected native runtime implements
+   */
+  get capabilities(): ReadonlySet<string> {
+    return this.peerCapabilities;
+  }
+
+  /**
+   * Whether the bridge is connected to a runtime with another protocol
+   * version (only with `protocolMismatch: 'degrade'`)
+   */
+  get isDegraded(): boolean {
+    return this.degraded;
+  }
+
+  /**
+   * Get the number of messages buffered while reconnecting
+   */
+  get bufferedMessageCount(): number {
+    return this.outboundBuffer.length;
+  }
+
   /**
    * Get all incoming messages
    */
@@ -219,8 +405,10 @@ export class NativeBridge {
           break;
       }
 
+      await this.negotiateProtocol();
       this.connectionState$.next(BridgeConnectionState.Connected);
       this.log('Connected to native bridge');
+      void this.negotiateEncoding();
     } catch (error) {
       this.connectionState$.next(BridgeConnectionState.Error);
       throw error;
@@ -306,25 +494,33 @@ export class NativeBridge {
     return new Promise((resolve, reject) => {
       try {
         const wsUrl = `ws://localhost:${this.port}/bridge`;
-        this.socket = new WebSocket(wsUrl);
+        const socket = new WebSocket(wsUrl);
+        socket.binaryType = 'arraybuffer';
+        this.socket = socket;
 
-        this.socket.onopen = () => {
+        socket.onopen = () => {
           this.log('WebSocket connected');
           resolve();
         };
 
-        this.socket.onmessage = (event: MessageEvent<string>) => {
+        socket.onmessage = (event: MessageEvent<string | ArrayBuffer>) => {
           this.handleMessage(event.data);
         };
 
-        this.socket.onerror = () => {
+        socket.onerror = () => {
           this.log('WebSocket connection error');
           reject(new Error('Failed to connect to native bridge'));
         };
 
-        this.socket.onclose = () => {
+        socket.onclose = () => {
+          // Ignore sockets replaced by a reconnect or closed by disconnect()
+          if (this.socket !== socket) {
+            return;
+          }
+
           this.log('WebSocket connection closed');
-          this.connectionState$.next(BridgeConnectionState.Disconnected);
+          this.socket = null;
+          this.handleSocketClosed();
         };
       } catch (error) {
         reject(error);
@@ -332,23 +528,268 @@ export class NativeBridge {
     });
   }
 
+  /**
+   * Start reconnecting after an open connection drops
+   */
+  private handleSocketClosed(): void {
+    const state = this.connectionState$.value;
+
+    if (state === BridgeConnectionState.Reconnecting) {
+      // A failed attempt; reconnect() schedules the next one
+      return;
+    }
+
+    this.rejectPendingRequests();
+
+    if (state === BridgeConnectionState.Connected && this.reconnectConfig.enabled) {
+      this.reconnectAttempt = 0;
+      this.connectionState$.next(BridgeConnectionState.Reconnecting);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.connectionState$.next(BridgeConnectionState.Disconnected);
+  }
+
+  /**
+   * Schedule the next reconnection attempt with exponential backoff
+   */
+  private scheduleReconnect(): void {
+    const { initialDelayMs, maxDelayMs, maxAttempts } = this.reconnectConfig;
+
+    if (this.reconnectAttempt >= maxAttempts) {
+      this.log(`Reconnection failed after ${maxAttempts} attempts`);
+      this.clearOutboundBuffer();
+      this.connectionState$.next(BridgeConnectionState.Error);
+      return;
+    }
+
+    const delay = Math.min(initialDelayMs * 2 ** this.reconnectAttempt, maxDelayMs);
+    this.reconnectAttempt++;
+    this.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.reconnect();
+    }, delay);
+  }
+
+  /**
+   * Reopen the WebSocket, then re-send `appReady` and the buffered messages
+   */
+  private async reconnect(): Promise<void> {
+    try {
+      await this.connectWebSocket();
+    } catch {
+      if (this.connectionState$.value === BridgeConnectionState.Reconnecting) {
+        this.scheduleReconnect();
+      }
+      return;
+    }
+
+    // disconnect() was called while the attempt was in flight
+    if (this.connectionState$.value !== BridgeConnectionState.Reconnecting) {
+      return;
+    }
+
+    this.reconnectAttempt = 0;
+    this.connectionState$.next(BridgeConnectionState.Connected);
+    this.log('Reconnected to native bridge');
+
+    // The new peer has none of the strings interned on the old connection
+    this.resetEncoding();
+
+    try {
+      if (this.lastAppReady) {
+        this.sendToWebSocket({
+          ...this.lastAppReady,
+          id: this.generateMessageId(),
+          payload: { ...(this.lastAppReady.payload as JsonObject), timestamp: Date.now(), reconnect: true },
+          timestamp: Date.now(),
+        });
+      }
+      this.replayOutboundBuffer();
+    } catch (error) {
+      // The socket closed again; its close handler restarts reconnection
+      this.log(`Replay interrupted: ${String(error)}`);
+      return;
+    }
+
+    void this.renegotiate();
+  }
+
+  /**
+   * Exchange protocol versions and capabilities with the native runtime
+   *
+   * Runtimes that predate the handshake reject it as an unknown message
+   * (or never answer); they are treated as protocol v0.
+   */
+  private async negotiateProtocol(): Promise<void> {
+    let handshake: BridgeHandshake;
+    try {
+      handshake = await this.request(
+        'handshake',
+        { protocolVersion: BRIDGE_PROTOCOL_VERSION, capabilities: [...BRIDGE_CAPABILITIES] },
+        { timeoutMs: NEGOTIATION_TIMEOUT_MS }
+      );
+    } catch (error) {
+      if (!(error instanceof BridgeRemoteError || error instanceof BridgeTimeoutError)) {
+        throw error;
+      }
+      handshake = { protocolVersion: 0, capabilities: [...LEGACY_BRIDGE_CAPABILITIES] };
+    }
+
+    this.peerProtocolVersion = handshake.protocolVersion;
+    this.peerCapabilities = new Set(handshake.capabilities);
+    this.degraded = handshake.protocolVersion !== BRIDGE_PROTOCOL_VERSION;
+    this.log(`Native protocol v${handshake.protocolVersion} (${[...this.peerCapabilities].join(', ')})`);
+
+    if (this.degraded) {
+      const mismatch = new BridgeProtocolMismatchError(BRIDGE_PROTOCOL_VERSION, handshake.protocolVersion);
+      if (this.protocolMismatch === 'error') {
+        await this.disconnect();
+        throw mismatch;
+      }
+      console.warn(`[NativeBridge] ${mismatch.message} Continuing in degraded mode.`);
+    }
+  }
+
+  /**
+   * Repeat the handshake and encoding negotiation after a reconnect,
+   * as the native app may have been rebuilt in the meantime
+   */
+  private async renegotiate(): Promise<void> {
+    try {
+      await this.negotiateProtocol();
+    } catch (error) {
+      if (error instanceof BridgeProtocolMismatchError) {
+        console.error(`[NativeBridge] ${error.message}`);
+        this.connectionState$.next(BridgeConnectionState.Error);
+      }
+      // Otherwise the socket closed again and its close handler takes over
+      return;
+    }
+
+    await this.negotiateEncoding();
+  }
+
+  /**
+   * Agree on the wire encoding for a new WebSocket connection
+   *
+   * Starts every connection in JSON with fresh string tables; switches
+   * to the compact encoding only if the peer accepts it.
+   */
+  private async negotiateEncoding(): Promise<void> {
+    this.resetEncoding();
+
+    if (this.transport !== 'websocket' || this.preferredEncoding !== 'compact') {
+      return;
+    }
+
+    try {
+      const { encoding } = await this.request(
+        'negotiateEncoding',
+        { encodings: [COMPACT_ENCODING, 'json'] },
+        { timeoutMs: NEGOTIATION_TIMEOUT_MS }
+      );
+      if (encoding === COMPACT_ENCODING) {
+        this.wireEncoding = encoding;
+      }
+    } catch {
+      // Peers that predate negotiation never answer
+    }
+
+    this.log(`Wire encoding: ${this.wireEncoding}`);
+  }
+
+  /**
+   * Go back to JSON and clear the string tables of both codecs
+   */
+  private resetEncoding(): void {
+    this.wireEncoding = 'json';
+    this.encoder.reset();
+    this.decoder.reset();
+  }
+
+  /**
+   * Hold a message until the connection is back
+   *
+   * When the buffer is full the oldest message of the lowest priority
+   * is dropped (and its request, if any, rejected).
+   */
+  private bufferMessage(message: BufferedMessage): void {
+    const buffer = this.outboundBuffer;
+    buffer.push(message);
+
+    if (buffer.length <= this.reconnectConfig.bufferSize) {
+      return;
+    }
+
+    let dropIndex = 0;
+    for (let i = 1; i < buffer.length; i++) {
+      if (buffer[i].priority > buffer[dropIndex].priority) {
+        dropIndex = i;
+      }
+    }
+
+    const [dropped] = buffer.splice(dropIndex, 1);
+    this.log(`Outbound buffer full, dropped ${dropped.type}`);
+    this.rejectPendingRequest(dropped.id, new BridgeDisconnectedError('Bridge disconnected', dropped.type));
+  }
+
+  /**
+   * Send buffered messages, highest priority first
+   */
+  private replayOutboundBuffer(): void {
+    const buffer = this.outboundBuffer;
+    // Array.prototype.sort is stable, so FIFO order holds within a priority
+    buffer.sort((a, b) => a.priority - b.priority);
+    this.log(`Replaying ${buffer.length} buffered messages`);
+
+    while (buffer.length > 0) {
+      const message = buffer[0];
+
+      // Skip requests that timed out or were aborted while buffered
+      if (!message.isRequest || this.pendingRequests.has(message.id)) {
+        this.sendToWebSocket(message.data);
+      }
+      buffer.shift();
+    }
+  }
+
+  /**
+   * Drop buffered messages, failing their requests
+   */
+  private clearOutboundBuffer(): void {
+    const buffered = this.outboundBuffer.splice(0);
+    for (const message of buffered) {
+      this.rejectPendingRequest(message.id, new BridgeDisconnectedError('Bridge disconnected', message.type));
+    }
+  }
+
   /**
    * Handle incoming message from native side
    */
-  private handleMessage(data: string): void {
+  private handleMessage(data: string | ArrayBuffer): void {
     try {
-      const message = JSON.parse(data) as BridgeMessage | BridgeResponse;
+      const message = (
+        typeof data === 'string' ? JSON.parse(data) : this.decoder.decode(data)
+      ) as BridgeMessage | BridgeResponse;
       this.log(`Received: ${'type' in message ? message.type : 'response'}`);
+      this.notifyTraffic('inbound', message);
 
       // Check if it's a response to a pending request
       if ('success' in message && message.id) {
         const pending = this.pendingRequests.get(message.id);
+        const errors = this.validate ? validateIncomingResponse(message, pending?.type) : [];
         if (pending) {
           this.pendingRequests.delete(message.id);
-          if (message.success) {
+          if (errors.length > 0) {
+            pending.reject(this.validationError(pending.type, 'incoming', errors));
+          } else if (message.success) {
             pending.resolve(message.data);
           } else {
-            pending.reject(new Error(message.error ?? 'Unknown error'));
+            pending.reject(new BridgeRemoteError(pending.type, message.error ?? 'Unknown error'));
           }
         }
         this.responses$.next(message);
@@ -357,6 +798,14 @@ export class NativeBridge {
 
       // It's an event from native side
       const bridgeMessage = message as BridgeMessage;
+      if (this.validate) {
+        const errors = validateIncomingEvent(bridgeMessage);
+        if (errors.length > 0) {
+          this.validationError(String(bridgeMessage.type), 'incoming', errors);
+          return;
+        }
+      }
+
       this.messages$.next(bridgeMessage);
 
       // Dispatch to registered handlers
@@ -371,27 +820,56 @@ export class NativeBridge {
 
   /**
    * Send a message to the native side
+   *
+   * While the WebSocket is reconnecting the message is buffered and
+   * replayed by `priority` once the connection is back.
    */
-  async send<T = JsonValue>(message: BridgeMessage<T>): Promise<void> {
+  async send<T = JsonValue>(
+    message: BridgeMessage<T>,
+    priority: MessagePriority = MessagePriority.Normal
+  ): Promise<void> {
+    const id = message.id ?? this.generateMessageId();
     const fullMessage: BridgeMessage<T> = {
       ...message,
-      id: message.id ?? this.generateMessageId(),
+      id,
       timestamp: Date.now(),
     };
 
-    const data = JSON.stringify(fullMessage);
+    if (this.validate) {
+      const errors = validateOutgoingMessage(fullMessage);
+      if (errors.length > 0) {
+        throw this.validationError(message.type, 'outgoing', errors);
+      }
+    }
+
+    this.notifyTraffic('outbound', fullMessage as BridgeMessage);
+
+    // Remembered so it can be re-sent after a reconnect
+    if (message.type === 'appReady') {
+      this.lastAppReady = fullMessage as BridgeMessage;
+    }
+
+    if (this.connectionState$.value === BridgeConnectionState.Reconnecting) {
+      if (message.type !== 'appReady') {
+        this.log(`Buffering: ${message.type}`);
+        const data = JSON.stringify(fullMessage);
+        this.bufferMessage({ id, type: message.type, data, priority, isRequest: this.pendingRequests.has(id) });
+      }
+      return;
+    }
+
     this.log(`Sending: ${message.type}`);
 
     switch (this.transport) {
       case 'native-ios':
-        this.sendToIOS(data);
+        this.sendToIOS(JSON.stringify(fullMessage));
         break;
       case 'native-android':
-        this.sendToAndroid(data);
+        this.sendToAndroid(JSON.stringify(fullMessage));
         break;
       case 'websocket':
       default:
-        this.sendToWebSocket(data);
+        this.sendToWebSocket(fullMessage as BridgeMessage);
         break;
     }
   }
@@ -416,7 +894,7 @@ export class NativeBridge {
       return;
     }
 
-    throw new Error('iOS bridge not connected');
+    throw new BridgeDisconnectedError('iOS bridge not connected');
   }
 
   /**
@@ -431,48 +909,131 @@ export class NativeBridge {
       return;
     }
 
-    throw new Error('Android bridge not connected');
+    throw new BridgeDisconnectedError('Android bridge not connected');
   }
 
   /**
    * Send message via WebSocket
+   *
+   * Accepts a message or its JSON; encoded as a binary frame once the
+   * compact encoding has been negotiated.
    */
-  private sendToWebSocket(data: string): void {
+  private sendToWebSocket(message: BridgeMessage | string): void {
     if (this.socket?.readyState === WebSocket.OPEN) {
-      this.socket.send(data);
+      if (this.wireEncoding === COMPACT_ENCODING) {
+        this.socket.send(this.encoder.encode(typeof message === 'string' ? JSON.parse(message) : message));
+      } else {
+        this.socket.send(typeof message === 'string' ? message : JSON.stringify(message));
+      }
       return;
     }
 
-    throw new Error('Bridge not connected');
+    throw new BridgeDisconnectedError('Bridge not connected');
   }
 
   /**
    * Send a request and wait for response
+   *
+   * Idempotent requests are sent again after a timeout or disconnect,
+   * up to `retries` times with exponential backoff. Failures reported
+   * by native (`BridgeRemoteError`) are never retried.
+   */
+  async request<K extends BridgeMessageType>(
+    type: K,
+    payload: BridgeMessagePayload<K>,
+    options: BridgeRequestOptions = {}
+  ): Promise<BridgeMessageResponse<K>> {
+    const retries = options.idempotent ? options.retries ?? 0 : 0;
+    const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.requestOnce(type, payload, options);
+      } catch (error) {
+        if (attempt >= retries || !isRetryableBridgeError(error)) {
+          throw error;
+        }
+
+        this.log(`Retrying ${type} (${attempt + 1}/${retries})`);
+        await this.delay(retryDelayMs * 2 ** attempt, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Send a single request attempt
    */
-  async request<T = unknown, P = BridgePayload>(type: string, payload: P): Promise<T> {
+  private requestOnce<K extends BridgeMessageType>(
+    type: K,
+    payload: BridgeMessagePayload<K>,
+    options: BridgeRequestOptions
+  ): Promise<BridgeMessageResponse<K>> {
+    const { signal } = options;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
     const id = this.generateMessageId();
 
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReason(signal));
+        return;
+      }
+
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const onAbort = (): void => {
+        this.rejectPendingRequest(id, abortReason(signal));
+      };
+      const cleanup = (): void => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
       // Set up timeout
-      const timeout = setTimeout(() => {
-        this.pendingRequests.delete(id);
-        reject(new Error(`Request timeout: ${type}`));
-      }, 30000);
+      if (timeoutMs > 0) {
+        timeout = setTimeout(() => {
+          this.rejectPendingRequest(id, new BridgeTimeoutError(type, timeoutMs));
+        }, timeoutMs);
+      }
 
       // Register pending request
       this.pendingRequests.set(id, {
+        type,
         resolve: (value: unknown) => {
-          clearTimeout(timeout);
-          resolve(value as T);
+          cleanup();
+          resolve(value as BridgeMessageResponse<K>);
         },
         reject: (error: Error) => {
-          clearTimeout(timeout);
+          cleanup();
           reject(error);
         },
       });
+      signal?.addEventListener('abort', onAbort, { once: true });
 
       // Send the request
-      this.send({ id, type, payload: payload as unknown as JsonValue }).catch(reject);
+      this.send({ id, type, payload: payload as unknown as JsonValue }).catch((error: Error) => {
+        this.rejectPendingRequest(id, error);
+      });
+    });
+  }
+
+  /**
+   * Wait before a retry, rejecting early if the request is aborted
+   */
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReason(signal));
+        return;
+      }
+
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(abortReason(signal));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
   }
 
@@ -507,15 +1068,36 @@ export class NativeBridge {
     });
   }
 
+  /**
+   * Observe every outbound message and inbound message or response
+   *
+   * Outbound messages are reported once validated, before they reach
+   * the transport (including messages buffered while reconnecting).
+   */
+  onTraffic(listener: BridgeTrafficListener): () => void {
+    this.trafficListeners.add(listener);
+
+    return () => {
+      this.trafficListeners.delete(listener);
+    };
+  }
+
   /**
    * Disconnect from native bridge
    */
   async disconnect(): Promise<void> {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     if (this.socket) {
-      this.socket.close();
+      const socket = this.socket;
       this.socket = null;
+      socket.close();
     }
     this.connectionState$.next(BridgeConnectionState.Disconnected);
+    this.clearOutboundBuffer();
+    this.rejectPendingRequests();
     this.log('Disconnected from native bridge');
   }
 
@@ -526,6 +1108,48 @@ export class NativeBridge {
     return `msg_${++this.messageId}_${Date.now()}`;
   }
 
+  /**
+   * Fail a single pending request
+   */
+  private rejectPendingRequest(id: string, error: Error): void {
+    this.pendingRequests.get(id)?.reject(error);
+    this.pendingRequests.delete(id);
+  }
+
+  /**
+   * Fail every in-flight request after the connection is lost
+   */
+  private rejectPendingRequests(): void {
+    const pending = [...this.pendingRequests.values()];
+    this.pendingRequests.clear();
+
+    for (const request of pending) {
+      request.reject(new BridgeDisconnectedError('Bridge disconnected', request.type));
+    }
+  }
+
+  /**
+   * Report a message to the traffic listeners
+   */
+  private notifyTraffic(direction: BridgeTrafficDirection, message: BridgeMessage | BridgeResponse): void {
+    for (const listener of this.trafficListeners) {
+      listener(direction, message);
+    }
+  }
+
+  /**
+   * Log and build an error for a message that violates the protocol
+   */
+  private validationError(
+    type: string,
+    direction: BridgeValidationDirection,
+    errors: string[]
+  ): BridgeValidationError {
+    const error = new BridgeValidationError(type, direction, errors);
+    console.error(`[NativeBridge] ${error.message}`);
+    return error;
+  }
+
   private log(message: string): void {
     if (this.debug) {
       console.log(`[NativeBridge] ${message}`);
@@ -4,6 +4,8 @@ import {
   cachedTransformStyle,
   cachedMergeStyles,
 } from './style-cache';
+import { dynamicColor, setActiveColorScheme } from '../theme/dynamic-color';
+import { setMediaEnvironment } from '../responsive/media-query';
 
 describe('StyleCache', () => {
   beforeEach(() => {
@@ -122,6 +124,53 @@ describe('StyleCache', () => {
     });
   });
 
+  describe('dynamic colors', () => {
+    it('should cache one transformed style per color scheme', () => {
+      const style = { backgroundColor: dynamicColor({ light: '#ffffff', dark: '#000000' }) };
+
+      try {
+        expect(StyleCache.transform(style)).toEqual({ backgroundColor: 0xffffffff });
+        setActiveColorScheme('dark');
+        expect(StyleCache.transform(style)).toEqual({ backgroundColor: 0xff000000 });
+        expect(cachedMergeStyles({ flex: 1 }, style)).toEqual({ flex: 1, backgroundColor: 0xff000000 });
+        setActiveColorScheme('light');
+        expect(StyleCache.transform(style)).toEqual({ backgroundColor: 0xffffffff });
+        expect(cachedMergeStyles({ flex: 1 }, style)).toEqual({ flex: 1, backgroundColor: 0xffffffff });
+
+        expect(StyleCache.stats.misses).toBe(4);
+        expect(StyleCache.stats.hits).toBe(1);
+      } finally {
+        setActiveColorScheme('light');
+      }
+    });
+  });
+
+  describe('media queries', () => {
+    it('should key cached styles on the matching media queries', () => {
+      const style = {
+        padding: 8,
+        '@media (min-width: 600)': { padding: 24 },
+        '@media (min-width: 900)': { padding: 32 },
+      };
+
+      try {
+        setMediaEnvironment({ width: 390, height: 844, fontScale: 1 });
+        expect(StyleCache.transform(style)).toMatchObject({ paddingTop: 8 });
+        setMediaEnvironment({ width: 420, height: 844, fontScale: 1 });
+        expect(StyleCache.transform(style)).toMatchObject({ paddingTop: 8 });
+        setMediaEnvironment({ width: 700, height: 844, fontScale: 1 });
+        expect(StyleCache.transform(style)).toMatchObject({ paddingTop: 24 });
+        setMediaEnvironment({ width: 390, height: 844, fontScale: 1 });
+        expect(StyleCache.transform(style)).toMatchObject({ paddingTop: 8 });
+
+        expect(StyleCache.stats.misses).toBe(2);
+        expect(StyleCache.stats.hits).toBe(2);
+      } finally {
+        setMediaEnvironment({ width: 0, height: 0, fontScale: 1 });
+      }
+    });
+  });
+
   describe('invalidate', () => {
     it('should invalidate a cached style', () => {
       const style = { flex: 1 };
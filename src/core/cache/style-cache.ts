@@ -6,6 +6,7 @@
  */
 
 import { NativeStyle, transformStyle } from '../../types/style.types';
+import { adaptiveStyleKey, isAdaptiveStyle } from '../responsive/adaptive-style';
 
 /**
  * Type for transformed style output
@@ -67,6 +68,8 @@ class LRUCache<K, V> {
 interface CacheEntry {
   transformed: TransformedStyle;
   hash: string;
+  /** Environment of an adaptive style (unset for static styles) */
+  environment?: string;
 }
 
 /**
@@ -82,6 +85,20 @@ function hashStyle(style: NativeStyle): string {
   }
 }
 
+/**
+ * Environment an adaptive style is transformed for (none for static styles)
+ */
+function environmentKey(style: NativeStyle): string | undefined {
+  return isAdaptiveStyle(style) ? adaptiveStyleKey(style) : undefined;
+}
+
+/**
+ * Hash cache key of a style; adaptive styles get one per environment
+ */
+function cacheKey(hash: string, environment: string | undefined): string {
+  return environment ? `${environment}:${hash}` : hash;
+}
+
 /**
  * Style cache singleton
  */
@@ -102,18 +119,19 @@ class StyleCacheImpl {
   transform(style: NativeStyle): TransformedStyle {
     // Try object cache first (fastest)
     const cached = this.objectCache.get(style);
-    if (cached) {
+    const environment = cached && cached.environment === undefined ? undefined : environmentKey(style);
+    if (cached && cached.environment === environment) {
       this.hits++;
       return cached.transformed;
     }
 
     // Generate hash and try hash cache
-    const hash = hashStyle(style);
+    const hash = cacheKey(hashStyle(style), environment);
     const hashCached = this.hashCache.get(hash);
     if (hashCached) {
       this.hits++;
       // Also store in object cache for future lookups
-      this.objectCache.set(style, { transformed: hashCached, hash });
+      this.objectCache.set(style, { transformed: hashCached, hash, environment });
       return hashCached;
     }
 
@@ -122,7 +140,7 @@ class StyleCacheImpl {
     const transformed = transformStyle(style);
 
     // Store in both caches
-    this.objectCache.set(style, { transformed, hash });
+    this.objectCache.set(style, { transformed, hash, environment });
     this.hashCache.set(hash, transformed);
 
     return transformed;
@@ -151,7 +169,7 @@ class StyleCacheImpl {
     }
 
     // Try to find in hash cache
-    const hash = hashStyle(merged);
+    const hash = cacheKey(hashStyle(merged), environmentKey(merged));
     const cached = this.hashCache.get(hash);
     if (cached) {
       this.hits++;
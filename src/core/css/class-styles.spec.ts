@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { clearClassStyles, registerClassStyles, resolveClassStyles } from './class-styles';
+
+describe('Class styles', () => {
+  afterEach(() => {
+    clearClassStyles();
+    vi.restoreAllMocks();
+  });
+
+  it('should apply classes in registration order', () => {
+    registerClassStyles({ selected: { backgroundColor: '#2196f3' } });
+    registerClassStyles({ card: { padding: 8, backgroundColor: '#ffffff' } });
+
+    expect(resolveClassStyles(['selected', 'card', 'missing'])).toEqual({ padding: 8, backgroundColor: '#ffffff' });
+  });
+
+  it('should register the same stylesheet again without warnings', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const styles = { card: { padding: 8 } };
+
+    registerClassStyles(styles);
+    registerClassStyles(styles);
+
+    expect(resolveClassStyles(['card'])).toEqual({ padding: 8 });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should warn when another stylesheet defines a registered class', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    registerClassStyles({ card: { padding: 8, '@media (min-width: 600)': { padding: 24 } } });
+    registerClassStyles({ card: { margin: 4, '@media (min-width: 600)': { margin: 8 } }, title: { fontSize: 20 } });
+
+    expect(resolveClassStyles(['card'])).toEqual({
+      padding: 8,
+      margin: 4,
+      '@media (min-width: 600)': { padding: 24, margin: 8 },
+    });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('".card" is already defined by another stylesheet'));
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Class Styles
+ *
+ * Registry of styles applied through `class` bindings on native
+ * elements. Styles usually come from component stylesheets compiled by
+ * `compileCss` (or `ng-mobile compile-styles`):
+ *
+ * ```typescript
+ * import { styles } from './card.component.styles';
+ *
+ * registerClassStyles(styles);
+ * ```
+ *
+ * ```html
+ * <mobile-view class="card" [class.card--selected]="selected"></mobile-view>
+ * ```
+ *
+ * Classes of an element apply in registration order, then its inline
+ * styles on top.
+ *
+ * Class names are global, as with a stylesheet shared by the whole app:
+ * `.card` in two component stylesheets is one class. Registering a class
+ * that another stylesheet already defined merges both and logs a
+ * warning; prefix class names per component (`.profile-card`) to keep
+ * them apart.
+ */
+
+import { NativeStyle } from '../../types/style.types';
+import { ResponsiveStyle, isMediaQueryKey } from '../responsive/media-query';
+
+type StyleValues = Record<string, unknown>;
+
+interface RegisteredClassStyle {
+  style: StyleValues;
+  order: number;
+  /** Stylesheet that first registered the class */
+  source: object;
+}
+
+const classStyles = new Map<string, RegisteredClassStyle>();
+let registrations = 0;
+
+/**
+ * Merge style values, merging `@media` blocks with the same query
+ */
+function mergeStyle(target: StyleValues, source: StyleValues): StyleValues {
+  for (const [key, value] of Object.entries(source)) {
+    target[key] = isMediaQueryKey(key)
+      ? { ...(target[key] as StyleValues | undefined), ...(value as StyleValues) }
+      : value;
+  }
+  return target;
+}
+
+/**
+ * Register styles by class name
+ *
+ * Registering a class again merges into its existing style. Classes
+ * already defined by a different `styles` object are reported, since two
+ * components' rules for the same name would apply to both.
+ */
+export function registerClassStyles(styles: Record<string, ResponsiveStyle<NativeStyle> | NativeStyle>): void {
+  for (const [className, style] of Object.entries(styles)) {
+    const existing = classStyles.get(className);
+    if (existing && existing.source !== styles) {
+      console.warn(
+        `[ClassStyles] ".${className}" is already defined by another stylesheet, both are merged. `
+          + 'Use a class name specific to the component to keep them apart.'
+      );
+    }
+    classStyles.set(className, {
+      style: mergeStyle(existing ? { ...existing.style } : {}, style as StyleValues),
+      order: registrations++,
+      source: existing?.source ?? styles,
+    });
+  }
+}
+
+/**
+ * Check if a class has registered styles
+ */
+export function hasClassStyle(className: string): boolean {
+  return classStyles.has(className);
+}
+
+/**
+ * Combined style of a set of classes (empty when none are registered)
+ */
+export function resolveClassStyles(classes: Iterable<string>): ResponsiveStyle<NativeStyle> {
+  const matched: RegisteredClassStyle[] = [];
+  for (const className of classes) {
+    const registered = classStyles.get(className);
+    if (registered) {
+      matched.push(registered);
+    }
+  }
+
+  return matched
+    .sort((a, b) => a.order - b.order)
+    .reduce((style, registered) => mergeStyle(style, registered.style), {} as StyleValues) as ResponsiveStyle<NativeStyle>;
+}
+
+/**
+ * Remove all registered class styles
+ */
+export function clearClassStyles(): void {
+  classStyles.clear();
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { compileCss, formatCssDiagnostic } from './css-compiler';
+
+describe('compileCss', () => {
+  it('should compile class rules with box model, flexbox and font properties', () => {
+    const { styles, diagnostics } = compileCss(`
+      /* Card */
+      .card, .panel {
+        display: flex;
+        flex-direction: row;
+        justify-content: space-between;
+        margin: 8px 16px;
+        padding: 4px;
+        width: 50%;
+        flex: 1;
+      }
+
+      .title {
+        font-family: "Roboto Mono", monospace;
+        font-size: 18px;
+        font-weight: 600;
+        text-transform: uppercase;
+        text-decoration: underline dotted #333;
+      }
+    `);
+
+    expect(diagnostics).toEqual([]);
+    expect(styles.card).toEqual({
+      display: 'flex',
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginTop: 8,
+      marginRight: 16,
+      marginBottom: 8,
+      marginLeft: 16,
+      paddingTop: 4,
+      paddingRight: 4,
+      paddingBottom: 4,
+      paddingLeft: 4,
+      width: '50%',
+      flex: 1,
+    });
+    expect(styles.panel).toEqual(styles.card);
+    expect(styles.title).toEqual({
+      fontFamily: 'Roboto Mono',
+      fontSize: 18,
+      fontWeight: '600',
+      textTransform: 'uppercase',
+      textDecorationLine: 'underline',
+      textDecorationStyle: 'dotted',
+      textDecorationColor: '#333',
+    });
+  });
+
+  it('should expand borders, transforms and shadows', () => {
+    const { styles, diagnostics } = compileCss(`
+      .chip {
+        border: 1px solid rgba(0, 0, 0, 0.2);
+        border-radius: 4px 8px;
+        transform: translateX(10px) rotate(45deg);
+        box-shadow: 0 2px 4px #00000033;
+        text-shadow: 1px 1px black;
+      }
+    `);
+
+    expect(diagnostics).toEqual([]);
+    expect(styles.chip).toEqual({
+      borderWidth: 1,
+      borderStyle: 'solid',
+      borderColor: 'rgba(0, 0, 0, 0.2)',
+      borderTopLeftRadius: 4,
+      borderTopRightRadius: 8,
+      borderBottomRightRadius: 4,
+      borderBottomLeftRadius: 8,
+      transform: [{ translateX: 10 }, { rotate: '45deg' }],
+      shadowOffset: { width: 0, height: 2 },
+      shadowRadius: 4,
+      shadowColor: '#00000033',
+      shadowOpacity: 1,
+      textShadowOffset: { width: 1, height: 1 },
+      textShadowRadius: 0,
+      textShadowColor: 'black',
+    });
+  });
+
+  it('should compile @media blocks into media query keys', () => {
+    const { styles, diagnostics } = compileCss(`
+      .grid { padding: 8px; }
+      @media (min-width: 600px)  and (orientation: landscape) {
+        .grid { padding: 24px; }
+      }
+    `);
+
+    expect(diagnostics).toEqual([]);
+    expect(styles.grid).toEqual({
+      paddingTop: 8,
+      paddingRight: 8,
+      paddingBottom: 8,
+      paddingLeft: 8,
+      '@media (min-width: 600px) and (orientation: landscape)': {
+        paddingTop: 24,
+        paddingRight: 24,
+        paddingBottom: 24,
+        paddingLeft: 24,
+      },
+    });
+  });
+
+  it('should substitute SCSS variables and skip // comments', () => {
+    const { styles, diagnostics } = compileCss(
+      [
+        '$primary: #2196f3;',
+        '// Buttons',
+        '.button { background-color: $primary; color: $accent; }',
+      ].join('\n'),
+      { file: 'button.component.scss' }
+    );
+
+    expect(styles.button).toEqual({ backgroundColor: '#2196f3' });
+    expect(diagnostics).toEqual([
+      {
+        file: 'button.component.scss',
+        line: 3,
+        column: 39,
+        severity: 'error',
+        message: 'Undefined variable: $accent',
+      },
+    ]);
+  });
+
+  it('should report unsupported selectors, properties and values with their position', () => {
+    const { styles, diagnostics } = compileCss(
+      [
+        '.card { float: left; width: 2em; color: red; }',
+        'div > .title { color: blue; }',
+        '.list {',
+        '  grid-template-columns: 1fr 1fr;',
+        '  .item { padding: 4px; }',
+        '}',
+        '@media (hover: hover) { .card { opacity: 0.5; } }',
+      ].join('\n'),
+      { file: 'card.component.css' }
+    );
+
+    expect(styles).toEqual({ card: { color: 'red' }, list: {} });
+    expect(diagnostics.map(formatCssDiagnostic)).toEqual([
+      'card.component.css:1:9 - warning: Unsupported property: float',
+      'card.component.css:1:22 - warning: Unsupported unit "em" (use px): 2em',
+      'card.component.css:2:1 - warning: Unsupported selector "div > .title" (only single class selectors are supported)',
+      'card.component.css:4:3 - warning: Unsupported property: grid-template-columns',
+      'card.component.css:5:3 - warning: Nested rules are not supported: .item',
+      'card.component.css:7:1 - warning: Unsupported media query: "@media (hover: hover)"',
+    ]);
+  });
+
+  it('should report syntax errors', () => {
+    const { diagnostics } = compileCss('.card { color red; }\n.title { color: blue;');
+
+    expect(diagnostics.map((diagnostic) => [diagnostic.line, diagnostic.severity, diagnostic.message])).toEqual([
+      [1, 'error', 'Expected "property: value", found "color red"'],
+      [2, 'error', 'Unclosed block'],
+    ]);
+  });
+});
@@ -0,0 +1,795 @@
+/**
+ * CSS Compiler
+ *
+ * Compiles component stylesheets into native styles keyed by class name,
+ * so `.css`/`.scss` files written for `styleUrls` can style native views
+ * through `class` bindings (see `registerClassStyles`).
+ *
+ * Supported subset:
+ * - Single class selectors (`.card`, `.card, .panel`); other selectors
+ *   (elements, ids, combinators, pseudo-classes) are reported
+ * - Flexbox, box model, positioning, borders, colors, fonts, text,
+ *   `transform`, `box-shadow` and `text-shadow`
+ * - Lengths in `px`/`dp` (or unitless), percentages where native styles
+ *   accept them
+ * - `@media` blocks with the features `StyleService` supports
+ * - SCSS: `//` comments and `$variables`; nesting, mixins and modules
+ *   are reported
+ *
+ * Unsupported properties, values and rules are skipped and reported as
+ * diagnostics with their file, line and column.
+ *
+ * @example
+ * ```typescript
+ * const { styles, diagnostics } = compileCss(source, { file: 'card.component.scss' });
+ * diagnostics.forEach((diagnostic) => console.warn(formatCssDiagnostic(diagnostic)));
+ * registerClassStyles(styles);
+ * ```
+ */
+
+import { NativeStyle, parseTransform } from '../../types/style.types';
+import { MediaQueryKey, ResponsiveStyle, matchMediaQuery } from '../responsive/media-query';
+import { parseColor } from '../theme/color';
+
+/**
+ * Severity of a compiler diagnostic
+ */
+export type CssDiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * Problem found while compiling a stylesheet
+ */
+export interface CssDiagnostic {
+  file: string;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+  severity: CssDiagnosticSeverity;
+  message: string;
+}
+
+/**
+ * Compiler options
+ */
+export interface CssCompileOptions {
+  /** File name used in diagnostics (default: `'<inline>'`) */
+  file?: string;
+  /** Source syntax (default: from the file extension, else `'css'`) */
+  syntax?: 'css' | 'scss';
+}
+
+/**
+ * Compiled stylesheet
+ */
+export interface CssCompileResult {
+  /** Styles by class name, with `@media` blocks */
+  styles: Record<string, ResponsiveStyle<NativeStyle>>;
+  diagnostics: CssDiagnostic[];
+}
+
+type StyleValues = Record<string, unknown>;
+type Report = (message: string, severity?: CssDiagnosticSeverity) => void;
+
+const CLASS_SELECTOR = /^\.(-?[_a-zA-Z][_a-zA-Z0-9-]*)$/;
+const NUMBER = /^(-?(?:\d+\.?\d*|\.\d+))(px|dp)?$/;
+
+/**
+ * Properties holding a length (number, or percentage/auto where allowed)
+ */
+const LENGTH_PROPERTIES = new Set([
+  'width', 'height', 'minWidth', 'minHeight', 'maxWidth', 'maxHeight', 'flexBasis',
+  'top', 'right', 'bottom', 'left',
+  'marginTop', 'marginRight', 'marginBottom', 'marginLeft', 'marginHorizontal', 'marginVertical',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft', 'paddingHorizontal', 'paddingVertical',
+]);
+
+/**
+ * Properties holding a length in pixels only
+ */
+const PIXEL_PROPERTIES = new Set([
+  'gap', 'rowGap', 'columnGap',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomLeftRadius', 'borderBottomRightRadius',
+  'fontSize', 'letterSpacing', 'lineHeight',
+]);
+
+/**
+ * Properties holding a plain number
+ */
+const NUMBER_PROPERTIES = new Set(['flexGrow', 'flexShrink', 'opacity', 'zIndex', 'elevation']);
+
+/**
+ * Properties holding a color
+ */
+const COLOR_PROPERTIES = new Set([
+  'color', 'backgroundColor',
+  'borderTopColor', 'borderRightColor', 'borderBottomColor', 'borderLeftColor',
+  'textDecorationColor', 'tintColor',
+]);
+
+/**
+ * Properties holding one of a set of keywords
+ */
+const KEYWORD_PROPERTIES: Record<string, readonly string[]> = {
+  display: ['none', 'flex'],
+  flexDirection: ['row', 'row-reverse', 'column', 'column-reverse'],
+  flexWrap: ['wrap', 'nowrap', 'wrap-reverse'],
+  alignItems: ['flex-start', 'flex-end', 'center', 'stretch', 'baseline'],
+  alignSelf: ['auto', 'flex-start', 'flex-end', 'center', 'stretch', 'baseline'],
+  alignContent: ['flex-start', 'flex-end', 'center', 'stretch', 'space-between', 'space-around'],
+  justifyContent: ['flex-start', 'flex-end', 'center', 'space-between', 'space-around', 'space-evenly'],
+  position: ['absolute', 'relative'],
+  overflow: ['visible', 'hidden', 'scroll'],
+  borderStyle: ['solid', 'dotted', 'dashed'],
+  fontStyle: ['normal', 'italic'],
+  fontWeight: ['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'],
+  textAlign: ['auto', 'left', 'right', 'center', 'justify'],
+  textDecorationLine: ['none', 'underline', 'line-through', 'underline line-through'],
+  textDecorationStyle: ['solid', 'double', 'dotted', 'dashed'],
+  textTransform: ['none', 'capitalize', 'uppercase', 'lowercase'],
+  pointerEvents: ['auto', 'none', 'box-none', 'box-only'],
+};
+
+/**
+ * `object-fit` values to image resize modes
+ */
+const OBJECT_FIT_RESIZE_MODES: Record<string, string> = {
+  cover: 'cover',
+  contain: 'contain',
+  fill: 'stretch',
+  none: 'center',
+};
+
+/**
+ * Sides of the box shorthands, by number of values
+ */
+const BOX_SIDES = ['Top', 'Right', 'Bottom', 'Left'];
+const BOX_CORNERS = ['TopLeft', 'TopRight', 'BottomRight', 'BottomLeft'];
+
+/**
+ * Convert a CSS property name to its camelCase style key
+ */
+function toCamelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_match, char: string) => char.toUpperCase());
+}
+
+/**
+ * Split a value on whitespace outside of parentheses
+ */
+function splitValue(value: string, separator: RegExp = /\s/): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+
+    if (depth === 0 && separator.test(char)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Expand a 1-4 value box shorthand (`1px 2px` → top/bottom 1, left/right 2)
+ */
+function expandBox(values: string[]): string[] | null {
+  switch (values.length) {
+    case 1:
+      return [values[0], values[0], values[0], values[0]];
+    case 2:
+      return [values[0], values[1], values[0], values[1]];
+    case 3:
+      return [values[0], values[1], values[2], values[1]];
+    case 4:
+      return values;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts declarations of one rule into style values
+ */
+class DeclarationConverter {
+  constructor(private readonly report: Report) {}
+
+  convert(property: string, value: string, target: StyleValues): void {
+    if (/\bvar\(/.test(value)) {
+      this.report(`CSS custom properties are not supported: ${property}: ${value}`);
+      return;
+    }
+
+    const key = toCamelCase(property);
+
+    if (LENGTH_PROPERTIES.has(key)) {
+      this.assign(target, key, this.length(value, true));
+    } else if (PIXEL_PROPERTIES.has(key)) {
+      if (key === 'lineHeight' && /^\d*\.?\d+$/.test(value) && value !== '0') {
+        this.report(`Unitless line-height is not supported, use pixels: ${value}`);
+        return;
+      }
+      this.assign(target, key, this.length(value, false));
+    } else if (NUMBER_PROPERTIES.has(key)) {
+      this.assign(target, key, this.number(value));
+    } else if (COLOR_PROPERTIES.has(key)) {
+      this.assign(target, key, this.color(value));
+    } else if (key in KEYWORD_PROPERTIES) {
+      this.assign(target, key, this.keyword(key, value));
+    } else {
+      this.convertSpecial(key, property, value, target);
+    }
+  }
+
+  private convertSpecial(key: string, property: string, value: string, target: StyleValues): void {
+    const values = splitValue(value);
+
+    switch (key) {
+      case 'margin':
+      case 'padding': {
+        const sides = expandBox(values);
+        if (!sides) {
+          this.report(`Invalid ${property} value: ${value}`);
+          return;
+        }
+        sides.forEach((side, i) => this.assign(target, `${key}${BOX_SIDES[i]}`, this.length(side, true)));
+        return;
+      }
+      case 'borderWidth':
+      case 'borderColor': {
+        if (values.length === 1) {
+          this.assign(target, key, key === 'borderWidth' ? this.length(value, false) : this.color(value));
+          return;
+        }
+        const sides = expandBox(values);
+        if (!sides) {
+          this.report(`Invalid ${property} value: ${value}`);
+          return;
+        }
+        const suffix = key === 'borderWidth' ? 'Width' : 'Color';
+        sides.forEach((side, i) => {
+          const converted = suffix === 'Width' ? this.length(side, false) : this.color(side);
+          this.assign(target, `border${BOX_SIDES[i]}${suffix}`, converted);
+        });
+        return;
+      }
+      case 'borderRadius': {
+        if (values.length === 1) {
+          this.assign(target, key, this.length(value, false));
+          return;
+        }
+        const corners = expandBox(values);
+        if (!corners || value.includes('/')) {
+          this.report(`Invalid ${property} value: ${value}`);
+          return;
+        }
+        corners.forEach((corner, i) => this.assign(target, `border${BOX_CORNERS[i]}Radius`, this.length(corner, false)));
+        return;
+      }
+      case 'border':
+      case 'borderTop':
+      case 'borderRight':
+      case 'borderBottom':
+      case 'borderLeft':
+        this.border(key === 'border' ? '' : key.slice('border'.length), value, values, target);
+        return;
+      case 'flex':
+        this.flex(value, values, target);
+        return;
+      case 'flexFlow':
+        for (const part of values) {
+          const flexKey = KEYWORD_PROPERTIES['flexWrap'].includes(part) ? 'flexWrap' : 'flexDirection';
+          this.assign(target, flexKey, this.keyword(flexKey, part));
+        }
+        return;
+      case 'aspectRatio': {
+        const [width, height = '1'] = value.split('/').map((part) => part.trim());
+        const ratio = Number(width) / Number(height);
+        this.assign(target, key, Number.isFinite(ratio) && ratio > 0 ? ratio : this.invalid(property, value));
+        return;
+      }
+      case 'fontFamily':
+        this.assign(target, key, splitValue(value, /,/)[0]?.replace(/^['"]|['"]$/g, ''));
+        return;
+      case 'textDecoration':
+        this.textDecoration(value, values, target);
+        return;
+      case 'transform':
+        try {
+          this.assign(target, key, parseTransform(value));
+        } catch (error) {
+          this.report((error as Error).message.replace(/^\[Style\] /, ''));
+        }
+        return;
+      case 'boxShadow':
+        this.shadow('shadow', value, target, true);
+        return;
+      case 'textShadow':
+        this.shadow('textShadow', value, target, false);
+        return;
+      case 'objectFit':
+        this.assign(target, 'resizeMode', OBJECT_FIT_RESIZE_MODES[value] ?? this.invalid(property, value));
+        return;
+      default:
+        this.report(`Unsupported property: ${property}`);
+    }
+  }
+
+  private border(side: string, value: string, values: string[], target: StyleValues): void {
+    if (value === 'none' || value === '0') {
+      this.assign(target, `border${side}Width`, 0);
+      return;
+    }
+
+    for (const part of values) {
+      if (NUMBER.test(part)) {
+        this.assign(target, `border${side}Width`, this.length(part, false));
+      } else if (KEYWORD_PROPERTIES['borderStyle'].includes(part)) {
+        if (side) {
+          this.report(`Per-side border styles are not supported: ${part}`);
+        } else {
+          this.assign(target, 'borderStyle', part);
+        }
+      } else {
+        this.assign(target, `border${side}Color`, this.color(part));
+      }
+    }
+  }
+
+  private flex(value: string, values: string[], target: StyleValues): void {
+    if (value === 'none') {
+      this.assign(target, 'flexGrow', 0);
+      this.assign(target, 'flexShrink', 0);
+      return;
+    }
+    if (value === 'auto') {
+      this.assign(target, 'flexGrow', 1);
+      this.assign(target, 'flexShrink', 1);
+      this.assign(target, 'flexBasis', 'auto');
+      return;
+    }
+    if (values.length === 1) {
+      this.assign(target, 'flex', this.number(value));
+      return;
+    }
+
+    this.assign(target, 'flexGrow', this.number(values[0]));
+    if (values.length === 3 || !/^[\d.]+$/.test(values[1])) {
+      if (values.length === 3) {
+        this.assign(target, 'flexShrink', this.number(values[1]));
+      }
+      this.assign(target, 'flexBasis', this.length(values[values.length - 1], true));
+    } else {
+      this.assign(target, 'flexShrink', this.number(values[1]));
+    }
+  }
+
+  private textDecoration(value: string, values: string[], target: StyleValues): void {
+    const lines = values.filter((part) => ['underline', 'line-through', 'none'].includes(part));
+    if (lines.length > 0) {
+      this.assign(target, 'textDecorationLine', this.keyword('textDecorationLine', lines.join(' ')));
+    }
+
+    for (const part of values) {
+      if (lines.includes(part)) continue;
+      if (KEYWORD_PROPERTIES['textDecorationStyle'].includes(part)) {
+        this.assign(target, 'textDecorationStyle', part);
+      } else {
+        this.assign(target, 'textDecorationColor', this.color(part));
+      }
+    }
+
+    if (values.length === 0) {
+      this.invalid('text-decoration', value);
+    }
+  }
+
+  private shadow(prefix: 'shadow' | 'textShadow', value: string, target: StyleValues, spread: boolean): void {
+    const shadows = splitValue(value, /,/);
+    if (shadows.length > 1) {
+      this.report(`Only the first of multiple shadows is used: ${value}`);
+    }
+
+    const parts = splitValue(shadows[0] ?? '');
+    if (parts.includes('inset')) {
+      this.report(`Inset shadows are not supported: ${value}`);
+      return;
+    }
+
+    const lengths = parts.filter((part) => NUMBER.test(part)).map((part) => this.length(part, false) as number);
+    const colors = parts.filter((part) => !NUMBER.test(part));
+    if (lengths.length < 2 || lengths.length > (spread ? 4 : 3) || colors.length > 1) {
+      this.invalid(prefix === 'shadow' ? 'box-shadow' : 'text-shadow', value);
+      return;
+    }
+    if (lengths.length === 4 && lengths[3] !== 0) {
+      this.report(`Shadow spread is not supported: ${value}`);
+    }
+
+    this.assign(target, `${prefix}Offset`, { width: lengths[0], height: lengths[1] });
+    this.assign(target, `${prefix}Radius`, lengths[2] ?? 0);
+    this.assign(target, `${prefix}Color`, colors.length > 0 ? this.color(colors[0]) : 'black');
+    if (prefix === 'shadow') {
+      this.assign(target, 'shadowOpacity', 1);
+    }
+  }
+
+  private length(value: string, allowRelative: boolean): number | string | undefined {
+    const match = NUMBER.exec(value);
+    if (match) {
+      return parseFloat(match[1]);
+    }
+    if (allowRelative && /^-?(?:\d+\.?\d*|\.\d+)%$/.test(value)) {
+      return value;
+    }
+    if (allowRelative && value === 'auto') {
+      return value;
+    }
+
+    const unit = /^-?[\d.]+([a-z]+)$/.exec(value);
+    if (unit) {
+      this.report(`Unsupported unit "${unit[1]}" (use px): ${value}`);
+      return undefined;
+    }
+    return this.invalid('length', value);
+  }
+
+  private number(value: string): number | undefined {
+    const number = Number(value);
+    return value !== '' && Number.isFinite(number) ? number : this.invalid('number', value);
+  }
+
+  private color(value: string): string | undefined {
+    if (parseColor(value) === null) {
+      return this.invalid('color', value);
+    }
+    return value;
+  }
+
+  private keyword(key: string, value: string): string | undefined {
+    return KEYWORD_PROPERTIES[key].includes(value) ? value : this.invalid(key, value);
+  }
+
+  private invalid(kind: string, value: string): undefined {
+    this.report(`Unsupported ${kind} value: ${value}`);
+    return undefined;
+  }
+
+  private assign(target: StyleValues, key: string, value: unknown): void {
+    if (value !== undefined) {
+      target[key] = value;
+    }
+  }
+}
+
+/**
+ * Recursive-descent parser over the stylesheet source
+ */
+class CssParser {
+  private index = 0;
+  private readonly lineStarts: number[] = [0];
+  private readonly variables = new Map<string, string>();
+  private readonly styles: Record<string, StyleValues> = {};
+  readonly diagnostics: CssDiagnostic[] = [];
+
+  constructor(
+    private readonly source: string,
+    private readonly file: string,
+    private readonly scss: boolean
+  ) {
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  parse(): Record<string, ResponsiveStyle<NativeStyle>> {
+    this.parseRules(null);
+    return this.styles as Record<string, ResponsiveStyle<NativeStyle>>;
+  }
+
+  /**
+   * Parse rules until the end of the source or of the enclosing block
+   */
+  private parseRules(media: MediaQueryKey | null): void {
+    for (;;) {
+      this.skipTrivia();
+      if (this.index >= this.source.length) {
+        if (media) {
+          this.diagnose(this.index, 'Unclosed @media block', 'error');
+        }
+        return;
+      }
+      if (this.source[this.index] === '}') {
+        if (media) {
+          this.index++;
+          return;
+        }
+        this.diagnose(this.index, 'Unexpected "}"', 'error');
+        this.index++;
+        continue;
+      }
+
+      const start = this.index;
+      const { text: prelude, terminator } = this.readUntil(/[{};]/);
+
+      if (terminator !== '{') {
+        this.atStatement(start, prelude.trim());
+      } else if (prelude.startsWith('@media')) {
+        this.mediaBlock(start, prelude, media);
+      } else if (prelude.startsWith('@')) {
+        this.diagnose(start, `Unsupported at-rule: ${prelude.split(/\s/)[0]}`);
+        this.skipBlock();
+      } else {
+        this.ruleBlock(start, prelude, media);
+      }
+    }
+  }
+
+  /**
+   * Statement ending with `;` (SCSS variable or at-rule like `@import`)
+   */
+  private atStatement(start: number, statement: string): void {
+    const variable = /^\$([\w-]+)\s*:\s*([\s\S]+?)(?:\s*!default)?$/.exec(statement);
+    if (this.scss && variable) {
+      const value = this.substitute(start, variable[2]);
+      if (value !== null) {
+        this.variables.set(variable[1], value);
+      }
+    } else if (statement.startsWith('@')) {
+      this.diagnose(start, `Unsupported at-rule: ${statement.split(/\s/)[0]}`);
+    } else if (statement) {
+      this.diagnose(start, `Unexpected "${statement}"`, 'error');
+    }
+  }
+
+  private mediaBlock(start: number, prelude: string, media: MediaQueryKey | null): void {
+    const key = `@media ${prelude.slice('@media'.length).trim().replace(/\s+/g, ' ')}` as MediaQueryKey;
+
+    if (media) {
+      this.diagnose(start, 'Nested @media blocks are not supported');
+      this.skipBlock();
+      return;
+    }
+
+    try {
+      matchMediaQuery(key, { width: 0, height: 0, fontScale: 1 });
+    } catch (error) {
+      this.diagnose(start, (error as Error).message.replace(/^\[StyleService\] /, ''));
+      this.skipBlock();
+      return;
+    }
+
+    this.parseRules(key);
+  }
+
+  private ruleBlock(start: number, prelude: string, media: MediaQueryKey | null): void {
+    const classNames: string[] = [];
+
+    for (const selector of prelude.split(',').map((part) => part.trim())) {
+      const match = CLASS_SELECTOR.exec(selector);
+      if (match) {
+        classNames.push(match[1]);
+      } else {
+        this.diagnose(start, `Unsupported selector "${selector}" (only single class selectors are supported)`);
+      }
+    }
+
+    const declarations = this.parseDeclarations();
+    if (classNames.length === 0) {
+      return;
+    }
+
+    for (const className of classNames) {
+      const style = (this.styles[className] ??= {});
+      if (media) {
+        style[media] = { ...(style[media] as StyleValues | undefined), ...declarations };
+      } else {
+        Object.assign(style, declarations);
+      }
+    }
+  }
+
+  /**
+   * Parse the declarations of a rule up to and including its `}`
+   */
+  private parseDeclarations(): StyleValues {
+    const values: StyleValues = {};
+
+    for (;;) {
+      this.skipTrivia();
+      if (this.index >= this.source.length) {
+        this.diagnose(this.index, 'Unclosed block', 'error');
+        return values;
+      }
+      if (this.source[this.index] === '}') {
+        this.index++;
+        return values;
+      }
+
+      const start = this.index;
+      const { text, terminator } = this.readUntil(/[{};]/);
+
+      if (terminator === '{') {
+        this.diagnose(start, `Nested rules are not supported: ${text.trim()}`);
+        this.skipBlock();
+        continue;
+      }
+      if (terminator === '}') {
+        // Last declaration without a semicolon
+        this.index--;
+      }
+
+      this.declaration(start, text.trim(), values);
+    }
+  }
+
+  private declaration(start: number, text: string, values: StyleValues): void {
+    if (!text) {
+      return;
+    }
+
+    const colon = text.indexOf(':');
+    if (colon <= 0) {
+      this.diagnose(start, `Expected "property: value", found "${text}"`, 'error');
+      return;
+    }
+
+    const property = text.slice(0, colon).trim().toLowerCase();
+    let value = text.slice(colon + 1).trim();
+
+    if (/!important$/.test(value)) {
+      this.diagnose(start, `!important is ignored: ${property}`);
+      value = value.replace(/\s*!important$/, '');
+    }
+
+    const substituted = this.substitute(start, value);
+    if (substituted !== null) {
+      const converter = new DeclarationConverter((message, severity) => this.diagnose(start, message, severity));
+      converter.convert(property, substituted, values);
+    }
+  }
+
+  /**
+   * Replace SCSS variables in a value (`null` if one is undefined)
+   */
+  private substitute(offset: number, value: string): string | null {
+    if (!this.scss) {
+      return value;
+    }
+
+    let defined = true;
+    const substituted = value.replace(/\$([\w-]+)/g, (reference, name: string) => {
+      const replacement = this.variables.get(name);
+      if (replacement === undefined) {
+        this.diagnose(offset, `Undefined variable: ${reference}`, 'error');
+        defined = false;
+        return reference;
+      }
+      return replacement;
+    });
+    return defined ? substituted : null;
+  }
+
+  /**
+   * Read up to a terminator outside of parentheses and strings (consuming it)
+   */
+  private readUntil(terminators: RegExp): { text: string; terminator: string | null } {
+    let text = '';
+    let depth = 0;
+    let quote: string | null = null;
+
+    while (this.index < this.source.length) {
+      if (this.atComment()) {
+        this.skipTrivia();
+        text += ' ';
+        continue;
+      }
+
+      const char = this.source[this.index++];
+      if (quote) {
+        quote = char === quote ? null : quote;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+      } else if (depth === 0 && terminators.test(char)) {
+        return { text, terminator: char };
+      }
+      text += char;
+    }
+
+    return { text, terminator: null };
+  }
+
+  /**
+   * Skip a block whose `{` was just consumed
+   */
+  private skipBlock(): void {
+    let depth = 1;
+    while (depth > 0 && this.index < this.source.length) {
+      const { terminator } = this.readUntil(/[{}]/);
+      if (terminator === '{') depth++;
+      if (terminator === '}') depth--;
+      if (terminator === null) {
+        this.diagnose(this.index, 'Unclosed block', 'error');
+      }
+    }
+  }
+
+  private atComment(): boolean {
+    return this.source.startsWith('/*', this.index) || (this.scss && this.source.startsWith('//', this.index));
+  }
+
+  private skipTrivia(): void {
+    while (this.index < this.source.length) {
+      if (/\s/.test(this.source[this.index])) {
+        this.index++;
+      } else if (this.source.startsWith('/*', this.index)) {
+        const end = this.source.indexOf('*/', this.index + 2);
+        if (end === -1) {
+          this.diagnose(this.index, 'Unclosed comment', 'error');
+          this.index = this.source.length;
+        } else {
+          this.index = end + 2;
+        }
+      } else if (this.scss && this.source.startsWith('//', this.index)) {
+        const end = this.source.indexOf('\n', this.index);
+        this.index = end === -1 ? this.source.length : end + 1;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private diagnose(offset: number, message: string, severity: CssDiagnosticSeverity = 'warning'): void {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    this.diagnostics.push({
+      file: this.file,
+      line: low + 1,
+      column: offset - this.lineStarts[low] + 1,
+      severity,
+      message,
+    });
+  }
+}
+
+/**
+ * Compile a stylesheet into native styles keyed by class name
+ */
+export function compileCss(source: string, options: CssCompileOptions = {}): CssCompileResult {
+  const file = options.file ?? '<inline>';
+  const syntax = options.syntax ?? (file.endsWith('.scss') ? 'scss' : 'css');
+  const parser = new CssParser(source, file, syntax === 'scss');
+  const styles = parser.parse();
+
+  return { styles, diagnostics: parser.diagnostics };
+}
+
+/**
+ * Format a diagnostic as `file:line:column - severity: message`
+ */
+export function formatCssDiagnostic(diagnostic: CssDiagnostic): string {
+  return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - ${diagnostic.severity}: ${diagnostic.message}`;
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { NativeBridge } from '../bridge/native-bridge';
+import { MockNativeRuntime } from '../testing/mock-native-runtime';
+import { LEGACY_BRIDGE_CAPABILITIES } from '../bridge/bridge-protocol';
+import { GestureState } from '../../types/event.types';
+import { GestureHandlerModule, isValidGestureTransition } from './gesture-handler';
+
+describe('GestureHandlerModule', () => {
+  let runtime: MockNativeRuntime;
+  let gestures: GestureHandlerModule;
+
+  async function connect(capabilities?: string[]): Promise<void> {
+    runtime = new MockNativeRuntime({ capabilities }).install();
+    const bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+    await bridge.connect();
+    await bridge.request('createView', { viewId: 'view_1', viewType: 'View', props: {} });
+    gestures = new GestureHandlerModule(bridge);
+  }
+
+  async function flush(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  afterEach(() => {
+    gestures.dispose();
+    runtime.uninstall();
+    vi.restoreAllMocks();
+  });
+
+  it('should create and attach native recognizers', async () => {
+    await connect();
+    const pan = gestures.createGestureHandler('pan', { minDistance: 20 });
+    gestures.attachGestureHandler(pan, 'view_1');
+    await flush();
+
+    expect(runtime.getGestureHandlers('view_1')).toEqual([
+      {
+        handlerTag: pan.handlerTag,
+        handlerType: 'pan',
+        config: { minDistance: 20, simultaneousHandlers: [], waitFor: [] },
+        viewId: 'view_1',
+        state: GestureState.Undetermined,
+      },
+    ]);
+  });
+
+  it('should report state changes and active updates', async () => {
+    await connect();
+    const pan = gestures.createGestureHandler('pan');
+    gestures.attachGestureHandler(pan, 'view_1');
+    await flush();
+
+    const states: Array<[GestureState, GestureState]> = [];
+    const translations: number[] = [];
+    pan.gestureStateChanges.subscribe((event) => states.push([event.nativeEvent.oldState, event.nativeEvent.state]));
+    pan.gestureEvents.subscribe((event) => translations.push(event.nativeEvent.translationX));
+
+    runtime.emitGestureEvent(pan.handlerTag, GestureState.Began, { translationX: 0 });
+    runtime.emitGestureEvent(pan.handlerTag, GestureState.Active, { translationX: 12 });
+    runtime.emitGestureEvent(pan.handlerTag, GestureState.Active, { translationX: 30 });
+    runtime.emitGestureEvent(pan.handlerTag, GestureState.End, { translationX: 30 });
+    await flush();
+
+    expect(states).toEqual([
+      [GestureState.Undetermined, GestureState.Began],
+      [GestureState.Began, GestureState.Active],
+      [GestureState.Active, GestureState.End],
+    ]);
+    expect(translations).toEqual([12, 30]);
+    expect(pan.state).toBe(GestureState.End);
+  });
+
+  it('should pass through Began when a recognizer activates directly', async () => {
+    await connect();
+    const tap = gestures.createGestureHandler('tap');
+    gestures.attachGestureHandler(tap, 'view_1');
+    await flush();
+
+    const states: GestureState[] = [];
+    tap.gestureStateChanges.subscribe((event) => {
+      states.push(event.nativeEvent.state);
+      expect(event.target).toBe('view_1');
+    });
+
+    runtime.emitGestureEvent(tap.handlerTag, GestureState.Active, { x: 5, y: 5 });
+    runtime.emitGestureEvent(tap.handlerTag, GestureState.Undetermined);
+    await flush();
+
+    expect(states).toEqual([GestureState.Began, GestureState.Active]);
+  });
+
+  it('should send relations to native by handler tag', async () => {
+    await connect();
+    const pinch = gestures.createGestureHandler('pinch');
+    const rotation = gestures.createGestureHandler('rotation');
+    const doubleTap = gestures.createGestureHandler('tap', { numberOfTaps: 2 });
+    const singleTap = gestures.createGestureHandler('tap');
+
+    gestures.simultaneous(pinch, rotation);
+    gestures.exclusive(doubleTap, singleTap);
+    await flush();
+
+    expect(runtime.getGestureHandler(pinch.handlerTag)?.config).toMatchObject({
+      simultaneousHandlers: [rotation.handlerTag],
+    });
+    expect(runtime.getGestureHandler(rotation.handlerTag)?.config).toMatchObject({
+      simultaneousHandlers: [pinch.handlerTag],
+    });
+    expect(runtime.getGestureHandler(singleTap.handlerTag)?.config).toMatchObject({
+      waitFor: [doubleTap.handlerTag],
+    });
+    expect(runtime.getGestureHandler(doubleTap.handlerTag)?.config).toMatchObject({ waitFor: [] });
+  });
+
+  it('should update both sides when relations are replaced or dropped', async () => {
+    await connect();
+    const pan = gestures.createGestureHandler('pan');
+    const pinch = gestures.createGestureHandler('pinch');
+    const rotation = gestures.createGestureHandler('rotation');
+
+    gestures.setGestureRelations(pan, { simultaneousWith: [pinch, rotation] });
+    gestures.setGestureRelations(pan, { simultaneousWith: [rotation], requireToFail: [pinch] });
+    await flush();
+
+    expect(runtime.getGestureHandler(pinch.handlerTag)?.config).toMatchObject({ simultaneousHandlers: [] });
+    expect(runtime.getGestureHandler(pan.handlerTag)?.config).toMatchObject({
+      simultaneousHandlers: [rotation.handlerTag],
+      waitFor: [pinch.handlerTag],
+    });
+
+    gestures.dropGestureHandler(rotation);
+    await flush();
+
+    expect(runtime.getGestureHandler(rotation.handlerTag)).toBeUndefined();
+    expect(runtime.getGestureHandler(pan.handlerTag)?.config).toMatchObject({ simultaneousHandlers: [] });
+  });
+
+  it('should disable gestures without the capability', async () => {
+    await connect([...LEGACY_BRIDGE_CAPABILITIES]);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const pan = gestures.createGestureHandler('pan');
+    gestures.createGestureHandler('pinch');
+    gestures.attachGestureHandler(pan, 'view_1');
+    await flush();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(runtime.getReceivedMessages('createGestureHandler')).toHaveLength(0);
+    expect(runtime.getReceivedMessages('attachGestureHandler')).toHaveLength(0);
+  });
+});
+
+describe('isValidGestureTransition', () => {
+  it('should follow the recognizer state machine', () => {
+    expect(isValidGestureTransition(GestureState.Undetermined, GestureState.Began)).toBe(true);
+    expect(isValidGestureTransition(GestureState.Began, GestureState.Active)).toBe(true);
+    expect(isValidGestureTransition(GestureState.Active, GestureState.End)).toBe(true);
+    expect(isValidGestureTransition(GestureState.End, GestureState.Began)).toBe(true);
+    expect(isValidGestureTransition(GestureState.Undetermined, GestureState.End)).toBe(false);
+    expect(isValidGestureTransition(GestureState.Began, GestureState.End)).toBe(false);
+    expect(isValidGestureTransition(GestureState.Failed, GestureState.Active)).toBe(false);
+  });
+});
@@ -0,0 +1,473 @@
+/**
+ * Gesture Handlers
+ *
+ * JavaScript handles to native gesture recognizers (tap, long press, pan,
+ * pinch and rotation). Recognizers are created and attached to views over
+ * the bridge and run on the native side; JavaScript receives their state
+ * changes and, while they are active, their updates.
+ *
+ * Recognizers on the same touch are exclusive by default: once one
+ * activates the others are cancelled. `simultaneous` lets handlers be
+ * active together and `requireToFail` holds a handler back until others
+ * have failed (e.g. a single tap waiting for a double tap).
+ *
+ * @example
+ * ```typescript
+ * const gestures = new GestureHandlerModule(bridge);
+ * const pinch = gestures.createGestureHandler('pinch');
+ * const rotation = gestures.createGestureHandler('rotation');
+ * gestures.simultaneous(pinch, rotation);
+ * gestures.attachGestureHandler(pinch, viewId);
+ * gestures.attachGestureHandler(rotation, viewId);
+ * ```
+ */
+
+import { Observable, Subject } from 'rxjs';
+import { JsonValue, NativeBridge } from '../bridge/native-bridge';
+import { BridgeMessagePayload, BridgeMessageType } from '../bridge/bridge-protocol';
+import {
+  BaseNativeEvent,
+  GestureState,
+  GestureStateChangeEvent,
+  LongPressGestureEventNativeData,
+  PanGestureEventNativeData,
+  PinchGestureEventNativeData,
+  RotationGestureEventNativeData,
+  TapGestureEventNativeData,
+  createNativeEvent,
+} from '../../types/event.types';
+
+/**
+ * Capability reported by native runtimes that implement gesture recognizers
+ */
+export const GESTURES_CAPABILITY = 'gestures';
+
+/**
+ * Options shared by every recognizer
+ */
+export interface BaseGestureConfig {
+  /** Disabled recognizers never leave `Undetermined` (default: true) */
+  enabled?: boolean;
+  /** Cancel the gesture when the touch leaves the view (default: false, true for tap and long press) */
+  shouldCancelWhenOutside?: boolean;
+}
+
+/**
+ * Tap recognizer options
+ */
+export interface TapGestureConfig extends BaseGestureConfig {
+  /** Taps required to activate (default: 1) */
+  numberOfTaps?: number;
+  /** Longest a single tap may be held (default: 500) */
+  maxDurationMs?: number;
+  /** Longest wait between taps (default: 500) */
+  maxDelayMs?: number;
+  /** Furthest the touch may move before the tap fails (default: 10) */
+  maxDist?: number;
+}
+
+/**
+ * Long press recognizer options
+ */
+export interface LongPressGestureConfig extends BaseGestureConfig {
+  /** Time the touch must be held to activate (default: 500) */
+  minDurationMs?: number;
+  /** Furthest the touch may move before the press fails (default: 10) */
+  maxDist?: number;
+}
+
+/**
+ * Pan recognizer options
+ */
+export interface PanGestureConfig extends BaseGestureConfig {
+  /** Distance the touch must move to activate (default: 10) */
+  minDistance?: number;
+  /** Fewest pointers that can pan (default: 1) */
+  minPointers?: number;
+  /** Most pointers that can pan (default: 10) */
+  maxPointers?: number;
+}
+
+/**
+ * Pinch recognizer options
+ */
+export type PinchGestureConfig = BaseGestureConfig;
+
+/**
+ * Rotation recognizer options
+ */
+export type RotationGestureConfig = BaseGestureConfig;
+
+/**
+ * Options of each recognizer type
+ */
+export interface GestureConfigMap {
+  tap: TapGestureConfig;
+  longPress: LongPressGestureConfig;
+  pan: PanGestureConfig;
+  pinch: PinchGestureConfig;
+  rotation: RotationGestureConfig;
+}
+
+/**
+ * Event data of each recognizer type
+ */
+export interface GestureEventDataMap {
+  tap: TapGestureEventNativeData;
+  longPress: LongPressGestureEventNativeData;
+  pan: PanGestureEventNativeData;
+  pinch: PinchGestureEventNativeData;
+  rotation: RotationGestureEventNativeData;
+}
+
+/**
+ * Recognizer type
+ */
+export type GestureHandlerType = keyof GestureConfigMap;
+
+/**
+ * Config sent to native: recognizer options plus relations by handler tag
+ */
+export type NativeGestureHandlerConfig = BaseGestureConfig &
+  Record<string, unknown> & {
+    simultaneousHandlers: number[];
+    waitFor: number[];
+  };
+
+/**
+ * How a recognizer relates to others on the same touch
+ */
+export interface GestureRelations {
+  /** Handlers that may be active at the same time */
+  simultaneousWith?: GestureHandler[];
+  /** Handlers that must fail before this one can activate */
+  requireToFail?: GestureHandler[];
+}
+
+/**
+ * Payload of the `gestureHandlerEvent` event
+ */
+export interface GestureHandlerNativeEvent {
+  handlerTag: number;
+  state: GestureState;
+  data: Record<string, number>;
+}
+
+/**
+ * States each state may move to
+ *
+ * Terminal states (`End`, `Failed`, `Cancelled`) reset to `Undetermined`
+ * or start the next gesture.
+ */
+export const GESTURE_STATE_TRANSITIONS: Readonly<Record<GestureState, readonly GestureState[]>> = {
+  [GestureState.Undetermined]: [GestureState.Began],
+  [GestureState.Began]: [GestureState.Active, GestureState.Failed, GestureState.Cancelled],
+  [GestureState.Active]: [GestureState.End, GestureState.Failed, GestureState.Cancelled],
+  [GestureState.End]: [GestureState.Undetermined, GestureState.Began],
+  [GestureState.Failed]: [GestureState.Undetermined, GestureState.Began],
+  [GestureState.Cancelled]: [GestureState.Undetermined, GestureState.Began],
+};
+
+/**
+ * Whether a recognizer may move from one state to another
+ */
+export function isValidGestureTransition(from: GestureState, to: GestureState): boolean {
+  return GESTURE_STATE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * JavaScript handle to a native recognizer
+ */
+export class GestureHandler<K extends GestureHandlerType = GestureHandlerType> {
+  private currentState = GestureState.Undetermined;
+  private viewIdValue: string | null = null;
+  // Typed per recognizer through the getters, so any handler is assignable to `GestureHandler`
+  private readonly events = new Subject<BaseNativeEvent<unknown>>();
+  private readonly stateChanges = new Subject<BaseNativeEvent<unknown>>();
+
+  /** Handlers that may be active at the same time as this one */
+  readonly simultaneousHandlers = new Set<GestureHandler>();
+
+  /** Handlers that must fail before this one can activate */
+  readonly waitFor = new Set<GestureHandler>();
+
+  /** Created by `GestureHandlerModule.createGestureHandler` */
+  constructor(
+    readonly handlerTag: number,
+    readonly type: K,
+    public config: GestureConfigMap[K]
+  ) {}
+
+  /**
+   * Current state of the recognizer
+   */
+  get state(): GestureState {
+    return this.currentState;
+  }
+
+  /**
+   * View the recognizer is attached to
+   */
+  get viewId(): string | null {
+    return this.viewIdValue;
+  }
+
+  /**
+   * Updates while the gesture is active
+   */
+  get gestureEvents(): Observable<BaseNativeEvent<GestureEventDataMap[K]>> {
+    return this.events.asObservable() as Observable<BaseNativeEvent<GestureEventDataMap[K]>>;
+  }
+
+  /**
+   * Every state change, with the previous state
+   */
+  get gestureStateChanges(): Observable<GestureStateChangeEvent<GestureEventDataMap[K]>> {
+    return this.stateChanges.asObservable() as Observable<GestureStateChangeEvent<GestureEventDataMap[K]>>;
+  }
+
+  /**
+   * Internal: record the view the recognizer was attached to
+   */
+  _setViewId(viewId: string | null): void {
+    this.viewIdValue = viewId;
+  }
+
+  /**
+   * Internal: apply an event reported by the native recognizer
+   *
+   * Invalid transitions are dropped, except that a recognizer that
+   * activates without having begun passes through `Began` first, so
+   * listeners always see `Began` before `Active`.
+   */
+  _handleNativeEvent(state: GestureState, data: Record<string, number>): void {
+    if (state === this.currentState) {
+      if (state === GestureState.Active) {
+        this.events.next(this.createEvent('gestureEvent', { ...data, state }));
+      }
+      return;
+    }
+
+    if (state === GestureState.Active && !isValidGestureTransition(this.currentState, state)) {
+      this._handleNativeEvent(GestureState.Began, data);
+    }
+
+    if (!isValidGestureTransition(this.currentState, state)) {
+      return;
+    }
+
+    const oldState = this.currentState;
+    this.currentState = state;
+    this.stateChanges.next(this.createEvent('gestureStateChange', { ...data, state, oldState }));
+
+    if (state === GestureState.Active) {
+      this.events.next(this.createEvent('gestureEvent', { ...data, state }));
+    }
+  }
+
+  /**
+   * Internal: complete the event streams
+   */
+  _complete(): void {
+    this.events.complete();
+    this.stateChanges.complete();
+  }
+
+  private createEvent<T>(type: string, nativeEvent: Record<string, number>): BaseNativeEvent<T> {
+    const event = createNativeEvent(type, nativeEvent as unknown as T);
+    event.target = this.viewIdValue ?? '';
+    event.currentTarget = event.target;
+    return event;
+  }
+}
+
+/**
+ * Bridge-backed registry of gesture recognizers
+ */
+export class GestureHandlerModule {
+  private nextHandlerTag = 1;
+  private warnedUnavailable = false;
+  private readonly handlers = new Map<number, GestureHandler>();
+  private readonly unsubscribe: () => void;
+
+  constructor(private readonly bridge: NativeBridge) {
+    this.unsubscribe = bridge.on<GestureHandlerNativeEvent>('gestureHandlerEvent', (event) => {
+      this.handlers.get(event.handlerTag)?._handleNativeEvent(event.state, event.data ?? {});
+    });
+  }
+
+  /**
+   * Whether the connected native runtime implements gesture recognizers
+   */
+  get isAvailable(): boolean {
+    return this.bridge.capabilities.has(GESTURES_CAPABILITY);
+  }
+
+  /**
+   * Create a recognizer; it does nothing until attached to a view
+   */
+  createGestureHandler<K extends GestureHandlerType>(type: K, config: GestureConfigMap[K] = {}): GestureHandler<K> {
+    const handler = new GestureHandler(this.nextHandlerTag++, type, config);
+    this.handlers.set(handler.handlerTag, handler);
+
+    if (this.ensureAvailable()) {
+      this.post('createGestureHandler', {
+        handlerTag: handler.handlerTag,
+        handlerType: type,
+        config: this.toNativeConfig(handler),
+      });
+    }
+    return handler;
+  }
+
+  /**
+   * Attach a recognizer to a native view
+   */
+  attachGestureHandler(handler: GestureHandler, viewId: string): void {
+    handler._setViewId(viewId);
+    if (this.isAvailable) {
+      this.post('attachGestureHandler', { handlerTag: handler.handlerTag, viewId });
+    }
+  }
+
+  /**
+   * Replace the options of a recognizer
+   */
+  updateGestureHandler<K extends GestureHandlerType>(handler: GestureHandler<K>, config: GestureConfigMap[K]): void {
+    handler.config = config;
+    this.sync(handler);
+  }
+
+  /**
+   * Replace the relations of a recognizer
+   *
+   * Simultaneity is mutual, so handlers added to or removed from
+   * `simultaneousWith` are updated as well.
+   */
+  setGestureRelations(handler: GestureHandler, relations: GestureRelations): void {
+    const simultaneousWith = relations.simultaneousWith ?? [];
+
+    for (const other of handler.simultaneousHandlers) {
+      if (!simultaneousWith.includes(other)) {
+        other.simultaneousHandlers.delete(handler);
+        this.sync(other);
+      }
+    }
+    handler.simultaneousHandlers.clear();
+
+    for (const other of simultaneousWith) {
+      handler.simultaneousHandlers.add(other);
+      if (!other.simultaneousHandlers.has(handler)) {
+        other.simultaneousHandlers.add(handler);
+        this.sync(other);
+      }
+    }
+
+    handler.waitFor.clear();
+    (relations.requireToFail ?? []).forEach((other) => handler.waitFor.add(other));
+    this.sync(handler);
+  }
+
+  /**
+   * Let the handlers be active at the same time
+   */
+  simultaneous(...handlers: GestureHandler[]): void {
+    for (const handler of handlers) {
+      for (const other of handlers) {
+        if (other !== handler) {
+          handler.simultaneousHandlers.add(other);
+        }
+      }
+    }
+    handlers.forEach((handler) => this.sync(handler));
+  }
+
+  /**
+   * Give the handlers priority in order: each only activates once all
+   * handlers before it have failed
+   */
+  exclusive(...handlers: GestureHandler[]): void {
+    handlers.forEach((handler, index) => {
+      this.requireToFail(handler, ...handlers.slice(0, index));
+    });
+  }
+
+  /**
+   * Hold `handler` back until every one of `others` has failed
+   */
+  requireToFail(handler: GestureHandler, ...others: GestureHandler[]): void {
+    if (others.length === 0) {
+      return;
+    }
+    others.forEach((other) => handler.waitFor.add(other));
+    this.sync(handler);
+  }
+
+  /**
+   * Detach and drop a recognizer
+   */
+  dropGestureHandler(handler: GestureHandler): void {
+    if (!this.handlers.delete(handler.handlerTag)) {
+      return;
+    }
+
+    for (const other of this.handlers.values()) {
+      const simultaneous = other.simultaneousHandlers.delete(handler);
+      const waiting = other.waitFor.delete(handler);
+      if (simultaneous || waiting) {
+        this.sync(other);
+      }
+    }
+
+    if (this.isAvailable) {
+      this.post('dropGestureHandler', { handlerTag: handler.handlerTag });
+    }
+    handler._setViewId(null);
+    handler._complete();
+  }
+
+  /**
+   * Drop every recognizer and stop listening for events
+   */
+  dispose(): void {
+    this.unsubscribe();
+    for (const handler of [...this.handlers.values()]) {
+      this.dropGestureHandler(handler);
+    }
+  }
+
+  private sync(handler: GestureHandler): void {
+    if (this.handlers.has(handler.handlerTag) && this.isAvailable) {
+      this.post('updateGestureHandler', {
+        handlerTag: handler.handlerTag,
+        config: this.toNativeConfig(handler),
+      });
+    }
+  }
+
+  private toNativeConfig(handler: GestureHandler): NativeGestureHandlerConfig {
+    return {
+      ...handler.config,
+      simultaneousHandlers: [...handler.simultaneousHandlers].map((other) => other.handlerTag),
+      waitFor: [...handler.waitFor].map((other) => other.handlerTag),
+    };
+  }
+
+  private ensureAvailable(): boolean {
+    if (this.isAvailable) {
+      return true;
+    }
+
+    if (!this.warnedUnavailable) {
+      this.warnedUnavailable = true;
+      console.warn('[GestureHandler] The native runtime has no gesture recognizers, gestures are disabled');
+    }
+    return false;
+  }
+
+  private post<K extends BridgeMessageType>(type: K, payload: BridgeMessagePayload<K>): void {
+    this.bridge.send({ type, payload: payload as unknown as JsonValue }).catch((error: unknown) => {
+      console.error(`[GestureHandler] ${type} failed:`, error);
+    });
+  }
+}
@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ElementRef,
+  EnvironmentInjector,
+  Injector,
+  Provider,
+  RendererFactory2,
+  createEnvironmentInjector,
+} from '@angular/core';
+import { AnimationDriver } from '@angular/animations/browser';
+import { bootstrapAndroidApplication, bootstrapIOSApplication } from './bootstrap';
+import { AndroidPlatform } from './platform-android';
+import { NativeBridge } from '../bridge/native-bridge';
+import { MockNativeRuntime } from '../testing/mock-native-runtime';
+import { NativeAnimatedModule } from '../animation/native-animated';
+import { getNativeAnimatedDriver, setNativeAnimatedDriver } from '../animation/animated';
+import { NativeAnimationDriver } from '../animation/native-animation-driver';
+import { provideNativeAnimations } from '../animation/provide-native-animations';
+import { GestureHandlerModule } from '../gestures/gesture-handler';
+import { MobileElementNode, MobileRendererFactory } from '../runtime/mobile-renderer';
+import { TapGestureDirective } from '../../directives/gestures/gesture.directives';
+import { GestureState } from '../../types/event.types';
+import { getActiveColorScheme, setActiveColorScheme } from '../theme/dynamic-color';
+import { getMediaEnvironment, setMediaEnvironment } from '../responsive/media-query';
+import { COLOR_SCHEME_PREFERENCE_KEY, ThemeService } from '../../services/theme.service';
+
+// The browser platform needs a DOM; resolve the application providers
+// against a bare root injector instead
+vi.mock('@angular/platform-browser', () => ({
+  bootstrapApplication: async (_rootComponent: unknown, { providers }: { providers: Provider[] }) => {
+    const injector = createEnvironmentInjector(
+      providers,
+      Injector.create({ providers: [], name: 'BootstrapRoot' }) as EnvironmentInjector
+    );
+    const destroyListeners: Array<() => void> = [];
+    return {
+      injector,
+      onDestroy: (listener: () => void) => destroyListeners.push(listener),
+      destroy: () => {
+        destroyListeners.forEach((listener) => listener());
+        injector.destroy();
+      },
+    };
+  },
+}));
+
+// Only the DI wiring of provideNativeAnimations() is under test
+vi.mock('@angular/animations/browser', () => ({
+  AnimationDriver: class AnimationDriver {},
+  ɵAnimationEngine: class AnimationEngine {},
+  ɵAnimationRendererFactory: class AnimationRendererFactory {},
+  ɵAnimationStyleNormalizer: class AnimationStyleNormalizer {},
+  ɵNoopAnimationStyleNormalizer: class NoopAnimationStyleNormalizer {},
+}));
+
+class AppComponent {}
+
+describe('bootstrapAndroidApplication', () => {
+  let runtime: MockNativeRuntime;
+
+  const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    runtime = new MockNativeRuntime().install();
+    runtime.onRequest('getStorageItem', () => null);
+    runtime.onRequest('getDimensions', () => ({
+      window: { width: 400, height: 800, scale: 2, fontScale: 1 },
+      screen: { width: 400, height: 800, scale: 2, fontScale: 1 },
+    }));
+  });
+
+  afterEach(async () => {
+    setActiveColorScheme('light');
+    setMediaEnvironment({ width: 0, height: 0, fontScale: 1 });
+    await AndroidPlatform.getInstance().destroy();
+    runtime.uninstall();
+  });
+
+  it('should provide the platform services', async () => {
+    const appRef = await bootstrapAndroidApplication(AppComponent);
+    const platform = AndroidPlatform.getInstance();
+
+    expect(appRef.injector.get(NativeBridge)).toBe(platform.getBridge());
+    expect(appRef.injector.get(RendererFactory2)).toBe(platform.getRendererFactory());
+    expect(appRef.injector.get(NativeAnimatedModule)).toBe(platform.getNativeAnimated());
+    expect(runtime.getReceivedMessages('appReady')).toHaveLength(1);
+  });
+
+  it('should set up provideNativeAnimations()', async () => {
+    const appRef = await bootstrapAndroidApplication(AppComponent, {
+      providers: [provideNativeAnimations()],
+    });
+
+    expect(appRef.injector.get(AnimationDriver)).toBeInstanceOf(NativeAnimationDriver);
+  });
+
+  it('should run gesture directives', async () => {
+    const appRef = await bootstrapAndroidApplication(AppComponent);
+    const rendererFactory = appRef.injector.get(MobileRendererFactory);
+    const renderer = rendererFactory.createRenderer(null, null);
+    const el = renderer.createElement('mobile-view') as MobileElementNode;
+    await rendererFactory.whenRenderingDone();
+
+    // Constructed like Angular would for `<mobile-view (mobileTapGesture)>`
+    const tap = new TapGestureDirective(new ElementRef(el), appRef.injector.get(GestureHandlerModule));
+    const taps = vi.fn();
+    tap.mobileTapGesture.subscribe(taps);
+    tap.ngOnInit();
+    await settle();
+
+    expect(runtime.getGestureHandlers(el.viewId).map((handler) => handler.handlerType)).toEqual(['tap']);
+
+    runtime.emitGestureEvent(tap.handler!.handlerTag, GestureState.Active, { x: 5, y: 5 });
+    await settle();
+    expect(taps).toHaveBeenCalledTimes(1);
+
+    tap.ngOnDestroy();
+  });
+
+  it('should evaluate media queries against the device window', async () => {
+    const appRef = await bootstrapAndroidApplication(AppComponent);
+    expect(getMediaEnvironment()).toEqual({ width: 400, height: 800, fontScale: 1 });
+
+    await settle();
+    runtime.emit('dimensionsChange', {
+      window: { width: 800, height: 400, scale: 2, fontScale: 1.3 },
+      screen: { width: 800, height: 400, scale: 2, fontScale: 1.3 },
+    });
+    await settle();
+
+    expect(getMediaEnvironment()).toEqual({ width: 800, height: 400, fontScale: 1.3 });
+    appRef.injector.get(ThemeService).ngOnDestroy();
+  });
+
+  it('should start the ThemeService with the application', async () => {
+    const appRef = await bootstrapAndroidApplication(AppComponent);
+    await settle();
+
+    runtime.emit('colorSchemeChange', { colorScheme: 'dark' });
+    await settle();
+    expect(getActiveColorScheme()).toBe('dark');
+
+    const theme = appRef.injector.get(ThemeService);
+    await theme.setColorSchemePreference('light');
+    expect(getActiveColorScheme()).toBe('light');
+    theme.ngOnDestroy();
+  });
+
+  it('should apply the persisted color scheme override', async () => {
+    runtime.onRequest('getStorageItem', ({ key }) => (key === COLOR_SCHEME_PREFERENCE_KEY ? '"dark"' : null));
+
+    const appRef = await bootstrapAndroidApplication(AppComponent);
+    await settle();
+
+    expect(getActiveColorScheme()).toBe('dark');
+    appRef.injector.get(ThemeService).ngOnDestroy();
+  });
+});
+
+describe('bootstrapIOSApplication', () => {
+  let runtime: MockNativeRuntime;
+  let appRef: Awaited<ReturnType<typeof bootstrapIOSApplication>> | null;
+  let bridge: NativeBridge | null;
+
+  const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const reportVersion = (versionNumber: number): void => {
+    const window = { width: 390, height: 844, scale: 3, fontScale: 1 };
+    runtime.onRequest('getPlatformInfo', () => ({
+      os: {
+        type: 'ios',
+        version: `${versionNumber}.0`,
+        versionNumber,
+        isTablet: false,
+        isTV: false,
+        model: 'iPhone',
+        deviceName: 'iPhone',
+      },
+      constants: { isDebugging: false, isRTL: false },
+      dimensions: { window, screen: window },
+      colorScheme: 'light',
+      safeAreaInsets: { top: 47, right: 0, bottom: 34, left: 0 },
+    }));
+  };
+
+  beforeEach(() => {
+    appRef = null;
+    bridge = null;
+    runtime = new MockNativeRuntime({ global: '__IOS_BRIDGE__' }).install();
+    runtime.onRequest('getStorageItem', () => null);
+    runtime.onRequest('getDimensions', () => ({
+      window: { width: 390, height: 844, scale: 3, fontScale: 1 },
+      screen: { width: 390, height: 844, scale: 3, fontScale: 1 },
+    }));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    appRef?.destroy();
+    await bridge?.disconnect();
+    setNativeAnimatedDriver(null);
+    setActiveColorScheme('light');
+    setMediaEnvironment({ width: 0, height: 0, fontScale: 1 });
+    runtime.uninstall();
+    vi.restoreAllMocks();
+  });
+
+  it('should reject iOS versions older than minIOSVersion', async () => {
+    reportVersion(14);
+
+    await expect(bootstrapIOSApplication(AppComponent, { config: { minIOSVersion: 15 } })).rejects.toThrow(
+      'iOS 14.0 is older than the minimum supported version 15'
+    );
+    expect(runtime.getReceivedMessages('appReady')).toEqual([]);
+  });
+
+  it('should release the platform modules when bootstrapping fails', async () => {
+    reportVersion(14);
+    const disconnect = vi.spyOn(NativeBridge.prototype, 'disconnect');
+
+    await expect(bootstrapIOSApplication(AppComponent, { config: { minIOSVersion: 15 } })).rejects.toThrow();
+    expect(getNativeAnimatedDriver()).toBeNull();
+    expect(disconnect).toHaveBeenCalled();
+  });
+
+  it('should report connection failures to the error handler', async () => {
+    const failure = new Error('No native runtime');
+    vi.spyOn(NativeBridge.prototype, 'connect').mockRejectedValue(failure);
+    const errorHandler = vi.fn();
+
+    await expect(bootstrapIOSApplication(AppComponent, { errorHandler })).rejects.toBe(failure);
+    expect(errorHandler).toHaveBeenCalledWith(failure);
+    expect(console.error).toHaveBeenCalledWith('[Angular Platform Mobile] iOS bootstrap failed:', failure);
+  });
+
+  it('should release the platform modules when the application is destroyed', async () => {
+    reportVersion(17);
+    appRef = await bootstrapIOSApplication(AppComponent);
+    const nativeAnimated = appRef.injector.get(NativeAnimatedModule);
+    const disconnect = vi.spyOn(appRef.injector.get(NativeBridge), 'disconnect');
+    expect(getNativeAnimatedDriver()).toBe(nativeAnimated);
+
+    appRef.destroy();
+    appRef = null;
+    expect(getNativeAnimatedDriver()).toBeNull();
+    expect(disconnect).toHaveBeenCalled();
+  });
+
+  it('should reload on hot reload in development only', async () => {
+    reportVersion(17);
+    appRef = await bootstrapIOSApplication(AppComponent);
+    bridge = appRef.injector.get(NativeBridge);
+
+    runtime.emit('hotReload', {});
+    await settle();
+    appRef = null;
+    expect(runtime.getReceivedMessages('hotReloadReady')).toHaveLength(1);
+  });
+
+  it('should not reload in production', async () => {
+    reportVersion(17);
+    appRef = await bootstrapIOSApplication(AppComponent, { production: true });
+    bridge = appRef.injector.get(NativeBridge);
+
+    runtime.emit('hotReload', {});
+    await settle();
+    expect(runtime.getReceivedMessages('hotReloadReady')).toEqual([]);
+  });
+});
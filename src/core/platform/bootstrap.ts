@@ -1,11 +1,30 @@
-import { Type, NgModuleRef, ApplicationRef, PlatformRef, Provider } from '@angular/core';
-import { AndroidPlatform, AndroidPlatformConfig } from './platform-android';
+import { Type, NgModuleRef, ApplicationRef, PlatformRef, Provider, RendererFactory2 } from '@angular/core';
+import { AndroidPlatform, AndroidPlatformConfig, createAndroidPlatformProviders } from './platform-android';
+import { Platform, PLATFORM, PLATFORM_TYPE } from './platform';
+import { NativeBridge } from '../bridge/native-bridge';
+import { OptimizedRenderer } from '../runtime/optimized-renderer';
+import { ViewRegistry } from '../runtime/view-registry';
+import { EventDispatcher } from '../runtime/event-dispatcher';
+import { MobileRendererFactory } from '../runtime/mobile-renderer';
+import { NativeAnimatedModule } from '../animation/native-animated';
+import { GestureHandlerModule } from '../gestures/gesture-handler';
+import { setStyleValidationEnabled } from '../validation/style-validator';
+import { BridgeService } from '../bridge/bridge.service';
+import { DeviceService } from '../../services/device.service';
+import { StorageService } from '../../services/storage.service';
+import { ThemeService, provideThemeInitializer } from '../../services/theme.service';
+import {
+  IOSPlatform,
+  IOSPlatformConfig,
+  DEFAULT_IOS_CONFIG,
+} from '../../platforms/ios/ios-platform';
 
 /**
  * Global interface for error handler
  */
 interface GlobalWithErrorHandler {
   __androidErrorHandler?: (error: Error) => void;
+  __iosErrorHandler?: (error: Error) => void;
 }
 
 /**
@@ -24,15 +43,65 @@ export interface AndroidBootstrapOptions {
  * Extended bootstrap options with providers
  */
 export interface ExtendedBootstrapOptions extends AndroidBootstrapOptions {
-  /** Additional providers */
+  /**
+   * Additional providers
+   *
+   * Added after the platform's own, so they override them:
+   * `provideNativeAnimations()` wraps `RendererFactory2` this way.
+   * Replacing `NativeBridge` or `MobileRendererFactory` detaches the app
+   * from the native runtime the bootstrap connected to.
+   */
   providers?: Provider[];
 }
 
+/**
+ * Bootstrap options for iOS platform
+ */
+export interface IOSBootstrapOptions {
+  /** Platform configuration */
+  config?: IOSPlatformConfig;
+  /** Enable production mode */
+  production?: boolean;
+  /** Custom error handler */
+  errorHandler?: (error: Error) => void;
+  /** Additional providers, added after the platform's own (see `ExtendedBootstrapOptions.providers`) */
+  providers?: Provider[];
+}
+
+/**
+ * Bootstrap options for the cross-platform entry point
+ *
+ * Top-level options apply to Android; `ios` options are used
+ * instead when the app is running on iOS.
+ */
+export interface MobileBootstrapOptions extends ExtendedBootstrapOptions {
+  /** iOS-specific bootstrap options */
+  ios?: IOSBootstrapOptions;
+}
+
+/**
+ * Services of standalone apps
+ *
+ * The ThemeService starts with the application, so dynamic colors follow
+ * the device color scheme and the persisted override from the first render.
+ */
+function createServiceProviders(): Provider[] {
+  return [
+    { provide: BridgeService, useClass: BridgeService, deps: [NativeBridge] },
+    { provide: DeviceService, useClass: DeviceService, deps: [BridgeService] },
+    { provide: StorageService, useClass: StorageService, deps: [BridgeService] },
+    { provide: ThemeService, useClass: ThemeService, deps: [DeviceService, StorageService] },
+    provideThemeInitializer(),
+  ];
+}
+
 /**
  * Bootstrap an Angular application for Android
  *
  * This function initializes the Android platform and bootstraps
- * the root Angular module for native rendering.
+ * the root Angular module for native rendering. The root module must
+ * import `PlatformAndroidModule.forRoot()`, which replaces the DOM
+ * renderer with the native `MobileRendererFactory`.
  *
  * @example
  * ```typescript
@@ -53,6 +122,10 @@ export async function bootstrapAndroid<M>(
 ): Promise<NgModuleRef<M>> {
   const { config = {}, production = false, errorHandler } = options;
 
+  if (production) {
+    setStyleValidationEnabled(false);
+  }
+
   // Set up global error handling
   if (errorHandler) {
     const global = globalThis as GlobalWithErrorHandler;
@@ -72,7 +145,7 @@ export async function bootstrapAndroid<M>(
 
     // Set up hot reload if enabled
     if (config.hotReload && !production) {
-      setupHotReload(platform, moduleRef);
+      setupHotReload(platform.getBridge(), moduleRef);
     }
 
     // Notify native side that app is ready
@@ -106,34 +179,28 @@ function createAndroidNgPlatform(_androidPlatform: AndroidPlatform): PlatformRef
  * Bootstrap an Angular module
  */
 async function bootstrapModule<M>(
-  _platform: PlatformRef,
+  platform: PlatformRef,
   moduleType: Type<M>
 ): Promise<NgModuleRef<M>> {
-  // Dynamic import to support lazy loading
-  const { platformBrowser } = await import('@angular/platform-browser');
-  const browserPlatform = platformBrowser();
-
-  return browserPlatform.bootstrapModule(moduleType);
+  return platform.bootstrapModule(moduleType);
 }
 
 /**
  * Set up hot reload functionality for development
  */
-function setupHotReload<M>(platform: AndroidPlatform, moduleRef: NgModuleRef<M>): void {
-  const bridge = platform.getBridge();
-
+function setupHotReload(bridge: NativeBridge, moduleRef: { destroy(): void }): void {
   bridge.on('hotReload', async (_data: { bundleUrl: string }) => {
     console.log('[HotReload] Reloading application...');
 
     try {
-      // Destroy current module
-      moduleRef.destroy();
-
-      // Notify ready for reload
+      // Notify ready for reload while the bridge is still connected
       await bridge.send({
         type: 'hotReloadReady',
         payload: {},
       });
+
+      // Destroy current module
+      moduleRef.destroy();
     } catch (error) {
       console.error('[HotReload] Failed:', error);
     }
@@ -144,12 +211,22 @@ function setupHotReload<M>(platform: AndroidPlatform, moduleRef: NgModuleRef<M>)
 
 /**
  * Standalone component bootstrap for Angular 17+
+ *
+ * The component tree is rendered through the native
+ * `MobileRendererFactory` instead of the browser DOM renderer. The
+ * platform's services (`NativeBridge`, `NativeAnimatedModule`,
+ * `GestureHandlerModule`, ...) are provided like with
+ * `PlatformAndroidModule.forRoot()`, along with the `ThemeService`.
  */
 export async function bootstrapAndroidApplication<T>(
   rootComponent: Type<T>,
   options: ExtendedBootstrapOptions = {}
 ): Promise<ApplicationRef> {
-  const { config = {}, providers = [] } = options;
+  const { config = {}, providers = [], production = false } = options;
+
+  if (production) {
+    setStyleValidationEnabled(false);
+  }
 
   // Initialize the Android platform
   const platform = AndroidPlatform.getInstance(config);
@@ -160,7 +237,8 @@ export async function bootstrapAndroidApplication<T>(
 
   const appRef = await bootstrapApplication(rootComponent, {
     providers: [
-      { provide: AndroidPlatform, useValue: platform },
+      ...createAndroidPlatformProviders(config),
+      ...createServiceProviders(),
       ...providers,
     ],
   });
@@ -174,14 +252,170 @@ export async function bootstrapAndroidApplication<T>(
   return appRef;
 }
 
+/**
+ * Standalone component bootstrap for iOS
+ *
+ * Connects over the iOS transport (WKWebView/JavaScriptCore, or
+ * WebSocket in development), initializes `IOSPlatform` and renders
+ * the component tree through the native `MobileRendererFactory`.
+ *
+ * @example
+ * ```typescript
+ * bootstrapIOSApplication(AppComponent, {
+ *   config: {
+ *     bundleId: 'com.myapp.ios',
+ *     statusBar: { style: 'light-content' }
+ *   }
+ * }).catch(err => console.error(err));
+ * ```
+ */
+export async function bootstrapIOSApplication<T>(
+  rootComponent: Type<T>,
+  options: IOSBootstrapOptions = {}
+): Promise<ApplicationRef> {
+  const { providers = [], errorHandler, production = false } = options;
+  const config: IOSPlatformConfig = {
+    ...DEFAULT_IOS_CONFIG,
+    ...options.config,
+    statusBar: { ...DEFAULT_IOS_CONFIG.statusBar, ...options.config?.statusBar },
+  };
+
+  // Set up global error handling
+  if (errorHandler) {
+    const global = globalThis as GlobalWithErrorHandler;
+    global.__iosErrorHandler = errorHandler;
+  }
+
+  if (production) {
+    setStyleValidationEnabled(false);
+  }
+
+  const bridge = new NativeBridge({
+    port: config.bridgePort,
+    debug: config.debug,
+    platform: 'ios',
+  });
+  const platform = new IOSPlatform(bridge);
+
+  try {
+    await platform.initialize();
+
+    if (config.minIOSVersion !== undefined && !platform.isVersionAtLeast(config.minIOSVersion)) {
+      throw new Error(
+        `[Angular Platform Mobile] iOS ${platform.OS.version} is older than the minimum supported version ${config.minIOSVersion}`
+      );
+    }
+
+    await applyIOSStatusBarDefaults(bridge, config);
+
+    const eventDispatcher = new EventDispatcher();
+    const rendererFactory = new MobileRendererFactory(
+      new OptimizedRenderer(bridge, new ViewRegistry(), eventDispatcher),
+      eventDispatcher
+    );
+
+    const { bootstrapApplication } = await import('@angular/platform-browser');
+
+    const appRef = await bootstrapApplication(rootComponent, {
+      providers: [
+        { provide: NativeBridge, useValue: bridge },
+        { provide: NativeAnimatedModule, useValue: platform.getNativeAnimated() },
+        { provide: GestureHandlerModule, useValue: platform.getGestureHandlers() },
+        { provide: IOSPlatform, useValue: platform },
+        { provide: PLATFORM, useValue: platform },
+        { provide: PLATFORM_TYPE, useValue: 'ios' },
+        { provide: MobileRendererFactory, useValue: rendererFactory },
+        { provide: RendererFactory2, useValue: rendererFactory },
+        ...createServiceProviders(),
+        ...providers,
+      ],
+    });
+    appRef.onDestroy(() => void platform.destroy());
+
+    if (config.hotReload && !production) {
+      setupHotReload(bridge, appRef);
+    }
+
+    // Notify native side
+    await bridge.send({
+      type: 'appReady',
+      payload: {
+        timestamp: Date.now(),
+        platform: 'ios',
+        bundleId: config.bundleId ?? null,
+      },
+    });
+
+    console.log('[Angular Platform Mobile] iOS application bootstrapped successfully');
+    return appRef;
+  } catch (error) {
+    await platform.destroy();
+    console.error('[Angular Platform Mobile] iOS bootstrap failed:', error);
+    if (errorHandler && error instanceof Error) {
+      errorHandler(error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply the configured status bar defaults before the first render
+ */
+async function applyIOSStatusBarDefaults(
+  bridge: NativeBridge,
+  config: IOSPlatformConfig
+): Promise<void> {
+  const { style, hidden, animation } = config.statusBar ?? {};
+
+  if (style) {
+    await bridge.send({
+      type: 'setStatusBarStyle',
+      payload: { style, animated: animation !== 'none' },
+    });
+  }
+
+  if (hidden !== undefined) {
+    await bridge.send({
+      type: 'setStatusBarHidden',
+      payload: { hidden, animation: animation ?? 'none' },
+    });
+  }
+}
+
 /**
  * Bootstrap for mobile platform (cross-platform)
+ *
+ * Detects the running platform and delegates to the
+ * iOS or Android bootstrap path.
+ *
+ * @example
+ * ```typescript
+ * bootstrapMobileApplication(AppComponent, {
+ *   config: { packageName: 'com.myapp.android' },
+ *   ios: { config: { bundleId: 'com.myapp.ios' } }
+ * });
+ * ```
  */
 export async function bootstrapMobileApplication<T>(
   rootComponent: Type<T>,
-  options: ExtendedBootstrapOptions = {}
+  options: MobileBootstrapOptions = {}
 ): Promise<ApplicationRef> {
-  // For now, delegate to Android bootstrap
-  // iOS bootstrap would be added here with platform detection
-  return bootstrapAndroidApplication(rootComponent, options);
+  const { ios, ...androidOptions } = options;
+
+  if (Platform.detect() === 'ios') {
+    return bootstrapIOSApplication(rootComponent, {
+      production: options.production,
+      errorHandler: options.errorHandler,
+      providers: options.providers,
+      ...ios,
+    });
+  }
+
+  return bootstrapAndroidApplication(rootComponent, {
+    ...androidOptions,
+    providers: [
+      { provide: PLATFORM_TYPE, useValue: 'android' },
+      ...(androidOptions.providers ?? []),
+    ],
+  });
 }
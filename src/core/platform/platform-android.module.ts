@@ -9,6 +9,7 @@ import { StyleService } from '../../services/style.service';
 import { NavigationService } from '../../services/navigation.service';
 import { DeviceService } from '../../services/device.service';
 import { StorageService } from '../../services/storage.service';
+import { ThemeService, provideThemeInitializer } from '../../services/theme.service';
 import { PermissionsService } from '../../services/permissions.service';
 import { AlertService } from '../../services/alert.service';
 import { LinkingService } from '../../services/linking.service';
@@ -61,6 +62,8 @@ export class PlatformAndroidModule {
         NavigationService,
         DeviceService,
         StorageService,
+        ThemeService,
+        provideThemeInitializer(),
         PermissionsService,
         AlertService,
         LinkingService,
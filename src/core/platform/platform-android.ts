@@ -1,8 +1,15 @@
-import { InjectionToken, StaticProvider } from '@angular/core';
+import { InjectionToken, RendererFactory2, StaticProvider } from '@angular/core';
 import { NativeBridge } from '../bridge/native-bridge';
 import { AndroidRenderer } from '../runtime/renderer';
+import { OptimizedRenderer } from '../runtime/optimized-renderer';
+import { MobileRendererFactory } from '../runtime/mobile-renderer';
 import { ViewRegistry } from '../runtime/view-registry';
 import { EventDispatcher } from '../runtime/event-dispatcher';
+import { NativeAnimatedModule } from '../animation/native-animated';
+import { setNativeAnimatedDriver } from '../animation/animated';
+import { watchReduceMotion } from '../animation/reduced-motion';
+import { watchMediaEnvironment } from '../responsive/media-query';
+import { GestureHandlerModule } from '../gestures/gesture-handler';
 
 /**
  * Token for the Android platform configuration
@@ -59,8 +66,13 @@ export class AndroidPlatform {
   private static instance: AndroidPlatform | null = null;
   private bridge: NativeBridge | null = null;
   private renderer: AndroidRenderer | null = null;
+  private rendererFactory: MobileRendererFactory | null = null;
   private viewRegistry: ViewRegistry | null = null;
   private eventDispatcher: EventDispatcher | null = null;
+  private nativeAnimated: NativeAnimatedModule | null = null;
+  private gestureHandlers: GestureHandlerModule | null = null;
+  private unwatchReduceMotion: (() => void) | null = null;
+  private unwatchMediaEnvironment: (() => void) | null = null;
   private config: AndroidPlatformConfig;
   private isInitialized = false;
 
@@ -94,9 +106,24 @@ export class AndroidPlatform {
     this.bridge = new NativeBridge({ port: this.config.bridgePort!, debug: this.config.debug });
     this.renderer = new AndroidRenderer(this.bridge, this.viewRegistry, this.eventDispatcher);
 
+    // Template listeners get their own dispatcher so viewEvents are not
+    // dispatched a second time by the AndroidRenderer sharing this bridge
+    const templateDispatcher = new EventDispatcher();
+    this.rendererFactory = new MobileRendererFactory(
+      new OptimizedRenderer(this.bridge, this.viewRegistry, templateDispatcher),
+      templateDispatcher
+    );
+
     // Connect to native runtime
     await this.bridge.connect();
 
+    // Let `useNativeDriver: true` animations run on the native side
+    this.nativeAnimated = new NativeAnimatedModule(this.bridge);
+    setNativeAnimatedDriver(this.nativeAnimated);
+    this.gestureHandlers = new GestureHandlerModule(this.bridge);
+    this.unwatchReduceMotion = watchReduceMotion(this.bridge);
+    this.unwatchMediaEnvironment = await watchMediaEnvironment(this.bridge);
+
     // Register native modules
     for (const module of this.config.nativeModules || []) {
       await this.registerNativeModule(module);
@@ -142,6 +169,16 @@ export class AndroidPlatform {
     return this.renderer;
   }
 
+  /**
+   * Get the Angular renderer factory for native views
+   */
+  getRendererFactory(): MobileRendererFactory {
+    if (!this.rendererFactory) {
+      throw new Error('Platform not initialized');
+    }
+    return this.rendererFactory;
+  }
+
   /**
    * Get the view registry instance
    */
@@ -152,6 +189,26 @@ export class AndroidPlatform {
     return this.viewRegistry;
   }
 
+  /**
+   * Get the native animated module instance
+   */
+  getNativeAnimated(): NativeAnimatedModule {
+    if (!this.nativeAnimated) {
+      throw new Error('Platform not initialized');
+    }
+    return this.nativeAnimated;
+  }
+
+  /**
+   * Get the gesture handler module instance
+   */
+  getGestureHandlers(): GestureHandlerModule {
+    if (!this.gestureHandlers) {
+      throw new Error('Platform not initialized');
+    }
+    return this.gestureHandlers;
+  }
+
   /**
    * Get the event dispatcher instance
    */
@@ -173,6 +230,23 @@ export class AndroidPlatform {
    * Shutdown the platform
    */
   async destroy(): Promise<void> {
+    if (this.nativeAnimated) {
+      setNativeAnimatedDriver(null);
+      this.nativeAnimated.dispose();
+      this.nativeAnimated = null;
+    }
+    if (this.gestureHandlers) {
+      this.gestureHandlers.dispose();
+      this.gestureHandlers = null;
+    }
+    if (this.unwatchReduceMotion) {
+      this.unwatchReduceMotion();
+      this.unwatchReduceMotion = null;
+    }
+    if (this.unwatchMediaEnvironment) {
+      this.unwatchMediaEnvironment();
+      this.unwatchMediaEnvironment = null;
+    }
     if (this.bridge) {
       await this.bridge.disconnect();
     }
@@ -201,7 +275,11 @@ export function createAndroidPlatformProviders(
     { provide: AndroidPlatform, useValue: platform },
     { provide: NativeBridge, useFactory: () => platform.getBridge() },
     { provide: AndroidRenderer, useFactory: () => platform.getRenderer() },
+    { provide: MobileRendererFactory, useFactory: () => platform.getRendererFactory() },
+    { provide: RendererFactory2, useFactory: () => platform.getRendererFactory() },
     { provide: ViewRegistry, useFactory: () => platform.getViewRegistry() },
     { provide: EventDispatcher, useFactory: () => platform.getEventDispatcher() },
+    { provide: NativeAnimatedModule, useFactory: () => platform.getNativeAnimated() },
+    { provide: GestureHandlerModule, useFactory: () => platform.getGestureHandlers() },
   ];
 }
@@ -16,6 +16,7 @@ import { StyleService } from '../../services/style.service';
 import { NavigationService } from '../../services/navigation.service';
 import { DeviceService } from '../../services/device.service';
 import { StorageService } from '../../services/storage.service';
+import { ThemeService, provideThemeInitializer } from '../../services/theme.service';
 import { PermissionsService } from '../../services/permissions.service';
 import { AlertService } from '../../services/alert.service';
 import { LinkingService } from '../../services/linking.service';
@@ -72,7 +73,9 @@ export function createMobilePlatformProviders(config: MobilePlatformConfig = {})
       provide: PLATFORM,
       useFactory: (bridge: NativeBridge) => {
         if (platformType === 'ios') {
-          return new IOSPlatform(bridge);
+          const platform = new IOSPlatform(bridge);
+          platform.initialize().catch((error) => console.warn('[IOSPlatform] Failed to initialize:', error));
+          return platform;
         }
         return new AndroidPlatform(bridge);
       },
@@ -126,6 +129,8 @@ export class PlatformMobileModule {
         NavigationService,
         DeviceService,
         StorageService,
+        ThemeService,
+        provideThemeInitializer(),
         PermissionsService,
         AlertService,
         LinkingService,
@@ -0,0 +1,60 @@
+/**
+ * Adaptive Styles
+ *
+ * Styles whose native value depends on the environment: they use
+ * dynamic colors (color scheme) or `@media` blocks (window). Renderers
+ * keep the styles of such views and push them again when the
+ * environment changes.
+ */
+
+import { Observable, merge, map, skip } from 'rxjs';
+import {
+  activeColorSchemeChanges,
+  getActiveColorScheme,
+  hasDynamicColors,
+  resolveDynamicColors,
+} from '../theme/dynamic-color';
+import {
+  activeMediaQueries,
+  hasMediaQueries,
+  mediaEnvironmentChanges,
+  resolveMediaQueries,
+} from './media-query';
+
+/**
+ * Check if a style value depends on the color scheme or the window
+ */
+export function isAdaptiveStyle(style: unknown): style is object {
+  return typeof style === 'object' && style !== null && (hasMediaQueries(style) || hasDynamicColors(style));
+}
+
+/**
+ * Environment an adaptive style resolves for right now
+ *
+ * Two calls return the same key as long as the style would resolve to
+ * the same values: the color scheme, plus the matching `@media` blocks.
+ */
+export function adaptiveStyleKey(style: object): string {
+  const colorScheme = getActiveColorScheme();
+  return hasMediaQueries(style) ? `${colorScheme}${activeMediaQueries(style).join('')}` : colorScheme;
+}
+
+/**
+ * Apply the matching `@media` blocks and resolve dynamic colors
+ *
+ * Other values are left untouched; see `transformStyle` for the full
+ * conversion to native props.
+ */
+export function resolveAdaptiveStyle<T extends object>(style: T): T {
+  return resolveDynamicColors(hasMediaQueries(style) ? resolveMediaQueries(style) : style);
+}
+
+/**
+ * Emits when the color scheme or the media environment changes
+ */
+export function adaptiveStyleChanges(): Observable<void> {
+  return merge(
+    activeColorSchemeChanges().pipe(skip(1)),
+    mediaEnvironmentChanges().pipe(skip(1))
+  ).pipe(map(() => undefined));
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { NativeBridge } from '../bridge/native-bridge';
+import { MockNativeRuntime } from '../testing/mock-native-runtime';
+import { ViewStyle, transformStyle } from '../../types/style.types';
+import { Dimensions } from '../../types/native.types';
+import { dynamicColor } from '../theme/dynamic-color';
+import {
+  MediaEnvironment,
+  ResponsiveStyle,
+  activeMediaQueries,
+  getMediaEnvironment,
+  matchMediaQuery,
+  mediaEnvironmentChanges,
+  resolveMediaQueries,
+  setMediaEnvironment,
+  watchMediaEnvironment,
+} from './media-query';
+
+describe('Media queries', () => {
+  const phone: MediaEnvironment = { width: 390, height: 844, fontScale: 1 };
+  const tablet: MediaEnvironment = { width: 1024, height: 768, fontScale: 1.3 };
+
+  const card: ResponsiveStyle<ViewStyle> = {
+    padding: 8,
+    flexDirection: 'column',
+    '@media (min-width: 600)': { padding: 24 },
+    '@media (orientation: landscape) and (max-height: 800)': { flexDirection: 'row' },
+    '@media (min-font-scale: 1.2)': { padding: 32 },
+  };
+
+  afterEach(() => {
+    setMediaEnvironment({ width: 0, height: 0, fontScale: 1 });
+  });
+
+  it('should match width, height, orientation and font scale features', () => {
+    expect(matchMediaQuery('@media (min-width: 600)', phone)).toBe(false);
+    expect(matchMediaQuery('@media (min-width: 600)', tablet)).toBe(true);
+    expect(matchMediaQuery('@media (max-width: 390px)', phone)).toBe(true);
+    expect(matchMediaQuery('@media (orientation: portrait)', phone)).toBe(true);
+    expect(matchMediaQuery('@media (orientation: landscape) and (min-height: 800)', tablet)).toBe(false);
+    expect(matchMediaQuery('@media (max-font-scale: 1)', phone)).toBe(true);
+  });
+
+  it('should reject unsupported queries', () => {
+    expect(() => matchMediaQuery('@media (hover: hover)', phone)).toThrow(/Unsupported media query/);
+    expect(() => matchMediaQuery('@media screen', phone)).toThrow(/Unsupported media query/);
+    expect(() => matchMediaQuery('@media (min-width: wide)', phone)).toThrow(/Invalid media query value/);
+    expect(() => matchMediaQuery('@media (orientation: square)', phone)).toThrow(/Invalid media query value/);
+  });
+
+  it('should apply matching blocks in declaration order', () => {
+    expect(resolveMediaQueries(card, phone)).toEqual({ padding: 8, flexDirection: 'column' });
+    expect(resolveMediaQueries(card, tablet)).toEqual({ padding: 32, flexDirection: 'row' });
+    expect(activeMediaQueries(card, tablet)).toEqual([
+      '@media (min-width: 600)',
+      '@media (orientation: landscape) and (max-height: 800)',
+      '@media (min-font-scale: 1.2)',
+    ]);
+  });
+
+  it('should be applied by transformStyle against the current environment', () => {
+    const style: ResponsiveStyle<ViewStyle> = {
+      margin: 4,
+      '@media (min-width: 600)': {
+        margin: 12,
+        backgroundColor: dynamicColor({ light: '#ffffff', dark: '#000000' }),
+      },
+    };
+
+    setMediaEnvironment(phone);
+    expect(transformStyle(style)).toEqual({ marginTop: 4, marginRight: 4, marginBottom: 4, marginLeft: 4 });
+
+    setMediaEnvironment(tablet);
+    expect(transformStyle(style, 'dark')).toEqual({
+      marginTop: 12,
+      marginRight: 12,
+      marginBottom: 12,
+      marginLeft: 12,
+      backgroundColor: 0xff000000,
+    });
+  });
+
+  it('should only notify when the environment changes', () => {
+    const environments: MediaEnvironment[] = [];
+    const subscription = mediaEnvironmentChanges().subscribe((environment) => environments.push(environment));
+
+    setMediaEnvironment(phone);
+    setMediaEnvironment({ ...phone });
+    setMediaEnvironment(tablet);
+    subscription.unsubscribe();
+
+    expect(environments).toEqual([{ width: 0, height: 0, fontScale: 1 }, phone, tablet]);
+  });
+
+  describe('watchMediaEnvironment', () => {
+    let runtime: MockNativeRuntime;
+    let bridge: NativeBridge;
+
+    const dimensions = (window: MediaEnvironment): Dimensions => ({
+      window: { ...window, scale: 2 },
+      screen: { ...window, scale: 2 },
+    });
+
+    afterEach(async () => {
+      await bridge.disconnect();
+      runtime.uninstall();
+    });
+
+    async function connect(window: MediaEnvironment): Promise<void> {
+      runtime = new MockNativeRuntime({ synchronous: true }).install();
+      bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+      await bridge.connect();
+      runtime.onRequest('getDimensions', () => dimensions(window));
+    }
+
+    it('should follow the window reported by the native runtime', async () => {
+      await connect(phone);
+
+      const unwatch = await watchMediaEnvironment(bridge);
+      expect(getMediaEnvironment()).toEqual(phone);
+
+      runtime.emit('dimensionsChange', dimensions(tablet));
+      expect(getMediaEnvironment()).toEqual(tablet);
+
+      unwatch();
+      runtime.emit('dimensionsChange', dimensions(phone));
+      expect(getMediaEnvironment()).toEqual(tablet);
+    });
+
+    it('should keep a change reported while the initial request is in flight', async () => {
+      await connect(phone);
+      runtime.onRequest('getDimensions', () => {
+        runtime.emit('dimensionsChange', dimensions(tablet));
+        return dimensions(phone);
+      });
+
+      const unwatch = await watchMediaEnvironment(bridge);
+
+      expect(getMediaEnvironment()).toEqual(tablet);
+      unwatch();
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Media Queries
+ *
+ * Styles can carry `@media` blocks that apply on top of the base style
+ * while the window matches them. Blocks are applied in declaration order,
+ * so later blocks win when several match:
+ *
+ * ```typescript
+ * const styles = styleService.create({
+ *   container: {
+ *     padding: 8,
+ *     '@media (min-width: 600)': { padding: 24 },
+ *     '@media (orientation: landscape) and (max-height: 500)': { paddingVertical: 4 },
+ *   },
+ * });
+ * ```
+ *
+ * Supported features are `min-width`, `max-width`, `min-height`,
+ * `max-height` (in dp), `orientation` (`portrait` or `landscape`) and
+ * `min-font-scale`/`max-font-scale`, joined with `and`.
+ *
+ * Queries are evaluated against the media environment, which the
+ * bootstrap keeps in sync with the window dimensions reported by the
+ * native runtime (see `watchMediaEnvironment`). The set of
+ * blocks that currently match is part of the StyleCache key, and views
+ * using media queries are re-pushed when the window changes.
+ */
+
+import { BehaviorSubject, Observable } from 'rxjs';
+import { NativeBridge } from '../bridge/native-bridge';
+import { Dimensions, DimensionSet } from '../../types/native.types';
+
+/**
+ * Window properties media queries are evaluated against
+ */
+export type MediaEnvironment = Pick<DimensionSet, 'width' | 'height' | 'fontScale'>;
+
+/**
+ * Key of a style block that applies while its query matches
+ */
+export type MediaQueryKey = `@media ${string}`;
+
+/**
+ * Style with optional `@media` blocks
+ */
+export type ResponsiveStyle<T extends object = object> = T & {
+  [query: MediaQueryKey]: T;
+};
+
+/**
+ * Single condition of a parsed media query
+ */
+type MediaCondition = (environment: MediaEnvironment) => boolean;
+
+const MEDIA_PREFIX = '@media ';
+const FEATURE_PATTERN = /^\(\s*([a-z-]+)\s*:\s*([^)]+?)\s*\)$/;
+
+const mediaEnvironment = new BehaviorSubject<MediaEnvironment>({ width: 0, height: 0, fontScale: 1 });
+const parsedQueries = new Map<string, MediaCondition[]>();
+
+function numericFeature(
+  query: string,
+  value: string,
+  read: (environment: MediaEnvironment) => number,
+  compare: (actual: number, expected: number) => boolean
+): MediaCondition {
+  const expected = Number(value.replace(/(px|dp)$/, ''));
+  if (!Number.isFinite(expected)) {
+    throw new Error(`[StyleService] Invalid media query value in "${query}": ${value}`);
+  }
+  return (environment) => compare(read(environment), expected);
+}
+
+function parseFeature(query: string, feature: string): MediaCondition {
+  const match = FEATURE_PATTERN.exec(feature.trim());
+  if (!match) {
+    throw new Error(`[StyleService] Unsupported media query: "${query}"`);
+  }
+
+  const [, name, value] = match;
+  const atLeast = (actual: number, expected: number): boolean => actual >= expected;
+  const atMost = (actual: number, expected: number): boolean => actual <= expected;
+
+  switch (name) {
+    case 'min-width':
+      return numericFeature(query, value, (environment) => environment.width, atLeast);
+    case 'max-width':
+      return numericFeature(query, value, (environment) => environment.width, atMost);
+    case 'min-height':
+      return numericFeature(query, value, (environment) => environment.height, atLeast);
+    case 'max-height':
+      return numericFeature(query, value, (environment) => environment.height, atMost);
+    case 'min-font-scale':
+      return numericFeature(query, value, (environment) => environment.fontScale, atLeast);
+    case 'max-font-scale':
+      return numericFeature(query, value, (environment) => environment.fontScale, atMost);
+    case 'orientation':
+      if (value !== 'portrait' && value !== 'landscape') {
+        throw new Error(`[StyleService] Invalid media query value in "${query}": ${value}`);
+      }
+      return (environment) => (environment.width > environment.height ? 'landscape' : 'portrait') === value;
+    default:
+      throw new Error(`[StyleService] Unsupported media query: "${query}"`);
+  }
+}
+
+/**
+ * Parse the conditions of a `@media` key (cached per key)
+ */
+function parseMediaQuery(key: MediaQueryKey): MediaCondition[] {
+  let conditions = parsedQueries.get(key);
+  if (!conditions) {
+    conditions = key
+      .slice(MEDIA_PREFIX.length)
+      .split(/\s+and\s+/)
+      .map((feature) => parseFeature(key, feature));
+    parsedQueries.set(key, conditions);
+  }
+  return conditions;
+}
+
+/**
+ * Check if a style key is a `@media` block
+ */
+export function isMediaQueryKey(key: string): key is MediaQueryKey {
+  return key.startsWith(MEDIA_PREFIX);
+}
+
+/**
+ * Check if a style has any `@media` blocks
+ */
+export function hasMediaQueries(style: object): boolean {
+  for (const key of Object.keys(style)) {
+    if (isMediaQueryKey(key)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check if a media query matches an environment (default: the current one)
+ *
+ * @throws Error for unsupported features or values
+ */
+export function matchMediaQuery(
+  key: MediaQueryKey,
+  environment: MediaEnvironment = mediaEnvironment.value
+): boolean {
+  return parseMediaQuery(key).every((condition) => condition(environment));
+}
+
+/**
+ * `@media` keys of a style that match an environment, in declaration order
+ */
+export function activeMediaQueries(
+  style: object,
+  environment: MediaEnvironment = mediaEnvironment.value
+): MediaQueryKey[] {
+  return Object.keys(style).filter(
+    (key): key is MediaQueryKey => isMediaQueryKey(key) && matchMediaQuery(key, environment)
+  );
+}
+
+/**
+ * Base style with the matching `@media` blocks applied
+ */
+export function resolveMediaQueries<T extends object>(
+  style: ResponsiveStyle<T> | T,
+  environment: MediaEnvironment = mediaEnvironment.value
+): T {
+  const resolved: Record<string, unknown> = {};
+  const blocks: object[] = [];
+
+  for (const [key, value] of Object.entries(style)) {
+    if (!isMediaQueryKey(key)) {
+      resolved[key] = value;
+    } else if (matchMediaQuery(key, environment)) {
+      blocks.push(value as object);
+    }
+  }
+
+  return Object.assign(resolved, ...blocks) as T;
+}
+
+/**
+ * Environment media queries are currently evaluated against
+ */
+export function getMediaEnvironment(): MediaEnvironment {
+  return mediaEnvironment.value;
+}
+
+/**
+ * Current media environment, then every change
+ */
+export function mediaEnvironmentChanges(): Observable<MediaEnvironment> {
+  return mediaEnvironment.asObservable();
+}
+
+/**
+ * Set the environment media queries are evaluated against
+ *
+ * Normally fed by `watchMediaEnvironment`; tests can call it directly.
+ */
+export function setMediaEnvironment(environment: MediaEnvironment): void {
+  const current = mediaEnvironment.value;
+  if (
+    current.width !== environment.width
+    || current.height !== environment.height
+    || current.fontScale !== environment.fontScale
+  ) {
+    mediaEnvironment.next({
+      width: environment.width,
+      height: environment.height,
+      fontScale: environment.fontScale,
+    });
+  }
+}
+
+/**
+ * Follow the window dimensions reported by the native runtime
+ *
+ * Resolves once the initial dimensions are known, so views rendered
+ * afterwards match their `@media` blocks from the first frame.
+ *
+ * @returns Function that stops following them
+ */
+export async function watchMediaEnvironment(bridge: NativeBridge): Promise<() => void> {
+  let changed = false;
+  const unsubscribe = bridge.on<Dimensions>('dimensionsChange', (dimensions) => {
+    changed = true;
+    setMediaEnvironment(dimensions.window);
+  });
+
+  try {
+    const dimensions = await bridge.request('getDimensions', {});
+    // A change reported while the request was in flight is newer
+    if (!changed) {
+      setMediaEnvironment(dimensions.window);
+    }
+  } catch (error) {
+    console.warn('[StyleService] Failed to get the window dimensions:', error);
+  }
+
+  return unsubscribe;
+}
@@ -0,0 +1,297 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NativeBridge, BridgeMessage } from '../bridge/native-bridge';
+import { OptimizedRenderer } from './optimized-renderer';
+import { ViewRegistry } from './view-registry';
+import { EventDispatcher } from './event-dispatcher';
+import {
+  MobileRenderer,
+  MobileRendererFactory,
+  MobileElementNode,
+  resolveViewType,
+} from './mobile-renderer';
+import { dynamicColor, setActiveColorScheme } from '../theme/dynamic-color';
+import { setMediaEnvironment } from '../responsive/media-query';
+import { clearClassStyles, registerClassStyles } from '../css/class-styles';
+
+describe('resolveViewType', () => {
+  it('should map prefixed element names to view types', () => {
+    expect(resolveViewType('mobile-view')).toBe('View');
+    expect(resolveViewType('android-text')).toBe('Text');
+    expect(resolveViewType('mobile-scroll-view')).toBe('ScrollView');
+    expect(resolveViewType('mobile-flat-list')).toBe('FlatList');
+  });
+
+  it('should fall back to View for unknown elements', () => {
+    expect(resolveViewType('app-root')).toBe('View');
+    expect(resolveViewType('mobile-unknown')).toBe('View');
+  });
+});
+
+describe('MobileRenderer', () => {
+  let bridge: NativeBridge;
+  let registry: ViewRegistry;
+  let dispatcher: EventDispatcher;
+  let optimized: OptimizedRenderer;
+  let renderer: MobileRenderer;
+  let sent: BridgeMessage[];
+
+  const flushed = async (): Promise<BridgeMessage[]> => {
+    await optimized.flush();
+    return sent.flatMap((message) =>
+      message.type === 'batch'
+        ? (message.payload as unknown as { messages: BridgeMessage[] }).messages
+        : [message]
+    );
+  };
+
+  beforeEach(() => {
+    sent = [];
+    bridge = new NativeBridge({ transport: 'websocket' });
+    vi.spyOn(bridge, 'send').mockImplementation(async (message) => {
+      sent.push(JSON.parse(JSON.stringify(message)) as BridgeMessage);
+    });
+
+    registry = new ViewRegistry();
+    dispatcher = new EventDispatcher();
+    optimized = new OptimizedRenderer(bridge, registry, dispatcher);
+    renderer = new MobileRendererFactory(optimized, dispatcher).createRenderer(null, null) as MobileRenderer;
+  });
+
+  afterEach(async () => {
+    // Drain the message queue before the bridge spy is torn down
+    await optimized.flush();
+  });
+
+  it('should create native views for elements', async () => {
+    const el = renderer.createElement('mobile-view');
+
+    const messages = await flushed();
+    expect(messages).toContainEqual(
+      expect.objectContaining({
+        type: 'createView',
+        payload: expect.objectContaining({ viewId: el.viewId, viewType: 'View' }),
+      })
+    );
+    expect(registry.get(el.viewId)?.type).toBe('View');
+  });
+
+  it('should build the native hierarchy without comment nodes', () => {
+    const parent = renderer.createElement('mobile-view');
+    const first = renderer.createElement('mobile-view');
+    const anchor = renderer.createComment('container');
+    const second = renderer.createElement('mobile-view');
+
+    renderer.appendChild(parent, first);
+    renderer.appendChild(parent, anchor);
+    renderer.insertBefore(parent, second, anchor);
+
+    expect(registry.get(parent.viewId)?.children).toEqual([first.viewId, second.viewId]);
+    expect(renderer.nextSibling(second)).toBe(anchor);
+    expect(renderer.parentNode(first)).toBe(parent);
+  });
+
+  it('should render text children as the text prop of Text views', async () => {
+    const text = renderer.createElement('mobile-text');
+    const node = renderer.createText('Hello');
+
+    renderer.appendChild(text, node);
+    renderer.setValue(node, 'Hello World');
+
+    await flushed();
+    expect(registry.get(text.viewId)?.props.text).toBe('Hello World');
+  });
+
+  it('should map styles, attributes and classes to props', async () => {
+    const el = renderer.createElement('mobile-view') as MobileElementNode;
+
+    renderer.setStyle(el, 'background-color', 'red');
+    renderer.setStyle(el, 'width', '100px');
+    renderer.setAttribute(el, 'testID', 'card');
+    renderer.addClass(el, 'card');
+    renderer.addClass(el, 'elevated');
+
+    await flushed();
+    const props = registry.get(el.viewId)?.props;
+    expect(props?.style).toEqual({ backgroundColor: 0xffff0000, width: 100 });
+    expect(props?.testID).toBe('card');
+    expect(props?.className).toBe('card elevated');
+  });
+
+  it('should send style writes and parse transform strings', async () => {
+    const el = renderer.createElement('mobile-view') as MobileElementNode;
+
+    el.style.opacity = '0.5';
+    el.style.transform = 'translateY(20px) scale(0.5)';
+    renderer.setStyle(el, 'width', '100px');
+    renderer.removeStyle(el, 'width');
+    el.classList.add('ng-trigger');
+
+    await flushed();
+    const props = registry.get(el.viewId)?.props;
+    expect(props?.style).toEqual({ opacity: 0.5, transform: [{ translateY: 20 }, { scale: 0.5 }] });
+    expect(props?.className).toBeUndefined();
+    expect(el.classList.contains('ng-trigger')).toBe(true);
+    expect(el.nodeType).toBe(1);
+  });
+
+  it('should report and ignore unsupported transform strings', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const el = renderer.createElement('mobile-view') as MobileElementNode;
+
+    el.style.transform = 'rotate(45deg)';
+    expect(() => renderer.setStyle(el, 'transform', 'matrix(1, 0, 0, 1, 0, 0)')).not.toThrow();
+
+    await flushed();
+    expect(registry.get(el.viewId)?.props.style).toEqual({ transform: [{ rotate: '45deg' }] });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unsupported transform function "matrix"'));
+    warn.mockRestore();
+  });
+
+  it('should keep destroyed views in the tree until they are removed', () => {
+    const root = renderer.selectRootElement('app-root');
+    const child = renderer.createElement('mobile-view');
+    renderer.appendChild(root, child);
+
+    renderer.destroyNode!(child);
+    expect(registry.get(child.viewId)).toBeDefined();
+    expect(child.parentNode).toBe(root);
+
+    renderer.removeChild(null, child);
+    expect(registry.get(child.viewId)).toBeUndefined();
+  });
+
+  it('should detach removed children', () => {
+    const parent = renderer.createElement('mobile-view');
+    const child = renderer.createElement('mobile-view');
+
+    renderer.appendChild(parent, child);
+    renderer.removeChild(null, child);
+
+    expect(parent.children).toHaveLength(0);
+    expect(registry.get(parent.viewId)?.children).toEqual([]);
+    expect(renderer.parentNode(child)).toBeNull();
+  });
+
+  it('should route listeners through the event dispatcher', () => {
+    const el = renderer.createElement('mobile-view');
+    const handler = vi.fn();
+
+    const unlisten = renderer.listen(el, 'press', handler);
+    dispatcher.dispatch(el.viewId, 'press', { x: 1 });
+    unlisten();
+    dispatcher.dispatch(el.viewId, 'press', { x: 2 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ target: el.viewId, data: { x: 1 } }));
+  });
+
+  it('should re-push only styles with dynamic colors when the color scheme changes', async () => {
+    const themed = renderer.createElement('mobile-view');
+    const plain = renderer.createElement('mobile-view');
+    renderer.setStyle(themed, 'backgroundColor', dynamicColor({ light: '#ffffff', dark: '#000000' }));
+    renderer.setStyle(themed, 'padding', 8);
+    renderer.setStyle(plain, 'backgroundColor', '#808080');
+    await flushed();
+    sent = [];
+
+    try {
+      setActiveColorScheme('dark');
+      const messages = await flushed();
+
+      expect(messages).toEqual([
+        expect.objectContaining({
+          type: 'updateView',
+          payload: { viewId: themed.viewId, props: { style: expect.objectContaining({ backgroundColor: 0xff000000 }) } },
+        }),
+      ]);
+
+      renderer.removeStyle(themed, 'backgroundColor');
+      await flushed();
+      sent = [];
+      setActiveColorScheme('light');
+
+      expect(await flushed()).toEqual([]);
+      expect(optimized.getStats().adaptiveStyleViews).toBe(0);
+    } finally {
+      setActiveColorScheme('light');
+    }
+  });
+
+  it('should re-push responsive styles only when their matching media queries change', async () => {
+    const responsive = renderer.createElement('mobile-view');
+    const plain = renderer.createElement('mobile-view');
+    setMediaEnvironment({ width: 390, height: 844, fontScale: 1 });
+    renderer.setProperty(responsive, 'style', { padding: 8, '@media (min-width: 600)': { padding: 24 } });
+    renderer.setStyle(plain, 'padding', 8);
+    await flushed();
+    sent = [];
+
+    try {
+      setMediaEnvironment({ width: 420, height: 844, fontScale: 1 });
+      expect(await flushed()).toEqual([]);
+
+      setMediaEnvironment({ width: 844, height: 390, fontScale: 1 });
+      expect(await flushed()).toEqual([
+        expect.objectContaining({
+          type: 'updateView',
+          payload: { viewId: responsive.viewId, props: { style: expect.objectContaining({ paddingTop: 24 }) } },
+        }),
+      ]);
+    } finally {
+      setMediaEnvironment({ width: 0, height: 0, fontScale: 1 });
+    }
+  });
+
+  it('should apply registered class styles under the inline style', async () => {
+    registerClassStyles({
+      card: { padding: 8, backgroundColor: '#ffffff' },
+      'card--selected': { backgroundColor: '#2196f3' },
+    });
+    const el = renderer.createElement('mobile-view') as MobileElementNode;
+
+    try {
+      renderer.setAttribute(el, 'class', 'card plain');
+      renderer.setStyle(el, 'opacity', 0.5);
+      await flushed();
+      expect(registry.get(el.viewId)?.props.style).toEqual({
+        paddingTop: 8,
+        paddingRight: 8,
+        paddingBottom: 8,
+        paddingLeft: 8,
+        backgroundColor: 0xffffffff,
+        opacity: 0.5,
+      });
+      expect(registry.get(el.viewId)?.props.className).toBe('card plain');
+
+      renderer.addClass(el, 'card--selected');
+      await flushed();
+      expect(registry.get(el.viewId)?.props.style).toEqual(expect.objectContaining({ backgroundColor: 0xff2196f3 }));
+
+      renderer.removeAttribute(el, 'class');
+      await flushed();
+      expect(registry.get(el.viewId)?.props.style).toEqual({ opacity: 0.5 });
+      expect(registry.get(el.viewId)?.props.className).toBe('');
+    } finally {
+      clearClassStyles();
+    }
+  });
+
+  it('should warn about invalid styles with the element selector and view id', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const el = renderer.createElement('mobile-view') as MobileElementNode;
+
+    renderer.setStyle(el, 'fontWeight', 'heavy');
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(`[Style] <mobile-view> (${el.viewId}): Invalid value for fontWeight: "heavy"`)
+    );
+    expect(warn).toHaveBeenCalledWith(`[Style] <mobile-view> (${el.viewId}): fontWeight only applies to text views, not View`);
+    warn.mockRestore();
+  });
+
+  it('should set the root view when selecting the root element', () => {
+    const root = renderer.selectRootElement('app-root');
+
+    expect(optimized.getRootViewId()).toBe(root.viewId);
+  });
+});
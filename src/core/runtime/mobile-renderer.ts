@@ -0,0 +1,592 @@
+/**
+ * Angular renderer for native mobile views
+ *
+ * Implements `RendererFactory2`/`Renderer2` on top of the
+ * OptimizedRenderer so component templates produce native view
+ * trees instead of DOM nodes.
+ *
+ * Features:
+ * - Element names (`mobile-view`, `android-text`, ...) mapped to native view types
+ * - Text and comment nodes kept in a JS-side shadow tree
+ * - Attributes, properties, classes and styles diffed through OptimizedRenderer
+ * - Classes with registered styles (`registerClassStyles`) applied under
+ *   the inline style
+ * - Invalid styles reported in development (`warnInvalidStyle`)
+ * - Listeners routed through the EventDispatcher
+ * - DOM-like element members (`nodeType`, `parentNode`, `classList`,
+ *   writable `style`) for the Angular animation engine
+ * - Destroyed views kept until removed from the tree (leave animations)
+ */
+
+import {
+  Injectable,
+  Renderer2,
+  RendererFactory2,
+  RendererStyleFlags2,
+  RendererType2,
+} from '@angular/core';
+import { OptimizedRenderer, MobileViewType, ViewProps } from './optimized-renderer';
+import { EventDispatcher, NativeEvent } from './event-dispatcher';
+import { NativeStyle, parseTransform } from '../../types/style.types';
+import { isMediaQueryKey } from '../responsive/media-query';
+import { hasClassStyle, resolveClassStyles } from '../css/class-styles';
+import { warnInvalidStyle } from '../validation/style-validator';
+
+/**
+ * Class list of an element node
+ */
+export interface MobileClassList {
+  add(...names: string[]): void;
+  remove(...names: string[]): void;
+  contains(name: string): boolean;
+}
+
+/**
+ * Element node backed by a native view
+ */
+export interface MobileElementNode {
+  kind: 'element';
+  /** `Node.ELEMENT_NODE`, for code that checks DOM node types */
+  readonly nodeType: 1;
+  viewId: string;
+  tagName: string;
+  viewType: MobileViewType;
+  parent: MobileElementNode | null;
+  /** Alias of `parent` */
+  readonly parentNode: MobileElementNode | null;
+  children: MobileRenderNode[];
+  attributes: Record<string, string>;
+  classes: Set<string>;
+  /** View over `classes` that is not sent to native (used for marker classes) */
+  readonly classList: MobileClassList;
+  /** Current style; assigning or deleting a property updates the native view */
+  readonly style: Record<string, unknown>;
+}
+
+/**
+ * Element members needed to send its style
+ */
+type StyledNode = Pick<MobileElementNode, 'viewId' | 'viewType' | 'tagName'>;
+
+/**
+ * Text node (rendered as the `text` prop of its parent Text view)
+ */
+export interface MobileTextNode {
+  kind: 'text';
+  value: string;
+  parent: MobileElementNode | null;
+}
+
+/**
+ * Comment node (anchor for structural directives, never sent to native)
+ */
+export interface MobileCommentNode {
+  kind: 'comment';
+  value: string;
+  parent: MobileElementNode | null;
+}
+
+/**
+ * Any node produced by the mobile renderer
+ */
+export type MobileRenderNode = MobileElementNode | MobileTextNode | MobileCommentNode;
+
+/**
+ * Global listen targets supported by Renderer2
+ */
+type GlobalListenTarget = 'window' | 'document' | 'body';
+
+/**
+ * Element name (without platform prefix) to native view type
+ */
+const ELEMENT_VIEW_TYPES: Record<string, MobileViewType> = {
+  view: 'View',
+  text: 'Text',
+  image: 'Image',
+  'scroll-view': 'ScrollView',
+  'text-input': 'TextInput',
+  button: 'Button',
+  touchable: 'TouchableOpacity',
+  'touchable-highlight': 'TouchableOpacity',
+  'touchable-no-feedback': 'View',
+  'flat-list': 'FlatList',
+  modal: 'Modal',
+  'activity-indicator': 'ActivityIndicator',
+  switch: 'Switch',
+  slider: 'Slider',
+  webview: 'WebView',
+  'safe-area-view': 'View',
+  'status-bar': 'View',
+};
+
+/**
+ * Prefixes stripped from element names before lookup
+ */
+const ELEMENT_PREFIXES = ['mobile-', 'android-', 'ios-'];
+
+/**
+ * Resolve the native view type for an element name
+ *
+ * Unknown elements (e.g. host elements of application components)
+ * become plain container views.
+ */
+export function resolveViewType(name: string): MobileViewType {
+  const localName = name.includes(':') ? name.slice(name.indexOf(':') + 1) : name;
+
+  for (const prefix of ELEMENT_PREFIXES) {
+    if (localName.startsWith(prefix)) {
+      const viewType = ELEMENT_VIEW_TYPES[localName.slice(prefix.length)];
+      if (viewType) {
+        return viewType;
+      }
+    }
+  }
+
+  return 'View';
+}
+
+/**
+ * Convert a CSS property name to its camelCase style key (`@media` blocks keep theirs)
+ */
+function toStyleKey(name: string): string {
+  if (isMediaQueryKey(name)) {
+    return name;
+  }
+  return name.replace(/-([a-z])/g, (_match, char: string) => char.toUpperCase());
+}
+
+/**
+ * Normalize a style value coming from a template binding
+ *
+ * Returns `undefined` for values that can't be sent (unsupported
+ * transform functions), which are reported and ignored.
+ */
+function toStyleValue(key: string, value: unknown): unknown {
+  if (key === 'transform' && typeof value === 'string') {
+    try {
+      return parseTransform(value);
+    } catch (error) {
+      console.warn(`${(error as Error).message}, the value is ignored`);
+      return undefined;
+    }
+  }
+  if (typeof value === 'string') {
+    const pixels = /^(-?\d+(?:\.\d+)?)(px|dp)?$/.exec(value.trim());
+    if (pixels) {
+      return parseFloat(pixels[1]);
+    }
+  }
+  return value;
+}
+
+/**
+ * Renderer2 implementation for native views
+ */
+export class MobileRenderer implements Renderer2 {
+  private readonly _data: Record<string, unknown> = {};
+  private readonly leaving = new Set<MobileElementNode>();
+
+  constructor(
+    private readonly renderer: OptimizedRenderer,
+    private readonly eventDispatcher: EventDispatcher
+  ) {}
+
+  get data(): Record<string, unknown> {
+    return this._data;
+  }
+
+  destroy(): void {
+    // Views are owned by the OptimizedRenderer; nothing to release here
+  }
+
+  createElement(name: string, _namespace?: string | null): MobileElementNode {
+    const viewType = resolveViewType(name);
+    const viewId = this.renderer.createView(viewType, {});
+    const classes = new Set<string>();
+
+    return {
+      kind: 'element',
+      nodeType: 1,
+      viewId,
+      tagName: name,
+      viewType,
+      parent: null,
+      get parentNode() {
+        return this.parent;
+      },
+      children: [],
+      attributes: {},
+      classes,
+      classList: {
+        add: (...names) => names.forEach((className) => classes.add(className)),
+        remove: (...names) => names.forEach((className) => classes.delete(className)),
+        contains: (className) => classes.has(className),
+      },
+      style: this.createStyle({ viewId, viewType, tagName: name }, classes),
+    };
+  }
+
+  createComment(value: string): MobileCommentNode {
+    return { kind: 'comment', value, parent: null };
+  }
+
+  createText(value: string): MobileTextNode {
+    return { kind: 'text', value, parent: null };
+  }
+
+  destroyNode = (node: MobileRenderNode): void => {
+    if (node.kind !== 'element') {
+      return;
+    }
+
+    // Still in the tree while a leave animation runs; removeChild() releases it
+    if (node.parent && this.isAttached(node)) {
+      this.leaving.add(node);
+      return;
+    }
+
+    this.renderer.removeView(node.viewId);
+  };
+
+  appendChild(parent: MobileElementNode, newChild: MobileRenderNode): void {
+    this.insertBefore(parent, newChild, null);
+  }
+
+  insertBefore(
+    parent: MobileElementNode,
+    newChild: MobileRenderNode,
+    refChild: MobileRenderNode | null,
+    _isMove?: boolean
+  ): void {
+    if (!parent) {
+      return;
+    }
+
+    if (newChild.parent) {
+      this.removeChild(newChild.parent, newChild);
+    }
+
+    const refIndex = refChild ? parent.children.indexOf(refChild) : -1;
+    const index = refIndex === -1 ? parent.children.length : refIndex;
+
+    parent.children.splice(index, 0, newChild);
+    newChild.parent = parent;
+
+    switch (newChild.kind) {
+      case 'element':
+        if (index === parent.children.length - 1) {
+          this.renderer.appendChild(parent.viewId, newChild.viewId);
+        } else {
+          this.renderer.insertChild(parent.viewId, newChild.viewId, this.nativeIndexOf(parent, index));
+        }
+        break;
+      case 'text':
+        this.syncText(parent, newChild);
+        break;
+      case 'comment':
+      default:
+        break;
+    }
+  }
+
+  removeChild(
+    parent: MobileElementNode | null,
+    oldChild: MobileRenderNode,
+    _isHostElement?: boolean
+  ): void {
+    const owner = parent ?? oldChild.parent;
+    if (!owner) {
+      return;
+    }
+
+    owner.children = owner.children.filter((child) => child !== oldChild);
+    oldChild.parent = null;
+
+    if (oldChild.kind === 'element') {
+      this.renderer.removeChild(owner.viewId, oldChild.viewId);
+      this.releaseLeaving(oldChild);
+    } else if (oldChild.kind === 'text' && owner.viewType === 'Text') {
+      this.syncText(owner, oldChild);
+    }
+  }
+
+  selectRootElement(selectorOrNode: string | MobileElementNode, _preserveContent?: boolean): MobileElementNode {
+    const root = typeof selectorOrNode === 'string'
+      ? this.createElement(selectorOrNode)
+      : selectorOrNode;
+
+    this.renderer.setRootView(root.viewId);
+    return root;
+  }
+
+  parentNode(node: MobileRenderNode): MobileElementNode | null {
+    return node.parent;
+  }
+
+  nextSibling(node: MobileRenderNode): MobileRenderNode | null {
+    if (!node.parent) {
+      return null;
+    }
+
+    const siblings = node.parent.children;
+    return siblings[siblings.indexOf(node) + 1] ?? null;
+  }
+
+  setAttribute(el: MobileElementNode, name: string, value: string, _namespace?: string | null): void {
+    if (name === 'class') {
+      this.setClasses(el, value.split(/\s+/).filter(Boolean));
+      return;
+    }
+    el.attributes[name] = value;
+    this.renderer.updateView(el.viewId, { [name]: value });
+  }
+
+  removeAttribute(el: MobileElementNode, name: string, _namespace?: string | null): void {
+    if (name === 'class') {
+      this.setClasses(el, []);
+      return;
+    }
+    delete el.attributes[name];
+    this.renderer.updateView(el.viewId, { [name]: null });
+  }
+
+  addClass(el: MobileElementNode, name: string): void {
+    if (el.classes.has(name)) {
+      return;
+    }
+    el.classes.add(name);
+    this.classesChanged(el, hasClassStyle(name));
+  }
+
+  removeClass(el: MobileElementNode, name: string): void {
+    if (!el.classes.delete(name)) {
+      return;
+    }
+    this.classesChanged(el, hasClassStyle(name));
+  }
+
+  setStyle(el: MobileElementNode, style: string, value: unknown, _flags?: RendererStyleFlags2): void {
+    el.style[style] = value;
+  }
+
+  removeStyle(el: MobileElementNode, style: string, _flags?: RendererStyleFlags2): void {
+    delete el.style[style];
+  }
+
+  setProperty(el: MobileElementNode, name: string, value: unknown): void {
+    if (name === 'style' && typeof value === 'object' && value !== null) {
+      for (const key of Object.keys(el.style)) {
+        if (!(key in value)) {
+          delete el.style[key];
+        }
+      }
+      Object.assign(el.style, value);
+      return;
+    }
+
+    this.renderer.updateView(el.viewId, { [name]: value } as ViewProps);
+  }
+
+  setValue(node: MobileRenderNode, value: string): void {
+    if (node.kind === 'element') {
+      return;
+    }
+
+    node.value = value;
+    if (node.kind === 'text' && node.parent) {
+      this.syncText(node.parent, node);
+    }
+  }
+
+  listen(
+    target: GlobalListenTarget | MobileElementNode,
+    eventName: string,
+    callback: (event: NativeEvent) => boolean | void
+  ): () => void {
+    if (typeof target === 'string') {
+      return this.eventDispatcher.registerGlobal(eventName, callback);
+    }
+
+    return this.renderer.registerEventListener(target.viewId, eventName, callback);
+  }
+
+  /**
+   * Style object of a new element
+   *
+   * Writes are normalized like template bindings (empty values remove
+   * the property) and every change sends a fresh copy, as the
+   * OptimizedRenderer caches transformed styles by object identity.
+   * Styles of the element's classes are sent under the inline style.
+   */
+  private createStyle(node: StyledNode, classes: Set<string>): Record<string, unknown> {
+    const push = (target: Record<string, unknown>): void => this.pushStyle(node, classes, target);
+    const remove = (target: Record<string, unknown>, key: string): boolean => {
+      if (key in target) {
+        delete target[key];
+        push(target);
+      }
+      return true;
+    };
+
+    return new Proxy<Record<string, unknown>>({}, {
+      set(target, property, value: unknown) {
+        if (typeof property === 'symbol') {
+          return false;
+        }
+
+        const key = toStyleKey(property);
+        if (value === '' || value === null || value === undefined) {
+          return remove(target, key);
+        }
+
+        const styleValue = toStyleValue(key, value);
+        if (styleValue === undefined) {
+          return true;
+        }
+
+        target[key] = styleValue;
+        push(target);
+        return true;
+      },
+      deleteProperty(target, property) {
+        return typeof property === 'symbol' ? false : remove(target, toStyleKey(property));
+      },
+    });
+  }
+
+  /**
+   * Replace all classes of an element (`class` attribute)
+   */
+  private setClasses(el: MobileElementNode, names: string[]): void {
+    const styled = [...el.classes, ...names].some(hasClassStyle);
+    el.classes.clear();
+    names.forEach((name) => el.classes.add(name));
+    this.classesChanged(el, styled);
+  }
+
+  /**
+   * Send the class names, and the style when a styled class changed
+   */
+  private classesChanged(el: MobileElementNode, styled: boolean): void {
+    this.renderer.updateView(el.viewId, { className: Array.from(el.classes).join(' ') });
+    if (styled) {
+      this.pushStyle(el, el.classes, el.style);
+    }
+  }
+
+  /**
+   * Send the style of an element: its class styles under the inline style
+   */
+  private pushStyle(node: StyledNode, classes: Iterable<string>, inline: Record<string, unknown>): void {
+    const style = { ...resolveClassStyles(classes), ...inline } as NativeStyle;
+    warnInvalidStyle(style, { viewId: node.viewId, viewType: node.viewType, selector: node.tagName });
+    this.renderer.setStyle(node.viewId, style);
+  }
+
+  /**
+   * Whether a node is part of the tree under the root view
+   */
+  private isAttached(node: MobileElementNode): boolean {
+    let top = node;
+    while (top.parent) {
+      top = top.parent;
+    }
+    return top.viewId === this.renderer.getRootViewId();
+  }
+
+  /**
+   * Remove the views of a detached subtree that were destroyed while leaving
+   */
+  private releaseLeaving(node: MobileElementNode): void {
+    if (this.leaving.size === 0) {
+      return;
+    }
+
+    if (this.leaving.delete(node)) {
+      this.renderer.removeView(node.viewId);
+    }
+    for (const child of node.children) {
+      if (child.kind === 'element') {
+        this.releaseLeaving(child);
+      }
+    }
+  }
+
+  /**
+   * Translate a shadow-tree index into a native child index
+   * (comments and text nodes have no native counterpart)
+   */
+  private nativeIndexOf(parent: MobileElementNode, index: number): number {
+    let nativeIndex = 0;
+    for (let i = 0; i < index; i++) {
+      if (parent.children[i].kind === 'element') {
+        nativeIndex++;
+      }
+    }
+    return nativeIndex;
+  }
+
+  /**
+   * Push the concatenated text children of a Text view as its `text` prop
+   */
+  private syncText(parent: MobileElementNode, changed: MobileTextNode): void {
+    if (parent.viewType !== 'Text') {
+      if (changed.value.trim().length > 0) {
+        console.warn(
+          `[MobileRenderer] Text "${changed.value.trim()}" must be rendered within a text element (found in <${parent.tagName}>)`
+        );
+      }
+      return;
+    }
+
+    const text = parent.children
+      .filter((child): child is MobileTextNode => child.kind === 'text')
+      .map((child) => child.value)
+      .join('');
+
+    this.renderer.updateView(parent.viewId, { text });
+  }
+}
+
+/**
+ * RendererFactory2 implementation for native views
+ *
+ * A single MobileRenderer is shared by all components; view
+ * encapsulation has no meaning for native views.
+ */
+@Injectable()
+export class MobileRendererFactory implements RendererFactory2 {
+  private readonly defaultRenderer: MobileRenderer;
+
+  constructor(
+    private readonly renderer: OptimizedRenderer,
+    eventDispatcher: EventDispatcher
+  ) {
+    this.defaultRenderer = new MobileRenderer(renderer, eventDispatcher);
+  }
+
+  createRenderer(_hostElement: unknown, _type: RendererType2 | null): Renderer2 {
+    return this.defaultRenderer;
+  }
+
+  begin(): void {
+    // Updates are coalesced by the OptimizedRenderer until end()
+  }
+
+  end(): void {
+    this.renderer.flush().catch((error: unknown) => {
+      console.error('[MobileRenderer] Failed to flush view updates:', error);
+    });
+  }
+
+  whenRenderingDone(): Promise<void> {
+    return this.renderer.flush();
+  }
+
+  /**
+   * Get the underlying optimized renderer
+   */
+  getRenderer(): OptimizedRenderer {
+    return this.renderer;
+  }
+}
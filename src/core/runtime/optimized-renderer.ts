@@ -6,14 +6,24 @@
  * - Operation coalescing (merge multiple updates to same view)
  * - Batched operations with priority
  * - Style caching
+ * - Adaptive styles (dynamic colors, `@media` blocks) re-pushed when the
+ *   color scheme or the window changes
  */
 
-import { NativeBridge, JsonValue } from '../bridge/native-bridge';
-import { MessageQueue } from '../bridge/message-queue';
+import { Subscription } from 'rxjs';
+import { NativeBridge, BridgeMessage, JsonValue } from '../bridge/native-bridge';
+import { MessagePriority, MessageQueue } from '../bridge/message-queue';
 import { ViewRegistry, ViewNode } from './view-registry';
 import { EventDispatcher, NativeEvent, NativeEventData } from './event-dispatcher';
 import { cachedTransformStyle } from '../cache/style-cache';
 import { NativeStyle } from '../../types/style.types';
+import { adaptiveStyleChanges, isAdaptiveStyle } from '../responsive/adaptive-style';
+import {
+  LAYOUT_ANIMATIONS_CAPABILITY,
+  PendingLayoutAnimation,
+  getLayoutAnimationDuration,
+  takePendingLayoutAnimation,
+} from '../animation/layout-animation';
 
 /**
  * View props type
@@ -46,6 +56,15 @@ interface PendingUpdate {
   timestamp: number;
 }
 
+/**
+ * Layout animation and the operations it animates
+ */
+interface LayoutAnimationBatch {
+  animation: PendingLayoutAnimation;
+  /** Operations of the batch not sent yet */
+  remaining: number;
+}
+
 /**
  * View event payload
  */
@@ -62,6 +81,12 @@ export class OptimizedRenderer {
   private readonly messageQueue: MessageQueue;
   private readonly pendingUpdates = new Map<string, PendingUpdate>();
   private readonly propsCache = new Map<string, ViewProps>();
+  private readonly adaptiveStyles = new Map<string, NativeStyle>();
+  /** Queued operations that belong to a layout animation */
+  private readonly layoutAnimationOperations = new Map<BridgeMessage, LayoutAnimationBatch>();
+  /** Layout animation of the operations queued until the next flush */
+  private layoutAnimationBatch: LayoutAnimationBatch | null = null;
+  private environmentSubscription: Subscription | null = null;
   private isUpdateScheduled = false;
   private rootViewId: string | null = null;
 
@@ -79,18 +104,90 @@ export class OptimizedRenderer {
    * Setup the message queue with bridge send callback
    */
   private setupMessageQueue(): void {
-    this.messageQueue.setSendCallback(async (messages) => {
-      if (messages.length === 1) {
-        await this.bridge.send(messages[0]);
+    this.messageQueue.setSendCallback(async (messages, priority) => {
+      // Operations queued from now on are part of the next batch
+      this.layoutAnimationBatch = null;
+      const layoutAnimation = this.findLayoutAnimation(messages);
+
+      if (layoutAnimation) {
+        // The config travels with every chunk of the batch so native animates exactly these operations
+        const supported = this.bridge.capabilities.has(LAYOUT_ANIMATIONS_CAPABILITY);
+        await this.bridge.send({
+          type: 'batch',
+          payload: {
+            messages: messages as unknown as JsonValue,
+            ...(supported ? { layoutAnimation: layoutAnimation.config as unknown as JsonValue } : {}),
+          },
+        }, priority);
+
+        for (const finished of this.releaseLayoutAnimationOperations(messages)) {
+          if (finished.onAnimationDidEnd) {
+            const duration = supported ? getLayoutAnimationDuration(finished.config) : 0;
+            setTimeout(finished.onAnimationDidEnd, duration);
+          }
+        }
+      } else if (messages.length === 1) {
+        await this.bridge.send(messages[0], priority);
       } else {
         await this.bridge.send({
           type: 'batch',
           payload: { messages: messages as unknown as JsonValue },
-        });
+        }, priority);
       }
     });
   }
 
+  /**
+   * Queue an operation, as part of the configured layout animation if any
+   */
+  private enqueue(type: string, payload: JsonValue, priority = MessagePriority.Normal): void {
+    const pending = takePendingLayoutAnimation();
+    if (pending && this.layoutAnimationBatch) {
+      // A later configureNext before the flush replaces the config
+      this.layoutAnimationBatch.animation = pending;
+    } else if (pending) {
+      this.layoutAnimationBatch = { animation: pending, remaining: 0 };
+    }
+
+    const message = this.messageQueue.enqueue(type, payload, priority);
+    if (this.layoutAnimationBatch) {
+      this.layoutAnimationBatch.remaining++;
+      this.layoutAnimationOperations.set(message, this.layoutAnimationBatch);
+    }
+  }
+
+  /**
+   * Layout animation of the first animated operation in a chunk
+   */
+  private findLayoutAnimation(messages: BridgeMessage[]): PendingLayoutAnimation | null {
+    for (const message of messages) {
+      const batch = this.layoutAnimationOperations.get(message);
+      if (batch) {
+        return batch.animation;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Forget the sent operations of layout animations
+   *
+   * @returns Animations whose operations have all been sent
+   */
+  private releaseLayoutAnimationOperations(messages: BridgeMessage[]): PendingLayoutAnimation[] {
+    const finished: PendingLayoutAnimation[] = [];
+    for (const message of messages) {
+      const batch = this.layoutAnimationOperations.get(message);
+      if (batch) {
+        this.layoutAnimationOperations.delete(message);
+        if (--batch.remaining === 0) {
+          finished.push(batch.animation);
+        }
+      }
+    }
+    return finished;
+  }
+
   /**
    * Setup listeners for native events
    */
@@ -117,13 +214,14 @@ export class OptimizedRenderer {
 
     this.viewRegistry.register(node);
     this.propsCache.set(viewId, { ...processedProps });
+    this.trackStyle(viewId, props['style']);
 
     // Use high priority for view creation
-    this.messageQueue.enqueueHigh('createView', {
+    this.enqueue('createView', {
       viewId,
       viewType,
       props: processedProps as unknown as JsonValue,
-    });
+    }, MessagePriority.High);
 
     return viewId;
   }
@@ -132,11 +230,20 @@ export class OptimizedRenderer {
    * Update a view's properties with diff detection
    */
   updateView(viewId: string, props: ViewProps): void {
-    const node = this.viewRegistry.get(viewId);
-    if (!node) {
+    if (!this.viewRegistry.has(viewId)) {
       return;
     }
 
+    if ('style' in props) {
+      this.trackStyle(viewId, props['style']);
+    }
+    this.queueUpdate(viewId, props);
+  }
+
+  /**
+   * Diff props against the last sent ones and queue the changes
+   */
+  private queueUpdate(viewId: string, props: ViewProps): void {
     // Get cached props and compute diff
     const cachedProps = this.propsCache.get(viewId) ?? {};
     const diffProps = this.computePropsDiff(cachedProps, props);
@@ -229,7 +336,7 @@ export class OptimizedRenderer {
       }
 
       // Queue for sending
-      this.messageQueue.enqueue('updateView', {
+      this.enqueue('updateView', {
         viewId,
         props: processedProps as unknown as JsonValue,
       });
@@ -240,8 +347,47 @@ export class OptimizedRenderer {
    * Set or update view style (with caching)
    */
   setStyle(viewId: string, style: NativeStyle): void {
+    if (!this.viewRegistry.has(viewId)) {
+      return;
+    }
+
+    this.trackStyle(viewId, style);
     const transformedStyle = cachedTransformStyle(style);
-    this.updateView(viewId, { style: transformedStyle as unknown as JsonValue });
+    this.queueUpdate(viewId, { style: transformedStyle as unknown as JsonValue });
+  }
+
+  /**
+   * Remember the style of a view while it is adaptive
+   *
+   * Only views with adaptive styles are kept, and the environment is only
+   * watched while there are any.
+   */
+  private trackStyle(viewId: string, style: unknown): void {
+    if (isAdaptiveStyle(style)) {
+      this.adaptiveStyles.set(viewId, style as NativeStyle);
+      this.environmentSubscription ??= adaptiveStyleChanges().subscribe(() => this.refreshAdaptiveStyles());
+    } else {
+      this.untrackStyle(viewId);
+    }
+  }
+
+  private untrackStyle(viewId: string): void {
+    if (this.adaptiveStyles.delete(viewId) && this.adaptiveStyles.size === 0) {
+      this.environmentSubscription?.unsubscribe();
+      this.environmentSubscription = null;
+    }
+  }
+
+  /**
+   * Transform the styles of tracked views for the new environment
+   *
+   * Styles whose environment key didn't change come from the cache, and
+   * unchanged results are dropped by the props diff.
+   */
+  private refreshAdaptiveStyles(): void {
+    for (const [viewId, style] of this.adaptiveStyles) {
+      this.queueUpdate(viewId, { style: cachedTransformStyle(style) as unknown as JsonValue });
+    }
   }
 
   /**
@@ -256,6 +402,7 @@ export class OptimizedRenderer {
     // Cancel any pending updates
     this.pendingUpdates.delete(viewId);
     this.propsCache.delete(viewId);
+    this.untrackStyle(viewId);
 
     // Remove from parent
     if (node.parent) {
@@ -275,7 +422,7 @@ export class OptimizedRenderer {
     this.eventDispatcher.unregisterView(viewId);
 
     // Queue removal
-    this.messageQueue.enqueue('removeView', { viewId });
+    this.enqueue('removeView', { viewId });
   }
 
   /**
@@ -294,7 +441,7 @@ export class OptimizedRenderer {
       parentNode.children.push(childId);
     }
 
-    this.messageQueue.enqueue('appendChild', { parentId, childId });
+    this.enqueue('appendChild', { parentId, childId });
   }
 
   /**
@@ -311,7 +458,7 @@ export class OptimizedRenderer {
     childNode.parent = parentId;
     parentNode.children.splice(index, 0, childId);
 
-    this.messageQueue.enqueue('insertChild', { parentId, childId, index });
+    this.enqueue('insertChild', { parentId, childId, index });
   }
 
   /**
@@ -329,7 +476,7 @@ export class OptimizedRenderer {
       childNode.parent = null;
     }
 
-    this.messageQueue.enqueue('removeChild', { parentId, childId });
+    this.enqueue('removeChild', { parentId, childId });
   }
 
   /**
@@ -337,7 +484,7 @@ export class OptimizedRenderer {
    */
   setRootView(viewId: string): void {
     this.rootViewId = viewId;
-    this.messageQueue.enqueueHigh('setRootView', { viewId });
+    this.enqueue('setRootView', { viewId }, MessagePriority.High);
   }
 
   /**
@@ -390,11 +537,13 @@ export class OptimizedRenderer {
     pendingUpdates: number;
     pendingMessages: number;
     cachedViews: number;
+    adaptiveStyleViews: number;
   } {
     return {
       pendingUpdates: this.pendingUpdates.size,
       pendingMessages: this.messageQueue.pendingCount,
       cachedViews: this.propsCache.size,
+      adaptiveStyleViews: this.adaptiveStyles.size,
     };
   }
 }
@@ -268,7 +268,7 @@ export class AndroidRenderer {
    * Measure a view's dimensions
    */
   async measureView(viewId: string): Promise<ViewMeasurement> {
-    return this.bridge.request<ViewMeasurement>('measureView', { viewId });
+    return this.bridge.request('measureView', { viewId });
   }
 
   /**
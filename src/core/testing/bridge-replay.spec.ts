@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NativeBridge } from '../bridge/native-bridge';
+import { BridgeRecorder, BridgeRecordEntry } from '../bridge/bridge-recorder';
+import { MockNativeRuntime } from './mock-native-runtime';
+import { replayBridgeRecording } from './bridge-replay';
+
+/**
+ * Record a small session: build a tree, ask for device info, then press a button twice
+ */
+async function recordSession(): Promise<BridgeRecordEntry[]> {
+  const runtime = new MockNativeRuntime().install();
+  const bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+  await bridge.connect();
+  runtime.onRequest('getDeviceInfo', () => ({ model: 'Pixel' }));
+
+  const recorder = new BridgeRecorder();
+  recorder.start(bridge);
+
+  await bridge.request('createView', { viewId: 'view_1', viewType: 'View', props: {} });
+  await bridge.request('createView', { viewId: 'view_2', viewType: 'Button', props: { title: 'Go' } });
+  await bridge.request('appendChild', { parentId: 'view_1', childId: 'view_2' });
+  await bridge.request('setRootView', { viewId: 'view_1' });
+  await bridge.request('getDeviceInfo', {});
+  runtime.emitViewEvent('view_2', 'press', { count: 1 });
+  runtime.emitViewEvent('view_2', 'press', { count: 2 });
+  await Promise.resolve();
+
+  await recorder.stop();
+  runtime.uninstall();
+  return [...recorder.entries];
+}
+
+describe('replayBridgeRecording', () => {
+  let entries: BridgeRecordEntry[];
+
+  beforeEach(async () => {
+    entries = await recordSession();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should rebuild the view tree and reproduce viewEvents in the mock runtime', async () => {
+    const runtime = new MockNativeRuntime({ synchronous: true });
+
+    const result = await replayBridgeRecording(entries, runtime, { speed: 0 });
+
+    expect(runtime.toJSON()).toEqual({
+      id: 'view_1',
+      type: 'View',
+      props: {},
+      children: [{ id: 'view_2', type: 'Button', props: { title: 'Go' }, children: [] }],
+    });
+    expect(result.replayed).toBe(7);
+    expect(result.viewEvents.map((event) => event.payload)).toEqual([
+      { viewId: 'view_2', eventType: 'press', payload: { count: 1 } },
+      { viewId: 'view_2', eventType: 'press', payload: { count: 2 } },
+    ]);
+  });
+
+  it('should replay events and recorded responses into the JavaScript side', async () => {
+    const runtime = new MockNativeRuntime().install();
+    const bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+    await bridge.connect();
+    const presses: unknown[] = [];
+    bridge.on('viewEvent', (event) => presses.push(event));
+    const requests: Promise<unknown>[] = [];
+
+    const result = await replayBridgeRecording(entries, runtime, {
+      target: 'app',
+      speed: 0,
+      onEntry: () => requests.push(bridge.request('getDeviceInfo', {})),
+    });
+
+    await expect(requests[0]).resolves.toEqual({ model: 'Pixel' });
+    await expect(requests[1]).rejects.toThrow('No recorded response left for getDeviceInfo');
+    expect(result.replayed).toBe(2);
+    expect(presses).toEqual(result.viewEvents.map((event) => event.payload));
+    expect(runtime.getViewCount()).toBe(0);
+    runtime.uninstall();
+  });
+
+  it('should keep the recorded timing scaled by speed', async () => {
+    vi.useFakeTimers();
+    const runtime = new MockNativeRuntime({ synchronous: true });
+    const timed: BridgeRecordEntry[] = [
+      { seq: 0, time: 0, direction: 'inbound', message: { type: 'url', payload: { url: 'a' } } },
+      { seq: 1, time: 1000, direction: 'inbound', message: { type: 'url', payload: { url: 'b' } } },
+    ];
+    const onEntry = vi.fn();
+
+    const replay = replayBridgeRecording(timed, runtime, { speed: 2, onEntry });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onEntry).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(onEntry).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await replay;
+    expect(onEntry).toHaveBeenCalledTimes(2);
+  });
+});
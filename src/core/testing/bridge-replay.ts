@@ -0,0 +1,136 @@
+/**
+ * Bridge recording replay
+ *
+ * Plays a recording made with `BridgeRecorder` against a
+ * `MockNativeRuntime`, reproducing the recorded `viewEvent` sequence:
+ *
+ * - `native`: the recorded outbound messages are fed into the runtime so
+ *   it rebuilds the recorded view tree, with inbound events emitted in
+ *   their original position.
+ * - `app`: the JavaScript side produces its own messages; the runtime
+ *   answers requests with the recorded responses and emits the recorded
+ *   events to the connected NativeBridge.
+ */
+
+import { BridgeMessage, BridgeResponse, JsonValue } from '../bridge/native-bridge';
+import { BridgeRecordEntry } from '../bridge/bridge-recorder';
+import { MockNativeRuntime } from './mock-native-runtime';
+
+/**
+ * Side of the bridge the recording is replayed into
+ */
+export type BridgeReplayTarget = 'native' | 'app';
+
+/**
+ * Replay options
+ */
+export interface BridgeReplayOptions {
+  /** Defaults to `native` */
+  target?: BridgeReplayTarget;
+  /** Playback speed multiplier; `0` replays without delays (default: 1) */
+  speed?: number;
+  /** Called before each entry is replayed */
+  onEntry?: (entry: BridgeRecordEntry) => void;
+}
+
+/**
+ * Outcome of a replay
+ */
+export interface BridgeReplayResult {
+  /** Entries replayed (outbound messages and inbound events) */
+  replayed: number;
+  /** Events emitted to JavaScript, in order */
+  events: BridgeMessage[];
+  /** The `viewEvent` messages among `events` */
+  viewEvents: BridgeMessage[];
+}
+
+/**
+ * Replay a recording against a mock runtime
+ */
+export async function replayBridgeRecording(
+  entries: readonly BridgeRecordEntry[],
+  runtime: MockNativeRuntime,
+  options: BridgeReplayOptions = {}
+): Promise<BridgeReplayResult> {
+  const target = options.target ?? 'native';
+  const speed = options.speed ?? 1;
+  const result: BridgeReplayResult = { replayed: 0, events: [], viewEvents: [] };
+  const restoreHandlers = target === 'app' ? answerWithRecordedResponses(entries, runtime) : [];
+  let previousTime: number | null = null;
+
+  try {
+    for (const entry of entries) {
+      const message = entry.message;
+      const isEvent = entry.direction === 'inbound' && 'type' in message;
+      const isReplayed = isEvent || (target === 'native' && entry.direction === 'outbound');
+      if (!isReplayed) {
+        continue;
+      }
+
+      if (speed > 0 && previousTime !== null && entry.time > previousTime) {
+        await wait((entry.time - previousTime) / speed);
+      }
+      previousTime = entry.time;
+      options.onEntry?.(entry);
+
+      if (isEvent) {
+        const event = message as BridgeMessage;
+        runtime.emit(event.type, event.payload);
+        result.events.push(event);
+        if (event.type === 'viewEvent') {
+          result.viewEvents.push(event);
+        }
+      } else {
+        runtime.receive(message as BridgeMessage);
+      }
+      result.replayed++;
+    }
+  } finally {
+    restoreHandlers.forEach((restore) => restore());
+  }
+
+  return result;
+}
+
+/**
+ * Register runtime handlers that answer each request type with its
+ * recorded responses, in recorded order
+ */
+function answerWithRecordedResponses(
+  entries: readonly BridgeRecordEntry[],
+  runtime: MockNativeRuntime
+): (() => void)[] {
+  const requestTypes = new Map<string, string>();
+  const responses = new Map<string, BridgeResponse[]>();
+
+  for (const { direction, message } of entries) {
+    if (direction === 'outbound' && 'type' in message && message.id) {
+      requestTypes.set(message.id, message.type);
+    } else if (direction === 'inbound' && 'success' in message) {
+      const type = requestTypes.get(message.id);
+      if (type) {
+        const queue = responses.get(type) ?? [];
+        queue.push(message);
+        responses.set(type, queue);
+      }
+    }
+  }
+
+  return [...responses].map(([type, queue]) =>
+    runtime.onRequest(type, () => {
+      const response = queue.shift();
+      if (!response) {
+        throw new Error(`No recorded response left for ${type}`);
+      }
+      if (!response.success) {
+        throw new Error(response.error ?? 'Unknown error');
+      }
+      return response.data as JsonValue;
+    })
+  );
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NativeBridge } from '../bridge/native-bridge';
+import { BridgeMessageType } from '../bridge/bridge-protocol';
+import { OptimizedRenderer } from '../runtime/optimized-renderer';
+import { ViewRegistry } from '../runtime/view-registry';
+import { EventDispatcher } from '../runtime/event-dispatcher';
+import { MockNativeRuntime } from './mock-native-runtime';
+
+describe('MockNativeRuntime', () => {
+  let runtime: MockNativeRuntime;
+  let bridge: NativeBridge;
+
+  beforeEach(async () => {
+    runtime = new MockNativeRuntime().install();
+    bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+    await bridge.connect();
+  });
+
+  afterEach(() => {
+    runtime.uninstall();
+  });
+
+  it('should install and remove the bridge global', () => {
+    const global = globalThis as unknown as { __ANDROID_BRIDGE__?: unknown };
+
+    expect(global.__ANDROID_BRIDGE__).toBeDefined();
+    expect(runtime.isConnected).toBe(true);
+
+    runtime.uninstall();
+    expect(global.__ANDROID_BRIDGE__).toBeUndefined();
+  });
+
+  it('should answer view operations', async () => {
+    await expect(
+      bridge.request('createView', { viewId: 'view_1', viewType: 'View', props: { testID: 'root' } })
+    ).resolves.toEqual({ viewId: 'view_1' });
+    await bridge.request('createView', { viewId: 'view_2', viewType: 'Text', props: {} });
+    await bridge.request('appendChild', { parentId: 'view_1', childId: 'view_2' });
+    await bridge.request('updateView', { viewId: 'view_2', props: { text: 'Hello' } });
+    await bridge.request('setRootView', { viewId: 'view_1' });
+
+    expect(runtime.getRootView()?.id).toBe('view_1');
+    expect(runtime.getChildren('view_1').map((view) => view.id)).toEqual(['view_2']);
+    expect(runtime.getView('view_2')?.props).toEqual({ text: 'Hello' });
+  });
+
+  it('should reject operations on unknown views', async () => {
+    await expect(bridge.request('updateView', { viewId: 'missing', props: {} })).rejects.toThrow(
+      'View not found: missing'
+    );
+    await expect(bridge.request('appendChild', { parentId: 'a', childId: 'b' })).rejects.toThrow(
+      'Parent or child not found'
+    );
+  });
+
+  it('should remove views from their parent like the Kotlin registry', async () => {
+    await bridge.request('createView', { viewId: 'view_1', viewType: 'View' });
+    await bridge.request('createView', { viewId: 'view_2', viewType: 'View' });
+    await bridge.request('appendChild', { parentId: 'view_1', childId: 'view_2' });
+    await bridge.request('removeView', { viewId: 'view_2' });
+
+    expect(runtime.hasView('view_2')).toBe(false);
+    expect(runtime.getView('view_1')?.children).toEqual([]);
+    expect(runtime.getViewCount()).toBe(1);
+  });
+
+  it('should answer custom requests', async () => {
+    runtime.onRequest('getPlatformInfo', () => ({ os: { type: 'android' } }));
+
+    await expect(bridge.request('getPlatformInfo', {})).resolves.toEqual({ os: { type: 'android' } });
+    await expect(bridge.request('unknownRequest' as BridgeMessageType, {} as never)).rejects.toThrow(
+      'Unknown message type: unknownRequest'
+    );
+  });
+
+  it('should emit view events', async () => {
+    const handler = vi.fn();
+    bridge.on('viewEvent', handler);
+
+    runtime.emitViewEvent('view_1', 'press', { x: 10 });
+    await Promise.resolve();
+
+    expect(handler).toHaveBeenCalledWith({ viewId: 'view_1', eventType: 'press', payload: { x: 10 } });
+  });
+
+  it('should mirror the OptimizedRenderer tree end-to-end', async () => {
+    const dispatcher = new EventDispatcher();
+    const renderer = new OptimizedRenderer(bridge, new ViewRegistry(), dispatcher);
+
+    const root = renderer.createView('View', { style: { flex: 1 } });
+    const label = renderer.createView('Text', { text: 'Count: 0' });
+    renderer.appendChild(root, label);
+    renderer.setRootView(root);
+    renderer.updateView(label, { text: 'Count: 1' });
+    await renderer.flush();
+    await Promise.resolve();
+
+    expect(runtime.toJSON()).toEqual({
+      id: root,
+      type: 'View',
+      props: { style: { flex: 1 } },
+      children: [{ id: label, type: 'Text', props: { text: 'Count: 1' }, children: [] }],
+    });
+
+    const handler = vi.fn();
+    renderer.registerEventListener(label, 'press', handler);
+    runtime.emitViewEvent(label, 'press', {});
+    await Promise.resolve();
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ type: 'press', target: label }));
+  });
+});
@@ -0,0 +1,989 @@
+/**
+ * In-process mock of the native runtime
+ *
+ * Installs `__ANDROID_BRIDGE__` / `__IOS_BRIDGE__` globals and answers
+ * bridge messages the way `AngularMobileRuntime.kt` does, keeping its own
+ * view tree that mirrors the Android `ViewRegistry`. This allows
+ * NativeBridge, the renderers and components to be exercised end-to-end
+ * in vitest without a device.
+ *
+ * Features:
+ * - View operations (create/update/remove, hierarchy, root view)
+ * - `batch` / `batchOperations` unpacking
+ * - Protocol `handshake` (configurable version and capabilities)
+ * - Custom request handlers (e.g. `getPlatformInfo`)
+ * - `viewEvent` emission back to JavaScript
+ * - Native-driven animation graph; animations jump to their end value
+ *   once their delay and duration have elapsed (use fake timers)
+ * - Layout animation configs attached to batches are recorded
+ * - Gesture recognizers are recorded; `emitGestureEvent` drives them
+ * - Accessibility settings; `setReduceMotionEnabled` reports changes
+ */
+
+import { BridgeMessage, BridgeResponse, JsonValue } from '../bridge/native-bridge';
+import { BRIDGE_CAPABILITIES, BRIDGE_PROTOCOL_VERSION } from '../bridge/bridge-protocol';
+import {
+  AnimatedArithmetic,
+  AnimatedModulo,
+  AnimatedValue,
+  NativeAnimatedNodeConfig,
+  NativeAnimationConfig,
+  solveSpring,
+} from '../animation/animated';
+import { LayoutAnimationConfig } from '../animation/layout-animation';
+import { GestureState } from '../../types/event.types';
+
+/**
+ * Native global the runtime installs itself as
+ */
+export type MockBridgeGlobal = '__ANDROID_BRIDGE__' | '__IOS_BRIDGE__';
+
+/**
+ * View held by the mock runtime
+ */
+export interface MockNativeView {
+  id: string;
+  type: string;
+  props: Record<string, unknown>;
+  children: string[];
+  parent: string | null;
+  focused: boolean;
+}
+
+/**
+ * Layout reported for `measureView`
+ */
+export interface MockViewLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Handler for a custom request type
+ *
+ * The returned value is sent back as the response `data`; throwing
+ * (or rejecting) produces an error response.
+ */
+export type MockRequestHandler = (payload: Record<string, unknown>) => unknown;
+
+/**
+ * Mock runtime configuration
+ */
+export interface MockNativeRuntimeConfig {
+  /** Global to install (defaults to the Android bridge) */
+  global?: MockBridgeGlobal;
+  /** Deliver responses synchronously instead of on a microtask */
+  synchronous?: boolean;
+  /**
+   * Protocol version reported in the handshake (defaults to
+   * `BRIDGE_PROTOCOL_VERSION`); `0` mimics a runtime that predates it
+   */
+  protocolVersion?: number;
+  /** Capabilities reported in the handshake (defaults to all) */
+  capabilities?: string[];
+}
+
+/**
+ * Animated node held by the mock runtime
+ */
+interface MockAnimatedNode {
+  config: NativeAnimatedNodeConfig;
+  /** Views a props node is connected to */
+  views: Set<string>;
+  /** Last input and output of a diffclamp node */
+  diffClamp?: { input: number; value: number };
+}
+
+/**
+ * Gesture recognizer held by the mock runtime
+ */
+export interface MockGestureHandler {
+  handlerTag: number;
+  handlerType: string;
+  config: Record<string, unknown>;
+  viewId: string | null;
+  state: GestureState;
+}
+
+/**
+ * Native frame duration timing animations are sampled at
+ */
+const MOCK_FRAME_MS = 1000 / 60;
+
+/**
+ * Longest a spring runs before it is considered settled (undamped springs never are)
+ */
+const MOCK_MAX_SPRING_MS = 60_000;
+
+/**
+ * Work out how long a native animation runs and where it ends
+ *
+ * Springs and decays are stepped per frame the same way the native
+ * runtimes step them.
+ */
+function settleAnimation(config: NativeAnimationConfig, fromValue: number): { duration: number; toValue: number } {
+  switch (config.type) {
+    case 'timing':
+      return { duration: config.frames.length * MOCK_FRAME_MS, toValue: config.toValue };
+    case 'spring': {
+      const physics = { stiffness: config.stiffness, damping: config.damping, mass: config.mass };
+      const initial = { displacement: fromValue - config.toValue, velocity: config.initialVelocity };
+
+      for (let elapsed = 0; elapsed < MOCK_MAX_SPRING_MS; elapsed += MOCK_FRAME_MS) {
+        const { displacement, velocity } = solveSpring(physics, initial, elapsed / 1000);
+        const overshooting =
+          config.overshootClamping && (initial.displacement < 0 ? displacement > 0 : displacement < 0);
+        const atRest =
+          Math.abs(velocity) <= config.restSpeedThreshold &&
+          Math.abs(displacement) <= config.restDisplacementThreshold;
+        if (overshooting || atRest) {
+          return { duration: elapsed, toValue: config.toValue };
+        }
+      }
+      return { duration: MOCK_MAX_SPRING_MS, toValue: config.toValue };
+    }
+    case 'decay': {
+      const decay = 1 - config.deceleration;
+      let elapsed = 0;
+      let value = fromValue;
+
+      for (;;) {
+        elapsed += MOCK_FRAME_MS;
+        const next = fromValue + (config.velocity / decay) * (1 - Math.exp(-decay * elapsed));
+        if (config.min !== null && next <= config.min) {
+          return { duration: elapsed, toValue: config.min };
+        }
+        if (config.max !== null && next >= config.max) {
+          return { duration: elapsed, toValue: config.max };
+        }
+        if (Math.abs(next - value) < 0.1) {
+          return { duration: elapsed, toValue: next };
+        }
+        value = next;
+      }
+    }
+  }
+}
+
+/**
+ * Root container id (the Kotlin runtime's activity content view)
+ */
+export const MOCK_ROOT_CONTAINER_ID = '__root__';
+
+/**
+ * Shape of the bridge object exposed on the global
+ */
+interface MockBridgeObject {
+  registerCallback: (callback: (message: string) => void) => void;
+  postMessage: (data: string) => void;
+}
+
+type MockGlobal = Partial<Record<MockBridgeGlobal, MockBridgeObject>>;
+
+/**
+ * In-process stand-in for the Android/iOS native runtime
+ */
+export class MockNativeRuntime {
+  private readonly views = new Map<string, MockNativeView>();
+  private readonly layouts = new Map<string, MockViewLayout>();
+  private readonly listeners = new Map<string, Set<string>>();
+  private readonly requestHandlers = new Map<string, MockRequestHandler>();
+  private readonly animatedNodes = new Map<number, MockAnimatedNode>();
+  private readonly animations = new Map<number, { tag: number; timer: ReturnType<typeof setTimeout> }>();
+  private readonly received: BridgeMessage[] = [];
+  private readonly layoutAnimations: LayoutAnimationConfig[] = [];
+  private readonly gestureHandlers = new Map<number, MockGestureHandler>();
+  private readonly globalName: MockBridgeGlobal;
+  private readonly synchronous: boolean;
+  private readonly protocolVersion: number;
+  private readonly capabilities: string[];
+
+  private callback: ((message: string) => void) | null = null;
+  private previousGlobal: MockBridgeObject | undefined;
+  private installed = false;
+  private rootViewId: string | null = null;
+  private viewIdCounter = 0;
+  private reduceMotionEnabled = false;
+
+  constructor(config: MockNativeRuntimeConfig = {}) {
+    this.globalName = config.global ?? '__ANDROID_BRIDGE__';
+    this.synchronous = config.synchronous ?? false;
+    this.protocolVersion = config.protocolVersion ?? BRIDGE_PROTOCOL_VERSION;
+    this.capabilities = config.capabilities ?? [...BRIDGE_CAPABILITIES];
+  }
+
+  /**
+   * Install the bridge global
+   */
+  install(): this {
+    if (this.installed) {
+      return this;
+    }
+
+    const global = globalThis as unknown as MockGlobal;
+    this.previousGlobal = global[this.globalName];
+    global[this.globalName] = {
+      registerCallback: (callback) => {
+        this.callback = callback;
+      },
+      postMessage: (data) => {
+        this.handleMessage(JSON.parse(data) as BridgeMessage);
+      },
+    };
+
+    this.installed = true;
+    return this;
+  }
+
+  /**
+   * Remove the bridge global, restoring any previous value
+   */
+  uninstall(): void {
+    if (!this.installed) {
+      return;
+    }
+
+    const global = globalThis as unknown as MockGlobal;
+    if (this.previousGlobal) {
+      global[this.globalName] = this.previousGlobal;
+    } else {
+      delete global[this.globalName];
+    }
+
+    this.previousGlobal = undefined;
+    this.callback = null;
+    this.installed = false;
+  }
+
+  /**
+   * Whether a NativeBridge has registered its callback
+   */
+  get isConnected(): boolean {
+    return this.callback !== null;
+  }
+
+  /**
+   * Answer a custom request type
+   */
+  onRequest(type: string, handler: MockRequestHandler): () => void {
+    this.requestHandlers.set(type, handler);
+
+    return () => {
+      if (this.requestHandlers.get(type) === handler) {
+        this.requestHandlers.delete(type);
+      }
+    };
+  }
+
+  /**
+   * Handle a message as if JavaScript had posted it
+   *
+   * Used to drive the runtime without a connected NativeBridge, e.g.
+   * when replaying a recorded session.
+   */
+  receive(message: BridgeMessage): void {
+    this.handleMessage(message);
+  }
+
+  /**
+   * Emit a `viewEvent` to JavaScript
+   */
+  emitViewEvent(viewId: string, eventType: string, payload: Record<string, unknown> = {}): void {
+    this.emit('viewEvent', { viewId, eventType, payload });
+  }
+
+  /**
+   * Emit an arbitrary event message to JavaScript
+   */
+  emit(type: string, payload: unknown): void {
+    this.sendToJS({ type, payload: payload as JsonValue });
+  }
+
+  /**
+   * Get a view by ID
+   */
+  getView(viewId: string): MockNativeView | undefined {
+    return this.views.get(viewId);
+  }
+
+  /**
+   * Check if a view exists
+   */
+  hasView(viewId: string): boolean {
+    return this.views.has(viewId);
+  }
+
+  /**
+   * Get all registered view IDs
+   */
+  getAllViewIds(): string[] {
+    return Array.from(this.views.keys());
+  }
+
+  /**
+   * Get the total count of registered views
+   */
+  getViewCount(): number {
+    return this.views.size;
+  }
+
+  /**
+   * Get the view currently attached to the root container
+   */
+  getRootView(): MockNativeView | undefined {
+    return this.rootViewId ? this.views.get(this.rootViewId) : undefined;
+  }
+
+  /**
+   * Get the child views of a view in order
+   */
+  getChildren(viewId: string): MockNativeView[] {
+    const view = this.views.get(viewId);
+    if (!view) {
+      return [];
+    }
+
+    return view.children
+      .map((childId) => this.views.get(childId))
+      .filter((child): child is MockNativeView => child !== undefined);
+  }
+
+  /**
+   * Find views by type
+   */
+  findByType(type: string): MockNativeView[] {
+    return Array.from(this.views.values()).filter((view) => view.type === type);
+  }
+
+  /**
+   * Check if a view has a native listener for an event type
+   */
+  hasListener(viewId: string, eventType: string): boolean {
+    return this.listeners.get(viewId)?.has(eventType) ?? false;
+  }
+
+  /**
+   * Set the layout reported by `measureView`
+   */
+  setLayout(viewId: string, layout: MockViewLayout): void {
+    this.layouts.set(viewId, layout);
+  }
+
+  /**
+   * Get messages received from JavaScript (batches unpacked)
+   */
+  getReceivedMessages(type?: string): BridgeMessage[] {
+    return type ? this.received.filter((message) => message.type === type) : [...this.received];
+  }
+
+  /**
+   * Clear the received message log
+   */
+  clearReceivedMessages(): void {
+    this.received.length = 0;
+  }
+
+  /**
+   * Clear all views, listeners and logged messages
+   */
+  reset(): void {
+    this.animations.forEach((animation) => clearTimeout(animation.timer));
+    this.animations.clear();
+    this.animatedNodes.clear();
+    this.views.clear();
+    this.layouts.clear();
+    this.listeners.clear();
+    this.received.length = 0;
+    this.layoutAnimations.length = 0;
+    this.gestureHandlers.clear();
+    this.rootViewId = null;
+  }
+
+  /**
+   * Get the layout animation configs received with batches, oldest first
+   */
+  getLayoutAnimations(): LayoutAnimationConfig[] {
+    return [...this.layoutAnimations];
+  }
+
+  /**
+   * Get a gesture recognizer by handler tag
+   */
+  getGestureHandler(handlerTag: number): MockGestureHandler | undefined {
+    return this.gestureHandlers.get(handlerTag);
+  }
+
+  /**
+   * Get the gesture recognizers attached to a view
+   */
+  getGestureHandlers(viewId: string): MockGestureHandler[] {
+    return [...this.gestureHandlers.values()].filter((handler) => handler.viewId === viewId);
+  }
+
+  /**
+   * Move a gesture recognizer to a state and report it to JavaScript
+   */
+  emitGestureEvent(handlerTag: number, state: GestureState, data: Record<string, number> = {}): void {
+    const handler = this.gestureHandlers.get(handlerTag);
+    if (!handler) {
+      throw new Error(`Gesture handler not found: ${handlerTag}`);
+    }
+
+    handler.state = state;
+    this.emit('gestureHandlerEvent', { handlerTag, state, data });
+  }
+
+  /**
+   * Change the reduce motion setting and report it to JavaScript
+   */
+  setReduceMotionEnabled(enabled: boolean): void {
+    this.reduceMotionEnabled = enabled;
+    this.emit('accessibilityInfoChange', { reduceMotionEnabled: enabled });
+  }
+
+  /**
+   * Get the current output of an animated node
+   */
+  getAnimatedNodeValue(tag: number): number | string | undefined {
+    return this.animatedNodes.has(tag) ? this.evaluateAnimatedNode(tag) : undefined;
+  }
+
+  /**
+   * Get the ids of the animations currently running
+   */
+  getRunningAnimationIds(): number[] {
+    return [...this.animations.keys()];
+  }
+
+  /**
+   * Serialize the attached tree for snapshots
+   */
+  toJSON(): object | null {
+    const serialize = (viewId: string): object | null => {
+      const view = this.views.get(viewId);
+      if (!view) {
+        return null;
+      }
+
+      return {
+        id: view.id,
+        type: view.type,
+        props: view.props,
+        children: view.children.map(serialize).filter((child) => child !== null),
+      };
+    };
+
+    return this.rootViewId ? serialize(this.rootViewId) : null;
+  }
+
+  /**
+   * Generate a unique view ID (Kotlin `ViewRegistry.generateViewId`)
+   */
+  generateViewId(): string {
+    return `view_${++this.viewIdCounter}`;
+  }
+
+  /**
+   * Handle a message posted by JavaScript
+   */
+  private handleMessage(message: BridgeMessage): void {
+    const payload = (message.payload ?? {}) as Record<string, unknown>;
+    const id = message.id ?? null;
+
+    if (message.type !== 'batch' && message.type !== 'batchOperations') {
+      this.received.push(message);
+    }
+
+    try {
+      switch (message.type) {
+        case 'handshake':
+          this.handleHandshake(id, payload);
+          break;
+        case 'createView':
+          this.handleCreateView(id, payload);
+          break;
+        case 'updateView':
+          this.handleUpdateView(id, payload);
+          break;
+        case 'removeView':
+          this.unregister(String(payload['viewId']));
+          this.sendSuccess(id);
+          break;
+        case 'appendChild':
+          this.handleInsertChild(id, payload, -1);
+          break;
+        case 'insertChild':
+          this.handleInsertChild(id, payload, Number(payload['index']));
+          break;
+        case 'removeChild':
+          this.handleRemoveChild(id, payload);
+          break;
+        case 'setRootView':
+          this.handleSetRootView(id, payload);
+          break;
+        case 'batch':
+        case 'batchOperations':
+          this.handleBatch(id, payload);
+          break;
+        case 'measureView':
+          this.handleMeasureView(id, payload);
+          break;
+        case 'focus':
+        case 'blur':
+          this.handleFocus(id, payload, message.type === 'focus');
+          break;
+        case 'addEventListener':
+        case 'removeEventListener':
+          this.handleEventListener(id, payload, message.type === 'addEventListener');
+          break;
+        case 'createAnimatedNode':
+          this.animatedNodes.set(Number(payload['tag']), {
+            config: payload['config'] as NativeAnimatedNodeConfig,
+            views: new Set(),
+          });
+          this.sendSuccess(id);
+          break;
+        case 'dropAnimatedNode':
+          this.animatedNodes.delete(Number(payload['tag']));
+          this.sendSuccess(id);
+          break;
+        case 'connectAnimatedNodeToView':
+        case 'disconnectAnimatedNodeFromView':
+          this.handleConnectAnimatedNode(id, payload, message.type === 'connectAnimatedNodeToView');
+          break;
+        case 'setAnimatedNodeValue':
+          this.handleSetAnimatedNodeValue(id, payload);
+          break;
+        case 'startAnimatingNode':
+          this.handleStartAnimation(id, payload);
+          break;
+        case 'stopAnimation':
+          this.finishAnimation(Number(payload['animationId']), false);
+          this.sendSuccess(id);
+          break;
+        case 'createGestureHandler':
+          this.gestureHandlers.set(Number(payload['handlerTag']), {
+            handlerTag: Number(payload['handlerTag']),
+            handlerType: String(payload['handlerType']),
+            config: payload['config'] as Record<string, unknown>,
+            viewId: null,
+            state: GestureState.Undetermined,
+          });
+          this.sendSuccess(id);
+          break;
+        case 'attachGestureHandler':
+        case 'updateGestureHandler':
+          this.handleGestureHandler(id, payload);
+          break;
+        case 'dropGestureHandler':
+          this.gestureHandlers.delete(Number(payload['handlerTag']));
+          this.sendSuccess(id);
+          break;
+        case 'getAccessibilityInfo':
+          this.sendSuccess(id, { reduceMotionEnabled: this.reduceMotionEnabled });
+          break;
+        default:
+          this.handleRequest(id, message.type, payload);
+          break;
+      }
+    } catch (error) {
+      this.sendError(id, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private handleHandshake(id: string | null, payload: Record<string, unknown>): void {
+    if (this.protocolVersion === 0) {
+      this.handleRequest(id, 'handshake', payload);
+      return;
+    }
+
+    this.sendSuccess(id, {
+      protocolVersion: this.protocolVersion,
+      capabilities: this.capabilities,
+      runtime: 'mock',
+    });
+  }
+
+  private handleCreateView(id: string | null, payload: Record<string, unknown>): void {
+    const viewId = requireString(payload, 'viewId');
+    const viewType = requireString(payload, 'viewType');
+
+    this.views.set(viewId, {
+      id: viewId,
+      type: viewType,
+      props: { ...((payload['props'] as Record<string, unknown> | undefined) ?? {}) },
+      children: [],
+      parent: null,
+      focused: false,
+    });
+    this.sendSuccess(id, { viewId });
+  }
+
+  private handleUpdateView(id: string | null, payload: Record<string, unknown>): void {
+    const viewId = requireString(payload, 'viewId');
+    const view = this.views.get(viewId);
+
+    if (!view) {
+      this.sendError(id, `View not found: ${viewId}`);
+      return;
+    }
+
+    const props = (payload['props'] as Record<string, unknown> | undefined) ?? {};
+    for (const [key, value] of Object.entries(props)) {
+      if (value === null || value === undefined) {
+        delete view.props[key];
+      } else {
+        view.props[key] = value;
+      }
+    }
+    this.sendSuccess(id);
+  }
+
+  private handleInsertChild(id: string | null, payload: Record<string, unknown>, index: number): void {
+    const parent = this.views.get(requireString(payload, 'parentId'));
+    const child = this.views.get(requireString(payload, 'childId'));
+
+    if (!parent || !child) {
+      this.sendError(id, 'Parent or child not found');
+      return;
+    }
+
+    // A view can only have one parent (ViewGroup.addView semantics)
+    this.detach(child);
+
+    if (index < 0 || index >= parent.children.length) {
+      parent.children.push(child.id);
+    } else {
+      parent.children.splice(index, 0, child.id);
+    }
+    child.parent = parent.id;
+    this.sendSuccess(id);
+  }
+
+  private handleRemoveChild(id: string | null, payload: Record<string, unknown>): void {
+    const parent = this.views.get(requireString(payload, 'parentId'));
+    const child = this.views.get(requireString(payload, 'childId'));
+
+    if (!parent || !child) {
+      this.sendError(id, 'Parent or child not found');
+      return;
+    }
+
+    if (child.parent === parent.id) {
+      this.detach(child);
+    }
+    this.sendSuccess(id);
+  }
+
+  private handleSetRootView(id: string | null, payload: Record<string, unknown>): void {
+    const viewId = requireString(payload, 'viewId');
+    const view = this.views.get(viewId);
+
+    if (!view) {
+      this.sendError(id, `View not found: ${viewId}`);
+      return;
+    }
+
+    // Root container replaces its content (removeAllViews + addView)
+    const previous = this.getRootView();
+    if (previous) {
+      previous.parent = null;
+    }
+
+    this.detach(view);
+    view.parent = MOCK_ROOT_CONTAINER_ID;
+    this.rootViewId = viewId;
+    this.sendSuccess(id);
+  }
+
+  private handleBatch(id: string | null, payload: Record<string, unknown>): void {
+    const operations = (payload['operations'] ?? payload['messages'] ?? []) as BridgeMessage[];
+
+    if (payload['layoutAnimation']) {
+      this.layoutAnimations.push(payload['layoutAnimation'] as LayoutAnimationConfig);
+    }
+
+    for (const operation of operations) {
+      this.handleMessage(operation);
+    }
+    this.sendSuccess(id);
+  }
+
+  private handleGestureHandler(id: string | null, payload: Record<string, unknown>): void {
+    const handler = this.gestureHandlers.get(Number(payload['handlerTag']));
+    if (!handler) {
+      this.sendError(id, `Gesture handler not found: ${String(payload['handlerTag'])}`);
+      return;
+    }
+
+    if (payload['viewId'] !== undefined) {
+      const viewId = requireString(payload, 'viewId');
+      if (!this.views.has(viewId)) {
+        this.sendError(id, `View not found: ${viewId}`);
+        return;
+      }
+      handler.viewId = viewId;
+    }
+    if (payload['config'] !== undefined) {
+      handler.config = payload['config'] as Record<string, unknown>;
+    }
+    this.sendSuccess(id);
+  }
+
+  private handleMeasureView(id: string | null, payload: Record<string, unknown>): void {
+    const viewId = requireString(payload, 'viewId');
+    const view = this.views.get(viewId);
+
+    if (!view) {
+      this.sendError(id, `View not found: ${viewId}`);
+      return;
+    }
+
+    const style = (view.props['style'] as Record<string, unknown> | undefined) ?? {};
+    const layout = this.layouts.get(viewId) ?? {
+      x: 0,
+      y: 0,
+      width: typeof style['width'] === 'number' ? style['width'] : 0,
+      height: typeof style['height'] === 'number' ? style['height'] : 0,
+    };
+    this.sendSuccess(id, layout);
+  }
+
+  private handleFocus(id: string | null, payload: Record<string, unknown>, focused: boolean): void {
+    const view = this.views.get(requireString(payload, 'viewId'));
+
+    if (view) {
+      if (focused) {
+        this.views.forEach((other) => {
+          other.focused = false;
+        });
+      }
+      view.focused = focused;
+    }
+    this.sendSuccess(id);
+  }
+
+  private handleEventListener(id: string | null, payload: Record<string, unknown>, add: boolean): void {
+    const viewId = requireString(payload, 'viewId');
+    const eventType = requireString(payload, 'eventType');
+
+    if (add) {
+      if (!this.listeners.has(viewId)) {
+        this.listeners.set(viewId, new Set());
+      }
+      this.listeners.get(viewId)?.add(eventType);
+    } else {
+      this.listeners.get(viewId)?.delete(eventType);
+    }
+    this.sendSuccess(id);
+  }
+
+  private handleConnectAnimatedNode(id: string | null, payload: Record<string, unknown>, connect: boolean): void {
+    const node = this.animatedNodes.get(Number(payload['tag']));
+    const viewId = requireString(payload, 'viewId');
+
+    if (!node || node.config.type !== 'props') {
+      this.sendError(id, `Animated props node not found: ${String(payload['tag'])}`);
+      return;
+    }
+
+    if (connect) {
+      node.views.add(viewId);
+      this.applyAnimatedProps();
+    } else {
+      node.views.delete(viewId);
+    }
+    this.sendSuccess(id);
+  }
+
+  private handleSetAnimatedNodeValue(id: string | null, payload: Record<string, unknown>): void {
+    const config = this.animatedNodes.get(Number(payload['tag']))?.config;
+
+    if (config?.type !== 'value') {
+      this.sendError(id, `Animated value node not found: ${String(payload['tag'])}`);
+      return;
+    }
+
+    config.value = Number(payload['value']);
+    config.offset = Number(payload['offset'] ?? config.offset);
+    this.applyAnimatedProps();
+    this.sendSuccess(id);
+  }
+
+  private handleStartAnimation(id: string | null, payload: Record<string, unknown>): void {
+    const tag = Number(payload['tag']);
+    const animationId = Number(payload['animationId']);
+    const config = payload['config'] as NativeAnimationConfig;
+    const valueNode = this.animatedNodes.get(tag)?.config;
+
+    if (valueNode?.type !== 'value') {
+      this.sendError(id, `Animated value node not found: ${tag}`);
+      return;
+    }
+
+    // A new animation interrupts the one running on the same value
+    for (const [runningId, running] of this.animations) {
+      if (running.tag === tag) {
+        this.finishAnimation(runningId, false);
+      }
+    }
+
+    const { duration, toValue } = settleAnimation(config, valueNode.value);
+    const timer = setTimeout(() => {
+      const node = this.animatedNodes.get(tag)?.config;
+      if (node?.type === 'value') {
+        node.value = toValue;
+        this.applyAnimatedProps();
+      }
+      this.finishAnimation(animationId, true);
+    }, config.delay + duration);
+
+    this.animations.set(animationId, { tag, timer });
+    this.sendSuccess(id);
+  }
+
+  private finishAnimation(animationId: number, finished: boolean): void {
+    const animation = this.animations.get(animationId);
+    if (!animation) {
+      return;
+    }
+
+    clearTimeout(animation.timer);
+    this.animations.delete(animationId);
+
+    const config = this.animatedNodes.get(animation.tag)?.config;
+    const value = config?.type === 'value' ? config.value : 0;
+    this.emit('animationFinished', { animationId, finished, value });
+  }
+
+  /**
+   * Write the output of every connected props node to its views
+   */
+  private applyAnimatedProps(): void {
+    for (const node of this.animatedNodes.values()) {
+      if (node.config.type !== 'props') {
+        continue;
+      }
+
+      const props: Record<string, unknown> = {};
+      for (const [name, tag] of Object.entries(node.config.props)) {
+        props[name] = this.evaluateAnimatedNode(tag);
+      }
+      node.views.forEach((viewId) => Object.assign(this.views.get(viewId)?.props ?? {}, props));
+    }
+  }
+
+  private evaluateAnimatedNode(tag: number): number | string {
+    const config = this.animatedNodes.get(tag)?.config;
+
+    switch (config?.type) {
+      case 'value':
+        return config.value + config.offset;
+      case 'interpolation':
+        return new AnimatedValue(Number(this.evaluateAnimatedNode(config.input))).interpolate(config).value;
+      case 'addition':
+      case 'subtraction':
+      case 'multiplication':
+      case 'division': {
+        const [a, b] = config.input.map((input) => Number(this.evaluateAnimatedNode(input)));
+        return new AnimatedArithmetic(config.type, a, b).value;
+      }
+      case 'modulus':
+        return new AnimatedModulo(new AnimatedValue(Number(this.evaluateAnimatedNode(config.input))), config.modulus)
+          .value;
+      case 'diffclamp': {
+        const node = this.animatedNodes.get(tag)!;
+        const input = Number(this.evaluateAnimatedNode(config.input));
+        const last = node.diffClamp ?? { input, value: input };
+        const value = Math.min(Math.max(last.value + input - last.input, config.min), config.max);
+        node.diffClamp = { input, value };
+        return value;
+      }
+      default:
+        return 0;
+    }
+  }
+
+  private handleRequest(id: string | null, type: string, payload: Record<string, unknown>): void {
+    const handler = this.requestHandlers.get(type);
+
+    if (!handler) {
+      this.sendError(id, `Unknown message type: ${type}`);
+      return;
+    }
+
+    Promise.resolve()
+      .then(() => handler(payload))
+      .then(
+        (data) => this.sendSuccess(id, data),
+        (error: unknown) => this.sendError(id, error instanceof Error ? error.message : String(error))
+      );
+  }
+
+  /**
+   * Unregister a view and remove it from its parent
+   * (children stay registered, as in the Kotlin registry)
+   */
+  private unregister(viewId: string): void {
+    const view = this.views.get(viewId);
+    if (!view) {
+      return;
+    }
+
+    this.detach(view);
+    this.views.delete(viewId);
+    this.layouts.delete(viewId);
+    this.listeners.delete(viewId);
+  }
+
+  private detach(view: MockNativeView): void {
+    if (view.parent === MOCK_ROOT_CONTAINER_ID) {
+      this.rootViewId = null;
+    } else if (view.parent) {
+      const parent = this.views.get(view.parent);
+      if (parent) {
+        parent.children = parent.children.filter((childId) => childId !== view.id);
+      }
+    }
+    view.parent = null;
+  }
+
+  private sendSuccess(id: string | null, data?: unknown): void {
+    const response: Partial<BridgeResponse> = { id: id as string, success: true };
+    if (data !== undefined) {
+      response.data = data as JsonValue;
+    }
+    this.sendToJS(response);
+  }
+
+  private sendError(id: string | null, error: string): void {
+    this.sendToJS({ id: id as string, success: false, error });
+  }
+
+  private sendToJS(message: object): void {
+    const callback = this.callback;
+    if (!callback) {
+      return;
+    }
+
+    const data = JSON.stringify(message);
+    if (this.synchronous) {
+      callback(data);
+    } else {
+      queueMicrotask(() => callback(data));
+    }
+  }
+}
+
+/**
+ * Read a required string field (mirrors `JSONObject.getString`)
+ */
+function requireString(payload: Record<string, unknown>, key: string): string {
+  const value = payload[key];
+  if (typeof value !== 'string') {
+    throw new Error(`Missing required field: ${key}`);
+  }
+  return value;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ViewRegistry } from '../runtime/view-registry';
+import { TestRenderer, serializeViewTree } from './test-renderer';
+
+describe('serializeViewTree', () => {
+  it('should sort props and drop undefined values', () => {
+    const registry = new ViewRegistry();
+    registry.register({
+      id: 'view_1',
+      type: 'View',
+      props: { testID: 'root', accessible: undefined, style: { width: 10, flex: 1 } },
+      children: [],
+      parent: null,
+    });
+
+    expect(JSON.stringify(serializeViewTree(registry, 'view_1'))).toBe(
+      '{"children":[],"id":"view_1","props":{"style":{"flex":1,"width":10},"testID":"root"},"type":"View"}'
+    );
+  });
+
+  it('should return null for unknown views', () => {
+    expect(serializeViewTree(new ViewRegistry(), 'missing')).toBeNull();
+  });
+});
+
+describe('TestRenderer', () => {
+  let testRenderer: TestRenderer;
+
+  // Builds the same tree a `<mobile-view><mobile-text>` template would
+  const renderCounter = async (): Promise<void> => {
+    const renderer = testRenderer.renderer;
+    const root = renderer.selectRootElement('app-counter');
+    const label = renderer.createElement('mobile-text');
+    const button = renderer.createElement('mobile-button');
+    let count = 0;
+
+    renderer.setAttribute(label, 'testID', 'count');
+    renderer.setAttribute(button, 'testID', 'increment');
+    renderer.appendChild(label, renderer.createText('0'));
+    renderer.appendChild(root, label);
+    renderer.appendChild(root, button);
+    renderer.listen(button, 'press', () => {
+      count++;
+      renderer.setValue(label.children[0], String(count));
+    });
+
+    await testRenderer.flush();
+  };
+
+  beforeEach(async () => {
+    testRenderer = new TestRenderer();
+    await testRenderer.connect();
+  });
+
+  afterEach(async () => {
+    await testRenderer.unmount();
+  });
+
+  it('should serialize the tree under the root view', async () => {
+    await renderCounter();
+
+    expect(testRenderer.toJSON()).toEqual({
+      id: 'view_1',
+      type: 'View',
+      props: {},
+      children: [
+        { id: 'view_2', type: 'Text', props: { testID: 'count', text: '0' }, children: [] },
+        { id: 'view_3', type: 'Button', props: { testID: 'increment' }, children: [] },
+      ],
+    });
+    expect(testRenderer.toSnapshot()).toBe(JSON.stringify(testRenderer.toJSON(), null, 2));
+  });
+
+  it('should keep the mock runtime in sync', async () => {
+    await renderCounter();
+
+    expect(testRenderer.runtime.toJSON()).toEqual(
+      expect.objectContaining({ id: 'view_1', type: 'View' })
+    );
+    expect(testRenderer.runtime.getView('view_2')?.props).toEqual({ testID: 'count', text: '0' });
+  });
+
+  it('should find views by testID and type', async () => {
+    await renderCounter();
+
+    expect(testRenderer.findByTestID('increment')?.type).toBe('Button');
+    expect(testRenderer.findByTestID('missing')).toBeUndefined();
+    expect(testRenderer.findByType('Text').map((node) => node.id)).toEqual(['view_2']);
+    expect(testRenderer.findWhere((node) => node.children.length > 0)).toHaveLength(1);
+  });
+
+  it('should fire events through the event dispatcher', async () => {
+    await renderCounter();
+    const dispatch = vi.spyOn(testRenderer.eventDispatcher, 'dispatch');
+    const button = testRenderer.findByTestID('increment');
+
+    await testRenderer.fireEvent(button?.id ?? '', 'press', { x: 1 });
+
+    expect(dispatch).toHaveBeenCalledWith('view_3', 'press', { x: 1 });
+    expect(testRenderer.findByTestID('count')?.props.text).toBe('1');
+  });
+
+  it('should reject events for unknown views', async () => {
+    await expect(testRenderer.fireEvent('missing', 'press')).rejects.toThrow('View not found: missing');
+  });
+
+  it('should throw when no component is mounted', () => {
+    expect(() => testRenderer.instance).toThrow('No component mounted');
+  });
+});
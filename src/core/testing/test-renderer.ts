@@ -0,0 +1,288 @@
+/**
+ * Test renderer for native view trees
+ *
+ * Boots a component against an in-memory bridge (MockNativeRuntime)
+ * and exposes the resulting native view tree for snapshots, queries
+ * and simulated events.
+ *
+ * Components are compiled just-in-time, so the test setup must load
+ * `@angular/compiler` (or the components must be AOT-compiled).
+ *
+ * @example
+ * ```typescript
+ * const renderer = await createTestRenderer(CounterComponent);
+ * expect(renderer.toSnapshot()).toMatchSnapshot();
+ *
+ * await renderer.fireEvent(renderer.findByTestID('increment')!.id, 'press');
+ * expect(renderer.findByTestID('count')?.props.text).toBe('1');
+ *
+ * await renderer.unmount();
+ * ```
+ */
+
+import {
+  ComponentRef,
+  EnvironmentInjector,
+  Injector,
+  Provider,
+  RendererFactory2,
+  Type,
+  createComponent,
+  createEnvironmentInjector,
+} from '@angular/core';
+import { NativeBridge } from '../bridge/native-bridge';
+import { BridgeService } from '../bridge/bridge.service';
+import { OptimizedRenderer } from '../runtime/optimized-renderer';
+import { ViewNode, ViewRegistry } from '../runtime/view-registry';
+import { EventDispatcher, NativeEventData } from '../runtime/event-dispatcher';
+import { MobileElementNode, MobileRenderer, MobileRendererFactory } from '../runtime/mobile-renderer';
+import { MockNativeRuntime } from './mock-native-runtime';
+
+/**
+ * Serialized native view (stable for snapshots)
+ */
+export interface TestViewJSON {
+  id: string;
+  type: string;
+  props: Record<string, unknown>;
+  children: TestViewJSON[];
+}
+
+/**
+ * Options for createTestRenderer
+ */
+export interface TestRendererOptions {
+  /** Additional providers for the component's environment injector */
+  providers?: Provider[];
+  /** Input values applied before the first change detection */
+  inputs?: Record<string, unknown>;
+  /** Parent injector (defaults to a standalone root injector) */
+  parentInjector?: EnvironmentInjector;
+}
+
+/**
+ * Recursively sort object keys and drop undefined values
+ */
+function normalizeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalizeValue);
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const normalized: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const entry = (value as Record<string, unknown>)[key];
+      if (entry !== undefined) {
+        normalized[key] = normalizeValue(entry);
+      }
+    }
+    return normalized;
+  }
+
+  return value;
+}
+
+/**
+ * Serialize a view and its descendants from a ViewRegistry
+ */
+export function serializeViewTree(registry: ViewRegistry, rootId: string): TestViewJSON | null {
+  if (!registry.has(rootId)) {
+    return null;
+  }
+
+  const tree = registry.toJSON(rootId) as TestViewJSON;
+  return normalizeValue(tree) as TestViewJSON;
+}
+
+/**
+ * In-memory renderer harness
+ *
+ * Owns the bridge, mock runtime and rendering pipeline used by a
+ * single test; `createTestRenderer` attaches a component to it.
+ */
+export class TestRenderer<T = unknown> {
+  readonly runtime: MockNativeRuntime;
+  readonly bridge: NativeBridge;
+  readonly registry = new ViewRegistry();
+  readonly eventDispatcher = new EventDispatcher();
+  readonly optimizedRenderer: OptimizedRenderer;
+  readonly rendererFactory: MobileRendererFactory;
+
+  private componentRef: ComponentRef<T> | null = null;
+  private environmentInjector: EnvironmentInjector | null = null;
+
+  constructor() {
+    this.runtime = new MockNativeRuntime().install();
+    this.bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+    this.optimizedRenderer = new OptimizedRenderer(this.bridge, this.registry, this.eventDispatcher);
+    this.rendererFactory = new MobileRendererFactory(this.optimizedRenderer, this.eventDispatcher);
+  }
+
+  /**
+   * Connect the bridge to the mock runtime
+   */
+  async connect(): Promise<void> {
+    await this.bridge.connect();
+  }
+
+  /**
+   * Get the Renderer2 used for templates
+   */
+  get renderer(): MobileRenderer {
+    return this.rendererFactory.createRenderer(null, null) as MobileRenderer;
+  }
+
+  /**
+   * Get the mounted component instance
+   */
+  get instance(): T {
+    if (!this.componentRef) {
+      throw new Error('[TestRenderer] No component mounted');
+    }
+    return this.componentRef.instance;
+  }
+
+  /**
+   * Get the root view ID
+   */
+  get rootViewId(): string | null {
+    return this.optimizedRenderer.getRootViewId();
+  }
+
+  /**
+   * Mount a component as the root view
+   */
+  async mount(component: Type<T>, options: TestRendererOptions = {}): Promise<this> {
+    // Application providers resolve against a bare root injector; the
+    // runtime value is an R3Injector, which is what EnvironmentInjector wraps
+    const parent = options.parentInjector
+      ?? (Injector.create({ providers: [], name: 'TestRendererRoot' }) as EnvironmentInjector);
+
+    this.environmentInjector = createEnvironmentInjector(
+      [
+        { provide: NativeBridge, useValue: this.bridge },
+        { provide: BridgeService, useFactory: () => new BridgeService(this.bridge) },
+        { provide: ViewRegistry, useValue: this.registry },
+        { provide: EventDispatcher, useValue: this.eventDispatcher },
+        { provide: OptimizedRenderer, useValue: this.optimizedRenderer },
+        { provide: MobileRendererFactory, useValue: this.rendererFactory },
+        { provide: RendererFactory2, useValue: this.rendererFactory },
+        ...(options.providers ?? []),
+      ],
+      parent,
+      'TestRenderer'
+    );
+
+    this.componentRef = createComponent(component, {
+      environmentInjector: this.environmentInjector,
+    });
+
+    for (const [name, value] of Object.entries(options.inputs ?? {})) {
+      this.componentRef.setInput(name, value);
+    }
+
+    const host = this.componentRef.location.nativeElement as MobileElementNode;
+    this.optimizedRenderer.setRootView(host.viewId);
+
+    await this.detectChanges();
+    return this;
+  }
+
+  /**
+   * Run change detection and flush pending native operations
+   */
+  async detectChanges(): Promise<void> {
+    this.componentRef?.changeDetectorRef.detectChanges();
+    await this.flush();
+  }
+
+  /**
+   * Flush pending view operations to the mock runtime
+   */
+  async flush(): Promise<void> {
+    await this.optimizedRenderer.flush();
+    // Responses from the mock runtime are delivered on a microtask
+    await Promise.resolve();
+  }
+
+  /**
+   * Get the native tree under the root view
+   */
+  toJSON(): TestViewJSON | null {
+    const rootId = this.rootViewId;
+    return rootId ? serializeViewTree(this.registry, rootId) : null;
+  }
+
+  /**
+   * Get the native tree as a stable, pretty-printed string
+   */
+  toSnapshot(): string {
+    return JSON.stringify(this.toJSON(), null, 2);
+  }
+
+  /**
+   * Find the first view with the given testID
+   */
+  findByTestID(testID: string): ViewNode | undefined {
+    return this.findAllByTestID(testID)[0];
+  }
+
+  /**
+   * Find all views with the given testID
+   */
+  findAllByTestID(testID: string): ViewNode[] {
+    return this.registry.findWhere((node) => node.props['testID'] === testID);
+  }
+
+  /**
+   * Find views by native view type
+   */
+  findByType(type: string): ViewNode[] {
+    return this.registry.findByType(type);
+  }
+
+  /**
+   * Find views matching a predicate
+   */
+  findWhere(predicate: (node: ViewNode) => boolean): ViewNode[] {
+    return this.registry.findWhere(predicate);
+  }
+
+  /**
+   * Dispatch a native event to a view and re-render
+   */
+  async fireEvent<E = NativeEventData>(viewId: string, eventType: string, payload?: E): Promise<void> {
+    if (!this.registry.has(viewId)) {
+      throw new Error(`[TestRenderer] View not found: ${viewId}`);
+    }
+
+    this.eventDispatcher.dispatch(viewId, eventType, payload ?? {});
+    await this.detectChanges();
+  }
+
+  /**
+   * Destroy the component and release the mock runtime
+   */
+  async unmount(): Promise<void> {
+    this.componentRef?.destroy();
+    this.componentRef = null;
+    this.environmentInjector?.destroy();
+    this.environmentInjector = null;
+
+    await this.flush();
+    await this.bridge.disconnect();
+    this.runtime.uninstall();
+  }
+}
+
+/**
+ * Render a component against an in-memory bridge
+ */
+export async function createTestRenderer<T>(
+  component: Type<T>,
+  options: TestRendererOptions = {}
+): Promise<TestRenderer<T>> {
+  const testRenderer = new TestRenderer<T>();
+  await testRenderer.connect();
+  return testRenderer.mount(component, options);
+}
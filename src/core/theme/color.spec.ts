@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { TextStyle, transformStyle } from '../../types/style.types';
+import { dynamicColor } from './dynamic-color';
+import {
+  darken,
+  formatColor,
+  lighten,
+  mix,
+  parseColor,
+  platformColor,
+  withAlpha,
+} from './color';
+
+describe('Colors', () => {
+  it('should parse hex colors into ARGB integers', () => {
+    expect(parseColor('#f00')).toBe(0xffff0000);
+    expect(parseColor('#f008')).toBe(0x88ff0000);
+    expect(parseColor('#2196F3')).toBe(0xff2196f3);
+    expect(parseColor('#2196f380')).toBe(0x802196f3);
+    expect(parseColor('#12345')).toBeNull();
+    expect(parseColor('#ggg')).toBeNull();
+  });
+
+  it('should parse rgb(a), hsl(a), transparent and named colors', () => {
+    expect(parseColor('rgb(33, 150, 243)')).toBe(0xff2196f3);
+    expect(parseColor('rgba(0, 0, 0, 0.5)')).toBe(0x80000000);
+    expect(parseColor('rgb(100% 0% 0% / 25%)')).toBe(0x40ff0000);
+    expect(parseColor('hsl(120, 100%, 50%)')).toBe(0xff00ff00);
+    expect(parseColor('hsla(0.5turn 100% 25% / 1)')).toBe(0xff008080);
+    expect(parseColor('transparent')).toBe(0x00000000);
+    expect(parseColor('RebeccaPurple')).toBe(0xff663399);
+    expect(parseColor('rgb(1, 2)')).toBeNull();
+    expect(parseColor('gren')).toBeNull();
+    expect(parseColor('constructor')).toBeNull();
+  });
+
+  it('should send colors as ARGB integers from transformStyle', () => {
+    const style: TextStyle = {
+      color: dynamicColor({ light: '#000', dark: 'white' }),
+      backgroundColor: 'rgba(255, 255, 255, 0.5)',
+      borderColor: platformColor('separatorColor', '?android:attr/colorControlNormal'),
+      shadowColor: 'not-a-color',
+    };
+
+    expect(transformStyle(style, 'dark')).toEqual({
+      color: 0xffffffff,
+      backgroundColor: 0x80ffffff,
+      borderColor: { platformColor: ['separatorColor', '?android:attr/colorControlNormal'] },
+      shadowColor: 'not-a-color',
+    });
+  });
+
+  it('should format and manipulate colors', () => {
+    expect(formatColor(0xff2196f3)).toBe('#2196f3');
+    expect(formatColor(0x802196f3)).toBe('#2196f380');
+    expect(withAlpha('#2196f3', 0.5)).toBe('#2196f380');
+    expect(lighten('hsl(0, 100%, 25%)', 0.25)).toBe('#ff0000');
+    expect(darken('#ff0000', 0.25)).toBe('#800000');
+    expect(lighten('#ffffff', 0.5)).toBe('#ffffff');
+    expect(mix('#000000', '#ffffff')).toBe('#808080');
+    expect(mix('red', 'rgba(0, 0, 255, 0)', 0.25)).toBe('#bf0040bf');
+    expect(() => darken('gren', 0.1)).toThrow(/Invalid color: "gren"/);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Colors
+ *
+ * Parses CSS colors into packed 32-bit ARGB integers (`0xAARRGGBB`),
+ * which `transformStyle` sends to native instead of strings so the
+ * native side doesn't parse colors on every update. Supported syntaxes:
+ *
+ * - Hex: `#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`
+ * - `rgb()`/`rgba()` and `hsl()`/`hsla()`, with comma or space
+ *   separated arguments and an optional `/ alpha`
+ * - `transparent` and the CSS named colors
+ *
+ * Native system colors are referenced with `platformColor`, which the
+ * native side resolves (first name found wins):
+ *
+ * ```typescript
+ * const styles = styleService.create({
+ *   label: { color: platformColor('labelColor', '?android:attr/textColorPrimary') },
+ *   badge: { backgroundColor: withAlpha(lighten('#2196f3', 0.1), 0.8) },
+ * });
+ * ```
+ */
+
+import { NAMED_COLORS } from './named-colors';
+
+/**
+ * Reference to a native system color (e.g. `systemBlue` on iOS,
+ * `?android:attr/colorAccent` or `@android:color/holo_blue_light` on Android)
+ */
+export interface PlatformColor {
+  readonly platformColor: readonly string[];
+}
+
+/**
+ * Style properties holding a color
+ */
+export const COLOR_STYLE_PROPERTIES: ReadonlySet<string> = new Set([
+  'backgroundColor',
+  'borderColor',
+  'borderTopColor',
+  'borderRightColor',
+  'borderBottomColor',
+  'borderLeftColor',
+  'shadowColor',
+  'color',
+  'textDecorationColor',
+  'textShadowColor',
+  'tintColor',
+  'overlayColor',
+]);
+
+const MAX_CACHED_COLORS = 1000;
+const parsedColors = new Map<string, number | null>();
+
+const NUMBER = '[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:e[-+]?\\d+)?';
+const COLOR_FUNCTION = new RegExp(`^(rgba?|hsla?)\\(\\s*(.*?)\\s*\\)$`);
+const ARGUMENT = new RegExp(`^(${NUMBER})(%|deg|rad|turn)?$`);
+
+/**
+ * Create a reference to a native system color
+ *
+ * Several names can be given, for example one per platform.
+ */
+export function platformColor(...names: string[]): PlatformColor {
+  return Object.freeze({ platformColor: Object.freeze([...names]) });
+}
+
+/**
+ * Check if a value is a native system color reference
+ */
+export function isPlatformColor(value: unknown): value is PlatformColor {
+  return typeof value === 'object' && value !== null && 'platformColor' in value
+    && Array.isArray((value as PlatformColor).platformColor);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function pack(r: number, g: number, b: number, a: number): number {
+  const channel = (value: number): number => Math.round(clamp(value, 0, 255));
+  return ((channel(a) << 24) | (channel(r) << 16) | (channel(g) << 8) | channel(b)) >>> 0;
+}
+
+function unpack(argb: number): [r: number, g: number, b: number, a: number] {
+  return [(argb >>> 16) & 0xff, (argb >>> 8) & 0xff, argb & 0xff, (argb >>> 24) & 0xff];
+}
+
+function parseHex(hex: string): number | null {
+  if (!/^[0-9a-f]+$/.test(hex)) {
+    return null;
+  }
+
+  const digits = hex.length === 3 || hex.length === 4 ? hex.replace(/./g, '$&$&') : hex;
+  if (digits.length !== 6 && digits.length !== 8) {
+    return null;
+  }
+
+  const value = parseInt(digits, 16);
+  return digits.length === 6 ? (0xff000000 | value) >>> 0 : ((value & 0xff) << 24 | value >>> 8) >>> 0;
+}
+
+/**
+ * Convert HSL (hue in degrees, saturation and lightness in 0-1) to RGB (0-255)
+ */
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = (((h % 360) + 360) % 360) / 60;
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const x = chroma * (1 - Math.abs((hue % 2) - 1));
+  const m = l - chroma / 2;
+  const [r, g, b] = hue < 1 ? [chroma, x, 0]
+    : hue < 2 ? [x, chroma, 0]
+      : hue < 3 ? [0, chroma, x]
+        : hue < 4 ? [0, x, chroma]
+          : hue < 5 ? [x, 0, chroma]
+            : [chroma, 0, x];
+  return [(r + m) * 255, (g + m) * 255, (b + m) * 255];
+}
+
+/**
+ * Convert RGB (0-255) to HSL (hue in degrees, saturation and lightness in 0-1)
+ */
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const l = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) {
+    return [0, 0, l];
+  }
+
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  const h = max === red ? ((green - blue) / delta) % 6
+    : max === green ? (blue - red) / delta + 2
+      : (red - green) / delta + 4;
+  return [h * 60, s, l];
+}
+
+function parseFunction(name: string, body: string): number | null {
+  const parts = body.split(/\s*,\s*|\s*\/\s*|\s+/);
+  if (parts.length !== 3 && parts.length !== 4) {
+    return null;
+  }
+
+  const args = parts.map((part) => ARGUMENT.exec(part));
+  if (args.some((arg) => arg === null)) {
+    return null;
+  }
+
+  const [first, second, third, alpha] = args as RegExpExecArray[];
+  const a = alpha ? clamp(Number(alpha[1]) / (alpha[2] === '%' ? 100 : 1), 0, 1) * 255 : 255;
+
+  if (name.startsWith('rgb')) {
+    if ([first, second, third].some((arg) => arg[2] !== undefined && arg[2] !== '%')) {
+      return null;
+    }
+    const channel = (arg: RegExpExecArray): number => (arg[2] === '%' ? Number(arg[1]) * 2.55 : Number(arg[1]));
+    return pack(channel(first), channel(second), channel(third), a);
+  }
+
+  const turns: Record<string, number> = { deg: 1, rad: 180 / Math.PI, turn: 360 };
+  if (first[2] === '%' || (second[2] ?? '%') !== '%' || (third[2] ?? '%') !== '%') {
+    return null;
+  }
+  const hue = Number(first[1]) * (turns[first[2] ?? 'deg'] ?? 1);
+  const [r, g, b] = hslToRgb(hue, clamp(Number(second[1]) / 100, 0, 1), clamp(Number(third[1]) / 100, 0, 1));
+  return pack(r, g, b, a);
+}
+
+/**
+ * Parse a CSS color into a packed ARGB integer (`null` if invalid)
+ *
+ * Results are cached by color string.
+ */
+export function parseColor(color: string): number | null {
+  const cached = parsedColors.get(color);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const source = color.trim().toLowerCase();
+  let argb: number | null = null;
+
+  if (source.startsWith('#')) {
+    argb = parseHex(source.slice(1));
+  } else if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, source)) {
+    argb = parseHex(NAMED_COLORS[source].slice(1));
+  } else {
+    const match = COLOR_FUNCTION.exec(source);
+    argb = match ? parseFunction(match[1], match[2]) : null;
+  }
+
+  if (parsedColors.size >= MAX_CACHED_COLORS) {
+    parsedColors.clear();
+  }
+  parsedColors.set(color, argb);
+  return argb;
+}
+
+/**
+ * Native form of a style color: parsed colors become ARGB integers,
+ * platform colors and unparsable values are kept as they are
+ */
+export function normalizeColor(color: unknown): unknown {
+  if (typeof color === 'string') {
+    return parseColor(color) ?? color;
+  }
+  return color;
+}
+
+/**
+ * Format an ARGB integer as `#rrggbb` (opaque) or `#rrggbbaa`
+ */
+export function formatColor(argb: number): string {
+  const [r, g, b, a] = unpack(argb);
+  const hex = (value: number): string => value.toString(16).padStart(2, '0');
+  return `#${hex(r)}${hex(g)}${hex(b)}${a === 0xff ? '' : hex(a)}`;
+}
+
+/**
+ * Parse a color for the manipulation helpers
+ *
+ * @throws Error for invalid colors
+ */
+function toArgb(color: string | number): number {
+  const argb = typeof color === 'number' ? color >>> 0 : parseColor(color);
+  if (argb === null) {
+    throw new Error(`[Color] Invalid color: "${color}"`);
+  }
+  return argb;
+}
+
+/**
+ * Same color with another alpha (0-1)
+ */
+export function withAlpha(color: string | number, alpha: number): string {
+  const [r, g, b] = unpack(toArgb(color));
+  return formatColor(pack(r, g, b, clamp(alpha, 0, 1) * 255));
+}
+
+/**
+ * Increase the HSL lightness of a color by `amount` (0-1)
+ */
+export function lighten(color: string | number, amount: number): string {
+  const [r, g, b, a] = unpack(toArgb(color));
+  const [h, s, l] = rgbToHsl(r, g, b);
+  return formatColor(pack(...hslToRgb(h, s, clamp(l + amount, 0, 1)), a));
+}
+
+/**
+ * Decrease the HSL lightness of a color by `amount` (0-1)
+ */
+export function darken(color: string | number, amount: number): string {
+  return lighten(color, -amount);
+}
+
+/**
+ * Blend two colors channel by channel; `weight` is the share of `to` (0-1)
+ */
+export function mix(from: string | number, to: string | number, weight = 0.5): string {
+  const start = unpack(toArgb(from));
+  const end = unpack(toArgb(to));
+  const t = clamp(weight, 0, 1);
+  const [r, g, b, a] = start.map((channel, i) => channel + (end[i] - channel) * t);
+  return formatColor(pack(r, g, b, a));
+}
@@ -0,0 +1,122 @@
+/**
+ * Dynamic Colors
+ *
+ * A dynamic color holds one value per color scheme. Styles keep the
+ * dynamic color itself; `transformStyle` resolves it against the active
+ * color scheme, and the OptimizedRenderer and BridgeService re-push the
+ * styles of the views that use one whenever the active scheme changes.
+ *
+ * The active scheme follows the ThemeService, which combines the OS
+ * appearance with the app-level override; the bootstrap functions
+ * create it with the application.
+ *
+ * @example
+ * ```typescript
+ * const styles = styleService.create({
+ *   card: {
+ *     backgroundColor: dynamicColor({ light: '#ffffff', dark: '#1c1c1e' }),
+ *   },
+ * });
+ * ```
+ */
+
+import { BehaviorSubject, Observable, distinctUntilChanged } from 'rxjs';
+
+/**
+ * Color scheme a dynamic color resolves against
+ */
+export type ActiveColorScheme = 'light' | 'dark';
+
+/**
+ * Color with one value per color scheme
+ */
+export interface DynamicColor {
+  readonly dynamic: {
+    readonly light: string;
+    readonly dark: string;
+  };
+}
+
+const activeColorScheme = new BehaviorSubject<ActiveColorScheme>('light');
+
+/**
+ * Create a color that follows the active color scheme
+ */
+export function dynamicColor(colors: { light: string; dark: string }): DynamicColor {
+  return Object.freeze({ dynamic: Object.freeze({ light: colors.light, dark: colors.dark }) });
+}
+
+/**
+ * Check if a style value is a dynamic color
+ */
+export function isDynamicColor(value: unknown): value is DynamicColor {
+  if (typeof value !== 'object' || value === null || !('dynamic' in value)) {
+    return false;
+  }
+
+  const dynamic = (value as DynamicColor).dynamic;
+  return typeof dynamic === 'object' && dynamic !== null
+    && typeof dynamic.light === 'string' && typeof dynamic.dark === 'string';
+}
+
+/**
+ * Check if any property of a style is a dynamic color
+ */
+export function hasDynamicColors(style: object): boolean {
+  for (const value of Object.values(style)) {
+    if (isDynamicColor(value)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Value of a color in a color scheme (default: the active one)
+ */
+export function resolveColor(
+  color: string | DynamicColor,
+  colorScheme: ActiveColorScheme = activeColorScheme.value
+): string {
+  return isDynamicColor(color) ? color.dynamic[colorScheme] : color;
+}
+
+/**
+ * Copy of a style with its dynamic colors resolved and other values untouched
+ */
+export function resolveDynamicColors<T extends object>(
+  style: T,
+  colorScheme: ActiveColorScheme = activeColorScheme.value
+): T {
+  const resolved: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(style)) {
+    resolved[key] = isDynamicColor(value) ? value.dynamic[colorScheme] : value;
+  }
+
+  return resolved as T;
+}
+
+/**
+ * Color scheme dynamic colors currently resolve against
+ */
+export function getActiveColorScheme(): ActiveColorScheme {
+  return activeColorScheme.value;
+}
+
+/**
+ * Current active color scheme, then every change
+ */
+export function activeColorSchemeChanges(): Observable<ActiveColorScheme> {
+  return activeColorScheme.pipe(distinctUntilChanged());
+}
+
+/**
+ * Set the color scheme dynamic colors resolve against
+ *
+ * Normally called by the ThemeService; tests and apps without it can
+ * call it directly.
+ */
+export function setActiveColorScheme(colorScheme: ActiveColorScheme): void {
+  activeColorScheme.next(colorScheme);
+}
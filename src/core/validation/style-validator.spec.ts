@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { dynamicColor } from '../theme/dynamic-color';
+import { platformColor } from '../theme/color';
+import { setStyleValidationEnabled, validateStyle, warnInvalidStyle } from './style-validator';
+
+describe('validateStyle', () => {
+  afterEach(() => {
+    setStyleValidationEnabled(true);
+    vi.restoreAllMocks();
+  });
+
+  it('should accept valid view, text and image styles', () => {
+    expect(validateStyle({
+      width: '50%',
+      height: 'auto',
+      margin: 8,
+      flexDirection: 'row',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      borderColor: dynamicColor({ light: '#fff', dark: 'hsl(210, 10%, 20%)' }),
+      shadowOffset: { width: 0, height: 2 },
+      transform: [{ rotate: '45deg' }, { scale: 1.2 }, { translateX: -4 }],
+      fontWeight: '600',
+      color: 'rebeccapurple',
+      resizeMode: 'cover',
+      tintColor: platformColor('systemBlue'),
+      '@media (min-width: 600)': { padding: '5%' },
+    }, 'Text')).toEqual([]);
+  });
+
+  it('should report invalid values and unknown properties', () => {
+    const messages = validateStyle({
+      fontWeight: 'heavy',
+      width: '50 %',
+      backgroundColor: 'gren',
+      borderColor: '#12345',
+      opacity: '0.5',
+      transform: [{ rotate: 45 }, { translate: 10 }],
+      colour: 'red',
+      '@media (min-width: 600)': { height: '100px' },
+    } as object, 'Text').map((issue) => issue.message);
+
+    expect(messages).toEqual([
+      expect.stringMatching(/^Invalid value for fontWeight: "heavy" \(expected one of "normal", "bold"/),
+      'Invalid dimension for width: "50 %" (expected a number, a percentage like "50%" or "auto")',
+      expect.stringMatching(/^Invalid color for backgroundColor: "gren"/),
+      expect.stringMatching(/^Invalid color for borderColor: "#12345"/),
+      'Invalid value for opacity: "0.5" (expected a number)',
+      'Invalid angle for rotate: 45 (expected a string like "45deg" or "1.57rad")',
+      'Unknown transform function "translate"',
+      'Unknown style property "colour"',
+      expect.stringMatching(/^@media \(min-width: 600\): Invalid dimension for height: "100px"/),
+    ]);
+  });
+
+  it('should report text properties on views that do not render text', () => {
+    expect(validateStyle({ fontSize: 14, color: 'red', padding: 4 }, 'View').map((issue) => issue.message)).toEqual([
+      'fontSize only applies to text views, not View',
+      'color only applies to text views, not View',
+    ]);
+    expect(validateStyle({ fontSize: 14 })).toEqual([]);
+    for (const viewType of ['Text', 'TextInput', 'Button', 'Switch']) {
+      expect(validateStyle({ fontSize: 14, color: 'red' }, viewType)).toEqual([]);
+    }
+  });
+
+  it('should warn once per problem with the selector and view id, unless disabled', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    warnInvalidStyle({ fontSize: 14 }, { viewId: 'view_1', viewType: 'View', selector: 'mobile-view' });
+    warnInvalidStyle({ fontSize: 16 }, { viewId: 'view_1', viewType: 'View', selector: 'mobile-view' });
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn).toHaveBeenCalledWith('[Style] <mobile-view> (view_1): fontSize only applies to text views, not View');
+
+    setStyleValidationEnabled(false);
+    warnInvalidStyle({ width: 'wide' }, { viewId: 'view_2' });
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Style Validator
+ *
+ * Development-time checks for styles sent to native views. Invalid
+ * values (`fontWeight: 'heavy'`, `width: '50 %'`, misspelled colors or
+ * properties) are otherwise passed through by `transformStyle` and only
+ * fail on device.
+ *
+ * The renderers call `warnInvalidStyle` for every style they send. It
+ * logs each problem once per view with the element selector and view id,
+ * and does nothing in production: Angular production builds define
+ * `ngDevMode` as `false`, which removes the check, and the bootstrap
+ * functions turn validation off when called with `production: true`.
+ *
+ * @example
+ * ```typescript
+ * validateStyle({ fontWeight: 'heavy', width: '50 %' }, 'View');
+ * // [
+ * //   { property: 'fontWeight', value: 'heavy', message: 'Invalid value for fontWeight: "heavy" ...' },
+ * //   { property: 'width', value: '50 %', message: 'Invalid dimension for width: "50 %" ...' },
+ * //   { property: 'fontWeight', value: 'heavy', message: 'fontWeight only applies to text views, not View' },
+ * // ]
+ * ```
+ */
+
+import { isDynamicColor } from '../theme/dynamic-color';
+import { COLOR_STYLE_PROPERTIES, isPlatformColor, parseColor } from '../theme/color';
+import { isMediaQueryKey } from '../responsive/media-query';
+
+/**
+ * Set to `false` by Angular production builds
+ */
+declare const ngDevMode: unknown;
+
+/**
+ * Problem found in a style
+ */
+export interface StyleValidationIssue {
+  property: string;
+  value: unknown;
+  message: string;
+}
+
+/**
+ * View a style is applied to, used in warnings
+ */
+export interface StyleValidationContext {
+  viewId?: string;
+  viewType?: string;
+  /** Element or component selector (e.g. `mobile-view`) */
+  selector?: string;
+}
+
+type ValueCheck = (value: unknown) => boolean;
+
+const NUMBER: ValueCheck = (value) => typeof value === 'number' && Number.isFinite(value);
+const STRING: ValueCheck = (value) => typeof value === 'string' && value.length > 0;
+const BOOLEAN: ValueCheck = (value) => typeof value === 'boolean';
+const DIMENSION: ValueCheck = (value) =>
+  NUMBER(value) || value === 'auto' || (typeof value === 'string' && /^-?(?:\d+\.?\d*|\.\d+)%$/.test(value));
+const COLOR: ValueCheck = (value) =>
+  isDynamicColor(value)
+    ? isColorString(value.dynamic.light) && isColorString(value.dynamic.dark)
+    : isPlatformColor(value) || isColorString(value);
+const OFFSET: ValueCheck = (value) =>
+  typeof value === 'object' && value !== null
+  && NUMBER((value as { width?: unknown }).width) && NUMBER((value as { height?: unknown }).height);
+
+function oneOf(...values: string[]): ValueCheck {
+  return (value) => typeof value === 'string' && values.includes(value);
+}
+
+const FLEX_ALIGN = ['flex-start', 'flex-end', 'center', 'stretch', 'baseline'];
+
+/**
+ * Checks and expected-value descriptions for every supported property
+ */
+const PROPERTIES: Record<string, [ValueCheck, string]> = {};
+
+function define(check: ValueCheck, expected: string, ...properties: string[]): void {
+  for (const property of properties) {
+    PROPERTIES[property] = [check, expected];
+  }
+}
+
+define(
+  DIMENSION,
+  'a number, a percentage like "50%" or "auto"',
+  'width', 'height', 'minWidth', 'minHeight', 'maxWidth', 'maxHeight', 'flexBasis',
+  'top', 'right', 'bottom', 'left',
+  'margin', 'marginTop', 'marginRight', 'marginBottom', 'marginLeft', 'marginHorizontal', 'marginVertical',
+  'padding', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft', 'paddingHorizontal', 'paddingVertical'
+);
+define(
+  NUMBER,
+  'a number',
+  'flex', 'flexGrow', 'flexShrink', 'zIndex', 'aspectRatio', 'gap', 'rowGap', 'columnGap', 'opacity',
+  'borderWidth', 'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'borderRadius', 'borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomLeftRadius', 'borderBottomRightRadius',
+  'shadowOpacity', 'shadowRadius', 'elevation',
+  'fontSize', 'letterSpacing', 'lineHeight', 'textShadowRadius'
+);
+define(COLOR, 'a hex, rgb(a), hsl(a) or named color, a dynamic color or a platform color', ...COLOR_STYLE_PROPERTIES);
+define(OFFSET, '{ width: number, height: number }', 'shadowOffset', 'textShadowOffset');
+define(STRING, 'a font family name', 'fontFamily');
+define(BOOLEAN, 'a boolean', 'includeFontPadding');
+
+const KEYWORDS: Record<string, string[]> = {
+  flexDirection: ['row', 'row-reverse', 'column', 'column-reverse'],
+  flexWrap: ['wrap', 'nowrap', 'wrap-reverse'],
+  alignItems: FLEX_ALIGN,
+  alignSelf: [...FLEX_ALIGN, 'auto'],
+  alignContent: [...FLEX_ALIGN, 'space-between', 'space-around'],
+  justifyContent: ['flex-start', 'flex-end', 'center', 'space-between', 'space-around', 'space-evenly'],
+  position: ['absolute', 'relative'],
+  display: ['none', 'flex'],
+  overflow: ['visible', 'hidden', 'scroll'],
+  borderStyle: ['solid', 'dotted', 'dashed'],
+  pointerEvents: ['auto', 'none', 'box-none', 'box-only'],
+  fontStyle: ['normal', 'italic'],
+  fontWeight: ['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'],
+  textAlign: ['auto', 'left', 'right', 'center', 'justify'],
+  textDecorationLine: ['none', 'underline', 'line-through', 'underline line-through'],
+  textDecorationStyle: ['solid', 'double', 'dotted', 'dashed'],
+  textTransform: ['none', 'capitalize', 'uppercase', 'lowercase'],
+  textAlignVertical: ['auto', 'top', 'bottom', 'center'],
+  resizeMode: ['cover', 'contain', 'stretch', 'repeat', 'center'],
+};
+
+for (const [property, values] of Object.entries(KEYWORDS)) {
+  define(oneOf(...values), `one of ${values.map((value) => `"${value}"`).join(', ')}`, property);
+}
+
+/**
+ * `TextStyle` properties that have no effect on other views
+ */
+const TEXT_PROPERTIES = new Set([
+  'color', 'fontFamily', 'fontSize', 'fontStyle', 'fontWeight', 'letterSpacing', 'lineHeight',
+  'textAlign', 'textDecorationLine', 'textDecorationStyle', 'textDecorationColor',
+  'textShadowColor', 'textShadowOffset', 'textShadowRadius', 'textTransform',
+  'includeFontPadding', 'textAlignVertical',
+]);
+
+/**
+ * View types that render text
+ *
+ * Android applies text styles to every `TextView`, which buttons and
+ * switches extend (see `ViewFactory.updateTextView`).
+ */
+const TEXT_VIEW_TYPES = new Set([
+  'Text', 'TextInput', 'Button', 'Switch',
+  'android.widget.TextView', 'android.widget.EditText', 'android.widget.Button', 'android.widget.Switch',
+]);
+
+const ANGLE_TRANSFORMS = new Set(['rotate', 'rotateX', 'rotateY', 'rotateZ', 'skewX', 'skewY']);
+const NUMBER_TRANSFORMS = new Set(['perspective', 'scale', 'scaleX', 'scaleY', 'translateX', 'translateY']);
+const ANGLE = /^-?(?:\d+\.?\d*|\.\d+)(?:deg|rad)$/;
+
+const MAX_WARNINGS = 500;
+const warned = new Set<string>();
+let validationEnabled = true;
+
+/**
+ * Check if a string is a color native views accept
+ */
+function isColorString(value: unknown): boolean {
+  return typeof value === 'string' && parseColor(value) !== null;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value) ?? String(value);
+}
+
+function validateTransform(value: unknown, issues: StyleValidationIssue[]): void {
+  if (!Array.isArray(value)) {
+    issues.push({
+      property: 'transform',
+      value,
+      message: `Invalid transform: ${formatValue(value)} (expected an array like [{ rotate: '45deg' }], see parseTransform)`,
+    });
+    return;
+  }
+
+  for (const entry of value) {
+    const keys = typeof entry === 'object' && entry !== null ? Object.keys(entry) : [];
+    const [name] = keys;
+    const argument = keys.length === 1 ? (entry as Record<string, unknown>)[name] : undefined;
+
+    let message: string | null = null;
+    if (keys.length !== 1) {
+      message = `Invalid transform entry: ${formatValue(entry)} (expected one function per entry)`;
+    } else if (ANGLE_TRANSFORMS.has(name)) {
+      if (typeof argument !== 'string' || !ANGLE.test(argument)) {
+        message = `Invalid angle for ${name}: ${formatValue(argument)} (expected a string like "45deg" or "1.57rad")`;
+      }
+    } else if (NUMBER_TRANSFORMS.has(name)) {
+      if (!NUMBER(argument)) {
+        message = `Invalid value for ${name}: ${formatValue(argument)} (expected a number)`;
+      }
+    } else {
+      message = `Unknown transform function "${name}"`;
+    }
+
+    if (message) {
+      issues.push({ property: 'transform', value: entry, message });
+    }
+  }
+}
+
+/**
+ * Check a style against the properties and values of
+ * `ViewStyle`/`TextStyle`/`ImageStyle`
+ *
+ * With a `viewType`, text properties on views that don't render text
+ * are reported too. `@media` blocks are checked like the base style.
+ */
+export function validateStyle(style: object, viewType?: string): StyleValidationIssue[] {
+  const issues: StyleValidationIssue[] = [];
+
+  for (const [property, value] of Object.entries(style)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    if (isMediaQueryKey(property)) {
+      for (const issue of validateStyle(value as object, viewType)) {
+        issues.push({ ...issue, message: `${property}: ${issue.message}` });
+      }
+      continue;
+    }
+
+    if (property === 'transform') {
+      validateTransform(value, issues);
+      continue;
+    }
+
+    const definition = PROPERTIES[property];
+    if (!definition) {
+      issues.push({ property, value, message: `Unknown style property "${property}"` });
+      continue;
+    }
+
+    const [check, expected] = definition;
+    if (!check(value)) {
+      const kind = check === DIMENSION ? 'dimension' : check === COLOR ? 'color' : 'value';
+      issues.push({ property, value, message: `Invalid ${kind} for ${property}: ${formatValue(value)} (expected ${expected})` });
+    }
+
+    if (viewType && TEXT_PROPERTIES.has(property) && !TEXT_VIEW_TYPES.has(viewType)) {
+      issues.push({ property, value, message: `${property} only applies to text views, not ${viewType}` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Log the problems of a style sent to a view (development only)
+ *
+ * Each problem is logged once per view.
+ */
+export function warnInvalidStyle(style: object, context: StyleValidationContext = {}): void {
+  if ((typeof ngDevMode !== 'undefined' && !ngDevMode) || !validationEnabled) {
+    return;
+  }
+
+  const target = [
+    context.selector ? `<${context.selector}>` : context.viewType,
+    context.viewId ? `(${context.viewId})` : undefined,
+  ].filter(Boolean).join(' ');
+
+  for (const issue of validateStyle(style, context.viewType)) {
+    const warning = `[Style] ${target ? `${target}: ` : ''}${issue.message}`;
+    if (warned.has(warning)) {
+      continue;
+    }
+    if (warned.size >= MAX_WARNINGS) {
+      warned.clear();
+    }
+    warned.add(warning);
+    console.warn(warning);
+  }
+}
+
+/**
+ * Check if style validation runs
+ */
+export function isStyleValidationEnabled(): boolean {
+  return (typeof ngDevMode === 'undefined' || !!ngDevMode) && validationEnabled;
+}
+
+/**
+ * Turn style validation on or off (on by default outside production builds)
+ */
+export function setStyleValidationEnabled(enabled: boolean): void {
+  validationEnabled = enabled;
+  warned.clear();
+}
@@ -0,0 +1,377 @@
+import {
+  AfterViewInit,
+  Directive,
+  ElementRef,
+  EventEmitter,
+  Input,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  Output,
+  SimpleChanges,
+} from '@angular/core';
+import { Subscription } from 'rxjs';
+import {
+  GestureState,
+  GestureStateChangeEvent,
+  LongPressGestureEvent,
+  PanGestureEvent,
+  PinchGestureEvent,
+  RotationGestureEvent,
+  TapGestureEvent,
+  BaseNativeEvent,
+} from '../../types/event.types';
+import { AnimatedEventHandler } from '../../core/animation/animated';
+import { MobileElementNode } from '../../core/runtime/mobile-renderer';
+import {
+  GestureConfigMap,
+  GestureEventDataMap,
+  GestureHandler,
+  GestureHandlerModule,
+  GestureHandlerType,
+} from '../../core/gestures/gesture-handler';
+
+/**
+ * Inputs that are relations rather than recognizer options
+ */
+const RELATION_INPUTS = ['simultaneousWith', 'requireToFail'];
+
+/**
+ * One directive or a list of them
+ */
+export type GestureDirectiveRef = GestureDirective | GestureDirective[];
+
+/**
+ * Base class of the gesture directives
+ *
+ * Creates a native recognizer for the host view, keeps its options and
+ * relations in sync with the inputs and re-emits its events.
+ */
+@Directive()
+export abstract class GestureDirective<K extends GestureHandlerType = GestureHandlerType>
+  implements OnInit, AfterViewInit, OnChanges, OnDestroy
+{
+  protected abstract readonly handlerType: K;
+
+  /** Handler of the native recognizer (set once the directive is initialized) */
+  handler: GestureHandler<K> | null = null;
+
+  private readonly subscriptions = new Subscription();
+
+  @Input() gestureEnabled?: boolean;
+  @Input() shouldCancelWhenOutside?: boolean;
+
+  // Composition
+  @Input() simultaneousWith?: GestureDirectiveRef;
+  @Input() requireToFail?: GestureDirectiveRef;
+
+  constructor(
+    private readonly elementRef: ElementRef<MobileElementNode>,
+    private readonly gestures: GestureHandlerModule
+  ) {}
+
+  ngOnInit(): void {
+    const handler = this.gestures.createGestureHandler(this.handlerType, this.getConfig());
+    this.handler = handler;
+
+    const viewId = this.elementRef.nativeElement?.viewId;
+    if (viewId) {
+      this.gestures.attachGestureHandler(handler, viewId);
+    }
+
+    this.subscriptions.add(handler.gestureEvents.subscribe((event) => this.onGestureEvent(event)));
+    this.subscriptions.add(
+      handler.gestureStateChanges.subscribe((event) => this.onGestureStateChange(event))
+    );
+  }
+
+  ngAfterViewInit(): void {
+    // Sibling directives referenced by the relations are initialized by now
+    this.applyRelations();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (!this.handler) return;
+
+    const names = Object.keys(changes).filter((name) => !changes[name].firstChange);
+    if (names.some((name) => RELATION_INPUTS.includes(name))) {
+      this.applyRelations();
+    }
+    if (names.some((name) => !RELATION_INPUTS.includes(name))) {
+      this.gestures.updateGestureHandler(this.handler, this.getConfig());
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+    if (this.handler) {
+      this.gestures.dropGestureHandler(this.handler);
+      this.handler = null;
+    }
+  }
+
+  /**
+   * Recognizer options built from the inputs
+   */
+  protected abstract getConfig(): GestureConfigMap[K];
+
+  /**
+   * Called for every state change
+   */
+  protected abstract onGestureStateChange(event: GestureStateChangeEvent<GestureEventDataMap[K]>): void;
+
+  /**
+   * Called for every update while the gesture is active
+   */
+  protected onGestureEvent(_event: BaseNativeEvent<GestureEventDataMap[K]>): void {
+    // Only continuous gestures report updates
+  }
+
+  protected baseConfig(): { enabled?: boolean; shouldCancelWhenOutside?: boolean } {
+    return { enabled: this.gestureEnabled, shouldCancelWhenOutside: this.shouldCancelWhenOutside };
+  }
+
+  private applyRelations(): void {
+    if (!this.handler) return;
+
+    // Relation inputs are shared by every gesture directive on the element
+    const handler: GestureHandler = this.handler;
+    this.gestures.setGestureRelations(handler, {
+      simultaneousWith: handlersOf(this.simultaneousWith).filter((other) => other !== handler),
+      requireToFail: handlersOf(this.requireToFail).filter((other) => other !== handler),
+    });
+  }
+}
+
+/**
+ * Resolve directive references to their handlers
+ */
+function handlersOf(ref: GestureDirectiveRef | undefined): GestureHandler[] {
+  const directives = ref === undefined ? [] : Array.isArray(ref) ? ref : [ref];
+  return directives
+    .map((directive) => directive.handler)
+    .filter((handler): handler is GestureHandler => handler !== null);
+}
+
+/**
+ * Tap Gesture Directive
+ *
+ * Emits once the taps are recognized. Combine with `requireToFail` to
+ * tell single and double taps apart.
+ *
+ * @example
+ * ```html
+ * <mobile-view
+ *   #doubleTap="mobileTapGesture"
+ *   [numberOfTaps]="2"
+ *   (mobileTapGesture)="zoomIn()">
+ *   <mobile-view [requireToFail]="doubleTap" (mobileTapGesture)="select()"></mobile-view>
+ * </mobile-view>
+ * ```
+ */
+@Directive({
+  selector: '[mobileTapGesture]',
+  exportAs: 'mobileTapGesture',
+  standalone: true,
+})
+export class TapGestureDirective extends GestureDirective<'tap'> {
+  protected readonly handlerType = 'tap';
+
+  @Input() numberOfTaps?: number;
+  @Input() maxDurationMs?: number;
+  @Input() maxDelayMs?: number;
+  @Input() maxDist?: number;
+
+  @Output() mobileTapGesture = new EventEmitter<TapGestureEvent>();
+  @Output() tapStateChange = new EventEmitter<GestureStateChangeEvent<GestureEventDataMap['tap']>>();
+
+  protected getConfig(): GestureConfigMap['tap'] {
+    return {
+      ...this.baseConfig(),
+      numberOfTaps: this.numberOfTaps,
+      maxDurationMs: this.maxDurationMs,
+      maxDelayMs: this.maxDelayMs,
+      maxDist: this.maxDist,
+    };
+  }
+
+  protected onGestureStateChange(event: GestureStateChangeEvent<GestureEventDataMap['tap']>): void {
+    this.tapStateChange.emit(event);
+    if (event.nativeEvent.state === GestureState.Active) {
+      this.mobileTapGesture.emit(event);
+    }
+  }
+}
+
+/**
+ * Long Press Gesture Directive
+ *
+ * Emits once the touch has been held for `minDurationMs`.
+ *
+ * @example
+ * ```html
+ * <mobile-view (mobileLongPressGesture)="showMenu($event)" [minDurationMs]="800"></mobile-view>
+ * ```
+ */
+@Directive({
+  selector: '[mobileLongPressGesture]',
+  exportAs: 'mobileLongPressGesture',
+  standalone: true,
+})
+export class LongPressGestureDirective extends GestureDirective<'longPress'> {
+  protected readonly handlerType = 'longPress';
+
+  @Input() minDurationMs?: number;
+  @Input() maxDist?: number;
+
+  @Output() mobileLongPressGesture = new EventEmitter<LongPressGestureEvent>();
+  @Output() longPressStateChange = new EventEmitter<GestureStateChangeEvent<GestureEventDataMap['longPress']>>();
+
+  protected getConfig(): GestureConfigMap['longPress'] {
+    return { ...this.baseConfig(), minDurationMs: this.minDurationMs, maxDist: this.maxDist };
+  }
+
+  protected onGestureStateChange(event: GestureStateChangeEvent<GestureEventDataMap['longPress']>): void {
+    this.longPressStateChange.emit(event);
+    if (event.nativeEvent.state === GestureState.Active) {
+      this.mobileLongPressGesture.emit(event);
+    }
+  }
+}
+
+/**
+ * Pan Gesture Directive
+ *
+ * Emits every update while the pan is active. Updates can also drive
+ * animated values directly through `animatedPan`.
+ *
+ * @example
+ * ```typescript
+ * translateX = new Animated.Value(0);
+ * onPan = Animated.event<PanGestureEvent>([{ nativeEvent: { translationX: this.translateX } }]);
+ * ```
+ *
+ * ```html
+ * <mobile-view mobilePanGesture [animatedPan]="onPan" (panStateChange)="onPanStateChange($event)"></mobile-view>
+ * ```
+ */
+@Directive({
+  selector: '[mobilePanGesture]',
+  exportAs: 'mobilePanGesture',
+  standalone: true,
+})
+export class PanGestureDirective extends GestureDirective<'pan'> {
+  protected readonly handlerType = 'pan';
+
+  @Input() minDistance?: number;
+  @Input() minPointers?: number;
+  @Input() maxPointers?: number;
+
+  // Animation
+  @Input() animatedPan?: AnimatedEventHandler<PanGestureEvent>;
+
+  @Output() mobilePanGesture = new EventEmitter<PanGestureEvent>();
+  @Output() panStateChange = new EventEmitter<GestureStateChangeEvent<GestureEventDataMap['pan']>>();
+
+  protected getConfig(): GestureConfigMap['pan'] {
+    return {
+      ...this.baseConfig(),
+      minDistance: this.minDistance,
+      minPointers: this.minPointers,
+      maxPointers: this.maxPointers,
+    };
+  }
+
+  protected onGestureStateChange(event: GestureStateChangeEvent<GestureEventDataMap['pan']>): void {
+    this.panStateChange.emit(event);
+  }
+
+  protected override onGestureEvent(event: PanGestureEvent): void {
+    this.animatedPan?.(event);
+    this.mobilePanGesture.emit(event);
+  }
+}
+
+/**
+ * Pinch Gesture Directive
+ *
+ * Emits every update while the pinch is active (`scale` is relative to
+ * the distance between the fingers when it began).
+ *
+ * @example
+ * ```html
+ * <mobile-image
+ *   #pinch="mobilePinchGesture"
+ *   #rotation="mobileRotationGesture"
+ *   [simultaneousWith]="[pinch, rotation]"
+ *   (mobilePinchGesture)="onPinch($event)"
+ *   (mobileRotationGesture)="onRotate($event)">
+ * </mobile-image>
+ * ```
+ */
+@Directive({
+  selector: '[mobilePinchGesture]',
+  exportAs: 'mobilePinchGesture',
+  standalone: true,
+})
+export class PinchGestureDirective extends GestureDirective<'pinch'> {
+  protected readonly handlerType = 'pinch';
+
+  // Animation
+  @Input() animatedPinch?: AnimatedEventHandler<PinchGestureEvent>;
+
+  @Output() mobilePinchGesture = new EventEmitter<PinchGestureEvent>();
+  @Output() pinchStateChange = new EventEmitter<GestureStateChangeEvent<GestureEventDataMap['pinch']>>();
+
+  protected getConfig(): GestureConfigMap['pinch'] {
+    return this.baseConfig();
+  }
+
+  protected onGestureStateChange(event: GestureStateChangeEvent<GestureEventDataMap['pinch']>): void {
+    this.pinchStateChange.emit(event);
+  }
+
+  protected override onGestureEvent(event: PinchGestureEvent): void {
+    this.animatedPinch?.(event);
+    this.mobilePinchGesture.emit(event);
+  }
+}
+
+/**
+ * Rotation Gesture Directive
+ *
+ * Emits every update while the rotation is active (`rotation` is in
+ * radians, relative to the angle between the fingers when it began).
+ *
+ * @example
+ * ```html
+ * <mobile-image (mobileRotationGesture)="onRotate($event)"></mobile-image>
+ * ```
+ */
+@Directive({
+  selector: '[mobileRotationGesture]',
+  exportAs: 'mobileRotationGesture',
+  standalone: true,
+})
+export class RotationGestureDirective extends GestureDirective<'rotation'> {
+  protected readonly handlerType = 'rotation';
+
+  // Animation
+  @Input() animatedRotation?: AnimatedEventHandler<RotationGestureEvent>;
+
+  @Output() mobileRotationGesture = new EventEmitter<RotationGestureEvent>();
+  @Output() rotationStateChange = new EventEmitter<GestureStateChangeEvent<GestureEventDataMap['rotation']>>();
+
+  protected getConfig(): GestureConfigMap['rotation'] {
+    return this.baseConfig();
+  }
+
+  protected onGestureStateChange(event: GestureStateChangeEvent<GestureEventDataMap['rotation']>): void {
+    this.rotationStateChange.emit(event);
+  }
+
+  protected override onGestureEvent(event: RotationGestureEvent): void {
+    this.animatedRotation?.(event);
+    this.mobileRotationGesture.emit(event);
+  }
+}
@@ -0,0 +1,39 @@
+import { NgModule } from '@angular/core';
+import {
+  LongPressGestureDirective,
+  PanGestureDirective,
+  PinchGestureDirective,
+  RotationGestureDirective,
+  TapGestureDirective,
+} from './gesture.directives';
+
+/**
+ * All gesture directives for export
+ */
+const DIRECTIVES = [
+  TapGestureDirective,
+  LongPressGestureDirective,
+  PanGestureDirective,
+  PinchGestureDirective,
+  RotationGestureDirective,
+];
+
+/**
+ * Gestures Module
+ *
+ * Contains the gesture directives, which attach native gesture
+ * recognizers to the views they are placed on.
+ *
+ * @example
+ * ```typescript
+ * @NgModule({
+ *   imports: [ComponentsModule, GesturesModule]
+ * })
+ * export class FeatureModule {}
+ * ```
+ */
+@NgModule({
+  imports: DIRECTIVES,
+  exports: DIRECTIVES,
+})
+export class GesturesModule {}
@@ -81,11 +81,71 @@ export type {
   BridgeResponse,
   BridgeConfig,
   BridgeTransport,
+  BridgeRequestOptions,
+  BridgeReconnectConfig,
+  BridgeTrafficDirection,
+  BridgeTrafficListener,
 } from './core/bridge/native-bridge';
 
+export {
+  BridgeRecorder,
+  DevServerRecordingSink,
+  parseBridgeRecording,
+} from './core/bridge/bridge-recorder';
+
+export type {
+  BridgeRecordEntry,
+  BridgeRecordingSink,
+  BridgeRecorderConfig,
+  DevServerRecordingSinkConfig,
+} from './core/bridge/bridge-recorder';
+
+export {
+  CompactEncoder,
+  CompactDecoder,
+  COMPACT_ENCODING,
+} from './core/bridge/compact-codec';
+
+export type { BridgeEncoding } from './core/bridge/compact-codec';
+
+export {
+  BridgeTimeoutError,
+  BridgeDisconnectedError,
+  BridgeRemoteError,
+  BridgeProtocolMismatchError,
+  isRetryableBridgeError,
+} from './core/bridge/bridge-errors';
+
 export * from './core/bridge/bridge.service';
 export * from './core/bridge/message-queue';
 
+export {
+  BridgeValidationError,
+  BRIDGE_PROTOCOL_VERSION,
+  BRIDGE_CAPABILITIES,
+  LEGACY_BRIDGE_CAPABILITIES,
+  BRIDGE_PROTOCOL_SCHEMAS,
+  registerBridgeMessageSchema,
+  getBridgeMessageSchema,
+  validateOutgoingMessage,
+  validateIncomingResponse,
+  validateIncomingEvent,
+} from './core/bridge/bridge-protocol';
+
+export type {
+  BridgeMessageMap,
+  BridgeEventMap,
+  BridgeMessageType,
+  BridgeMessagePayload,
+  BridgeMessageResponse,
+  BridgeEventType,
+  BridgeFieldRule,
+  BridgeMessageSchema,
+  BridgeValidationDirection,
+  PlatformInfo,
+  BridgeHandshake,
+} from './core/bridge/bridge-protocol';
+
 // ============================================================================
 // Performance / Caching
 // ============================================================================
@@ -112,6 +172,19 @@ export { OptimizedRenderer, MobileViewType } from './core/runtime/optimized-rend
 export type { ViewProps as OptimizedViewProps } from './core/runtime/optimized-renderer';
 export * from './core/runtime/view-registry';
 
+export {
+  MobileRenderer,
+  MobileRendererFactory,
+  resolveViewType,
+} from './core/runtime/mobile-renderer';
+
+export type {
+  MobileElementNode,
+  MobileTextNode,
+  MobileCommentNode,
+  MobileRenderNode,
+} from './core/runtime/mobile-renderer';
+
 export {
   EventDispatcher,
   NativeEventTypes,
@@ -122,12 +195,78 @@ export type {
   NativeEvent as DispatcherNativeEvent,
 } from './core/runtime/event-dispatcher';
 
+// ============================================================================
+// Stylesheets
+// ============================================================================
+
+export * from './core/css/css-compiler';
+export * from './core/css/class-styles';
+export * from './core/validation/style-validator';
+
 // ============================================================================
 // Animation
 // ============================================================================
 
 export * from './core/animation/animated';
 export * from './core/animation/easing-lut';
+export * from './core/animation/native-animated';
+export * from './core/animation/reduced-motion';
+export { NativeAnimationDriver, NativeAnimationPlayer } from './core/animation/native-animation-driver';
+export { provideNativeAnimations } from './core/animation/provide-native-animations';
+export {
+  LayoutAnimation,
+  LAYOUT_ANIMATIONS_CAPABILITY,
+  getLayoutAnimationDuration,
+} from './core/animation/layout-animation';
+export type {
+  LayoutAnimationAnim,
+  LayoutAnimationConfig,
+  LayoutAnimationProperty,
+  LayoutAnimationType,
+} from './core/animation/layout-animation';
+
+// ============================================================================
+// Gestures
+// ============================================================================
+
+export * from './core/gestures/gesture-handler';
+
+// ============================================================================
+// Testing
+// ============================================================================
+
+export {
+  MockNativeRuntime,
+  MOCK_ROOT_CONTAINER_ID,
+} from './core/testing/mock-native-runtime';
+
+export type {
+  MockBridgeGlobal,
+  MockNativeView,
+  MockViewLayout,
+  MockRequestHandler,
+  MockNativeRuntimeConfig,
+  MockGestureHandler,
+} from './core/testing/mock-native-runtime';
+
+export {
+  TestRenderer,
+  createTestRenderer,
+  serializeViewTree,
+} from './core/testing/test-renderer';
+
+export type {
+  TestViewJSON,
+  TestRendererOptions,
+} from './core/testing/test-renderer';
+
+export { replayBridgeRecording } from './core/testing/bridge-replay';
+
+export type {
+  BridgeReplayTarget,
+  BridgeReplayOptions,
+  BridgeReplayResult,
+} from './core/testing/bridge-replay';
 
 // ============================================================================
 // Benchmarking (development only)
@@ -167,6 +306,13 @@ export * from './components/status-bar/status-bar.component';
 // Component Module
 export * from './components/components.module';
 
+// ============================================================================
+// Directives
+// ============================================================================
+
+export * from './directives/gestures/gesture.directives';
+export * from './directives/gestures/gestures.module';
+
 // ============================================================================
 // Services
 // ============================================================================
@@ -175,6 +321,7 @@ export * from './services/style.service';
 export * from './services/navigation.service';
 export * from './services/device.service';
 export * from './services/storage.service';
+export * from './services/theme.service';
 export * from './services/permissions.service';
 export * from './services/alert.service';
 export * from './services/linking.service';
@@ -216,6 +363,9 @@ export type { NativePropConfig, NativeEventConfig } from './decorators/native-pr
 // ============================================================================
 
 export * from './types/style.types';
+export * from './core/theme/dynamic-color';
+export * from './core/theme/color';
+export * from './core/responsive/media-query';
 export * from './types/event.types';
 
 export {
@@ -225,6 +375,7 @@ export {
   IOSPlatformInfo,
   DimensionSet,
   Dimensions,
+  AccessibilityInfo,
   EdgeInsets,
   KeyboardInfo,
   NetworkInfo,
@@ -73,13 +73,7 @@ export class AndroidPlatform extends BasePlatform {
 
     // Request initial platform info
     try {
-      const platformInfo = await this.bridge.request<{
-        os: PlatformOS;
-        constants: PlatformConstants;
-        dimensions: PlatformDimensions;
-        colorScheme: ColorScheme;
-        safeAreaInsets: SafeAreaInsets;
-      }>('getPlatformInfo', {});
+      const platformInfo = await this.bridge.request('getPlatformInfo', {});
 
       if (platformInfo) {
         this._os = platformInfo.os;
@@ -14,12 +14,63 @@ import {
   SafeAreaInsets,
 } from '../../core/platform/platform';
 import { NativeBridge } from '../../core/bridge/native-bridge';
+import { NativeAnimatedModule } from '../../core/animation/native-animated';
+import { setNativeAnimatedDriver } from '../../core/animation/animated';
+import { watchReduceMotion } from '../../core/animation/reduced-motion';
+import { watchMediaEnvironment } from '../../core/responsive/media-query';
+import { GestureHandlerModule } from '../../core/gestures/gesture-handler';
+import { StatusBarAnimation, StatusBarStyle } from '../../types/native.types';
 
 /**
  * iOS interface idiom types
  */
 export type IOSInterfaceIdiom = 'phone' | 'pad' | 'tv' | 'carPlay' | 'mac';
 
+/**
+ * Status bar appearance applied when the app starts
+ */
+export interface IOSStatusBarDefaults {
+  /** Bar content style */
+  style?: StatusBarStyle;
+  /** Whether the status bar starts hidden */
+  hidden?: boolean;
+  /** Transition used when the defaults are applied */
+  animation?: StatusBarAnimation;
+}
+
+/**
+ * Configuration options for the iOS platform
+ */
+export interface IOSPlatformConfig {
+  /** Enable debug mode with verbose logging */
+  debug?: boolean;
+  /** WebSocket port for bridge communication (development) */
+  bridgePort?: number;
+  /** Application bundle identifier */
+  bundleId?: string;
+  /** Minimum iOS version; bootstrapping on older versions fails */
+  minIOSVersion?: number;
+  /** Reload the app when the development server pushes a new bundle (ignored in production) */
+  hotReload?: boolean;
+  /** Status bar defaults applied at startup */
+  statusBar?: IOSStatusBarDefaults;
+}
+
+/**
+ * Default iOS platform configuration
+ */
+export const DEFAULT_IOS_CONFIG: IOSPlatformConfig = {
+  debug: false,
+  bridgePort: 8081,
+  minIOSVersion: 15,
+  hotReload: true,
+  statusBar: {
+    style: 'default',
+    hidden: false,
+    animation: 'none',
+  },
+};
+
 /**
  * iOS-specific platform implementation
  */
@@ -48,9 +99,76 @@ export class IOSPlatform extends BasePlatform {
     },
   };
 
+  private nativeAnimated: NativeAnimatedModule | null = null;
+  private gestureHandlers: GestureHandlerModule | null = null;
+  /** Stop the bridge listeners and watchers started by `initialize()` */
+  private readonly unwatchers: Array<() => void> = [];
+  private isInitialized = false;
+
   constructor(private readonly bridge: NativeBridge) {
     super();
-    void this.initializePlatform();
+  }
+
+  /**
+   * Connect to the native runtime, start the platform modules and load
+   * the device info
+   *
+   * Undone by `destroy()`, also when it fails halfway.
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    await this.bridge.connect();
+
+    // Let `useNativeDriver: true` animations run on the native side
+    this.nativeAnimated = new NativeAnimatedModule(this.bridge);
+    setNativeAnimatedDriver(this.nativeAnimated);
+    this.gestureHandlers = new GestureHandlerModule(this.bridge);
+    this.unwatchers.push(watchReduceMotion(this.bridge));
+    this.unwatchers.push(await watchMediaEnvironment(this.bridge));
+
+    await this.initializePlatform();
+    this.isInitialized = true;
+  }
+
+  /**
+   * Get the native animated module instance
+   */
+  getNativeAnimated(): NativeAnimatedModule {
+    if (!this.nativeAnimated) {
+      throw new Error('Platform not initialized');
+    }
+    return this.nativeAnimated;
+  }
+
+  /**
+   * Get the gesture handler module instance
+   */
+  getGestureHandlers(): GestureHandlerModule {
+    if (!this.gestureHandlers) {
+      throw new Error('Platform not initialized');
+    }
+    return this.gestureHandlers;
+  }
+
+  /**
+   * Release the platform modules and disconnect from the native runtime
+   */
+  async destroy(): Promise<void> {
+    if (this.nativeAnimated) {
+      setNativeAnimatedDriver(null);
+      this.nativeAnimated.dispose();
+      this.nativeAnimated = null;
+    }
+    if (this.gestureHandlers) {
+      this.gestureHandlers.dispose();
+      this.gestureHandlers = null;
+    }
+    this.unwatchers.splice(0).forEach((unwatch) => unwatch());
+    await this.bridge.disconnect();
+    this.isInitialized = false;
   }
 
   get OS(): PlatformOS {
@@ -98,27 +216,21 @@ export class IOSPlatform extends BasePlatform {
 
   private async initializePlatform(): Promise<void> {
     // Register for platform events
-    this.bridge.on('dimensionsChange', (dimensions: PlatformDimensions) => {
-      this.updateDimensions(dimensions);
-    });
-
-    this.bridge.on('appearanceChange', (data: { colorScheme: ColorScheme }) => {
-      this.updateColorScheme(data.colorScheme);
-    });
-
-    this.bridge.on('safeAreaInsetsChange', (insets: SafeAreaInsets) => {
-      this.updateSafeAreaInsets(insets);
-    });
+    this.unwatchers.push(
+      this.bridge.on('dimensionsChange', (dimensions: PlatformDimensions) => {
+        this.updateDimensions(dimensions);
+      }),
+      this.bridge.on('appearanceChange', (data: { colorScheme: ColorScheme }) => {
+        this.updateColorScheme(data.colorScheme);
+      }),
+      this.bridge.on('safeAreaInsetsChange', (insets: SafeAreaInsets) => {
+        this.updateSafeAreaInsets(insets);
+      })
+    );
 
     // Request initial platform info
     try {
-      const platformInfo = await this.bridge.request<{
-        os: PlatformOS;
-        constants: PlatformConstants;
-        dimensions: PlatformDimensions;
-        colorScheme: ColorScheme;
-        safeAreaInsets: SafeAreaInsets;
-      }>('getPlatformInfo', {});
+      const platformInfo = await this.bridge.request('getPlatformInfo', {});
 
       if (platformInfo) {
         this._os = platformInfo.os;
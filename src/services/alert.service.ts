@@ -55,7 +55,7 @@ export class AlertService {
 
     return new Promise((resolve) => {
       this.bridgeService
-        .request<{ buttonIndex: number }>('showAlert', {
+        .request('showAlert', {
           title,
           message,
           buttons: alertButtons.map((btn, index) => ({
@@ -118,7 +118,7 @@ export class AlertService {
       { text: 'OK' },
     ];
 
-    return this.bridgeService.request<PromptResult>('showPrompt', {
+    return this.bridgeService.request('showPrompt', {
       title,
       message,
       buttons: alertButtons.map((btn, index) => ({
@@ -154,7 +154,7 @@ export class AlertService {
     destructiveButtonIndex?: number;
     tintColor?: string;
   }): Promise<number> {
-    return this.bridgeService.request<number>('showActionSheet', {
+    return this.bridgeService.request('showActionSheet', {
       title: config.title,
       message: config.message,
       options: config.options,
@@ -174,7 +174,7 @@ export class AlertService {
     mode?: 'date' | 'time' | 'datetime';
   }): Promise<Date | null> {
     try {
-      const result = await this.bridgeService.request<{ timestamp: number } | null>(
+      const result = await this.bridgeService.request(
         'showDatePicker',
         {
           timestamp: (config?.date || new Date()).getTime(),
@@ -201,7 +201,7 @@ export class AlertService {
     const now = new Date();
 
     try {
-      return await this.bridgeService.request<{ hour: number; minute: number } | null>(
+      return await this.bridgeService.request(
         'showTimePicker',
         {
           hour: config?.hour ?? now.getHours(),
@@ -222,7 +222,7 @@ export class AlertService {
     items: string[];
     selectedIndex?: number;
   }): Promise<number> {
-    return this.bridgeService.request<number>('showSingleChoice', {
+    return this.bridgeService.request('showSingleChoice', {
       title: config.title,
       items: config.items,
       selectedIndex: config.selectedIndex ?? -1,
@@ -237,7 +237,7 @@ export class AlertService {
     items: string[];
     selectedIndices?: number[];
   }): Promise<number[]> {
-    return this.bridgeService.request<number[]>('showMultiChoice', {
+    return this.bridgeService.request('showMultiChoice', {
       title: config.title,
       items: config.items,
       selectedIndices: config.selectedIndices ?? [],
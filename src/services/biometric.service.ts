@@ -73,21 +73,21 @@ export class BiometricService {
    * Check if biometric authentication is available
    */
   async isAvailable(): Promise<boolean> {
-    return this.bridgeService.request<boolean>('biometricIsAvailable', {});
+    return this.bridgeService.request('biometricIsAvailable', {});
   }
 
   /**
    * Get the type of biometric authentication available
    */
   async getBiometricType(): Promise<BiometricType> {
-    return this.bridgeService.request<BiometricType>('getBiometricType', {});
+    return this.bridgeService.request('getBiometricType', {});
   }
 
   /**
    * Check if device has enrolled biometrics
    */
   async isEnrolled(): Promise<boolean> {
-    return this.bridgeService.request<boolean>('biometricIsEnrolled', {});
+    return this.bridgeService.request('biometricIsEnrolled', {});
   }
 
   /**
@@ -115,7 +115,7 @@ export class BiometricService {
     const mergedOptions = { ...defaultOptions, ...options };
 
     try {
-      const result = await this.bridgeService.request<BiometricResult>('biometricAuthenticate', mergedOptions);
+      const result = await this.bridgeService.request('biometricAuthenticate', mergedOptions);
       return result;
     } catch (error: unknown) {
       const err = error as { message?: string; code?: string };
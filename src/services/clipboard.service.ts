@@ -58,7 +58,7 @@ export class ClipboardService implements OnDestroy {
    */
   async getString(): Promise<string> {
     try {
-      const result = await this.bridgeService.request<{ text: string }>('getClipboardString', {});
+      const result = await this.bridgeService.request('getClipboardString', {});
       return result.text || '';
     } catch (error) {
       console.warn('[ClipboardService] Failed to get clipboard string:', error);
@@ -83,7 +83,7 @@ export class ClipboardService implements OnDestroy {
    */
   async getContent(): Promise<ClipboardContent> {
     try {
-      return await this.bridgeService.request<ClipboardContent>('getClipboardContent', {});
+      return await this.bridgeService.request('getClipboardContent', {});
     } catch (error) {
       console.warn('[ClipboardService] Failed to get clipboard content:', error);
       return {};
@@ -120,7 +120,7 @@ export class ClipboardService implements OnDestroy {
    */
   async hasContent(): Promise<boolean> {
     try {
-      const result = await this.bridgeService.request<{ hasContent: boolean }>(
+      const result = await this.bridgeService.request(
         'hasClipboardContent',
         {}
       );
@@ -135,7 +135,7 @@ export class ClipboardService implements OnDestroy {
    */
   async hasString(): Promise<boolean> {
     try {
-      const result = await this.bridgeService.request<{ hasString: boolean }>(
+      const result = await this.bridgeService.request(
         'hasClipboardString',
         {}
       );
@@ -150,7 +150,7 @@ export class ClipboardService implements OnDestroy {
    */
   async hasURL(): Promise<boolean> {
     try {
-      const result = await this.bridgeService.request<{ hasURL: boolean }>('hasClipboardURL', {});
+      const result = await this.bridgeService.request('hasClipboardURL', {});
       return result.hasURL;
     } catch {
       return false;
@@ -162,7 +162,7 @@ export class ClipboardService implements OnDestroy {
    */
   async getURL(): Promise<string | null> {
     try {
-      const result = await this.bridgeService.request<{ url: string | null }>(
+      const result = await this.bridgeService.request(
         'getClipboardURL',
         {}
       );
@@ -2,6 +2,7 @@ import { Injectable, OnDestroy } from '@angular/core';
 import { BehaviorSubject, Observable, Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import { BridgeService } from '../core/bridge/bridge.service';
+import { isReduceMotionEnabled, reduceMotionChanges } from '../core/animation/reduced-motion';
 import { Dimensions, EdgeInsets, NetworkInfo, KeyboardInfo } from '../types/native.types';
 
 /**
@@ -127,6 +128,20 @@ export class DeviceService implements OnDestroy {
     return this.colorScheme$.value;
   }
 
+  /**
+   * Get the reduce motion accessibility preference
+   */
+  get reduceMotion$Observable(): Observable<boolean> {
+    return reduceMotionChanges();
+  }
+
+  /**
+   * Check if the OS asks for reduced motion
+   */
+  get isReduceMotionEnabled(): boolean {
+    return isReduceMotionEnabled();
+  }
+
   /**
    * Get safe area insets
    */
@@ -184,7 +199,7 @@ export class DeviceService implements OnDestroy {
       return this.deviceInfo;
     }
 
-    this.deviceInfo = await this.bridgeService.request<DeviceInfo>('getDeviceInfo', {});
+    this.deviceInfo = await this.bridgeService.request('getDeviceInfo', {});
     return this.deviceInfo;
   }
 
@@ -256,7 +271,7 @@ export class DeviceService implements OnDestroy {
   private async initialize(): Promise<void> {
     // Get initial dimensions
     try {
-      const dims = await this.bridgeService.request<Dimensions>('getDimensions', {});
+      const dims = await this.bridgeService.request('getDimensions', {});
       this.dimensions$.next(dims);
       this.updateOrientation(dims.window.width, dims.window.height);
     } catch (error) {
@@ -113,7 +113,7 @@ export class HapticService {
    * Check if haptic feedback is available
    */
   async isAvailable(): Promise<boolean> {
-    return this.bridgeService.request<boolean>('hapticIsAvailable', {});
+    return this.bridgeService.request('hapticIsAvailable', {});
   }
 
   /**
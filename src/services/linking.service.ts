@@ -41,7 +41,7 @@ export class LinkingService implements OnDestroy {
   private async initialize(): Promise<void> {
     // Get initial URL
     try {
-      const url = await this.bridgeService.request<string | null>('getInitialURL', {});
+      const url = await this.bridgeService.request('getInitialURL', {});
       this.initialUrl$.next(url);
     } catch (error) {
       console.warn('[LinkingService] Failed to get initial URL');
@@ -89,7 +89,7 @@ export class LinkingService implements OnDestroy {
    */
   async canOpenURL(url: string): Promise<boolean> {
     try {
-      return await this.bridgeService.request<boolean>('canOpenURL', { url });
+      return await this.bridgeService.request('canOpenURL', { url });
     } catch {
       return false;
     }
@@ -100,7 +100,7 @@ export class LinkingService implements OnDestroy {
    */
   async getInitialURL(): Promise<string | null> {
     try {
-      return await this.bridgeService.request<string | null>('getInitialURL', {});
+      return await this.bridgeService.request('getInitialURL', {});
     } catch {
       return null;
     }
@@ -215,7 +215,7 @@ export class LinkingService implements OnDestroy {
    * Open the Play Store to a specific app
    */
   async openPlayStore(packageName?: string): Promise<void> {
-    const pkg = packageName || (await this.bridgeService.request<string>('getPackageName', {}));
+    const pkg = packageName || (await this.bridgeService.request('getPackageName', {}));
     await this.openURL(`market://details?id=${pkg}`);
   }
 
@@ -1,7 +1,18 @@
 import { Injectable } from '@angular/core';
 import { BridgeService } from '../core/bridge/bridge.service';
+import { BridgeRequestOptions } from '../core/bridge/native-bridge';
 import { AndroidPermission, PermissionStatus } from '../types/native.types';
 
+/**
+ * Status checks have no side effects, so they are retried after a reconnect
+ */
+const CHECK_OPTIONS: BridgeRequestOptions = { idempotent: true, retries: 2 };
+
+/**
+ * Permission prompts wait for the user, so they never time out
+ */
+const PROMPT_OPTIONS: BridgeRequestOptions = { timeoutMs: 0 };
+
 /**
  * Permission result
  */
@@ -30,9 +41,7 @@ export class PermissionsService {
    */
   async check(permission: AndroidPermission): Promise<PermissionStatus> {
     try {
-      const result = await this.bridgeService.request<PermissionResult>('checkPermission', {
-        permission,
-      });
+      const result = await this.bridgeService.request('checkPermission', { permission }, CHECK_OPTIONS);
       return result.status;
     } catch (error) {
       console.error(`[PermissionsService] Failed to check permission: ${permission}`, error);
@@ -45,9 +54,7 @@ export class PermissionsService {
    */
   async request(permission: AndroidPermission): Promise<PermissionStatus> {
     try {
-      const result = await this.bridgeService.request<PermissionResult>('requestPermission', {
-        permission,
-      });
+      const result = await this.bridgeService.request('requestPermission', { permission }, PROMPT_OPTIONS);
       return result.status;
     } catch (error) {
       console.error(`[PermissionsService] Failed to request permission: ${permission}`, error);
@@ -60,9 +67,7 @@ export class PermissionsService {
    */
   async checkMultiple(permissions: AndroidPermission[]): Promise<PermissionsResult> {
     try {
-      return await this.bridgeService.request<PermissionsResult>('checkMultiplePermissions', {
-        permissions,
-      });
+      return await this.bridgeService.request('checkMultiplePermissions', { permissions }, CHECK_OPTIONS);
     } catch (error) {
       console.error('[PermissionsService] Failed to check multiple permissions', error);
       const result: PermissionsResult = {};
@@ -78,9 +83,7 @@ export class PermissionsService {
    */
   async requestMultiple(permissions: AndroidPermission[]): Promise<PermissionsResult> {
     try {
-      return await this.bridgeService.request<PermissionsResult>('requestMultiplePermissions', {
-        permissions,
-      });
+      return await this.bridgeService.request('requestMultiplePermissions', { permissions }, PROMPT_OPTIONS);
     } catch (error) {
       console.error('[PermissionsService] Failed to request multiple permissions', error);
       const result: PermissionsResult = {};
@@ -103,9 +106,7 @@ export class PermissionsService {
    */
   async shouldShowRequestPermissionRationale(permission: AndroidPermission): Promise<boolean> {
     try {
-      return await this.bridgeService.request<boolean>('shouldShowRationale', {
-        permission,
-      });
+      return await this.bridgeService.request('shouldShowRationale', { permission }, CHECK_OPTIONS);
     } catch {
       return false;
     }
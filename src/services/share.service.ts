@@ -68,7 +68,7 @@ export class ShareService {
     }
 
     try {
-      return await this.bridgeService.request<ShareResult>('share', {
+      return await this.bridgeService.request('share', {
         content: {
           title: content.title,
           message: content.message,
@@ -101,7 +101,7 @@ export class ShareService {
    */
   async shareImage(content: ShareImageContent, options?: ShareOptions): Promise<ShareResult> {
     try {
-      return await this.bridgeService.request<ShareResult>('shareImage', {
+      return await this.bridgeService.request('shareImage', {
         content: {
           uri: content.uri,
           title: content.title,
@@ -133,7 +133,7 @@ export class ShareService {
    */
   async shareFile(content: ShareFileContent, options?: ShareOptions): Promise<ShareResult> {
     try {
-      return await this.bridgeService.request<ShareResult>('shareFile', {
+      return await this.bridgeService.request('shareFile', {
         content: {
           uri: content.uri,
           mimeType: content.mimeType || '*/*',
@@ -164,7 +164,7 @@ export class ShareService {
     options?: ShareOptions
   ): Promise<ShareResult> {
     try {
-      return await this.bridgeService.request<ShareResult>('shareMultiple', {
+      return await this.bridgeService.request('shareMultiple', {
         content: {
           uris: content.uris,
           mimeType: content.mimeType || '*/*',
@@ -187,7 +187,7 @@ export class ShareService {
    */
   async isShareAvailable(): Promise<boolean> {
     try {
-      return await this.bridgeService.request<boolean>('isShareAvailable', {});
+      return await this.bridgeService.request('isShareAvailable', {});
     } catch {
       return true; // Assume available on Android
     }
@@ -215,7 +215,7 @@ export class ShareService {
     content: ShareContent
   ): Promise<ShareResult> {
     try {
-      return await this.bridgeService.request<ShareResult>('shareToApp', {
+      return await this.bridgeService.request('shareToApp', {
         packageName,
         content: {
           title: content.title,
@@ -241,7 +241,7 @@ export class ShareService {
     attachments?: string[];
   }): Promise<ShareResult> {
     try {
-      return await this.bridgeService.request<ShareResult>('shareViaEmail', options);
+      return await this.bridgeService.request('shareViaEmail', options);
     } catch (error) {
       console.warn('[ShareService] Share via email failed:', error);
       return { action: 'dismissedAction' };
@@ -256,7 +256,7 @@ export class ShareService {
     message: string;
   }): Promise<ShareResult> {
     try {
-      return await this.bridgeService.request<ShareResult>('shareViaSms', options);
+      return await this.bridgeService.request('shareViaSms', options);
     } catch (error) {
       console.warn('[ShareService] Share via SMS failed:', error);
       return { action: 'dismissedAction' };
@@ -1,5 +1,11 @@
 import { Injectable } from '@angular/core';
 import { BridgeService } from '../core/bridge/bridge.service';
+import { BridgeRequestOptions } from '../core/bridge/native-bridge';
+
+/**
+ * Reads have no side effects, so they are retried after a reconnect
+ */
+const READ_OPTIONS: BridgeRequestOptions = { idempotent: true, retries: 2 };
 
 /**
  * Storage Service
@@ -21,7 +27,7 @@ export class StorageService {
     if (this.isInitialized) return;
 
     try {
-      const allItems = await this.bridgeService.request<Record<string, string>>('getAllStorageItems', {});
+      const allItems = await this.bridgeService.request('getAllStorageItems', {}, READ_OPTIONS);
 
       for (const [key, value] of Object.entries(allItems)) {
         try {
@@ -47,7 +53,7 @@ export class StorageService {
     }
 
     try {
-      const result = await this.bridgeService.request<string | null>('getStorageItem', { key });
+      const result = await this.bridgeService.request('getStorageItem', { key }, READ_OPTIONS);
 
       if (result === null) {
         return null;
@@ -112,7 +118,7 @@ export class StorageService {
    */
   async getAllKeys(): Promise<string[]> {
     try {
-      return await this.bridgeService.request<string[]>('getAllStorageKeys', {});
+      return await this.bridgeService.request('getAllStorageKeys', {}, READ_OPTIONS);
     } catch (error) {
       console.error('[StorageService] Failed to get all keys', error);
       return [];
@@ -124,9 +130,10 @@ export class StorageService {
    */
   async multiGet<T = unknown>(keys: string[]): Promise<Array<[string, T | null]>> {
     try {
-      const results = await this.bridgeService.request<Record<string, string | null>>(
+      const results = await this.bridgeService.request(
         'multiGetStorageItems',
-        { keys }
+        { keys },
+        READ_OPTIONS
       );
 
       return keys.map((key) => {
@@ -201,7 +208,7 @@ export class StorageService {
    */
   async getStorageSize(): Promise<number> {
     try {
-      return await this.bridgeService.request<number>('getStorageSize', {});
+      return await this.bridgeService.request('getStorageSize', {}, READ_OPTIONS);
     } catch {
       return 0;
     }
@@ -6,6 +6,13 @@ import {
   transformStyle,
   mergeStyles,
 } from '../types/style.types';
+import {
+  MediaQueryKey,
+  ResponsiveStyle,
+  isMediaQueryKey,
+  matchMediaQuery,
+  resolveMediaQueries,
+} from '../core/responsive/media-query';
 
 /**
  * Transformed style result type
@@ -43,11 +50,15 @@ export class StyleService {
    *   title: {
    *     fontSize: 24,
    *     fontWeight: 'bold',
+   *     '@media (min-width: 600)': { fontSize: 32 },
    *   },
    * });
    * ```
+   *
+   * `@media` blocks apply while the window matches them and are
+   * re-evaluated when the window dimensions or font scale change.
    */
-  create<T extends Record<string, NativeStyle>>(styles: T): T {
+  create<T extends Record<string, ResponsiveStyle<NativeStyle>>>(styles: T): T {
     const styleSheet = createStyleSheet(styles);
     const id = `stylesheet_${++this.styleIdCounter}`;
     this.registry.set(id, styleSheet);
@@ -114,6 +125,22 @@ export class StyleService {
     return result;
   }
 
+  /**
+   * Check if a media query (`'(min-width: 600)'` or `'@media (min-width: 600)'`)
+   * matches the current window
+   */
+  matchMedia(query: string): boolean {
+    const key: MediaQueryKey = isMediaQueryKey(query) ? query : `@media ${query}`;
+    return matchMediaQuery(key);
+  }
+
+  /**
+   * Apply the `@media` blocks of a style that match the current window
+   */
+  resolveResponsive<T extends NativeStyle>(style: ResponsiveStyle<T>): T {
+    return resolveMediaQueries(style);
+  }
+
   /**
    * Create responsive styles based on dimensions
    */
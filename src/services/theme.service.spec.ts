@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { NativeBridge } from '../core/bridge/native-bridge';
+import { BridgeService } from '../core/bridge/bridge.service';
+import { MockNativeRuntime } from '../core/testing/mock-native-runtime';
+import { getActiveColorScheme, setActiveColorScheme } from '../core/theme/dynamic-color';
+import { DeviceService } from './device.service';
+import { StorageService } from './storage.service';
+import { COLOR_SCHEME_PREFERENCE_KEY, DEFAULT_THEME_TOKENS, ThemeService, ThemeTokens } from './theme.service';
+
+const BRAND_TOKENS: ThemeTokens = {
+  ...DEFAULT_THEME_TOKENS,
+  colors: { ...DEFAULT_THEME_TOKENS.colors, primary: '#ff5722' },
+};
+
+describe('ThemeService', () => {
+  let runtime: MockNativeRuntime;
+  let bridge: NativeBridge;
+  let bridgeService: BridgeService;
+  let deviceService: DeviceService;
+  let storage: Map<string, string>;
+  let theme: ThemeService;
+
+  const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const setDeviceScheme = async (colorScheme: 'light' | 'dark'): Promise<void> => {
+    runtime.emit('colorSchemeChange', { colorScheme });
+    await settle();
+  };
+
+  const createThemeService = async (): Promise<ThemeService> => {
+    theme = new ThemeService(deviceService, new StorageService(bridgeService));
+    await settle();
+    return theme;
+  };
+
+  beforeEach(async () => {
+    storage = new Map();
+    runtime = new MockNativeRuntime().install();
+    runtime.onRequest('getDimensions', () => ({
+      window: { width: 400, height: 800, scale: 2, fontScale: 1 },
+      screen: { width: 400, height: 800, scale: 2, fontScale: 1 },
+    }));
+    runtime.onRequest('getStorageItem', ({ key }) => storage.get(String(key)) ?? null);
+    runtime.onRequest('setStorageItem', ({ key, value }) => {
+      storage.set(String(key), String(value));
+    });
+
+    bridge = new NativeBridge({ transport: 'native-android', platform: 'android' });
+    await bridge.connect();
+    bridgeService = new BridgeService(bridge);
+    deviceService = new DeviceService(bridgeService);
+    await settle();
+  });
+
+  afterEach(async () => {
+    theme.ngOnDestroy();
+    deviceService.ngOnDestroy();
+    bridgeService.ngOnDestroy();
+    await bridge.disconnect();
+    runtime.uninstall();
+    setActiveColorScheme('light');
+  });
+
+  describe('color scheme', () => {
+    it('should follow the device by default', async () => {
+      await createThemeService();
+      expect(theme.colorSchemePreference).toBe('system');
+
+      await setDeviceScheme('dark');
+      expect(theme.colorScheme).toBe('dark');
+      expect(getActiveColorScheme()).toBe('dark');
+
+      await setDeviceScheme('light');
+      expect(theme.colorScheme).toBe('light');
+    });
+
+    it('should force light or dark until set back to system', async () => {
+      await createThemeService();
+      await setDeviceScheme('dark');
+
+      await theme.setColorSchemePreference('light');
+      expect(theme.colorScheme).toBe('light');
+
+      await setDeviceScheme('light');
+      await theme.setColorSchemePreference('dark');
+      await setDeviceScheme('dark');
+      await setDeviceScheme('light');
+      expect(theme.colorScheme).toBe('dark');
+
+      await theme.setColorSchemePreference('system');
+      expect(theme.colorScheme).toBe('light');
+    });
+
+    it('should persist the preference', async () => {
+      await createThemeService();
+      await theme.setColorSchemePreference('dark');
+      await settle();
+
+      expect(storage.get(COLOR_SCHEME_PREFERENCE_KEY)).toBe('"dark"');
+    });
+
+    it('should restore the persisted preference', async () => {
+      storage.set(COLOR_SCHEME_PREFERENCE_KEY, '"dark"');
+      const preferences: string[] = [];
+
+      await createThemeService();
+      theme.colorSchemePreference$Observable.subscribe((preference) => preferences.push(preference));
+
+      expect(theme.colorSchemePreference).toBe('dark');
+      expect(theme.colorScheme).toBe('dark');
+      expect(preferences).toEqual(['dark']);
+    });
+
+    it('should ignore invalid persisted preferences', async () => {
+      storage.set(COLOR_SCHEME_PREFERENCE_KEY, '"sepia"');
+
+      await createThemeService();
+
+      expect(theme.colorSchemePreference).toBe('system');
+    });
+
+    it('should keep a preference set while the persisted one is restored', async () => {
+      storage.set(COLOR_SCHEME_PREFERENCE_KEY, '"dark"');
+
+      theme = new ThemeService(deviceService, new StorageService(bridgeService));
+      await theme.setColorSchemePreference('light');
+      await settle();
+
+      expect(theme.colorSchemePreference).toBe('light');
+      expect(theme.colorScheme).toBe('light');
+      expect(storage.get(COLOR_SCHEME_PREFERENCE_KEY)).toBe('"light"');
+    });
+  });
+
+  describe('themes', () => {
+    it('should start with the default theme', async () => {
+      await createThemeService();
+
+      expect(theme.theme).toEqual({ name: 'default', ...DEFAULT_THEME_TOKENS });
+      expect(theme.themeNames).toEqual(['default']);
+    });
+
+    it('should switch between registered themes', async () => {
+      await createThemeService();
+      const names: string[] = [];
+      theme.theme$Observable.subscribe((active) => names.push(active.name));
+
+      theme.registerTheme('brand', BRAND_TOKENS);
+      expect(theme.themeNames).toEqual(['default', 'brand']);
+      expect(theme.theme.name).toBe('default');
+
+      theme.setTheme('brand');
+      theme.setTheme('brand');
+      expect(theme.theme).toEqual({ name: 'brand', ...BRAND_TOKENS });
+      expect(theme.createStyles((tokens) => ({ button: { color: tokens.colors['primary'] } }))).toEqual({
+        button: { color: '#ff5722' },
+      });
+      expect(names).toEqual(['default', 'brand']);
+    });
+
+    it('should update the active theme when it is registered again', async () => {
+      await createThemeService();
+      theme.registerTheme('brand', DEFAULT_THEME_TOKENS);
+      theme.setTheme('brand');
+
+      theme.registerTheme('brand', BRAND_TOKENS);
+
+      expect(theme.theme.colors['primary']).toBe('#ff5722');
+    });
+
+    it('should reject unknown themes', async () => {
+      await createThemeService();
+
+      expect(() => theme.setTheme('missing')).toThrow('[ThemeService] Unknown theme: missing');
+      expect(theme.theme.name).toBe('default');
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { ENVIRONMENT_INITIALIZER, Injectable, OnDestroy, Provider, inject } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, combineLatest } from 'rxjs';
+import { map, takeUntil } from 'rxjs/operators';
+import { DeviceService } from './device.service';
+import { StorageService } from './storage.service';
+import { ColorValue, TextStyle, createStyleSheet } from '../types/style.types';
+import {
+  ActiveColorScheme,
+  activeColorSchemeChanges,
+  dynamicColor,
+  getActiveColorScheme,
+  setActiveColorScheme,
+} from '../core/theme/dynamic-color';
+
+/**
+ * App-level color scheme override
+ */
+export type ColorSchemePreference = 'light' | 'dark' | 'system';
+
+/**
+ * Design tokens of a theme
+ */
+export interface ThemeTokens {
+  colors: Record<string, ColorValue>;
+  spacing: Record<string, number>;
+  typography: Record<string, TextStyle>;
+  radii: Record<string, number>;
+}
+
+/**
+ * Registered theme
+ */
+export interface Theme extends ThemeTokens {
+  readonly name: string;
+}
+
+/**
+ * Storage key of the color scheme override
+ */
+export const COLOR_SCHEME_PREFERENCE_KEY = 'theme.colorSchemePreference';
+
+/**
+ * Tokens of the `default` theme
+ */
+export const DEFAULT_THEME_TOKENS: ThemeTokens = {
+  colors: {
+    primary: dynamicColor({ light: '#007AFF', dark: '#0A84FF' }),
+    background: dynamicColor({ light: '#FFFFFF', dark: '#000000' }),
+    surface: dynamicColor({ light: '#F2F2F7', dark: '#1C1C1E' }),
+    text: dynamicColor({ light: '#000000', dark: '#FFFFFF' }),
+    textSecondary: dynamicColor({ light: '#6C6C70', dark: '#AEAEB2' }),
+    border: dynamicColor({ light: '#C6C6C8', dark: '#38383A' }),
+    error: dynamicColor({ light: '#FF3B30', dark: '#FF453A' }),
+    success: dynamicColor({ light: '#34C759', dark: '#30D158' }),
+  },
+  spacing: { xs: 4, sm: 8, md: 16, lg: 24, xl: 32 },
+  typography: {
+    title: { fontSize: 28, fontWeight: 'bold' },
+    heading: { fontSize: 20, fontWeight: '600' },
+    body: { fontSize: 16 },
+    caption: { fontSize: 12 },
+  },
+  radii: { sm: 4, md: 8, lg: 16, full: 9999 },
+};
+
+function isColorSchemePreference(value: unknown): value is ColorSchemePreference {
+  return value === 'light' || value === 'dark' || value === 'system';
+}
+
+/**
+ * Theme Service
+ *
+ * Holds the named themes of the app and decides which color scheme
+ * dynamic colors resolve against: the device appearance, unless the app
+ * forces light or dark. The override is persisted in storage.
+ *
+ * Styles built from `dynamicColor` tokens follow scheme changes on their
+ * own; styles built from another theme's tokens need to be re-created
+ * after `setTheme` (see `theme$Observable`).
+ *
+ * @example
+ * ```typescript
+ * const styles = themeService.createStyles((theme) => ({
+ *   card: {
+ *     backgroundColor: theme.colors['surface'],
+ *     padding: theme.spacing['md'],
+ *     borderRadius: theme.radii['md'],
+ *   },
+ * }));
+ *
+ * await themeService.setColorSchemePreference('dark');
+ * ```
+ */
+@Injectable()
+export class ThemeService implements OnDestroy {
+  private readonly destroy$ = new Subject<void>();
+  private readonly themes = new Map<string, ThemeTokens>([['default', DEFAULT_THEME_TOKENS]]);
+  private readonly theme$ = new BehaviorSubject<Theme>({ name: 'default', ...DEFAULT_THEME_TOKENS });
+  private readonly preference$ = new BehaviorSubject<ColorSchemePreference>('system');
+  private preferenceChanged = false;
+
+  constructor(
+    private readonly deviceService: DeviceService,
+    private readonly storageService: StorageService
+  ) {
+    combineLatest([this.deviceService.colorScheme$Observable, this.preference$])
+      .pipe(
+        map(([device, preference]) => (preference === 'system' ? device : preference)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((colorScheme) => setActiveColorScheme(colorScheme));
+
+    void this.restorePreference();
+  }
+
+  /**
+   * Get the active theme
+   */
+  get theme$Observable(): Observable<Theme> {
+    return this.theme$.asObservable();
+  }
+
+  /**
+   * Get the current active theme
+   */
+  get theme(): Theme {
+    return this.theme$.value;
+  }
+
+  /**
+   * Get the names of the registered themes
+   */
+  get themeNames(): string[] {
+    return Array.from(this.themes.keys());
+  }
+
+  /**
+   * Get the color scheme dynamic colors resolve against
+   */
+  get colorScheme$Observable(): Observable<ActiveColorScheme> {
+    return activeColorSchemeChanges().pipe(takeUntil(this.destroy$));
+  }
+
+  /**
+   * Get the current color scheme dynamic colors resolve against
+   */
+  get colorScheme(): ActiveColorScheme {
+    return getActiveColorScheme();
+  }
+
+  /**
+   * Get the app-level color scheme override
+   */
+  get colorSchemePreference$Observable(): Observable<ColorSchemePreference> {
+    return this.preference$.asObservable();
+  }
+
+  /**
+   * Get the current app-level color scheme override
+   */
+  get colorSchemePreference(): ColorSchemePreference {
+    return this.preference$.value;
+  }
+
+  /**
+   * Register a theme, replacing any theme with the same name
+   */
+  registerTheme(name: string, tokens: ThemeTokens): void {
+    this.themes.set(name, tokens);
+
+    if (this.theme$.value.name === name) {
+      this.theme$.next({ name, ...tokens });
+    }
+  }
+
+  /**
+   * Make a registered theme the active one
+   */
+  setTheme(name: string): void {
+    const tokens = this.themes.get(name);
+    if (!tokens) {
+      throw new Error(`[ThemeService] Unknown theme: ${name}`);
+    }
+
+    if (this.theme$.value.name !== name) {
+      this.theme$.next({ name, ...tokens });
+    }
+  }
+
+  /**
+   * Force light or dark, or follow the device (`'system'`), and persist the choice
+   */
+  async setColorSchemePreference(preference: ColorSchemePreference): Promise<void> {
+    this.preferenceChanged = true;
+    this.preference$.next(preference);
+
+    try {
+      await this.storageService.setItem(COLOR_SCHEME_PREFERENCE_KEY, preference);
+    } catch (error) {
+      console.warn('[ThemeService] Failed to persist color scheme preference:', error);
+    }
+  }
+
+  /**
+   * Create a style sheet from the tokens of the active theme
+   */
+  createStyles<T extends Record<string, TextStyle>>(factory: (theme: Theme) => T): T {
+    return createStyleSheet(factory(this.theme$.value));
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Restore the persisted override unless it was already changed
+   */
+  private async restorePreference(): Promise<void> {
+    const stored = await this.storageService.getItem<unknown>(COLOR_SCHEME_PREFERENCE_KEY);
+
+    if (!this.preferenceChanged && isColorSchemePreference(stored)) {
+      this.preference$.next(stored);
+    }
+  }
+}
+
+/**
+ * Create the ThemeService with the application
+ *
+ * Otherwise it only exists once a component injects it, and until then
+ * dynamic colors resolve against `'light'` whatever the device scheme
+ * or persisted override.
+ */
+export function provideThemeInitializer(): Provider {
+  return { provide: ENVIRONMENT_INITIALIZER, multi: true, useValue: () => inject(ThemeService) };
+}
@@ -302,6 +302,48 @@ export interface RotationGestureEventNativeData {
  */
 export type RotationGestureEvent = BaseNativeEvent<RotationGestureEventNativeData>;
 
+/**
+ * Tap gesture event data
+ */
+export interface TapGestureEventNativeData {
+  x: number;
+  y: number;
+  absoluteX: number;
+  absoluteY: number;
+  numberOfPointers: number;
+  state: GestureState;
+}
+
+/**
+ * Tap gesture event
+ */
+export type TapGestureEvent = BaseNativeEvent<TapGestureEventNativeData>;
+
+/**
+ * Long press gesture event data
+ */
+export interface LongPressGestureEventNativeData {
+  x: number;
+  y: number;
+  absoluteX: number;
+  absoluteY: number;
+  /** Time since the touch began, in milliseconds */
+  duration: number;
+  state: GestureState;
+}
+
+/**
+ * Long press gesture event
+ */
+export type LongPressGestureEvent = BaseNativeEvent<LongPressGestureEventNativeData>;
+
+/**
+ * Gesture state change event (gesture data plus the previous state)
+ */
+export type GestureStateChangeEvent<T extends { state: GestureState } = { state: GestureState }> = BaseNativeEvent<
+  T & { oldState: GestureState }
+>;
+
 /**
  * Create a synthetic native event
  */
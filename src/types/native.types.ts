@@ -79,6 +79,13 @@ export interface Dimensions {
   screen: DimensionSet;
 }
 
+/**
+ * Accessibility settings of the device
+ */
+export interface AccessibilityInfo {
+  reduceMotionEnabled: boolean;
+}
+
 /**
  * Edge insets (safe area)
  */
@@ -3,9 +3,12 @@ import {
   createStyleSheet,
   transformStyle,
   mergeStyles,
+  parseTransform,
+  formatTransform,
   ViewStyle,
   TextStyle,
 } from './style.types';
+import { dynamicColor } from '../core/theme/dynamic-color';
 
 describe('Style Types', () => {
   describe('createStyleSheet', () => {
@@ -128,6 +131,16 @@ describe('Style Types', () => {
       expect(Array.isArray(transformed.transform)).toBe(true);
       expect(transformed.transform).toHaveLength(3);
     });
+
+    it('should resolve dynamic colors against the color scheme', () => {
+      const style: TextStyle = {
+        color: dynamicColor({ light: '#000000', dark: '#ffffff' }),
+        backgroundColor: '#808080',
+      };
+
+      expect(transformStyle(style)).toEqual({ color: 0xff000000, backgroundColor: 0xff808080 });
+      expect(transformStyle(style, 'dark')).toEqual({ color: 0xffffffff, backgroundColor: 0xff808080 });
+    });
   });
 
   describe('mergeStyles', () => {
@@ -168,4 +181,35 @@ describe('Style Types', () => {
       expect(merged.fontWeight).toBe('bold');
     });
   });
+
+  describe('parseTransform', () => {
+    it('should parse CSS transform functions', () => {
+      expect(parseTransform('translateY(20px) scale(0.5) rotate(45deg)')).toEqual([
+        { translateY: 20 },
+        { scale: 0.5 },
+        { rotate: '45deg' },
+      ]);
+      expect(parseTransform('none')).toEqual([]);
+    });
+
+    it('should split two-axis functions', () => {
+      expect(parseTransform('translate(10px, -4px) scale(2, 3) skew(10deg)')).toEqual([
+        { translateX: 10 },
+        { translateY: -4 },
+        { scaleX: 2 },
+        { scaleY: 3 },
+        { skewX: '10deg' },
+        { skewY: '0deg' },
+      ]);
+    });
+
+    it('should reject unsupported functions', () => {
+      expect(() => parseTransform('matrix(1, 0, 0, 1, 0, 0)')).toThrow(/Unsupported transform function "matrix"/);
+    });
+
+    it('should format entries back to CSS', () => {
+      expect(formatTransform([{ translateX: 10 }, { rotate: '90deg' }])).toBe('translateX(10px) rotate(90deg)');
+      expect(formatTransform([])).toBe('none');
+    });
+  });
 });
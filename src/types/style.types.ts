@@ -3,6 +3,20 @@
  * Similar to React Native's StyleSheet but optimized for Angular
  */
 
+import {
+  ActiveColorScheme,
+  DynamicColor,
+  getActiveColorScheme,
+  isDynamicColor,
+} from '../core/theme/dynamic-color';
+import { COLOR_STYLE_PROPERTIES, PlatformColor, normalizeColor } from '../core/theme/color';
+import {
+  MediaEnvironment,
+  getMediaEnvironment,
+  hasMediaQueries,
+  resolveMediaQueries,
+} from '../core/responsive/media-query';
+
 /**
  * Flexbox alignment values
  */
@@ -56,9 +70,10 @@ export type ResizeModeType = 'cover' | 'contain' | 'stretch' | 'repeat' | 'cente
 export type DimensionValue = number | `${number}%` | 'auto';
 
 /**
- * Color value (hex, rgb, rgba, or named color)
+ * Color value (hex, rgb(a), hsl(a) or named color), a dynamic color
+ * that follows the active color scheme, or a native system color
  */
-export type ColorValue = string;
+export type ColorValue = string | DynamicColor | PlatformColor;
 
 /**
  * Shadow style for Android elevation
@@ -89,6 +104,24 @@ export interface TransformStyle {
   skewY?: string;
 }
 
+/**
+ * Transform functions, sent as entries of the `transform` array
+ */
+export const TRANSFORM_PROPERTIES: ReadonlySet<string> = new Set<keyof TransformStyle>([
+  'perspective',
+  'rotate',
+  'rotateX',
+  'rotateY',
+  'rotateZ',
+  'scale',
+  'scaleX',
+  'scaleY',
+  'translateX',
+  'translateY',
+  'skewX',
+  'skewY',
+]);
+
 /**
  * Layout style properties (Flexbox)
  */
@@ -242,15 +275,34 @@ export function createStyleSheet<T extends Record<string, NativeStyle>>(styles:
 
 /**
  * Transform style object to Android-compatible format
+ *
+ * `@media` blocks apply when they match `environment` and dynamic colors
+ * resolve against `colorScheme` (defaults: the current ones). Colors are
+ * sent as packed ARGB integers (see `parseColor`).
  */
-export function transformStyle(style: NativeStyle): Record<string, unknown> {
+export function transformStyle(
+  style: NativeStyle,
+  colorScheme: ActiveColorScheme = getActiveColorScheme(),
+  environment: MediaEnvironment = getMediaEnvironment()
+): Record<string, unknown> {
   const transformed: Record<string, unknown> = {};
+  const source = hasMediaQueries(style) ? resolveMediaQueries(style, environment) : style;
 
-  for (const [key, value] of Object.entries(style)) {
+  for (const [key, value] of Object.entries(source)) {
     if (value === undefined || value === null) {
       continue;
     }
 
+    if (COLOR_STYLE_PROPERTIES.has(key)) {
+      transformed[key] = normalizeColor(isDynamicColor(value) ? value.dynamic[colorScheme] : value);
+      continue;
+    }
+
+    if (isDynamicColor(value)) {
+      transformed[key] = value.dynamic[colorScheme];
+      continue;
+    }
+
     // Handle transform array
     if (key === 'transform' && Array.isArray(value)) {
       transformed[key] = value.map((t) => {
@@ -335,3 +387,88 @@ export function mergeStyles(...styles: (NativeStyle | undefined | null | false)[
 
   return merged;
 }
+
+/**
+ * Transform functions whose arguments are lengths
+ */
+const LENGTH_TRANSFORMS = new Set(['translateX', 'translateY', 'perspective']);
+
+/**
+ * Parse a CSS transform string into transform entries
+ *
+ * Two-axis functions are split per axis (`translate(10px, 20px)` gives
+ * `translateX` and `translateY`); `none` gives no entries.
+ *
+ * @example
+ * ```typescript
+ * parseTransform('translateY(20px) scale(0.5) rotate(45deg)');
+ * // [{ translateY: 20 }, { scale: 0.5 }, { rotate: '45deg' }]
+ * ```
+ */
+export function parseTransform(value: string): TransformStyle[] {
+  const source = value.trim();
+  if (source === '' || source === 'none') {
+    return [];
+  }
+
+  const transforms: TransformStyle[] = [];
+  const length = (arg: string): number => parseFloat(arg);
+  const angle = (arg: string): string => (/^-?[\d.]+$/.test(arg) ? `${arg}deg` : arg);
+
+  for (const [, name, rawArgs] of source.matchAll(/([a-zA-Z0-9]+)\(([^)]*)\)/g)) {
+    const args = rawArgs.trim().split(/\s*,\s*|\s+/);
+
+    switch (name) {
+      case 'translate':
+      case 'translate3d':
+        transforms.push({ translateX: length(args[0]) }, { translateY: length(args[1] ?? '0') });
+        break;
+      case 'translateX':
+      case 'translateY':
+      case 'perspective':
+        transforms.push({ [name]: length(args[0]) });
+        break;
+      case 'scale':
+      case 'scale3d':
+        if (args.length > 1 && args[1] !== args[0]) {
+          transforms.push({ scaleX: Number(args[0]) }, { scaleY: Number(args[1]) });
+        } else {
+          transforms.push({ scale: Number(args[0]) });
+        }
+        break;
+      case 'scaleX':
+      case 'scaleY':
+        transforms.push({ [name]: Number(args[0]) });
+        break;
+      case 'skew':
+        transforms.push({ skewX: angle(args[0]) }, { skewY: angle(args[1] ?? '0') });
+        break;
+      case 'rotate':
+      case 'rotateX':
+      case 'rotateY':
+      case 'rotateZ':
+      case 'skewX':
+      case 'skewY':
+        transforms.push({ [name]: angle(args[0]) });
+        break;
+      default:
+        throw new Error(`[Style] Unsupported transform function "${name}" in "${value}"`);
+    }
+  }
+
+  return transforms;
+}
+
+/**
+ * Format transform entries as a CSS transform string
+ */
+export function formatTransform(transforms: TransformStyle[]): string {
+  if (transforms.length === 0) {
+    return 'none';
+  }
+
+  return transforms
+    .flatMap((transform) => Object.entries(transform))
+    .map(([name, value]) => `${name}(${LENGTH_TRANSFORMS.has(name) ? `${value}px` : value})`)
+    .join(' ');
+}
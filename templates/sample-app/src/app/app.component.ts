@@ -11,6 +11,7 @@ import {
   ToastService,
   AlertService,
   StyleService,
+  dynamicColor,
 } from 'angular-platform-mobile';
 
 // Screen components
@@ -109,7 +110,7 @@ export class AppComponent {
   styles = {
     container: {
       flex: 1,
-      backgroundColor: '#F5F5F5',
+      backgroundColor: dynamicColor({ light: '#F5F5F5', dark: '#000000' }),
     },
     header: {
       backgroundColor: '#1976D2',
@@ -127,9 +128,9 @@ export class AppComponent {
     },
     bottomNav: {
       flexDirection: 'row' as const,
-      backgroundColor: '#FFFFFF',
+      backgroundColor: dynamicColor({ light: '#FFFFFF', dark: '#1C1C1E' }),
       borderTopWidth: 1,
-      borderTopColor: '#E0E0E0',
+      borderTopColor: dynamicColor({ light: '#E0E0E0', dark: '#38383A' }),
       paddingVertical: 8,
       elevation: 8,
     },
@@ -144,13 +145,13 @@ export class AppComponent {
       alignItems: 'center' as const,
       justifyContent: 'center' as const,
       paddingVertical: 8,
-      backgroundColor: '#E3F2FD',
+      backgroundColor: dynamicColor({ light: '#E3F2FD', dark: '#0D2B45' }),
       borderRadius: 8,
       marginHorizontal: 4,
     },
     tabText: {
       fontSize: 12,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
     },
     tabTextActive: {
       fontSize: 12,
@@ -1,4 +1,5 @@
 import { Component, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormsModule } from '@angular/forms';
 import {
   ViewComponent,
@@ -13,6 +14,8 @@ import {
   ImageComponent,
   ToastService,
   AlertService,
+  ThemeService,
+  dynamicColor,
 } from 'angular-platform-mobile';
 
 @Component({
@@ -245,10 +248,10 @@ export class ComponentsScreenComponent {
   styles = {
     container: {
       flex: 1,
-      backgroundColor: '#F5F5F5',
+      backgroundColor: dynamicColor({ light: '#F5F5F5', dark: '#000000' }),
     },
     section: {
-      backgroundColor: '#FFFFFF',
+      backgroundColor: dynamicColor({ light: '#FFFFFF', dark: '#1C1C1E' }),
       marginHorizontal: 12,
       marginTop: 12,
       borderRadius: 12,
@@ -257,7 +260,7 @@ export class ComponentsScreenComponent {
     sectionTitle: {
       fontSize: 16,
       fontWeight: 'bold' as const,
-      color: '#333333',
+      color: dynamicColor({ light: '#333333', dark: '#FFFFFF' }),
       marginBottom: 12,
     },
     row: {
@@ -279,9 +282,9 @@ export class ComponentsScreenComponent {
       fontWeight: 'bold' as const,
     },
     input: {
-      backgroundColor: '#F5F5F5',
+      backgroundColor: dynamicColor({ light: '#F5F5F5', dark: '#2C2C2E' }),
       borderWidth: 1,
-      borderColor: '#E0E0E0',
+      borderColor: dynamicColor({ light: '#E0E0E0', dark: '#38383A' }),
       borderRadius: 8,
       paddingHorizontal: 16,
       paddingVertical: 12,
@@ -289,9 +292,9 @@ export class ComponentsScreenComponent {
       marginBottom: 12,
     },
     multilineInput: {
-      backgroundColor: '#F5F5F5',
+      backgroundColor: dynamicColor({ light: '#F5F5F5', dark: '#2C2C2E' }),
       borderWidth: 1,
-      borderColor: '#E0E0E0',
+      borderColor: dynamicColor({ light: '#E0E0E0', dark: '#38383A' }),
       borderRadius: 8,
       paddingHorizontal: 16,
       paddingVertical: 12,
@@ -305,14 +308,14 @@ export class ComponentsScreenComponent {
       alignItems: 'center' as const,
       paddingVertical: 8,
       borderBottomWidth: 1,
-      borderBottomColor: '#F0F0F0',
+      borderBottomColor: dynamicColor({ light: '#F0F0F0', dark: '#38383A' }),
     },
     sliderContainer: {
       marginTop: 12,
     },
     label: {
       fontSize: 16,
-      color: '#333333',
+      color: dynamicColor({ light: '#333333', dark: '#FFFFFF' }),
     },
     indicatorRow: {
       flexDirection: 'row' as const,
@@ -325,14 +328,21 @@ export class ComponentsScreenComponent {
     indicatorLabel: {
       marginTop: 8,
       fontSize: 12,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
     },
   };
 
   constructor(
     private readonly toast: ToastService,
-    private readonly alert: AlertService
-  ) {}
+    private readonly alert: AlertService,
+    private readonly theme: ThemeService
+  ) {
+    theme.colorSchemePreference$Observable
+      .pipe(takeUntilDestroyed())
+      .subscribe((preference) => {
+        this.darkMode = preference === 'dark';
+      });
+  }
 
   onButtonPress(name: string): void {
     this.toast.short(`${name} button pressed!`);
@@ -342,7 +352,8 @@ export class ComponentsScreenComponent {
     console.log('Text changed:', text);
   }
 
-  onSwitchChange(value: boolean): void {
+  async onSwitchChange(value: boolean): Promise<void> {
+    await this.theme.setColorSchemePreference(value ? 'dark' : 'system');
     this.toast.short(`Dark mode: ${value ? 'enabled' : 'disabled'}`);
   }
 
@@ -7,6 +7,7 @@ import {
   ScrollViewComponent,
   TouchableComponent,
   ToastService,
+  dynamicColor,
 } from 'angular-platform-mobile';
 
 @Component({
@@ -167,7 +168,7 @@ export class HomeScreenComponent {
     sectionTitle: {
       fontSize: 18,
       fontWeight: 'bold' as const,
-      color: '#333333',
+      color: dynamicColor({ light: '#333333', dark: '#FFFFFF' }),
       marginBottom: 12,
     },
     cardRow: {
@@ -176,7 +177,7 @@ export class HomeScreenComponent {
     },
     card: {
       flex: 1,
-      backgroundColor: '#FFFFFF',
+      backgroundColor: dynamicColor({ light: '#FFFFFF', dark: '#1C1C1E' }),
       borderRadius: 12,
       padding: 16,
       marginHorizontal: 4,
@@ -190,17 +191,17 @@ export class HomeScreenComponent {
     cardTitle: {
       fontSize: 14,
       fontWeight: 'bold' as const,
-      color: '#333333',
+      color: dynamicColor({ light: '#333333', dark: '#FFFFFF' }),
     },
     cardDescription: {
       fontSize: 12,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
       textAlign: 'center' as const,
       marginTop: 4,
     },
     featureItem: {
       flexDirection: 'row' as const,
-      backgroundColor: '#FFFFFF',
+      backgroundColor: dynamicColor({ light: '#FFFFFF', dark: '#1C1C1E' }),
       borderRadius: 8,
       padding: 12,
       marginBottom: 8,
@@ -216,11 +217,11 @@ export class HomeScreenComponent {
     featureTitle: {
       fontSize: 14,
       fontWeight: 'bold' as const,
-      color: '#333333',
+      color: dynamicColor({ light: '#333333', dark: '#FFFFFF' }),
     },
     featureDescription: {
       fontSize: 12,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
       marginTop: 2,
     },
     ctaSection: {
@@ -8,6 +8,7 @@ import {
   ToastService,
   ShareService,
   ClipboardService,
+  dynamicColor,
 } from 'angular-platform-mobile';
 
 @Component({
@@ -126,10 +127,10 @@ export class ProfileScreenComponent {
   styles = {
     container: {
       flex: 1,
-      backgroundColor: '#F5F5F5',
+      backgroundColor: dynamicColor({ light: '#F5F5F5', dark: '#000000' }),
     },
     header: {
-      backgroundColor: '#FFFFFF',
+      backgroundColor: dynamicColor({ light: '#FFFFFF', dark: '#1C1C1E' }),
       alignItems: 'center' as const,
       paddingVertical: 24,
       paddingHorizontal: 16,
@@ -150,12 +151,12 @@ export class ProfileScreenComponent {
     name: {
       fontSize: 22,
       fontWeight: 'bold' as const,
-      color: '#333333',
+      color: dynamicColor({ light: '#333333', dark: '#FFFFFF' }),
       marginTop: 12,
     },
     email: {
       fontSize: 14,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
       marginTop: 4,
     },
     statsRow: {
@@ -170,27 +171,27 @@ export class ProfileScreenComponent {
     statValue: {
       fontSize: 20,
       fontWeight: 'bold' as const,
-      color: '#333333',
+      color: dynamicColor({ light: '#333333', dark: '#FFFFFF' }),
     },
     statLabel: {
       fontSize: 12,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
       marginTop: 2,
     },
     statDivider: {
       width: 1,
       height: '100%' as const,
-      backgroundColor: '#E0E0E0',
+      backgroundColor: dynamicColor({ light: '#E0E0E0', dark: '#38383A' }),
     },
     section: {
-      backgroundColor: '#FFFFFF',
+      backgroundColor: dynamicColor({ light: '#FFFFFF', dark: '#1C1C1E' }),
       marginTop: 12,
       paddingVertical: 8,
     },
     sectionTitle: {
       fontSize: 14,
       fontWeight: 'bold' as const,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
       paddingHorizontal: 16,
       paddingVertical: 8,
     },
@@ -209,16 +210,16 @@ export class ProfileScreenComponent {
     },
     menuTitle: {
       fontSize: 16,
-      color: '#333333',
+      color: dynamicColor({ light: '#333333', dark: '#FFFFFF' }),
     },
     menuDescription: {
       fontSize: 12,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
       marginTop: 2,
     },
     menuArrow: {
       fontSize: 24,
-      color: '#BDBDBD',
+      color: dynamicColor({ light: '#BDBDBD', dark: '#636366' }),
     },
   };
 
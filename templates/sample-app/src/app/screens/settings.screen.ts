@@ -1,4 +1,5 @@
 import { Component } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormsModule } from '@angular/forms';
 import {
   ViewComponent,
@@ -10,6 +11,8 @@ import {
   AlertService,
   LinkingService,
   StorageService,
+  ThemeService,
+  dynamicColor,
 } from 'angular-platform-mobile';
 
 @Component({
@@ -33,7 +36,7 @@ import {
           <android-view [style]="styles.settingContent">
             <android-text [style]="styles.settingTitle">Dark Mode</android-text>
             <android-text [style]="styles.settingDescription">
-              Enable dark theme across the app
+              Use the dark theme regardless of the system setting
             </android-text>
           </android-view>
           <android-switch
@@ -196,17 +199,17 @@ export class SettingsScreenComponent {
   styles = {
     container: {
       flex: 1,
-      backgroundColor: '#F5F5F5',
+      backgroundColor: dynamicColor({ light: '#F5F5F5', dark: '#000000' }),
     },
     section: {
-      backgroundColor: '#FFFFFF',
+      backgroundColor: dynamicColor({ light: '#FFFFFF', dark: '#1C1C1E' }),
       marginTop: 12,
       paddingVertical: 8,
     },
     sectionTitle: {
       fontSize: 14,
       fontWeight: 'bold' as const,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
       paddingHorizontal: 16,
       paddingVertical: 8,
     },
@@ -216,18 +219,18 @@ export class SettingsScreenComponent {
       paddingHorizontal: 16,
       paddingVertical: 12,
       borderBottomWidth: 1,
-      borderBottomColor: '#F0F0F0',
+      borderBottomColor: dynamicColor({ light: '#F0F0F0', dark: '#38383A' }),
     },
     settingContent: {
       flex: 1,
     },
     settingTitle: {
       fontSize: 16,
-      color: '#333333',
+      color: dynamicColor({ light: '#333333', dark: '#FFFFFF' }),
     },
     settingDescription: {
       fontSize: 12,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
       marginTop: 2,
     },
     menuItem: {
@@ -251,7 +254,7 @@ export class SettingsScreenComponent {
     },
     menuTitle: {
       fontSize: 16,
-      color: '#333333',
+      color: dynamicColor({ light: '#333333', dark: '#FFFFFF' }),
     },
     menuTitleDanger: {
       fontSize: 16,
@@ -259,12 +262,12 @@ export class SettingsScreenComponent {
     },
     menuDescription: {
       fontSize: 12,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
       marginTop: 2,
     },
     menuArrow: {
       fontSize: 24,
-      color: '#BDBDBD',
+      color: dynamicColor({ light: '#BDBDBD', dark: '#636366' }),
     },
     aboutItem: {
       flexDirection: 'row' as const,
@@ -272,15 +275,15 @@ export class SettingsScreenComponent {
       paddingHorizontal: 16,
       paddingVertical: 12,
       borderBottomWidth: 1,
-      borderBottomColor: '#F0F0F0',
+      borderBottomColor: dynamicColor({ light: '#F0F0F0', dark: '#38383A' }),
     },
     aboutLabel: {
       fontSize: 14,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
     },
     aboutValue: {
       fontSize: 14,
-      color: '#333333',
+      color: dynamicColor({ light: '#333333', dark: '#FFFFFF' }),
     },
     footer: {
       alignItems: 'center' as const,
@@ -288,11 +291,11 @@ export class SettingsScreenComponent {
     },
     footerText: {
       fontSize: 12,
-      color: '#757575',
+      color: dynamicColor({ light: '#757575', dark: '#8E8E93' }),
     },
     footerSubtext: {
       fontSize: 12,
-      color: '#BDBDBD',
+      color: dynamicColor({ light: '#BDBDBD', dark: '#636366' }),
       marginTop: 4,
     },
   };
@@ -301,11 +304,22 @@ export class SettingsScreenComponent {
     private readonly toast: ToastService,
     private readonly alert: AlertService,
     private readonly linking: LinkingService,
-    private readonly storage: StorageService
-  ) {}
+    private readonly storage: StorageService,
+    private readonly theme: ThemeService
+  ) {
+    theme.colorSchemePreference$Observable
+      .pipe(takeUntilDestroyed())
+      .subscribe((preference) => {
+        this.settings.darkMode = preference === 'dark';
+      });
+  }
 
   async onSettingChange(setting: string, value: boolean): Promise<void> {
-    await this.storage.setItem(`setting_${setting}`, value);
+    if (setting === 'darkMode') {
+      await this.theme.setColorSchemePreference(value ? 'dark' : 'system');
+    } else {
+      await this.storage.setItem(`setting_${setting}`, value);
+    }
     this.toast.short(`${setting} ${value ? 'enabled' : 'disabled'}`);
   }
 
@@ -350,6 +364,7 @@ export class SettingsScreenComponent {
         soundEffects: true,
       };
       await this.storage.clear();
+      await this.theme.setColorSchemePreference('system');
       this.toast.success('Settings reset to defaults!');
     }
   }